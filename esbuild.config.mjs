@@ -11,6 +11,75 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === "production");
 
+const wasmPlugin = {
+	name: 'wasm-plugin',
+	setup(build) {
+		// Embed WASM files as base64 strings
+		build.onLoad({ filter: /\.wasm$/ }, async (args) => {
+			const fs = await import('fs');
+			const wasmBuffer = await fs.promises.readFile(args.path);
+			const base64 = wasmBuffer.toString('base64');
+			return {
+				contents: `
+					const wasmBase64 = "${base64}";
+					const wasmBuffer = Uint8Array.from(atob(wasmBase64), c => c.charCodeAt(0));
+					export default wasmBuffer;
+				`,
+				loader: 'js'
+			};
+		});
+	}
+};
+
+// Obsidian's API only exists on the main thread. Worker code never calls it,
+// but modules it shares with the plugin still import it.
+const workerObsidianPlugin = {
+	name: 'worker-obsidian',
+	setup(build) {
+		build.onResolve({ filter: /^obsidian$/ }, () => ({ path: 'obsidian', namespace: 'worker-obsidian' }));
+		build.onLoad({ filter: /.*/, namespace: 'worker-obsidian' }, () => ({
+			contents: `
+				export class Notice { constructor(message) { console.warn(message); } }
+				export function requestUrl() { throw new Error('requestUrl is not available in a worker'); }
+			`,
+			loader: 'js'
+		}));
+	}
+};
+
+// `import source from 'worker:./entry'` bundles the entry separately and inlines it as a string
+const workerPlugin = {
+	name: 'worker-plugin',
+	setup(build) {
+		build.onResolve({ filter: /^worker:/ }, async (args) => {
+			const path = await import('path');
+			return { path: path.resolve(args.resolveDir, args.path.slice('worker:'.length) + '.ts'), namespace: 'worker' };
+		});
+		build.onLoad({ filter: /.*/, namespace: 'worker' }, async (args) => {
+			const result = await esbuild.build({
+				entryPoints: [args.path],
+				bundle: true,
+				write: false,
+				metafile: true,
+				format: "iife",
+				platform: "browser",
+				// sql.js only requires these when it detects Node.js
+				external: ["fs", "path", "crypto"],
+				target: "es2020",
+				plugins: [wasmPlugin, workerObsidianPlugin],
+				sourcemap: prod ? false : "inline",
+				treeShaking: true,
+				minify: prod,
+			});
+			return {
+				contents: `export default ${JSON.stringify(result.outputFiles[0].text)};`,
+				loader: 'js',
+				watchFiles: Object.keys(result.metafile?.inputs ?? {})
+			};
+		});
+	}
+};
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
@@ -35,27 +104,7 @@ const context = await esbuild.context({
 	loader: {
 		// Disable default WASM loader to let our plugin handle it
 	},
-	plugins: [
-		{
-			name: 'wasm-plugin',
-			setup(build) {
-				// Embed WASM files as base64 strings
-				build.onLoad({ filter: /\.wasm$/ }, async (args) => {
-					const fs = await import('fs');
-					const wasmBuffer = await fs.promises.readFile(args.path);
-					const base64 = wasmBuffer.toString('base64');
-					return {
-						contents: `
-							const wasmBase64 = "${base64}";
-							const wasmBuffer = Uint8Array.from(atob(wasmBase64), c => c.charCodeAt(0));
-							export default wasmBuffer;
-						`,
-						loader: 'js'
-					};
-				});
-			}
-		}
-	],
+	plugins: [wasmPlugin, workerPlugin],
 	format: "cjs",
 	target: "es2020",
 	logLevel: "info",
@@ -0,0 +1,129 @@
+import { Block, BlockType } from './note_processor';
+
+// Block types that can be indexed for search; the rest (rules, frontmatter, embeds...) only describe structure
+export const INDEXABLE_BLOCK_TYPES: BlockType[] = [
+    BlockType.PARAGRAPH,
+    BlockType.HEADING,
+    BlockType.LIST,
+    BlockType.BLOCKQUOTE,
+    BlockType.CODE,
+    BlockType.TABLE,
+    BlockType.CALLOUT,
+    BlockType.MATH,
+    BlockType.FOOTNOTE
+];
+
+export const DEFAULT_INDEXED_BLOCK_TYPES: BlockType[] = [...INDEXABLE_BLOCK_TYPES];
+
+// Indexed for full-text search only: LaTeX source means little to an embedding model
+export const FTS_ONLY_BLOCK_TYPES: BlockType[] = [BlockType.MATH];
+
+export const BLOCK_TYPE_LABELS: Partial<Record<BlockType, string>> = {
+    [BlockType.PARAGRAPH]: 'Paragraphs',
+    [BlockType.HEADING]: 'Headings',
+    [BlockType.LIST]: 'Lists',
+    [BlockType.BLOCKQUOTE]: 'Quotes',
+    [BlockType.CODE]: 'Code blocks',
+    [BlockType.TABLE]: 'Tables',
+    [BlockType.CALLOUT]: 'Callouts',
+    [BlockType.MATH]: 'Math',
+    [BlockType.FOOTNOTE]: 'Footnotes'
+};
+
+/**
+ * Whether blocks of a type get vectors, given the types indexed in settings
+ */
+export function isEmbeddedBlockType(type: BlockType, indexedTypes: BlockType[]): boolean {
+    return indexedTypes.includes(type) && !FTS_ONLY_BLOCK_TYPES.includes(type);
+}
+
+/**
+ * Language and body of a fenced code block; indented code blocks have no language
+ */
+export function parseCodeBlock(content: string): { language: string; code: string } {
+    const fenced = content.match(/^\s{0,3}(`{3,}|~{3,})([^\n]*)\n?([\s\S]*?)(?:\n\s{0,3}\1[`~]*\s*)?$/);
+    if (fenced) {
+        return { language: fenced[2].trim().split(/\s+/)[0] ?? '', code: fenced[3] };
+    }
+    return { language: '', code: content.replace(/^( {4}|\t)/gm, '') };
+}
+
+/**
+ * Cells of a Markdown table, header row first; the delimiter row is dropped
+ */
+export function parseTable(content: string): string[][] {
+    return content.split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0 && !/^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/.test(line))
+        // Escaped pipes are cell text, not separators
+        .map(line => line
+            .replace(/\\\|/g, '\u0000')
+            .replace(/^\|/, '')
+            .replace(/\|$/, '')
+            .split('|')
+            .map(cell => cell.trim().replace(/\u0000/g, '|')));
+}
+
+/**
+ * Callout kind, title and body, without the `>` markers. A callout without a title is titled by its kind.
+ */
+export function parseCallout(content: string): { kind: string; title: string; body: string } {
+    const lines = content.split('\n').map(line => line.replace(/^\s{0,3}>\s?/, ''));
+    const header = lines[0].match(/^\[!([^\]]+)\][+-]?\s*(.*)$/);
+    const kind = header ? header[1].trim().toLowerCase() : 'note';
+    const title = header && header[2].trim() ? header[2].trim() : kind.charAt(0).toUpperCase() + kind.slice(1);
+    return { kind, title, body: lines.slice(header ? 1 : 0).join('\n').trim() };
+}
+
+/**
+ * LaTeX source of a math block, without its `$$` delimiters
+ */
+export function mathSource(content: string): string {
+    return content.trim().replace(/^\$\$/, '').replace(/\$\$$/, '').trim();
+}
+
+/**
+ * Text of a footnote definition, without its `[^label]:` marker
+ */
+export function footnoteText(content: string): string {
+    return content.replace(/^\s{0,3}\[\^[^\]]+\]:\s*/, '').replace(/^ {4}/gm, '').trim();
+}
+
+/**
+ * Table rows as `Header: cell` pairs, one row per line, so each value is read next to its column name
+ */
+function linearizeTable(content: string): string {
+    const [header = [], ...rows] = parseTable(content);
+    if (rows.length === 0) return header.join('; ');
+    return rows
+        .map(row => row
+            .map((cell, i) => !cell ? '' : header[i] ? `${header[i]}: ${cell}` : cell)
+            .filter(cell => cell.length > 0)
+            .join('; '))
+        .join('\n');
+}
+
+/**
+ * Text a block is indexed under, for embedding and full-text search alike. Prose blocks are indexed
+ * as written; structured blocks are rewritten into something closer to prose.
+ */
+export function blockIndexText(block: Pick<Block, 'type' | 'content'>): string {
+    switch (block.type) {
+        case BlockType.CODE: {
+            const { language, code } = parseCodeBlock(block.content);
+            return language ? `Code (${language}):\n${code}` : `Code:\n${code}`;
+        }
+        case BlockType.TABLE:
+            return linearizeTable(block.content);
+        case BlockType.CALLOUT: {
+            const { title, body } = parseCallout(block.content);
+            return body ? `${title}\n\n${body}` : title;
+        }
+        case BlockType.MATH:
+            return mathSource(block.content);
+        case BlockType.FOOTNOTE:
+            return footnoteText(block.content);
+        default:
+            return block.content;
+    }
+}
@@ -1,15 +1,13 @@
 // We'll load tiktoken with WASM binary directly
 import { Plugin } from 'obsidian';
+import { ChunkingStrategy, ChunkingStrategyType, MarkdownChunkingStrategy, TextChunk, TokenWindowChunkingStrategy, Tokenizer } from './chunking_strategy';
+import type { NewChunk } from './database_service';
 import { Logger } from './logger';
+import { Block, positionAt } from './note_processor';
 import type { Tiktoken } from 'tiktoken';
 import { get_encoding } from 'tiktoken';
 
-export interface TextChunk {
-    text: string;
-    startIndex: number;
-    endIndex: number;
-    tokenCount: number;
-}
+export type { TextChunk };
 
 export class ChunkingService {
     private encoder: Tiktoken | null = null;
@@ -17,12 +15,24 @@ export class ChunkingService {
     private readonly overlap: number;
     private plugin: Plugin;
     private logger: Logger;
+    private strategy: ChunkingStrategy;
 
-    constructor(chunkSize: number = 128, overlap: number = 16, plugin: Plugin, logger: Logger) {
+    constructor(
+        chunkSize: number = 128,
+        overlap: number = 16,
+        plugin: Plugin,
+        logger: Logger,
+        strategy: ChunkingStrategyType = ChunkingStrategyType.TOKEN
+    ) {
         this.chunkSize = chunkSize;
         this.overlap = overlap; // Overlap between chunks to maintain context
         this.plugin = plugin;
         this.logger = logger;
+        const strategies: Record<ChunkingStrategyType, ChunkingStrategy> = {
+            [ChunkingStrategyType.TOKEN]: new TokenWindowChunkingStrategy(logger),
+            [ChunkingStrategyType.MARKDOWN]: new MarkdownChunkingStrategy(logger)
+        };
+        this.strategy = strategies[strategy];
     }
 
     private async ensureEncoder(): Promise<void> {
@@ -41,80 +51,75 @@ export class ChunkingService {
     }
 
     /**
-     * Split text into chunks based on token count
+     * Split text into chunks of at most `chunkSize` tokens with the configured strategy
      */
-    async chunkText(text: string): Promise<TextChunk[]> {
+    async chunkText(text: string, chunkSize: number = this.chunkSize, overlap: number = this.overlap): Promise<TextChunk[]> {
+        const tokenizer = await this.getTokenizer();
+        const chunks = this.strategy.chunk(text, tokenizer, chunkSize, overlap);
+
+        if (chunks.length > 1) {
+            this.logger.info('ChunkingService', `Created ${chunks.length} chunks for text (${text.length} characters)`);
+        }
+        return chunks;
+    }
+
+    private async getTokenizer(): Promise<Tokenizer> {
         await this.ensureEncoder();
-        
-        // Encode the entire text to get tokens
-        if (!this.encoder) {
+        const encoder = this.encoder;
+        if (!encoder) {
             throw new Error('Encoder not initialized');
         }
-        const tokens = this.encoder.encode(text);
-        
-        if (tokens.length <= this.chunkSize) {
-            // Text is small enough to fit in one chunk
-            return [{
-                text,
-                startIndex: 0,
-                endIndex: text.length,
-                tokenCount: tokens.length
-            }];
-        }
-
-        const chunks: TextChunk[] = [];
-        let startTokenIndex = 0;
-        
-        // Calculate scaling factor: characters per token (approximate)
-        const charToTokenRatio = text.length / tokens.length;
 
-        while (startTokenIndex < tokens.length) {
-            // Calculate end token index for this chunk
-            const endTokenIndex = Math.min(startTokenIndex + this.chunkSize, tokens.length);
-            
-            // Extract tokens for this chunk
-            const chunkTokens = tokens.slice(startTokenIndex, endTokenIndex);
-            
-            // Decode tokens back to text
-            // Note: In browser environments, tiktoken.decode() may return Uint8Array instead of string
-            if (!this.encoder) {
-                throw new Error('Encoder not initialized');
-            }
-            const decoded = this.encoder.decode(chunkTokens);
-            let chunkText: string;
-            
-            if (decoded instanceof Uint8Array) {
-                // Convert UTF-8 bytes to string
-                chunkText = new TextDecoder().decode(decoded);
-            } else if (typeof decoded === 'string') {
-                // Already a string
-                chunkText = decoded;
-            } else {
-                // Unexpected type - fallback with warning
+        return {
+            encode: text => encoder.encode(text),
+            decode: tokens => {
+                // In browser environments, tiktoken.decode() may return UTF-8 bytes instead of a string
+                const decoded: unknown = encoder.decode(tokens);
+                if (decoded instanceof Uint8Array) {
+                    return new TextDecoder().decode(decoded);
+                }
+                if (typeof decoded === 'string') {
+                    return decoded;
+                }
                 this.logger.warn('ChunkingService', `Unexpected decode result type: ${typeof decoded}`, decoded);
-                chunkText = String(decoded);
+                return String(decoded);
             }
-            
-            this.logger.debug('ChunkingService', `Chunk ${chunks.length} (${chunkTokens.length} tokens):`, chunkText);
-            
-            // Approximate character positions based on token positions
-            const startCharIndex = Math.round(startTokenIndex * charToTokenRatio);
-            const endCharIndex = Math.round(endTokenIndex * charToTokenRatio);
-            
-            chunks.push({
-                text: chunkText,
-                startIndex: startCharIndex,
-                endIndex: endCharIndex,
-                tokenCount: chunkTokens.length
-            });
+        };
+    }
 
-            // Move to next chunk with overlap
-            // Ensure we always advance by at least 1 to prevent infinite loops
-            const advance = Math.max(1, this.chunkSize - this.overlap);
-            startTokenIndex += advance;
+    /**
+     * Chunks of a text longer than `tokenLimit` tokens, or none if the model can embed it whole.
+     * Chunks never exceed the limit, even if the chunk size setting is larger.
+     */
+    async chunkOversizedText(text: string, tokenLimit: number): Promise<TextChunk[]> {
+        if (await this.getTokenCount(text) <= tokenLimit) {
+            return [];
         }
+        const chunkSize = Math.min(this.chunkSize, tokenLimit);
+        return this.chunkText(text, chunkSize, Math.min(this.overlap, chunkSize - 1));
+    }
 
-        this.logger.info('ChunkingService', `Created ${chunks.length} chunks for text (${tokens.length} tokens)`);
+    /**
+     * Chunks of a note's text and of the given blocks that are longer than `tokenLimit` tokens,
+     * positioned within the note. Block chunks are tied to the block's id.
+     */
+    async chunkNote(content: string, blocks: Block[], tokenLimit: number): Promise<NewChunk[]> {
+        const chunks: NewChunk[] = [];
+        const addChunks = async (text: string, offset: number, blockId?: string) => {
+            const textChunks = await this.chunkOversizedText(text, tokenLimit);
+            textChunks.forEach((chunk, index) => chunks.push({
+                chunk_index: index,
+                text: chunk.text,
+                block_id: blockId,
+                start_position: positionAt(content, offset + chunk.startIndex),
+                end_position: positionAt(content, offset + chunk.endIndex)
+            }));
+        };
+
+        await addChunks(content, 0);
+        for (const block of blocks) {
+            await addChunks(block.content, block.start_position.offset, block.id);
+        }
         return chunks;
     }
 
@@ -0,0 +1,275 @@
+import { Logger } from './logger';
+
+export enum ChunkingStrategyType {
+    TOKEN = 'token',
+    MARKDOWN = 'markdown'
+}
+
+export interface TextChunk {
+    text: string;
+    startIndex: number; // Offset of the chunk's first character in the chunked text
+    endIndex: number; // Offset just past its last character
+    tokenCount: number;
+}
+
+// Token ids of the loaded encoder; decode returns the text they stand for
+export interface Tokenizer {
+    encode(text: string): Uint32Array;
+    decode(tokens: Uint32Array): string;
+}
+
+/**
+ * Splits text into chunks of at most `chunkSize` tokens, consecutive chunks sharing about
+ * `overlap` tokens. Every chunk's text is the source text between its start and end index.
+ */
+export interface ChunkingStrategy {
+    readonly type: ChunkingStrategyType;
+
+    chunk(text: string, tokenizer: Tokenizer, chunkSize: number, overlap: number): TextChunk[];
+}
+
+// Decoding a window that starts or ends inside a multi-byte character leaves replacement characters
+const PARTIAL_CHARACTER = /^\uFFFD+|\uFFFD+$/g;
+
+/**
+ * Fixed windows of tokens, regardless of the text's structure
+ */
+export class TokenWindowChunkingStrategy implements ChunkingStrategy {
+    readonly type = ChunkingStrategyType.TOKEN;
+    private logger: Logger;
+
+    constructor(logger: Logger) {
+        this.logger = logger;
+    }
+
+    chunk(text: string, tokenizer: Tokenizer, chunkSize: number, overlap: number): TextChunk[] {
+        const tokens = tokenizer.encode(text);
+
+        if (tokens.length <= chunkSize) {
+            // Text is small enough to fit in one chunk
+            return [{
+                text,
+                startIndex: 0,
+                endIndex: text.length,
+                tokenCount: tokens.length
+            }];
+        }
+
+        const chunks: TextChunk[] = [];
+        let startTokenIndex = 0;
+        let searchFrom = 0;
+
+        // Characters per token, for windows that can't be found in the source text
+        const charToTokenRatio = text.length / tokens.length;
+
+        while (startTokenIndex < tokens.length) {
+            const endTokenIndex = Math.min(startTokenIndex + chunkSize, tokens.length);
+            const chunkTokens = tokens.slice(startTokenIndex, endTokenIndex);
+            const decoded = tokenizer.decode(chunkTokens);
+
+            this.logger.debug('ChunkingStrategy', `Chunk ${chunks.length} (${chunkTokens.length} tokens):`, decoded);
+
+            // Windows decode back to the exact source text, less any character split at their edges
+            const chunkText = decoded.replace(PARTIAL_CHARACTER, '');
+            const foundIndex = chunkText ? text.indexOf(chunkText, searchFrom) : -1;
+            const startIndex = foundIndex >= 0 ? foundIndex : Math.round(startTokenIndex * charToTokenRatio);
+            const endIndex = foundIndex >= 0 ? foundIndex + chunkText.length : Math.round(endTokenIndex * charToTokenRatio);
+            // Overlapping chunks start after the previous one's start, never before it
+            searchFrom = Math.min(startIndex + 1, text.length);
+
+            chunks.push({
+                text: foundIndex >= 0 ? chunkText : decoded,
+                startIndex,
+                endIndex,
+                tokenCount: chunkTokens.length
+            });
+
+            // Ensure we always advance by at least 1 to prevent infinite loops
+            startTokenIndex += Math.max(1, chunkSize - overlap);
+        }
+
+        return chunks;
+    }
+}
+
+type UnitKind = 'heading' | 'sentence' | 'item' | 'code';
+
+// Smallest piece of Markdown a chunk boundary may fall around
+type Unit = {
+    kind: UnitKind;
+    start: number;
+    end: number;
+};
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})/;
+const HEADING = /^\s{0,3}#{1,6}(\s|$)/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+/;
+// End of a sentence: terminal punctuation, closing quotes or brackets, then whitespace or the end
+const SENTENCE_END = /[.!?]+["'”’)\]*_]*(?=\s|$)/g;
+
+/**
+ * Chunks along Markdown structure: headings start a new chunk, and chunks end between
+ * sentences, list items and code blocks rather than inside them. A single unit larger than
+ * a chunk falls back to token windows.
+ */
+export class MarkdownChunkingStrategy implements ChunkingStrategy {
+    readonly type = ChunkingStrategyType.MARKDOWN;
+    private fallback: TokenWindowChunkingStrategy;
+
+    constructor(logger: Logger) {
+        this.fallback = new TokenWindowChunkingStrategy(logger);
+    }
+
+    chunk(text: string, tokenizer: Tokenizer, chunkSize: number, overlap: number): TextChunk[] {
+        const totalTokens = tokenizer.encode(text).length;
+        if (totalTokens <= chunkSize) {
+            return [{ text, startIndex: 0, endIndex: text.length, tokenCount: totalTokens }];
+        }
+
+        const chunks: TextChunk[] = [];
+        let current: { unit: Unit; tokens: number }[] = [];
+        let currentTokens = 0;
+        let carried = 0; // Units at the start of `current` repeated from the previous chunk
+
+        const flush = (keepOverlap: boolean) => {
+            if (current.length > carried) {
+                const start = current[0].unit.start;
+                const end = current[current.length - 1].unit.end;
+                const chunkText = text.substring(start, end);
+                chunks.push({ text: chunkText, startIndex: start, endIndex: end, tokenCount: tokenizer.encode(chunkText).length });
+            }
+
+            // Repeat the trailing units that fit in the overlap at the start of the next chunk
+            let kept = 0;
+            let keptTokens = 0;
+            while (keepOverlap && kept < current.length && keptTokens + current[current.length - 1 - kept].tokens <= overlap) {
+                keptTokens += current[current.length - 1 - kept].tokens;
+                kept++;
+            }
+            current = kept > 0 ? current.slice(current.length - kept) : [];
+            currentTokens = keptTokens;
+            carried = kept;
+        };
+
+        let previousEnd = 0;
+        for (const unit of this.segment(text)) {
+            // Count the whitespace before a unit with it, so chunk token counts add up
+            const tokens = tokenizer.encode(text.substring(previousEnd, unit.end)).length;
+            previousEnd = unit.end;
+
+            if (unit.kind === 'heading') {
+                flush(false);
+            }
+
+            if (tokens > chunkSize) {
+                flush(false);
+                for (const window of this.fallback.chunk(text.substring(unit.start, unit.end), tokenizer, chunkSize, overlap)) {
+                    chunks.push({ ...window, startIndex: unit.start + window.startIndex, endIndex: unit.start + window.endIndex });
+                }
+                continue;
+            }
+
+            if (currentTokens + tokens > chunkSize) {
+                flush(true);
+                // Drop the overlap rather than overflow the chunk
+                if (currentTokens + tokens > chunkSize) {
+                    current = [];
+                    currentTokens = 0;
+                    carried = 0;
+                }
+            }
+
+            current.push({ unit, tokens });
+            currentTokens += tokens;
+        }
+        flush(false);
+
+        return chunks;
+    }
+
+    /**
+     * Headings, list items, fenced code blocks and the sentences of every other paragraph, in order
+     */
+    private segment(text: string): Unit[] {
+        const units: Unit[] = [];
+        let offset = 0;
+        // Paragraph or list item still collecting lines; paragraphs are split into sentences when they end
+        let open: { kind: 'paragraph' | 'item'; start: number; end: number } | null = null;
+        let fence: { marker: string; start: number } | null = null;
+
+        for (const line of text.split('\n')) {
+            const start = offset;
+            const end = offset + line.length;
+            const indent = line.length - line.trimStart().length;
+            offset = end + 1;
+
+            if (fence) {
+                if (line.trim().startsWith(fence.marker)) {
+                    units.push({ kind: 'code', start: fence.start, end });
+                    fence = null;
+                }
+                continue;
+            }
+
+            const fenceMatch = line.match(FENCE);
+            const startsUnit = fenceMatch || line.trim() === '' || HEADING.test(line) || LIST_ITEM.test(line);
+            if (open && startsUnit) {
+                units.push(...this.closeUnit(text, open));
+                open = null;
+            }
+
+            if (fenceMatch) {
+                fence = { marker: fenceMatch[1], start };
+            } else if (line.trim() === '') {
+                continue;
+            } else if (HEADING.test(line)) {
+                units.push({ kind: 'heading', start: start + indent, end });
+            } else if (LIST_ITEM.test(line)) {
+                open = { kind: 'item', start: start + indent, end };
+            } else if (open) {
+                // Next line of the paragraph, or continuation of the list item above
+                open.end = end;
+            } else {
+                open = { kind: 'paragraph', start: start + indent, end };
+            }
+        }
+
+        if (open) {
+            units.push(...this.closeUnit(text, open));
+        }
+        // An unclosed fence runs to the end of the text
+        if (fence) {
+            units.push({ kind: 'code', start: fence.start, end: text.length });
+        }
+
+        return units;
+    }
+
+    private closeUnit(text: string, open: { kind: 'paragraph' | 'item'; start: number; end: number }): Unit[] {
+        return open.kind === 'item'
+            ? [{ kind: 'item', start: open.start, end: open.end }]
+            : this.sentences(text, open.start, open.end);
+    }
+
+    private sentences(text: string, start: number, end: number): Unit[] {
+        const paragraph = text.substring(start, end);
+        const units: Unit[] = [];
+        let sentenceStart = 0;
+
+        SENTENCE_END.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = SENTENCE_END.exec(paragraph)) !== null) {
+            const sentenceEnd = match.index + match[0].length;
+            units.push({ kind: 'sentence', start: start + sentenceStart, end: start + sentenceEnd });
+            sentenceStart = sentenceEnd;
+            while (sentenceStart < paragraph.length && /\s/.test(paragraph[sentenceStart])) {
+                sentenceStart++;
+            }
+        }
+        if (sentenceStart < paragraph.length) {
+            units.push({ kind: 'sentence', start: start + sentenceStart, end });
+        }
+
+        return units;
+    }
+}
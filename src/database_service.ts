@@ -1,8 +1,19 @@
 import { Plugin } from 'obsidian';
 import { TextChunk } from './chunking_service';
-import { EmbeddingService, LSHConfig, LSHHashFunction, VectorUtils } from './embedding_service';
+import { DEFAULT_EMBEDDING_CACHE_LIMIT, TextEmbedder, VectorUtils } from './embedding_service';
+import { DEFAULT_SPACE_ID, isValidSpaceId } from './embedding_space';
+import {
+    bm25, buildFTSQuery, ftsColumnWeights, FTS_COLUMNS, FTS_MATCHINFO_FORMAT, FTS_UNINDEXED_COLUMNS,
+    HighlightedSnippet, parseHighlightedSnippet, SNIPPET_ELLIPSIS, SNIPPET_END, SNIPPET_START, SNIPPET_TOKENS
+} from './fts_ranking';
+import { HNSWVectorIndex } from './hnsw_index';
+import { JournalStatement, parseJournal, serializeJournalRecord } from './journal';
 import { Logger } from './logger';
-import { Block, BlockType } from './note_processor';
+import { LSHVectorIndex } from './lsh_index';
+import { BASELINE_SCHEMA_VERSION, LATEST_SCHEMA_VERSION, MIGRATIONS } from './migrations';
+import { Block, BlockLocation, BlockType, NoteProperty, Position, withHeadingContext } from './note_processor';
+import { DEFAULT_INDEXED_BLOCK_TYPES, blockIndexText, isEmbeddedBlockType } from './block_text';
+import { LinearVectorIndex, VectorIndex, VectorIndexOptions, VectorIndexType, VectorScanFilter } from './vector_index';
 import initSqlJs, { Database, SqlValue, SqlJsStatic, BindParams } from 'sql.js';
 import sqlWasmPath from '../node_modules/sql.js/dist/sql-wasm.wasm';
 const sqlWasm = sqlWasmPath;
@@ -17,6 +28,8 @@ export interface DatabaseAdapter {
     createVectorsTable(): Promise<void>;
     createBlocksTable(): Promise<void>;
     createFTSTable(): Promise<void>;
+    createEmbeddingCacheTable(): Promise<void>;
+    createNotePropertiesTable(): Promise<void>;
     dropAllTables(): Promise<void>;
     
     // Basic database operations
@@ -24,33 +37,86 @@ export interface DatabaseAdapter {
     query(sql: string, params?: BindParams): Promise<Record<string, SqlValue>[]>;
     get(sql: string, params?: BindParams): Promise<Record<string, SqlValue> | null>;
     
-    // Vector indexing operations
-    generateVectorIndex(vectorDimensions: number): Promise<void>;
-    getSimilarVectors(queryVector: Int8Array, limit: number): Promise<Vector[]>;
-    isVectorIndexAvailable(): Promise<boolean>;
+    // Vector indexing operations; each embedding space has its own indexes, the default space when omitted
+    generateVectorIndex(vectorDimensions: number, options?: Partial<VectorIndexOptions>, space?: string): Promise<void>;
+    getSimilarVectors(queryVector: Int8Array, limit: number, options?: Partial<VectorIndexOptions>, space?: string): Promise<Vector[]>;
+    isVectorIndexAvailable(space?: string): Promise<boolean>;
+    indexVector(vectorId: string, vector: Int8Array, space?: string): Promise<void>;
+    removeVectorsFromIndex(vectorIds: string[]): Promise<void>;
+    reconcileVectorIndex(): Promise<void>;
+    scanVectors(queryVector: Int8Array, limit: number, filter?: VectorScanFilter, space?: string): Promise<Vector[]>;
     
     // FTS operations
-    searchFTS(query: string, limit: number): Promise<FTSResult[]>;
+    searchFTS(query: string, limit: number, noteIds?: string[]): Promise<FTSResult[]>;
     insertFTSContent(id: string, type: string, noteId: string, content: string, notePath: string, noteName: string, blockId?: string): Promise<void>;
     deleteFTSContentForNote(noteId: string): Promise<void>;
+    deleteFTSContent(ids: string[]): Promise<void>;
+    
+    // Groups writes so they are committed together, or not at all
+    transaction<T>(work: () => Promise<T>): Promise<T>;
+    // Runs callers from outside one at a time
+    exclusive<T>(task: () => Promise<T>): Promise<T>;
     
     // Persistence operations
     save(): Promise<void>;
+    flush(): Promise<void>;
     load(): Promise<void>;
 }
 
 
+// save() only marks the database dirty; the file is written once changes have paused this long
+const FLUSH_DELAY_MS = 2000;
+// ...or at the latest this long after the first unsaved change, so steady editing still reaches disk
+const MAX_FLUSH_DELAY_MS = 30000;
+
+
+// The vector indexes kept for one embedding space
+type SpaceIndexes = {
+    indexes: Record<VectorIndexType, VectorIndex>;
+    linear: LinearVectorIndex; // Also in indexes; every search in the space can fall back to it
+};
+
 export class SqlJsDatabaseAdapter implements DatabaseAdapter {
     private db: Database | null = null;
     private SQL: SqlJsStatic | null = null;
     private plugin: Plugin;
     private vectorUtils: VectorUtils;
     private logger: Logger;
+    private spaces = new Map<string, SpaceIndexes>();
+    private vectorIndexType: VectorIndexType = VectorIndexType.LSH;
+    private inTransaction = false;
+    private locked = false; // Held by one outside caller at a time, see exclusive()
+    private lockWaiters: (() => void)[] = [];
+    private dirtySince: number | null = null; // When the first change not yet on disk was made
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
+    private flushing: Promise<void> | null = null;
+    private journalSeq = 0; // Sequence number of the last committed journal record
+    private transactionStatements: JournalStatement[] = [];
+    private journalBuffer: string[] = []; // Serialized records waiting to be appended
+    private journalAppendQueued = false;
+    private journalQueue: Promise<void> = Promise.resolve(); // Appends and truncations, in order
 
     constructor(plugin: Plugin, vectorUtils: VectorUtils, logger: Logger) {
         this.plugin = plugin;
         this.vectorUtils = vectorUtils;
         this.logger = logger;
+        this.spaces.set(DEFAULT_SPACE_ID, this.createSpaceIndexes(DEFAULT_SPACE_ID));
+    }
+
+    private createSpaceIndexes(space: string): SpaceIndexes {
+        const linear = new LinearVectorIndex(this, this.logger, space);
+        return {
+            indexes: {
+                [VectorIndexType.LSH]: new LSHVectorIndex(this, this.vectorUtils, this.logger, space),
+                [VectorIndexType.HNSW]: new HNSWVectorIndex(this, this.logger, space),
+                [VectorIndexType.LINEAR]: linear
+            },
+            linear
+        };
+    }
+
+    private getAllVectorIndexes(): VectorIndex[] {
+        return Array.from(this.spaces.values()).flatMap(space => Object.values(space.indexes));
     }
 
     async initialize(): Promise<void> {
@@ -70,6 +136,10 @@ export class SqlJsDatabaseAdapter implements DatabaseAdapter {
             
             // Load existing database if it exists
             await this.load();
+            this.registerFunctions();
+            
+            // Bring databases from older plugin versions up to the current schema
+            await this.migrate();
             
             // Create all tables (will be no-op if they already exist due to IF NOT EXISTS)
             await this.createNotesTable();
@@ -77,7 +147,11 @@ export class SqlJsDatabaseAdapter implements DatabaseAdapter {
             await this.createVectorsTable();
             await this.createBlocksTable();
             await this.createFTSTable();
-            await this.createLSHBucketsTable();
+            await this.createEmbeddingCacheTable();
+            await this.createNotePropertiesTable();
+            for (const index of this.getAllVectorIndexes()) {
+                await index.createTables();
+            }
             
             this.logger.info('SqlJsAdapter', 'Database initialized successfully with sql.js');
         } catch (error) {
@@ -86,10 +160,108 @@ export class SqlJsDatabaseAdapter implements DatabaseAdapter {
         }
     }
 
+    /**
+     * Run every migration newer than the database's schema version, each in its own transaction.
+     * The file on disk is copied aside first, so a failed or unwanted upgrade can be undone by hand.
+     */
+    private async migrate(): Promise<void> {
+        await this.execute(`
+            CREATE TABLE IF NOT EXISTS schema_version (
+                version INTEGER PRIMARY KEY,
+                description TEXT NOT NULL,
+                applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+        
+        let currentVersion = await this.getSchemaVersion();
+        if (currentVersion === 0) {
+            const notesTable = await this.get("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'notes'");
+            if (!notesTable) {
+                // Fresh database: the create*Table methods build the latest schema directly
+                await this.execute('INSERT INTO schema_version (version, description) VALUES (?, ?)', [LATEST_SCHEMA_VERSION, 'Initial schema']);
+                return;
+            }
+            currentVersion = BASELINE_SCHEMA_VERSION;
+        }
+        
+        if (currentVersion > LATEST_SCHEMA_VERSION) {
+            this.logger.warn('SqlJsAdapter', `Database schema version ${currentVersion} is newer than this plugin supports (${LATEST_SCHEMA_VERSION})`);
+            return;
+        }
+        
+        const pending = MIGRATIONS.filter(migration => migration.version > currentVersion);
+        if (pending.length === 0) return;
+        
+        await this.backupDatabase(currentVersion);
+        
+        for (const migration of pending) {
+            this.logger.info('SqlJsAdapter', `Migrating database to schema version ${migration.version}: ${migration.description}`);
+            try {
+                await this.transaction(async () => {
+                    await migration.up(this);
+                    await this.execute('INSERT INTO schema_version (version, description) VALUES (?, ?)', [migration.version, migration.description]);
+                });
+            } catch (error) {
+                this.logger.error('SqlJsAdapter', `Migration to schema version ${migration.version} failed`, error);
+                throw new Error(`Migration to schema version ${migration.version} failed: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+        
+        // Write the upgraded schema straight away rather than with the next change
+        this.markDirty();
+        await this.flush();
+        this.logger.info('SqlJsAdapter', `Database migrated from schema version ${currentVersion} to ${LATEST_SCHEMA_VERSION}`);
+    }
+
+    /**
+     * Highest applied schema version, or 0 if none has been recorded
+     */
+    async getSchemaVersion(): Promise<number> {
+        const row = await this.get('SELECT MAX(version) as version FROM schema_version');
+        return (row?.version as number | null) || 0;
+    }
+
+    private async backupDatabase(version: number): Promise<void> {
+        const adapter = this.plugin.app.vault.adapter;
+        const dbPath = this.getDatabasePath();
+        if (!(await adapter.exists(dbPath))) return;
+        
+        const backupPath = `${dbPath}.v${version}.bak`;
+        await adapter.writeBinary(backupPath, await adapter.readBinary(dbPath));
+        this.logger.info('SqlJsAdapter', `Backed up database to ${backupPath} before migrating`);
+    }
+
+    private getDatabasePath(): string {
+        return `${this.plugin.app.vault.configDir}/plugins/tezcat/tezcat.db`;
+    }
+
+    private getJournalPath(): string {
+        return `${this.getDatabasePath()}.journal`;
+    }
+
+    /**
+     * SQL functions implemented in JavaScript. They live on the connection, so register again whenever it is replaced or reopened.
+     */
+    private registerFunctions(): void {
+        if (!this.db) throw new Error('Database not initialized');
+        
+        // FTS4 has no built-in ranking; score matchinfo() blobs with BM25 and per-column weights.
+        // sql.js registers functions with a fixed arity, so the weights are bound here rather than passed in SQL.
+        const weights = ftsColumnWeights();
+        this.db.create_function('bm25', (matchinfo: Uint8Array) => bm25(matchinfo, weights));
+    }
+
     async close(): Promise<void> {
-        if (this.db) {
-            this.db.close();
-            this.db = null;
+        try {
+            // Changes still waiting for a debounced write must not be lost on unload
+            await this.flush();
+            await this.journalQueue;
+        } finally {
+            this.getAllVectorIndexes().forEach(index => index.dispose());
+            if (this.db) {
+                this.db.close();
+                this.db = null;
+            }
         }
     }
 
@@ -120,6 +292,9 @@ export class SqlJsDatabaseAdapter implements DatabaseAdapter {
                 updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
                 chunk_index INTEGER NOT NULL,
                 text TEXT NOT NULL,
+                block_id TEXT,
+                start_position TEXT,
+                end_position TEXT,
                 FOREIGN KEY (note_id) REFERENCES notes(id) ON DELETE CASCADE
             )
         `);
@@ -128,6 +303,8 @@ export class SqlJsDatabaseAdapter implements DatabaseAdapter {
             CREATE INDEX IF NOT EXISTS idx_chunks_note_id_index 
             ON chunks(note_id, chunk_index)
         `);
+
+        await this.execute('CREATE INDEX IF NOT EXISTS idx_chunks_block_id ON chunks(block_id)');
     }
 
     async createVectorsTable(): Promise<void> {
@@ -144,11 +321,23 @@ export class SqlJsDatabaseAdapter implements DatabaseAdapter {
                 created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
                 updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
                 vector BLOB,
+                model TEXT, -- Fingerprint of the embedding model, NULL if unknown
+                space TEXT NOT NULL DEFAULT '${DEFAULT_SPACE_ID}', -- Embedding space the vector belongs to
                 FOREIGN KEY (note_id) REFERENCES notes(id) ON DELETE CASCADE,
                 FOREIGN KEY (chunk_id) REFERENCES chunks(id) ON DELETE CASCADE,
                 FOREIGN KEY (block_id) REFERENCES blocks(id) ON DELETE CASCADE
             )
         `);
+        
+        await this.execute(`
+            CREATE INDEX IF NOT EXISTS idx_vectors_model 
+            ON vectors(model)
+        `);
+        
+        await this.execute(`
+            CREATE INDEX IF NOT EXISTS idx_vectors_space 
+            ON vectors(space)
+        `);
         this.logger.info('SqlJsAdapter', 'Created vectors table with BLOB storage for 768-dimensional vectors');
     }
 
@@ -166,6 +355,8 @@ export class SqlJsDatabaseAdapter implements DatabaseAdapter {
                 obsidian_id TEXT,
                 start_position TEXT NOT NULL, -- JSON: {line, col, offset}
                 end_position TEXT NOT NULL,   -- JSON: {line, col, offset}
+                heading_path TEXT,            -- JSON: headings above the block, outermost first
+                location TEXT,                -- JSON: {page} or {canvasNodeId} for blocks from PDFs and canvases
                 FOREIGN KEY (note_id) REFERENCES notes(id) ON DELETE CASCADE
             )
         `);
@@ -181,97 +372,110 @@ export class SqlJsDatabaseAdapter implements DatabaseAdapter {
     async createFTSTable(): Promise<void> {
         if (!this.db) throw new Error('Database not initialized');
         
-        // Create FTS3 virtual table for full-text search
+        // Create FTS4 virtual table for full-text search; only content and note names are tokenized
+        const unindexed = FTS_UNINDEXED_COLUMNS.map(column => `notindexed=${column}`).join(', ');
         await this.execute(`
-            CREATE VIRTUAL TABLE IF NOT EXISTS fts_content USING fts3(
-                id TEXT,
-                type TEXT,
-                note_id TEXT,
-                content TEXT,
-                note_path TEXT,
-                note_name TEXT,
-                block_id TEXT
+            CREATE VIRTUAL TABLE IF NOT EXISTS fts_content USING fts4(
+                ${FTS_COLUMNS.join(', ')},
+                ${unindexed},
+                tokenize=unicode61
             )
         `);
         
-        this.logger.info('SqlJsAdapter', 'Created FTS3 virtual table for full-text search');
-    }
-
-
-    async dropAllTables(): Promise<void> {
-        if (!this.db) throw new Error('Database not initialized');
-        
-        this.logger.info('SqlJsAdapter', 'Dropping all tables for database rebuild...');
-        
-        // Drop tables in reverse dependency order to avoid foreign key constraint issues
-        await this.execute('DROP TABLE IF EXISTS lsh_vector_buckets');
-        await this.execute('DROP TABLE IF EXISTS lsh_hash_functions');
-        await this.execute('DROP TABLE IF EXISTS lsh_configs');
-        await this.execute('DROP TABLE IF EXISTS vectors');
-        await this.execute('DROP TABLE IF EXISTS blocks');
-        await this.execute('DROP TABLE IF EXISTS chunks');
-        await this.execute('DROP TABLE IF EXISTS fts_content');
-        await this.execute('DROP TABLE IF EXISTS notes');
-        
-        this.logger.info('SqlJsAdapter', 'All tables dropped successfully');
+        this.logger.info('SqlJsAdapter', 'Created FTS4 virtual table for full-text search');
     }
 
-    async createLSHBucketsTable(): Promise<void> {
+    async createEmbeddingCacheTable(): Promise<void> {
         if (!this.db) throw new Error('Database not initialized');
         
-        // Create LSH configuration table
+        // Vectors by content hash, per model fingerprint, so unchanged text is never embedded twice
         await this.execute(`
-            CREATE TABLE IF NOT EXISTS lsh_configs (
-                id TEXT PRIMARY KEY,
+            CREATE TABLE IF NOT EXISTS embedding_cache (
+                fingerprint TEXT NOT NULL,
+                content_hash TEXT NOT NULL, -- SHA-256 of the embedded text
+                vector BLOB NOT NULL,
                 created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-                vector_count INTEGER NOT NULL,
-                vector_dimensions INTEGER NOT NULL,
-                num_hash_functions INTEGER NOT NULL
+                last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                PRIMARY KEY (fingerprint, content_hash)
             )
         `);
         
-        // Create LSH hash functions table
         await this.execute(`
-            CREATE TABLE IF NOT EXISTS lsh_hash_functions (
-                id TEXT PRIMARY KEY,
-                config_id TEXT NOT NULL,
-                hash_index INTEGER NOT NULL,
-                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-                projection_matrix TEXT NOT NULL,
-                FOREIGN KEY (config_id) REFERENCES lsh_configs(id) ON DELETE CASCADE
-            )
+            CREATE INDEX IF NOT EXISTS idx_embedding_cache_last_used 
+            ON embedding_cache(last_used_at)
         `);
+    }
+
+    async createNotePropertiesTable(): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
         
-        // Create LSH buckets table
+        // Frontmatter properties, one row per value so list properties such as tags can be filtered on
         await this.execute(`
-            CREATE TABLE IF NOT EXISTS lsh_buckets (
-                id TEXT PRIMARY KEY,
-                config_id TEXT NOT NULL,
-                bucket_hash TEXT NOT NULL,
-                vector_id TEXT NOT NULL,
-                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-                FOREIGN KEY (config_id) REFERENCES lsh_configs(id) ON DELETE CASCADE,
-                FOREIGN KEY (vector_id) REFERENCES vectors(id) ON DELETE CASCADE
+            CREATE TABLE IF NOT EXISTS note_properties (
+                note_id TEXT NOT NULL,
+                key TEXT NOT NULL,
+                value TEXT NOT NULL,
+                date TEXT, -- ISO form of the value when it is a date, for range filters
+                FOREIGN KEY (note_id) REFERENCES notes(id) ON DELETE CASCADE
             )
         `);
         
-        // Create indexes for efficient lookups
         await this.execute(`
-            CREATE INDEX IF NOT EXISTS idx_lsh_hash_functions_config_id 
-            ON lsh_hash_functions(config_id)
+            CREATE INDEX IF NOT EXISTS idx_note_properties_note_id 
+            ON note_properties(note_id)
         `);
         
         await this.execute(`
-            CREATE INDEX IF NOT EXISTS idx_lsh_buckets_config_hash 
-            ON lsh_buckets(config_id, bucket_hash)
+            CREATE INDEX IF NOT EXISTS idx_note_properties_key_value 
+            ON note_properties(key, value)
         `);
+    }
+
+    async dropAllTables(): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+        
+        this.logger.info('SqlJsAdapter', 'Dropping all tables for database rebuild...');
         
-        this.logger.info('SqlJsAdapter', 'Created LSH tables for hash function storage and bucket indexing');
+        // Drop tables in reverse dependency order to avoid foreign key constraint issues
+        for (const index of this.getAllVectorIndexes()) {
+            await index.dropTables();
+        }
+        await this.execute('DROP TABLE IF EXISTS vectors');
+        await this.execute('DROP TABLE IF EXISTS blocks');
+        await this.execute('DROP TABLE IF EXISTS chunks');
+        await this.execute('DROP TABLE IF EXISTS fts_content');
+        await this.execute('DROP TABLE IF EXISTS note_properties');
+        await this.execute('DROP TABLE IF EXISTS notes');
+        // The embedding cache stays too, so a rebuild only embeds text the model hasn't seen
+        // schema_version stays: the create*Table methods recreate the tables at the recorded, latest version
+        
+        this.logger.info('SqlJsAdapter', 'All tables dropped successfully');
     }
 
+    /**
+     * Run a statement, recording it in the journal if it changed anything
+     */
     async execute(sql: string, params?: BindParams): Promise<void> {
         if (!this.db) throw new Error('Database not initialized');
+        
+        // The rows-modified count only covers INSERT, UPDATE and DELETE; other statements are
+        // journaled when they change the schema, so IF NOT EXISTS on every startup leaves no trace
+        const schemaVersion = /^\s*(INSERT|UPDATE|DELETE|REPLACE)\b/i.test(sql) ? null : this.getSchemaCookie();
         this.db.run(sql, params);
+        const changed = schemaVersion === null ? this.db.getRowsModified() > 0 : this.getSchemaCookie() !== schemaVersion;
+        if (!changed) return;
+        
+        const statement: JournalStatement = [sql, params ?? null];
+        if (this.inTransaction) {
+            this.transactionStatements.push(statement);
+        } else {
+            this.commitToJournal([statement]);
+        }
+    }
+
+    // Incremented by SQLite on every schema change
+    private getSchemaCookie(): number {
+        return this.db!.exec('PRAGMA schema_version')[0].values[0][0] as number;
     }
 
     async query(sql: string, params?: BindParams): Promise<Record<string, SqlValue>[]> {
@@ -291,21 +495,240 @@ export class SqlJsDatabaseAdapter implements DatabaseAdapter {
         return results[0] || null;
     }
 
+    /**
+     * Run `work` in a single transaction, committing everything it writes together or rolling it all
+     * back if it throws. A transaction started inside another joins the outer one; callers from outside
+     * go through exclusive(), so only the caller that opened it can be running until it ends.
+     */
+    async transaction<T>(work: () => Promise<T>): Promise<T> {
+        if (!this.db) throw new Error('Database not initialized');
+        if (this.inTransaction) return await work();
+        
+        this.inTransaction = true;
+        let result: T;
+        this.db.run('BEGIN');
+        try {
+            result = await work();
+            this.db.run('COMMIT');
+            // A transaction is replayed whole or not at all
+            if (this.transactionStatements.length > 0) {
+                this.commitToJournal(this.transactionStatements);
+            }
+        } catch (error) {
+            this.db.run('ROLLBACK');
+            // Indexes changed their in-memory graph or matrix along with their rows; reload them from the tables
+            this.getAllVectorIndexes().forEach(index => index.invalidate());
+            throw error;
+        } finally {
+            this.inTransaction = false;
+            this.transactionStatements = [];
+        }
+        await this.journalQueue;
+        return result;
+    }
+
+    /**
+     * Run `task` with the database to itself. Callers from outside (the worker's requests and the
+     * indexes' background rebuilds) go through here one at a time, in order, so statements of one
+     * never land in another's transaction. Calling it again from inside `task` would wait forever.
+     */
+    async exclusive<T>(task: () => Promise<T>): Promise<T> {
+        await this.acquireLock();
+        try {
+            return await task();
+        } finally {
+            this.releaseLock();
+        }
+    }
+
+    /**
+     * Let other callers have the database while an exclusive() task waits on something else, like an
+     * embedding request, and take it back after. Not allowed inside a transaction, which must stay whole.
+     */
+    async unlocked<T>(task: () => Promise<T>): Promise<T> {
+        if (this.inTransaction) throw new Error('Cannot wait on anything but the database inside a transaction');
+        this.releaseLock();
+        try {
+            return await task();
+        } finally {
+            await this.acquireLock();
+        }
+    }
+
+    private async acquireLock(): Promise<void> {
+        if (!this.locked) {
+            this.locked = true;
+            return;
+        }
+        await new Promise<void>(resolve => this.lockWaiters.push(resolve));
+    }
+
+    // Hand the lock straight to the next waiter, so nothing can take it in between
+    private releaseLock(): void {
+        const next = this.lockWaiters.shift();
+        if (next) {
+            next();
+        } else {
+            this.locked = false;
+        }
+    }
+
+    /**
+     * Schedule the database file to be written. The file is written by a debounced flush rather than
+     * on every call, since each write exports and rewrites the whole database; until then changes are
+     * kept safe by the journal. Outside a transaction this resolves once they are in the journal.
+     */
     async save(): Promise<void> {
         if (!this.db) return;
         
+        this.markDirty();
+        if (this.flushTimer) clearTimeout(this.flushTimer);
+        const delay = Math.min(FLUSH_DELAY_MS, this.dirtySince! + MAX_FLUSH_DELAY_MS - Date.now());
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            this.flush().catch(error => this.logger.error('SqlJsAdapter', 'Failed to write database to disk', error));
+        }, Math.max(0, delay));
+        
+        // Waiting inside a transaction would let other callers' statements into it
+        if (!this.inTransaction) await this.journalQueue;
+    }
+
+    /**
+     * Append committed statements to the journal. Records committed while an append is in flight are
+     * written together by the next one, and a failed append is retried with the next, keeping order.
+     */
+    private commitToJournal(statements: JournalStatement[]): void {
+        this.markDirty();
+        this.journalSeq++;
+        this.journalBuffer.push(serializeJournalRecord({ seq: this.journalSeq, statements }));
+        if (this.journalAppendQueued) return;
+        
+        this.journalAppendQueued = true;
+        this.enqueueJournalTask(async () => {
+            this.journalAppendQueued = false;
+            const data = this.journalBuffer.join('');
+            this.journalBuffer = [];
+            try {
+                await this.plugin.app.vault.adapter.append(this.getJournalPath(), data);
+            } catch (error) {
+                this.journalBuffer.unshift(data);
+                throw error;
+            }
+        });
+    }
+
+    private enqueueJournalTask(task: () => Promise<void>): Promise<void> {
+        this.journalQueue = this.journalQueue
+            .then(task)
+            .catch(error => this.logger.error('SqlJsAdapter', 'Failed to write the database journal', error));
+        return this.journalQueue;
+    }
+
+    private markDirty(): void {
+        if (this.dirtySince === null) this.dirtySince = Date.now();
+    }
+
+    /**
+     * Write pending changes to disk now. Once this resolves, every change made before the call is on disk.
+     */
+    async flush(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        // A write already under way may have exported the database before the latest changes
+        while (this.flushing) {
+            await this.flushing.catch(() => undefined);
+        }
+        if (this.dirtySince === null || !this.db) return;
+        if (this.inTransaction) {
+            // Exporting closes the connection, which would lose the open transaction; try again later
+            await this.save();
+            return;
+        }
+        
+        this.flushing = this.writeToDisk();
+        try {
+            await this.flushing;
+        } finally {
+            this.flushing = null;
+        }
+    }
+
+    private async writeToDisk(): Promise<void> {
+        if (!this.db) return;
+        
+        const dirtySince = this.dirtySince;
+        this.dirtySince = null;
+        // The file records how much of the journal it contains, so a crash before the journal is
+        // truncated cannot replay those records a second time
+        const checkpointSeq = this.journalSeq;
+        this.db.run('CREATE TABLE IF NOT EXISTS journal_checkpoint (id INTEGER PRIMARY KEY CHECK (id = 1), seq INTEGER NOT NULL)');
+        this.db.run('INSERT OR REPLACE INTO journal_checkpoint (id, seq) VALUES (1, ?)', [checkpointSeq]);
         const data = this.db.export();
-        const buffer = Buffer.from(data);
+        // export() reopens the connection, which drops JavaScript functions
+        this.registerFunctions();
+        const buffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+        
+        try {
+            await this.replaceDatabaseFile(buffer);
+        } catch (error) {
+            // Keep the changes pending so the next flush retries them
+            this.dirtySince = dirtySince;
+            throw error;
+        }
+        
+        // Start the journal afresh, unless records were committed while the file was being written
+        await this.enqueueJournalTask(async () => {
+            const adapter = this.plugin.app.vault.adapter;
+            if (this.journalSeq === checkpointSeq && await adapter.exists(this.getJournalPath())) {
+                await adapter.remove(this.getJournalPath());
+            }
+        });
+    }
+
+    /**
+     * Swap in a new database file without ever leaving a half-written one in its place. The new
+     * contents go to a temporary file first; the old file is only moved aside once that write has
+     * finished, so a crash at any point leaves one complete copy, which load() picks up.
+     */
+    private async replaceDatabaseFile(data: ArrayBuffer): Promise<void> {
+        const adapter = this.plugin.app.vault.adapter;
+        const dbPath = this.getDatabasePath();
+        const tempPath = `${dbPath}.tmp`;
+        const previousPath = `${dbPath}.prev`;
         
+        await adapter.writeBinary(tempPath, data);
+        // The vault adapter refuses to rename onto an existing file
+        if (await adapter.exists(previousPath)) await adapter.remove(previousPath);
+        const replacing = await adapter.exists(dbPath);
+        if (replacing) await adapter.rename(dbPath, previousPath);
+        await adapter.rename(tempPath, dbPath);
+        if (replacing) await adapter.remove(previousPath);
+    }
+
+    /**
+     * Finish a file swap that was interrupted between moving the old file aside and renaming the new
+     * one into place. A temporary file left next to an existing database is an unfinished write and is ignored.
+     */
+    private async recoverInterruptedWrite(): Promise<void> {
         const adapter = this.plugin.app.vault.adapter;
-        const dbPath = `${this.plugin.app.vault.configDir}/plugins/tezcat/tezcat.db`;
-        await adapter.writeBinary(dbPath, buffer);
+        const dbPath = this.getDatabasePath();
+        const tempPath = `${dbPath}.tmp`;
+        const previousPath = `${dbPath}.prev`;
+        if (await adapter.exists(dbPath) || !(await adapter.exists(previousPath))) return;
+        
+        // The old file is only moved aside after the new one was completely written
+        const source = await adapter.exists(tempPath) ? tempPath : previousPath;
+        await adapter.rename(source, dbPath);
+        this.logger.warn('SqlJsAdapter', `Recovered the database from ${source} after an interrupted write`);
     }
 
     async load(): Promise<void> {
         try {
             const adapter = this.plugin.app.vault.adapter;
-            const dbPath = `${this.plugin.app.vault.configDir}/plugins/tezcat/tezcat.db`;
+            const dbPath = this.getDatabasePath();
+            await this.recoverInterruptedWrite();
 
             if (await adapter.exists(dbPath)) {
                 const buffer = await adapter.readBinary(dbPath);
@@ -317,341 +740,232 @@ export class SqlJsDatabaseAdapter implements DatabaseAdapter {
         } catch (error) {
             this.logger.info('SqlJsAdapter', 'No existing database found, starting fresh');
         }
+        await this.replayJournal();
     }
 
-    async generateVectorIndex(vectorDimensions: number): Promise<void> {
-        if (!this.db) throw new Error('Database not initialized');
+    /**
+     * Apply the changes committed after the database file was last written, then fold them into the
+     * file. Each record is applied in its own transaction; replay stops at the first one that fails.
+     */
+    private async replayJournal(): Promise<void> {
+        if (!this.db) return;
         
-        this.logger.info('SqlJsAdapter', 'Starting LSH vector index generation...');
+        const adapter = this.plugin.app.vault.adapter;
+        const journalPath = this.getJournalPath();
+        const checkpointTable = await this.get("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'journal_checkpoint'");
+        const checkpoint = checkpointTable ? await this.get('SELECT seq FROM journal_checkpoint') : null;
+        this.journalSeq = (checkpoint?.seq as number | undefined) ?? 0;
+        if (!(await adapter.exists(journalPath))) return;
+        
+        const { records, complete } = parseJournal(await adapter.read(journalPath));
+        if (!complete) {
+            this.logger.warn('SqlJsAdapter', 'The database journal ends in a partly written record, which is ignored');
+        }
         
-        try {
-            // Get vector count from existing vectors
-            const vectorStats = await this.get('SELECT COUNT(*) as count FROM vectors');
+        let replayed = 0;
+        for (const record of records) {
+            // Already in the file: the last write finished but the journal was not truncated
+            if (record.seq <= this.journalSeq) continue;
             
-            if (!vectorStats || vectorStats.count === 0) {
-                this.logger.info('SqlJsAdapter', 'No vectors found, skipping LSH index generation');
-                return;
+            this.db.run('BEGIN');
+            try {
+                for (const [sql, params] of record.statements) {
+                    this.db.run(sql, params ?? undefined);
+                }
+                this.db.run('COMMIT');
+            } catch (error) {
+                this.db.run('ROLLBACK');
+                this.logger.error('SqlJsAdapter', `Could not replay journal record ${record.seq}, discarding it and the records after it`, error);
+                break;
             }
-            
-            const vectorCount = vectorStats.count as number;
-
-            this.logger.info('SqlJsAdapter', `Building LSH index for ${vectorCount} vectors of ${vectorDimensions} dimensions`);
-
-            // Calculate optimal number of hash functions
-            const numHashFunctions = Math.ceil(Math.log2(vectorCount));
-
-            // Ensure LSH tables exist before clearing them (safe to call multiple times)
-            await this.createLSHBucketsTable();
-
-            // Clear existing LSH data
-            await this.clearLSHTables();
+            this.journalSeq = record.seq;
+            replayed++;
+        }
+        this.logger.info('SqlJsAdapter', `Replayed ${replayed} journal records`);
+        
+        // Checkpoint straight away, which also removes the journal. If that fails the journal stays
+        // on disk and is replayed again next time, so there is no reason to stop loading.
+        this.markDirty();
+        try {
+            await this.flush();
+        } catch (error) {
+            this.logger.error('SqlJsAdapter', 'Failed to write the replayed journal into the database file', error);
+        }
+    }
 
-            // Generate hash functions using VectorUtils
-            const configId = await this.createLSHConfig({
-                vector_count_at_build: vectorCount,
-                vector_dimensions: vectorDimensions,
-                num_hash_functions: numHashFunctions
-            });
+    /**
+     * Select which index serves similarity search and receives incremental updates.
+     * Other indexes keep their tables but go stale until reconciled or rebuilt.
+     */
+    setVectorIndexType(type: VectorIndexType): void {
+        this.vectorIndexType = type;
+    }
 
-            // Generate hash functions
-            const { hashFunctions } = this.vectorUtils.createHashFunctions(vectorCount, vectorDimensions);
-            
-            // Store hash functions in database
-            for (const hashFunction of hashFunctions) {
-                await this.createLSHHashFunction({
-                    configId: configId,
-                    hashIndex: hashFunction.hashIndex,
-                    projectionMatrix: hashFunction.projectionMatrix
-                });
-            }
-            
-            // Get the stored hash functions for proper typing
-            const storedHashFunctions = await this.getLSHHashFunctions(configId);
-            
-            // Get all vectors and populate LSH buckets
-            const vectors = await this.query('SELECT id, vector FROM vectors');
-            
-            this.logger.info('SqlJsAdapter', `Populating LSH buckets for ${vectors.length} vectors...`);
-            
-            for (const vectorRow of vectors) {
-                const vector = new Int8Array(vectorRow.vector as Uint8Array);
-                const hashVector = this.vectorUtils.computeHashVector(vector, storedHashFunctions, vectorDimensions);
-                const bucketHash = hashVector.join('');
+    /**
+     * Register an additional embedding space, creating its index tables.
+     * Its vectors are stored in the shared vectors table, tagged with the space id.
+     */
+    async addVectorSpace(space: string): Promise<void> {
+        if (this.spaces.has(space)) return;
+        if (!isValidSpaceId(space)) {
+            throw new Error(`Invalid embedding space id: ${space}`);
+        }
 
-                await this.createLSHBucket(configId, bucketHash, vectorRow.id as string);
+        const indexes = this.createSpaceIndexes(space);
+        this.spaces.set(space, indexes);
+        if (this.db) {
+            for (const index of Object.values(indexes.indexes)) {
+                await index.createTables();
             }
-            
-            // Get and log LSH statistics
-            const stats = await this.getLSHStats(configId);
-            this.logger.info('SqlJsAdapter', `LSH index generation completed: totalBuckets=${stats.totalBuckets}, totalVectors=${stats.totalVectors}, avgVectorsPerBucket=${stats.avgVectorsPerBucket.toFixed(2)}, maxVectorsInBucket=${stats.maxVectorsInBucket}`);
-            
-        } catch (error) {
-            this.logger.error('SqlJsAdapter', 'Failed to generate LSH vector index', error);
-            throw error;
         }
+        this.logger.info('SqlJsAdapter', `Added embedding space ${space}`);
     }
 
-    // LSH-specific operations for SQL.js adapter
-    async getLSHConfig(): Promise<LSHConfig | null> {
-        const row = await this.get('SELECT * FROM lsh_configs LIMIT 1');
-        
-        if (!row) return null;
-        
-        return {
-            id: row.id as number,
-            vector_count_at_build: row.vector_count as number,
-            vector_dimensions: row.vector_dimensions as number,
-            num_hash_functions: row.num_hash_functions as number,
-            created_at: row.created_at as string
-        };
-    }
+    /**
+     * Delete a space's vectors and index tables. The default space cannot be removed.
+     */
+    async removeVectorSpace(space: string): Promise<void> {
+        if (space === DEFAULT_SPACE_ID) {
+            throw new Error('The default embedding space cannot be removed');
+        }
+        const indexes = this.spaces.get(space);
+        if (!indexes) return;
 
-    async isVectorIndexAvailable(): Promise<boolean> {
-        try {
-            const config = await this.getLSHConfig();
-            return config !== null;
-        } catch (error) {
-            this.logger.warn('SqlJsAdapter', 'Failed to check vector index availability', error);
-            return false;
+        for (const index of Object.values(indexes.indexes)) {
+            await index.dropTables();
+            index.dispose();
         }
+        this.spaces.delete(space);
+        await this.execute('DELETE FROM vectors WHERE space = ?', [space]);
+        await this.save();
+        this.logger.info('SqlJsAdapter', `Removed embedding space ${space}`);
     }
 
-    async getLSHHashFunctions(configId: string): Promise<LSHHashFunction[]> {
-        const rows = await this.query(`
-            SELECT * FROM lsh_hash_functions 
-            WHERE config_id = ? 
-            ORDER BY hash_index
-        `, [configId]);
-        
-        return rows.map(row => {
-            // Parse as regular array first, then convert to Float32Array
-            const projectionMatrixArray = JSON.parse(row.projection_matrix as string);
-            const projectionMatrix = new Float32Array(projectionMatrixArray);
-            this.logger.debug('SqlJsAdapter', `Retrieved hash function with ${projectionMatrix.length} dimensions`);
-
-            return {
-                id: row.id as string,
-                configId: row.config_id as string,
-                hashIndex: row.hash_index as number,
-                projectionMatrix: projectionMatrix,
-                createdAt: new Date(row.created_at as string)
-            };
-        });
+    getVectorSpaces(): string[] {
+        return Array.from(this.spaces.keys());
     }
 
-    async clearLSHTables(): Promise<void> {
-        await this.execute('DELETE FROM lsh_buckets');
-        await this.execute('DELETE FROM lsh_hash_functions');
-        await this.execute('DELETE FROM lsh_configs');
-        await this.save();
-        this.logger.info('SqlJsAdapter', 'Cleared all LSH tables');
+    private getSpaceIndexes(space: string): SpaceIndexes {
+        const indexes = this.spaces.get(space);
+        if (!indexes) {
+            throw new Error(`Unknown embedding space: ${space}`);
+        }
+        return indexes;
     }
 
-    async createLSHConfig(config: Omit<LSHConfig, 'id' | 'created_at'>): Promise<string> {
-        const id = this.generateId();
-        const now = new Date().toISOString();
-        
-        await this.execute(`
-            INSERT INTO lsh_configs (id, created_at, vector_count, vector_dimensions, num_hash_functions)
-            VALUES (?, ?, ?, ?, ?)
-        `, [id, now, config.vector_count_at_build, config.vector_dimensions, config.num_hash_functions]);
-        
-        await this.save();
-        return id;
+    getVectorIndex(type: VectorIndexType = this.vectorIndexType, space: string = DEFAULT_SPACE_ID): VectorIndex {
+        return this.getSpaceIndexes(space).indexes[type];
     }
 
-    async createLSHHashFunction(hashFunction: Omit<LSHHashFunction, 'id' | 'createdAt'>): Promise<string> {
-        const id = this.generateId();
-        const now = new Date().toISOString();
-        
-        // Convert Float32Array to regular array for proper JSON serialization
-        const projectionMatrixArray = Array.from(hashFunction.projectionMatrix);
-        this.logger.debug('SqlJsAdapter', `Storing hash function with ${projectionMatrixArray.length} dimensions`);
+    async generateVectorIndex(vectorDimensions: number, options: Partial<VectorIndexOptions> = {}, space: string = DEFAULT_SPACE_ID): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
         
-        await this.execute(`
-            INSERT INTO lsh_hash_functions (id, config_id, hash_index, created_at, projection_matrix)
-            VALUES (?, ?, ?, ?, ?)
-        `, [id, hashFunction.configId, hashFunction.hashIndex, now, JSON.stringify(projectionMatrixArray)]);
+        // One transaction, so the rebuilt index lands in the journal as a single record
+        await this.transaction(() => this.getVectorIndex(this.vectorIndexType, space).build(vectorDimensions, options));
         
+        // Index rows are only persisted once, after the whole index is built
         await this.save();
-        return id;
     }
 
-    async createLSHBucket(configId: string, bucketHash: string, vectorId: string): Promise<string> {
-        const id = this.generateId();
-        const now = new Date().toISOString();
-        
-        await this.execute(`
-            INSERT INTO lsh_buckets (id, config_id, bucket_hash, vector_id, created_at)
-            VALUES (?, ?, ?, ?, ?)
-        `, [id, configId, bucketHash, vectorId, now]);
-        
-        await this.save();
-        return id;
+    async isVectorIndexAvailable(space: string = DEFAULT_SPACE_ID): Promise<boolean> {
+        return await this.getVectorIndex(this.vectorIndexType, space).isAvailable();
     }
 
-    async getLSHBucket(configId: string, bucketHash: string): Promise<string[]> {
-        const rows = await this.query(`
-            SELECT vector_id FROM lsh_buckets 
-            WHERE config_id = ? AND bucket_hash = ?
-        `, [configId, bucketHash]);
-        
-        return rows.map(row => row.vector_id as string);
+    /**
+     * The space's active index plus its in-memory linear scan, which every search can fall back to
+     */
+    private getMaintainedIndexes(space: string): VectorIndex[] {
+        const { indexes, linear } = this.getSpaceIndexes(space);
+        const active = indexes[this.vectorIndexType];
+        return active === linear ? [active] : [active, linear];
     }
 
-    async getAllLSHBuckets(configId: string): Promise<{bucketHash: string, vectorIds: string[]}[]> {
-        const rows = await this.query(`
-            SELECT bucket_hash, vector_id FROM lsh_buckets 
-            WHERE config_id = ?
-        `, [configId]);
-        
-        // Group by bucket hash
-        const bucketMap = new Map<string, string[]>();
-        for (const row of rows) {
-            const bucketHash = row.bucket_hash as string;
-            if (!bucketMap.has(bucketHash)) {
-                bucketMap.set(bucketHash, []);
-            }
-            bucketMap.get(bucketHash)!.push(row.vector_id as string);
+    /**
+     * Add a newly stored vector to its space's indexes. Callers are responsible for saving.
+     */
+    async indexVector(vectorId: string, vector: Int8Array, space: string = DEFAULT_SPACE_ID): Promise<void> {
+        for (const index of this.getMaintainedIndexes(space)) {
+            await index.insert(vectorId, vector);
         }
-        
-        return Array.from(bucketMap.entries()).map(([bucketHash, vectorIds]) => ({
-            bucketHash,
-            vectorIds
-        }));
     }
 
-    async clearLSHBuckets(configId: string): Promise<void> {
-        await this.execute('DELETE FROM lsh_buckets WHERE config_id = ?', [configId]);
-        await this.save();
+    async removeVectorsFromIndex(vectorIds: string[]): Promise<void> {
+        if (vectorIds.length === 0) return;
+        // Vector ids are unique across spaces, so removing from every space is safe
+        for (const space of this.spaces.keys()) {
+            for (const index of this.getMaintainedIndexes(space)) {
+                await index.remove(vectorIds);
+            }
+        }
     }
 
-    async getLSHStats(configId: string): Promise<{
-        totalBuckets: number;
-        totalVectors: number;
-        avgVectorsPerBucket: number;
-        maxVectorsInBucket: number;
-        emptyBuckets: number;
-    }> {
-        const stats = await this.get(`
-            SELECT 
-                COUNT(DISTINCT bucket_hash) as total_buckets,
-                COUNT(*) as total_vectors,
-                AVG(bucket_size) as avg_vectors_per_bucket,
-                MAX(bucket_size) as max_vectors_in_bucket,
-                COUNT(CASE WHEN bucket_size = 0 THEN 1 END) as empty_buckets
-            FROM (
-                SELECT bucket_hash, COUNT(*) as bucket_size 
-                FROM lsh_buckets 
-                WHERE config_id = ? 
-                GROUP BY bucket_hash
-            )
-        `, [configId]);
-        
-        return {
-            totalBuckets: (stats?.total_buckets as number) || 0,
-            totalVectors: (stats?.total_vectors as number) || 0,
-            avgVectorsPerBucket: (stats?.avg_vectors_per_bucket as number) || 0,
-            maxVectorsInBucket: (stats?.max_vectors_in_bucket as number) || 0,
-            emptyBuckets: (stats?.empty_buckets as number) || 0
-        };
+    async reconcileVectorIndex(): Promise<void> {
+        for (const space of this.spaces.keys()) {
+            for (const index of this.getMaintainedIndexes(space)) {
+                await index.reconcile();
+            }
+        }
     }
 
-    async getSimilarVectors(queryVector: Int8Array, limit: number): Promise<Vector[]> {
+    async getSimilarVectors(queryVector: Int8Array, limit: number, options: Partial<VectorIndexOptions> = {}, space: string = DEFAULT_SPACE_ID): Promise<Vector[]> {
         if (!this.db) throw new Error('Database not initialized');
         
-        if (!this.vectorUtils) {
-            this.logger.error('SqlJsAdapter', 'VectorUtils not provided - vector index search unavailable');
-            throw new Error('Vector index not available - VectorUtils not initialized');
-        }
-        
-        // Check if LSH is available
-        const lshConfig = await this.getLSHConfig();
-        if (!lshConfig) {
-            this.logger.error('SqlJsAdapter', 'No LSH configuration found - vector index not built');
-            throw new Error('Vector index not available - LSH configuration missing');
-        }
-
-        try {
-            // Get hash functions for this configuration
-            const hashFunctions = await this.getLSHHashFunctions(lshConfig.id.toString());
-            
-            // Compute hash for query vector
-            const queryHash = this.vectorUtils.computeHashVector(queryVector, hashFunctions, lshConfig.vector_dimensions);
-
-            // Get all buckets and compute hamming distances
-            const allBuckets = await this.getAllLSHBuckets(lshConfig.id.toString());
-            // Compute hamming distance to each bucket and sort by distance
-            const bucketDistances = allBuckets.map(bucket => {
-                const bucketHashArray = bucket.bucketHash.split('').map(Number);
-                const hammingDistance = VectorUtils.hammingDistance(queryHash, bucketHashArray);
-                return {
-                    ...bucket,
-                    hammingDistance
-                };
-            });
-
-            // Sort by hamming distance (closest first)
-            bucketDistances.sort((a, b) => a.hammingDistance - b.hammingDistance);
-
-            // Collect vector IDs from closest buckets until we have enough candidates
-            const candidateVectorIds = new Set<string>();
-            const targetCandidates = limit * 10; // Get 10x more candidates for better ranking
-            let bucketsUsed = 0;
-            
-            for (const bucket of bucketDistances) {
-                bucket.vectorIds.forEach(id => candidateVectorIds.add(id));
-                bucketsUsed++;
-                
-                // Break once we have enough candidates
-                if (candidateVectorIds.size >= targetCandidates) break;
-            }
+        const vectorIds = await this.getVectorIndex(this.vectorIndexType, space).search(queryVector, limit, options);
+        return await this.getVectorsByIds(vectorIds);
+    }
 
-            // Retrieve actual vectors from the database
-            const vectorIds = Array.from(candidateVectorIds);
-            const vectors: Vector[] = [];
-            
-            if (vectorIds.length > 0) {
-                const placeholders = vectorIds.map(() => '?').join(',');
-                const rows = await this.query(`
-                    SELECT * FROM vectors WHERE id IN (${placeholders})
-                `, vectorIds);
-                
-                vectors.push(...rows.map(row => ({
-                    id: row.id as string,
-                    note_id: row.note_id as string,
-                    chunk_id: (row.chunk_id as string | null) || undefined,
-                    block_id: (row.block_id as string | null) || undefined,
-                    type: row.type as VectorType,
-                    created_at: row.created_at as string,
-                    updated_at: row.updated_at as string,
-                    vector: new Int8Array(row.vector as Uint8Array)
-                })));
-            }
+    /**
+     * Exact top vectors of a space from the in-memory scan, whichever index is active
+     */
+    async scanVectors(queryVector: Int8Array, limit: number, filter?: VectorScanFilter, space: string = DEFAULT_SPACE_ID): Promise<Vector[]> {
+        if (!this.db) throw new Error('Database not initialized');
 
-            this.logger.debug('SqlJsAdapter', `LSH search found ${vectors.length} vector candidates from ${bucketsUsed} buckets (min hamming distance: ${bucketDistances[0].hammingDistance})`);
-            
-            return vectors;
+        const vectorIds = await this.getSpaceIndexes(space).linear.scan(queryVector, limit, filter);
+        return await this.getVectorsByIds(vectorIds);
+    }
 
-        } catch (error) {
-            this.logger.error('SqlJsAdapter', 'LSH search failed', error);
-            throw error;
-        }
+    private async getVectorsByIds(vectorIds: string[]): Promise<Vector[]> {
+        if (vectorIds.length === 0) return [];
+        
+        const placeholders = vectorIds.map(() => '?').join(',');
+        const rows = await this.query(`
+            SELECT * FROM vectors WHERE id IN (${placeholders})
+        `, vectorIds);
+        
+        return rows.map(row => ({
+            id: row.id as string,
+            note_id: row.note_id as string,
+            chunk_id: (row.chunk_id as string | null) || undefined,
+            block_id: (row.block_id as string | null) || undefined,
+            type: row.type as VectorType,
+            created_at: row.created_at as string,
+            updated_at: row.updated_at as string,
+            model: (row.model as string | null) || undefined,
+            space: (row.space as string | null) || undefined,
+            vector: new Int8Array(row.vector as Uint8Array)
+        }));
     }
 
-    async searchFTS(query: string, limit: number): Promise<FTSResult[]> {
+    /**
+     * Best full-text matches, restricted to the given notes when `noteIds` is set
+     */
+    async searchFTS(query: string, limit: number, noteIds?: string[]): Promise<FTSResult[]> {
         if (!this.db) throw new Error('Database not initialized');
         
-        // Escape FTS query and use FTS3 MATCH syntax
-        const escapedQuery = query.replace(/["']/g, '').trim();
-        if (!escapedQuery) return [];
+        const ftsQuery = buildFTSQuery(query);
+        if (!ftsQuery || noteIds?.length === 0) return [];
         
+        const contentColumn = FTS_COLUMNS.indexOf('content');
+        const noteCondition = noteIds ? `AND note_id IN (${noteIds.map(() => '?').join(', ')})` : '';
         const rows = await this.query(`
-            SELECT id, type, note_id, content, note_path, note_name, block_id
+            SELECT id, type, note_id, content, note_path, note_name, block_id,
+                bm25(matchinfo(fts_content, '${FTS_MATCHINFO_FORMAT}')) AS relevance,
+                snippet(fts_content, ?, ?, ?, ${contentColumn}, ${SNIPPET_TOKENS}) AS snippet
             FROM fts_content 
-            WHERE content MATCH ?
+            WHERE fts_content MATCH ? ${noteCondition}
+            ORDER BY relevance DESC
             LIMIT ?
-        `, [escapedQuery, limit]);
+        `, [SNIPPET_START, SNIPPET_END, SNIPPET_ELLIPSIS, ftsQuery, ...(noteIds ?? []), limit]);
         
         return rows.map(row => ({
             id: row.id as string,
@@ -660,8 +974,9 @@ export class SqlJsDatabaseAdapter implements DatabaseAdapter {
             content: row.content as string,
             notePath: row.note_path as string,
             noteName: row.note_name as string,
-            blockId: row.block_id as string | undefined,
-            relevance: 1.0 // Simple relevance score since we removed rank()
+            blockId: (row.block_id as string | null) || undefined,
+            relevance: row.relevance as number,
+            snippet: parseHighlightedSnippet(row.snippet as string)
         }));
     }
 
@@ -683,6 +998,17 @@ export class SqlJsDatabaseAdapter implements DatabaseAdapter {
         await this.save();
     }
 
+    /**
+     * Delete full-text rows by their id (`note_<note id>` or `block_<block id>`)
+     */
+    async deleteFTSContent(ids: string[]): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+        if (ids.length === 0) return;
+        
+        await this.execute(`DELETE FROM fts_content WHERE id IN (${ids.map(() => '?').join(', ')})`, ids);
+        await this.save();
+    }
+
     private generateId(): string {
         return Date.now().toString(36) + Math.random().toString(36).substr(2);
     }
@@ -710,10 +1036,16 @@ export type Chunk = {
     note_id: string;
     created_at: string;
     updated_at: string;
-    chunk_index: number;
+    chunk_index: number; // Order within the note, or within the block it splits
     text: string;
+    block_id?: string; // Set when the chunk splits an oversized block rather than the whole note
+    start_position?: Position; // Unknown for chunks stored before positions were recorded
+    end_position?: Position;
 };
 
+// A chunk about to be stored for a note
+export type NewChunk = Omit<Chunk, 'id' | 'note_id' | 'created_at' | 'updated_at'>;
+
 export type Vector = {
     id: string;
     note_id: string;
@@ -722,6 +1054,8 @@ export type Vector = {
     type: VectorType;
     created_at: string;
     updated_at: string;
+    model?: string; // Fingerprint of the embedding model that produced it; unknown for older vectors
+    space?: string; // Embedding space it belongs to; the default space when omitted
     vector: Int8Array; // Quantized int8 vectors
 };
 
@@ -733,18 +1067,305 @@ export type FTSResult = {
     notePath: string;
     noteName: string;
     blockId?: string;
-    relevance: number;
+    relevance: number; // BM25 score, higher is better
+    snippet: HighlightedSnippet; // Best matching passage of the content
 };
 
+// Inclusive bounds on a date property, as ISO dates or date-times; either end may be left open
+export type DateRange = {
+    property: string;
+    from?: string;
+    to?: string;
+};
+
+// Conditions on a note's folder and frontmatter; a note must meet all of them
+export type NoteFilters = {
+    tags?: string[]; // Every one of these tags; a tag also matches its nested tags (`project` matches `project/alpha`)
+    folder?: string; // In this folder or below it
+    properties?: Record<string, string>; // property=value; a list property matches when any item does
+    dateRanges?: DateRange[];
+};
+
+export function hasNoteFilters(filters: NoteFilters | undefined): filters is NoteFilters {
+    return !!filters && (
+        (filters.tags?.length ?? 0) > 0 ||
+        !!filters.folder?.replace(/^\/+|\/+$/g, '') ||
+        Object.keys(filters.properties ?? {}).length > 0 ||
+        (filters.dateRanges?.length ?? 0) > 0
+    );
+}
+
+// Everything a search result needs to display a stored vector or block
+export type HydratedResult = {
+    vectorId?: string;
+    noteId: string;
+    notePath: string;
+    noteName: string;
+    type: VectorType;
+    chunkId?: string;
+    chunkText?: string;
+    blockId?: string;
+    blockType?: BlockType;
+    blockContent?: string;
+    blockStartPosition?: Position;
+    blockEndPosition?: Position;
+    blockLocation?: BlockLocation;
+};
+
+// Hashes looked up per query, well below SQLite's bound parameter limit
+const CACHE_LOOKUP_BATCH = 500;
+
+// Notes shorter than this, once trimmed, get no note vector
+const MIN_EMBEDDED_NOTE_LENGTH = 16;
+
+export type EmbeddingCacheStats = {
+    entries: number;
+    hits: number; // Texts served from the cache since startup
+    misses: number; // Texts sent to the embedding provider since startup
+    evictions: number;
+};
+
+// Rows left behind by notes, chunks or blocks that no longer exist
+export type OrphanedDataCounts = {
+    orphanedVectors: number;
+    orphanedChunks: number;
+    orphanedChunkVectors: number;
+    orphanedBlocks: number;
+    orphanedFTSRows: number;
+};
+
+/**
+ * SHA-256 of a text, hex encoded. Keys the embedding cache.
+ */
+async function contentHash(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Escape LIKE wildcards, for patterns using ESCAPE '\'
+function escapeLike(text: string): string {
+    return text.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+// Condition on a path column starting with a prefix, which is bound twice. LIKE would ignore ASCII
+// case, and folders whose names differ only in case are distinct in a case-sensitive vault.
+function pathStartsWith(column: string): string {
+    return `substr(${column}, 1, length(?)) = ?`;
+}
+
+function samePosition(a: Position, b: Position): boolean {
+    return a.line === b.line && a.col === b.col && a.offset === b.offset;
+}
+
+function sameLocation(a: BlockLocation | undefined, b: BlockLocation | undefined): boolean {
+    return a?.page === b?.page && a?.canvasNodeId === b?.canvasNodeId;
+}
+
+// Blocks stored before heading paths were recorded have none; their path is filled in without re-embedding
+function sameHeadingPath(stored: string[] | undefined, parsed: string[] | undefined): boolean {
+    if (!stored) return true;
+    const path = parsed ?? [];
+    return stored.length === path.length && stored.every((heading, i) => heading === path[i]);
+}
+
+/**
+ * Pair each parsed block with the stored block it continues, if any. Every stored block is used at most once.
+ */
+function matchBlocks(existing: Block[], blocks: Block[]): (Block | undefined)[] {
+    const matches: (Block | undefined)[] = blocks.map(() => undefined);
+    const unclaimed = new Set(existing);
+    const claim = (i: number, previous: Block | undefined) => {
+        if (!previous) return;
+        matches[i] = previous;
+        unclaimed.delete(previous);
+    };
+
+    // An Obsidian block id (^id) is explicit identity, whatever happened to the text
+    blocks.forEach((block, i) => {
+        if (!block.obsidian_id) return;
+        claim(i, existing.find(previous => unclaimed.has(previous) && previous.obsidian_id === block.obsidian_id));
+    });
+
+    // Identical text is the same block, untouched or moved. Repeated text goes to the nearest copy.
+    const byContent = new Map<string, Block[]>();
+    for (const previous of existing) {
+        const key = `${previous.type}:${previous.content}`;
+        byContent.set(key, [...(byContent.get(key) ?? []), previous]);
+    }
+    blocks.forEach((block, i) => {
+        if (matches[i]) return;
+        const candidates = (byContent.get(`${block.type}:${block.content}`) ?? []).filter(previous => unclaimed.has(previous));
+        const distance = (previous: Block) => Math.abs(previous.start_position.offset - block.start_position.offset);
+        claim(i, candidates.sort((a, b) => distance(a) - distance(b))[0]);
+    });
+
+    // A block of the same type starting on the same line was edited in place
+    blocks.forEach((block, i) => {
+        if (matches[i]) return;
+        claim(i, existing.find(previous => unclaimed.has(previous) &&
+            previous.type === block.type &&
+            previous.start_position.line === block.start_position.line));
+    });
+
+    return matches;
+}
+
 export class DatabaseService {
     public adapter: DatabaseAdapter;
     private logger: Logger;
+    private modelFingerprints = new Map<string, string>();
+    private embeddingCacheLimit = DEFAULT_EMBEDDING_CACHE_LIMIT;
+    private blockContextPrefix = false;
+    private indexedBlockTypes: BlockType[] = DEFAULT_INDEXED_BLOCK_TYPES;
+    private embeddingCacheStats = { hits: 0, misses: 0, evictions: 0 };
 
     constructor(adapter: DatabaseAdapter, logger: Logger) {
         this.adapter = adapter;
         this.logger = logger;
     }
 
+    /**
+     * Fingerprint of the embedding model configured for a space. New vectors in the space are
+     * stamped with it, and vectors in the space stamped with anything else are treated as stale.
+     */
+    setModelFingerprint(fingerprint: string | null, space: string = DEFAULT_SPACE_ID): void {
+        if (fingerprint) {
+            this.modelFingerprints.set(space, fingerprint);
+        } else {
+            this.modelFingerprints.delete(space);
+        }
+    }
+
+    getModelFingerprint(space: string = DEFAULT_SPACE_ID): string | null {
+        return this.modelFingerprints.get(space) ?? null;
+    }
+
+    /**
+     * Maximum number of cached embeddings; 0 turns the cache off
+     */
+    setEmbeddingCacheLimit(limit: number): void {
+        this.embeddingCacheLimit = Math.max(0, Math.floor(limit));
+    }
+
+    /**
+     * Whether blocks are embedded with their note title and heading breadcrumb in front.
+     * Only the embedded text changes; stored block content stays as written.
+     */
+    setBlockContextPrefix(enabled: boolean): void {
+        this.blockContextPrefix = enabled;
+    }
+
+    /**
+     * Block types that are searchable. Blocks of other types are stored for structure only.
+     */
+    setIndexedBlockTypes(types: BlockType[]): void {
+        this.indexedBlockTypes = [...types];
+    }
+
+    async getEmbeddingCacheStats(): Promise<EmbeddingCacheStats> {
+        const row = await this.adapter.get('SELECT COUNT(*) as count FROM embedding_cache');
+        return {
+            entries: (row?.count as number) || 0,
+            ...this.embeddingCacheStats
+        };
+    }
+
+    /**
+     * Embed texts with a space's model, reusing the cached vector of any text that model has
+     * embedded before. Only new text reaches `embed`. Without a fingerprint nothing is cached,
+     * since there is no telling which model the vectors would belong to.
+     */
+    private async embedWithCache(
+        texts: string[],
+        space: string,
+        embed: (texts: string[]) => Promise<Int8Array[]>
+    ): Promise<Int8Array[]> {
+        const fingerprint = this.getModelFingerprint(space);
+        if (!fingerprint || this.embeddingCacheLimit === 0) {
+            return await embed(texts);
+        }
+
+        const hashes = await Promise.all(texts.map(contentHash));
+        const vectors = await this.getCachedEmbeddings(fingerprint, hashes);
+
+        // Identical texts in one call are embedded once
+        const missing = new Map<string, string>();
+        hashes.forEach((hash, i) => {
+            if (!vectors.has(hash)) missing.set(hash, texts[i]);
+        });
+
+        if (missing.size > 0) {
+            const embedded = await embed(Array.from(missing.values()));
+            if (embedded.length !== missing.size) {
+                throw new Error(`Embedding provider returned ${embedded.length} vectors for ${missing.size} texts`);
+            }
+            const now = new Date().toISOString();
+            let i = 0;
+            for (const hash of missing.keys()) {
+                const vector = embedded[i++];
+                vectors.set(hash, vector);
+                await this.adapter.execute(`
+                    INSERT OR REPLACE INTO embedding_cache (fingerprint, content_hash, vector, created_at, last_used_at)
+                    VALUES (?, ?, ?, ?, ?)
+                `, [fingerprint, hash, vector as unknown as Uint8Array, now, now]);
+            }
+            await this.evictEmbeddingCache();
+        }
+
+        const hits = texts.length - missing.size;
+        this.embeddingCacheStats.hits += hits;
+        this.embeddingCacheStats.misses += missing.size;
+        if (hits > 0) {
+            this.logger.debug('DatabaseService', `Embedding cache: ${hits} hits, ${missing.size} misses in space ${space}`);
+        }
+        return hashes.map(hash => vectors.get(hash)!);
+    }
+
+    /**
+     * Cached vectors by content hash, marking each one found as just used
+     */
+    private async getCachedEmbeddings(fingerprint: string, hashes: string[]): Promise<Map<string, Int8Array>> {
+        const vectors = new Map<string, Int8Array>();
+        const unique = Array.from(new Set(hashes));
+        const now = new Date().toISOString();
+
+        for (let i = 0; i < unique.length; i += CACHE_LOOKUP_BATCH) {
+            const batch = unique.slice(i, i + CACHE_LOOKUP_BATCH);
+            const placeholders = batch.map(() => '?').join(', ');
+            const rows = await this.adapter.query(
+                `SELECT content_hash, vector FROM embedding_cache WHERE fingerprint = ? AND content_hash IN (${placeholders})`,
+                [fingerprint, ...batch]
+            );
+            for (const row of rows) {
+                vectors.set(row.content_hash as string, new Int8Array(row.vector as Uint8Array));
+            }
+            if (rows.length > 0) {
+                await this.adapter.execute(
+                    `UPDATE embedding_cache SET last_used_at = ? WHERE fingerprint = ? AND content_hash IN (${placeholders})`,
+                    [now, fingerprint, ...batch]
+                );
+            }
+        }
+        return vectors;
+    }
+
+    /**
+     * Drop the least recently used entries beyond the cache limit, whichever model they belong to
+     */
+    private async evictEmbeddingCache(): Promise<void> {
+        const row = await this.adapter.get('SELECT COUNT(*) as count FROM embedding_cache');
+        const excess = ((row?.count as number) || 0) - this.embeddingCacheLimit;
+        if (excess <= 0) return;
+
+        await this.adapter.execute(`
+            DELETE FROM embedding_cache WHERE rowid IN (
+                SELECT rowid FROM embedding_cache ORDER BY last_used_at, rowid LIMIT ?
+            )
+        `, [excess]);
+        this.embeddingCacheStats.evictions += excess;
+        this.logger.debug('DatabaseService', `Evicted ${excess} entries from the embedding cache`);
+    }
+
     // Notes operations
     async createNote(note: Omit<Note, 'id' | 'created_at' | 'updated_at'>): Promise<string> {
         const id = this.generateId();
@@ -772,20 +1393,193 @@ export class DatabaseService {
     }
 
     async deleteNote(id: string): Promise<void> {
-        await this.adapter.execute('DELETE FROM notes WHERE id = ?', [id]);
-        await this.adapter.save();
+        await this.adapter.transaction(async () => {
+            await this.adapter.execute('DELETE FROM note_properties WHERE note_id = ?', [id]);
+            await this.adapter.execute('DELETE FROM notes WHERE id = ?', [id]);
+            await this.adapter.save();
+        });
+    }
+
+    /**
+     * Delete a note and everything derived from it: its blocks, chunks, vectors in every space
+     * (with their vector index entries), full-text rows and properties
+     */
+    async removeNote(noteId: string): Promise<void> {
+        await this.adapter.transaction(async () => {
+            await this.deleteVectorsForNote(noteId);
+            await this.adapter.execute('DELETE FROM chunks WHERE note_id = ?', [noteId]);
+            await this.adapter.execute('DELETE FROM blocks WHERE note_id = ?', [noteId]);
+            await this.adapter.deleteFTSContentForNote(noteId);
+            await this.deleteNote(noteId);
+        });
+    }
+
+    /**
+     * Move a note to a new path, keeping its blocks and vectors. Full-text rows carry their own
+     * copy of the note's path and name, so they are updated along with it.
+     */
+    async renameNote(noteId: string, path: string, name: string, baseName: string): Promise<void> {
+        await this.adapter.transaction(async () => {
+            await this.updateNote(noteId, { path, name, base_name: baseName });
+            await this.adapter.execute('UPDATE fts_content SET note_path = ?, note_name = ? WHERE note_id = ?', [path, name, noteId]);
+            await this.adapter.save();
+        });
+    }
+
+    /**
+     * Move every note under a folder, including subfolders, to the same place under its new path.
+     * Only paths change, so nothing is re-embedded. Returns the number of notes moved.
+     */
+    async renameFolder(oldPath: string, newPath: string): Promise<number> {
+        const oldPrefix = `${oldPath}/`;
+        const newPrefix = `${newPath}/`;
+
+        return await this.adapter.transaction(async () => {
+            const row = await this.adapter.get(`SELECT COUNT(*) as count FROM notes WHERE ${pathStartsWith('path')}`, [oldPrefix, oldPrefix]);
+            const moved = (row?.count as number) || 0;
+            if (moved === 0) return 0;
+
+            await this.adapter.execute(
+                `UPDATE notes SET path = ? || substr(path, length(?) + 1), updated_at = ? WHERE ${pathStartsWith('path')}`,
+                [newPrefix, oldPrefix, new Date().toISOString(), oldPrefix, oldPrefix]
+            );
+            // Full-text rows keep their own copy of the path
+            await this.adapter.execute(`
+                UPDATE fts_content SET note_path = (SELECT path FROM notes WHERE notes.id = fts_content.note_id)
+                WHERE note_id IN (SELECT id FROM notes WHERE ${pathStartsWith('path')})
+            `, [newPrefix, newPrefix]);
+            await this.adapter.save();
+            return moved;
+        });
+    }
+
+    /**
+     * The spaces, of those given, in which a note lacks a vector indexing produces: its note vector, one
+     * per chunk or one per embedded block. Which model made a vector does not matter here, vectors of
+     * another model are left to the stale vector check. Not empty after an indexing run that stopped
+     * partway, which stores the new text before its vectors.
+     */
+    async getSpacesMissingVectors(noteId: string, spaces: string[]): Promise<string[]> {
+        const note = await this.getNote(noteId);
+        if (!note) return [...spaces];
+
+        const vectors = await this.adapter.query('SELECT type, chunk_id, block_id, space FROM vectors WHERE note_id = ?', [noteId]);
+        const chunks = await this.getChunksForNote(noteId);
+        // Blocks too long for the model are covered by their chunks, like in processBlockVectors
+        const chunkedBlockIds = new Set(chunks.map(chunk => chunk.block_id));
+        const embeddedBlocks = (await this.getBlocksForNote(noteId, true)).filter(block =>
+            !chunkedBlockIds.has(block.id) && isEmbeddedBlockType(block.type, this.indexedBlockTypes));
+        const needsNoteVector = note.text.trim().length >= MIN_EMBEDDED_NOTE_LENGTH;
+
+        return spaces.filter(space => {
+            const inSpace = vectors.filter(vector => vector.space === space);
+            const chunkIds = new Set(inSpace.map(vector => vector.chunk_id));
+            const blockIds = new Set(inSpace.map(vector => vector.block_id));
+            return (needsNoteVector && !inSpace.some(vector => vector.type === VectorType.NOTE))
+                || chunks.some(chunk => !chunkIds.has(chunk.id))
+                || embeddedBlocks.some(block => !blockIds.has(block.id));
+        });
+    }
+
+    /**
+     * Drop a note's vectors in every space, its chunks and its full-text rows, keeping the note and
+     * its blocks, so it can be embedded again from scratch
+     */
+    async clearNoteEmbeddings(noteId: string): Promise<void> {
+        await this.adapter.transaction(async () => {
+            await this.deleteVectorsForNote(noteId);
+            await this.adapter.execute('DELETE FROM chunks WHERE note_id = ?', [noteId]);
+            await this.adapter.deleteFTSContentForNote(noteId);
+            await this.adapter.save();
+        });
+    }
+
+    async getNote(id: string): Promise<Note | null> {
+        const row = await this.adapter.get('SELECT * FROM notes WHERE id = ?', [id]);
+        if (!row) return null;
+        return row as Note;
+    }
+
+    async getNoteByPath(path: string): Promise<Note | null> {
+        const row = await this.adapter.get('SELECT * FROM notes WHERE path = ?', [path]);
+        if (!row) return null;
+        return row as Note;
+    }
+
+    // Note properties operations
+    async getNoteProperties(noteId: string): Promise<NoteProperty[]> {
+        const rows = await this.adapter.query('SELECT key, value, date FROM note_properties WHERE note_id = ? ORDER BY rowid', [noteId]);
+        return rows.map(row => ({
+            key: row.key as string,
+            value: row.value as string,
+            date: (row.date as string | null) ?? null
+        }));
+    }
+
+    /**
+     * Replace a note's properties. Nothing is written when they are unchanged, so this can run on
+     * every sync, including for notes indexed before properties were recorded.
+     */
+    async setNoteProperties(noteId: string, properties: NoteProperty[]): Promise<boolean> {
+        const existing = await this.getNoteProperties(noteId);
+        const same = existing.length === properties.length && existing.every((property, i) =>
+            property.key === properties[i].key && property.value === properties[i].value && property.date === properties[i].date);
+        if (same) return false;
+
+        await this.adapter.transaction(async () => {
+            await this.adapter.execute('DELETE FROM note_properties WHERE note_id = ?', [noteId]);
+            for (const property of properties) {
+                await this.adapter.execute(
+                    'INSERT INTO note_properties (note_id, key, value, date) VALUES (?, ?, ?, ?)',
+                    [noteId, property.key, property.value, property.date]
+                );
+            }
+            await this.adapter.save();
+        });
+        return true;
     }
 
-    async getNote(id: string): Promise<Note | null> {
-        const row = await this.adapter.get('SELECT * FROM notes WHERE id = ?', [id]);
-        if (!row) return null;
-        return row as Note;
-    }
+    /**
+     * IDs of the notes meeting every filter. Tags and property values match case-insensitively.
+     */
+    async getNoteIdsMatching(filters: NoteFilters): Promise<string[]> {
+        const conditions: string[] = [];
+        const params: SqlValue[] = [];
+        const hasProperty = (condition: string) =>
+            `EXISTS (SELECT 1 FROM note_properties p WHERE p.note_id = n.id AND p.key = ? AND ${condition})`;
+
+        const folder = filters.folder?.replace(/^\/+|\/+$/g, '');
+        if (folder) {
+            conditions.push(pathStartsWith('n.path'));
+            params.push(`${folder}/`, `${folder}/`);
+        }
+        for (const tag of filters.tags ?? []) {
+            const name = tag.replace(/^#/, '');
+            conditions.push(hasProperty(`(lower(p.value) = lower(?) OR lower(p.value) LIKE lower(?) ESCAPE '\\')`));
+            params.push('tags', name, `${escapeLike(name)}/%`);
+        }
+        for (const [key, value] of Object.entries(filters.properties ?? {})) {
+            conditions.push(hasProperty('lower(p.value) = lower(?)'));
+            params.push(key.toLowerCase(), value);
+        }
+        for (const range of filters.dateRanges ?? []) {
+            const bounds = ['p.date IS NOT NULL'];
+            params.push(range.property.toLowerCase());
+            if (range.from) {
+                bounds.push('p.date >= ?');
+                params.push(range.from);
+            }
+            if (range.to) {
+                // A date-only upper bound takes in the whole of that day
+                bounds.push('substr(p.date, 1, length(?)) <= ?');
+                params.push(range.to, range.to);
+            }
+            conditions.push(hasProperty(bounds.join(' AND ')));
+        }
 
-    async getNoteByPath(path: string): Promise<Note | null> {
-        const row = await this.adapter.get('SELECT * FROM notes WHERE path = ?', [path]);
-        if (!row) return null;
-        return row as Note;
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        const rows = await this.adapter.query(`SELECT n.id FROM notes n ${where}`, params);
+        return rows.map(row => row.id as string);
     }
 
     async getAllNotes(): Promise<Note[]> {
@@ -795,15 +1589,29 @@ export class DatabaseService {
 
     // Chunks operations
     async createChunk(chunk: Omit<Chunk, 'id' | 'created_at' | 'updated_at'>): Promise<string> {
+        const id = await this.insertChunk(chunk);
+        await this.adapter.save();
+        return id;
+    }
+
+    private async insertChunk(chunk: Omit<Chunk, 'id' | 'created_at' | 'updated_at'>): Promise<string> {
         const id = this.generateId();
         const now = new Date().toISOString();
         
         await this.adapter.execute(`
-            INSERT INTO chunks (id, note_id, created_at, updated_at, chunk_index, text)
-            VALUES (?, ?, ?, ?, ?, ?)
-        `, [id, chunk.note_id, now, now, chunk.chunk_index, chunk.text]);
-        
-        await this.adapter.save();
+            INSERT INTO chunks (id, note_id, created_at, updated_at, chunk_index, text, block_id, start_position, end_position)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+            id,
+            chunk.note_id,
+            now,
+            now,
+            chunk.chunk_index,
+            chunk.text,
+            chunk.block_id || null,
+            chunk.start_position ? JSON.stringify(chunk.start_position) : null,
+            chunk.end_position ? JSON.stringify(chunk.end_position) : null
+        ]);
         return id;
     }
 
@@ -829,7 +1637,38 @@ export class DatabaseService {
             'SELECT * FROM chunks WHERE note_id = ? ORDER BY chunk_index',
             [noteId]
         );
-        return rows as Chunk[];
+        return rows.map(row => this.toChunk(row));
+    }
+
+    private toChunk(row: Record<string, SqlValue>): Chunk {
+        return {
+            id: row.id as string,
+            note_id: row.note_id as string,
+            created_at: row.created_at as string,
+            updated_at: row.updated_at as string,
+            chunk_index: row.chunk_index as number,
+            text: row.text as string,
+            block_id: (row.block_id as string | null) || undefined,
+            start_position: row.start_position ? JSON.parse(row.start_position as string) : undefined,
+            end_position: row.end_position ? JSON.parse(row.end_position as string) : undefined
+        };
+    }
+
+    /**
+     * Store the chunks of a note, or of its oversized blocks, and return their ids in the same order.
+     * Chunks that are replaced are dropped beforehand, with the note's own vectors or the block's.
+     */
+    async insertChunksForNote(noteId: string, chunks: NewChunk[]): Promise<string[]> {
+        if (chunks.length === 0) return [];
+
+        return await this.adapter.transaction(async () => {
+            const chunkIds: string[] = [];
+            for (const chunk of chunks) {
+                chunkIds.push(await this.insertChunk({ ...chunk, note_id: noteId }));
+            }
+            await this.adapter.save();
+            return chunkIds;
+        });
     }
 
     async deleteChunksForNote(noteId: string): Promise<void> {
@@ -841,28 +1680,37 @@ export class DatabaseService {
     async createVector(vector: Omit<Vector, 'id' | 'created_at' | 'updated_at'>): Promise<string> {
         const id = this.generateId();
         const now = new Date().toISOString();
+        const space = vector.space || DEFAULT_SPACE_ID;
         
         await this.adapter.execute(`
-            INSERT INTO vectors (id, note_id, chunk_id, block_id, type, created_at, updated_at, vector)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-        `, [id, vector.note_id, vector.chunk_id || null, vector.block_id || null, vector.type, now, now, vector.vector as unknown as Uint8Array]);
+            INSERT INTO vectors (id, note_id, chunk_id, block_id, type, created_at, updated_at, vector, model, space)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [id, vector.note_id, vector.chunk_id || null, vector.block_id || null, vector.type, now, now, vector.vector as unknown as Uint8Array, vector.model || this.getModelFingerprint(space), space]);
+        await this.adapter.indexVector(id, vector.vector, space);
         
         await this.adapter.save();
         return id;
     }
 
     async updateVector(id: string, vector: Int8Array): Promise<void> {
-        const now = new Date().toISOString();
+        await this.adapter.transaction(async () => {
+            const now = new Date().toISOString();
+            const row = await this.adapter.get('SELECT space FROM vectors WHERE id = ?', [id]);
+            const space = (row?.space as string | undefined) || DEFAULT_SPACE_ID;
 
-        await this.adapter.execute(`
-            UPDATE vectors SET vector = ?, updated_at = ? WHERE id = ?
-        `, [vector as unknown as Uint8Array, now, id]);
+            await this.adapter.execute(`
+                UPDATE vectors SET vector = ?, model = ?, updated_at = ? WHERE id = ?
+            `, [vector as unknown as Uint8Array, this.getModelFingerprint(space), now, id]);
+            await this.adapter.removeVectorsFromIndex([id]);
+            await this.adapter.indexVector(id, vector, space);
         
-        await this.adapter.save();
+            await this.adapter.save();
+        });
     }
 
     async deleteVector(id: string): Promise<void> {
         await this.adapter.execute('DELETE FROM vectors WHERE id = ?', [id]);
+        await this.adapter.removeVectorsFromIndex([id]);
         await this.adapter.save();
     }
 
@@ -880,13 +1728,24 @@ export class DatabaseService {
             type: row.type as VectorType,
             created_at: row.created_at as string,
             updated_at: row.updated_at as string,
+            model: (row.model as string | null) || undefined,
+            space: (row.space as string | null) || undefined,
             vector: new Int8Array(row.vector as Uint8Array)
         }));
     }
 
-    async deleteVectorsForNote(noteId: string): Promise<void> {
-        await this.adapter.execute('DELETE FROM vectors WHERE note_id = ?', [noteId]);
-        await this.adapter.save();
+    /**
+     * Delete a note's vectors in every space, or only in the given one
+     */
+    async deleteVectorsForNote(noteId: string, space?: string): Promise<void> {
+        await this.adapter.transaction(async () => {
+            const where = space ? 'note_id = ? AND space = ?' : 'note_id = ?';
+            const params = space ? [noteId, space] : [noteId];
+            const rows = await this.adapter.query(`SELECT id FROM vectors WHERE ${where}`, params);
+            await this.adapter.execute(`DELETE FROM vectors WHERE ${where}`, params);
+            await this.adapter.removeVectorsFromIndex(rows.map(row => row.id as string));
+            await this.adapter.save();
+        });
     }
 
     // Enhanced vector storage/retrieval methods
@@ -908,6 +1767,8 @@ export class DatabaseService {
             type: row.type as VectorType,
             created_at: row.created_at as string,
             updated_at: row.updated_at as string,
+            model: (row.model as string | null) || undefined,
+            space: (row.space as string | null) || undefined,
             vector: new Int8Array(row.vector as Uint8Array)
         };
     }
@@ -923,16 +1784,101 @@ export class DatabaseService {
             type: row.type as VectorType,
             created_at: row.created_at as string,
             updated_at: row.updated_at as string,
+            model: (row.model as string | null) || undefined,
+            space: (row.space as string | null) || undefined,
             vector: new Int8Array(row.vector as Uint8Array)
         }));
     }
 
-    async getSimilarVectors(queryVector: Int8Array, limit: number): Promise<Vector[]> {
-        return await this.adapter.getSimilarVectors(queryVector, limit);
+    async getSimilarVectors(queryVector: Int8Array, limit: number, options?: Partial<VectorIndexOptions>, space?: string): Promise<Vector[]> {
+        return await this.adapter.getSimilarVectors(queryVector, limit, options, space);
+    }
+
+    async scanVectors(queryVector: Int8Array, limit: number, filter?: VectorScanFilter, space?: string): Promise<Vector[]> {
+        return await this.adapter.scanVectors(queryVector, limit, filter, space);
+    }
+
+    async isVectorIndexAvailable(space?: string): Promise<boolean> {
+        return await this.adapter.isVectorIndexAvailable(space);
+    }
+
+    /**
+     * Note, chunk and block data for a set of vectors in a single joined query, keyed by vector ID.
+     * Vectors whose note, chunk or block no longer exists are left out.
+     */
+    async hydrateVectors(vectorIds: string[]): Promise<Map<string, HydratedResult>> {
+        const results = new Map<string, HydratedResult>();
+        if (vectorIds.length === 0) return results;
+
+        const placeholders = vectorIds.map(() => '?').join(',');
+        const rows = await this.adapter.query(`
+            SELECT
+                v.id AS vector_id, v.type, v.note_id, v.chunk_id, v.block_id,
+                n.path AS note_path, n.name AS note_name,
+                c.text AS chunk_text, c.start_position AS chunk_start_position, c.end_position AS chunk_end_position,
+                b.type AS block_type, b.content AS block_content, b.start_position, b.end_position,
+                COALESCE(b.location, chunk_block.location) AS block_location
+            FROM vectors v
+            JOIN notes n ON n.id = v.note_id
+            LEFT JOIN chunks c ON c.id = v.chunk_id
+            LEFT JOIN blocks b ON b.id = v.block_id
+            LEFT JOIN blocks chunk_block ON chunk_block.id = c.block_id
+            WHERE v.id IN (${placeholders})
+        `, vectorIds);
+
+        for (const row of rows) {
+            const result = this.toHydratedResult(row);
+            if (result.type === VectorType.CHUNK && result.chunkText === undefined) continue;
+            if (result.type === VectorType.BLOCK && result.blockContent === undefined) continue;
+            results.set(row.vector_id as string, { ...result, vectorId: row.vector_id as string });
+        }
+
+        return results;
+    }
+
+    /**
+     * Note and position data for blocks found without a vector (e.g. by full-text search), keyed by block ID
+     */
+    async hydrateBlocks(blockIds: string[]): Promise<Map<string, HydratedResult>> {
+        const results = new Map<string, HydratedResult>();
+        if (blockIds.length === 0) return results;
+
+        const placeholders = blockIds.map(() => '?').join(',');
+        const rows = await this.adapter.query(`
+            SELECT
+                'block' AS type, b.note_id, b.id AS block_id,
+                n.path AS note_path, n.name AS note_name,
+                b.type AS block_type, b.content AS block_content, b.start_position, b.end_position, b.location AS block_location
+            FROM blocks b
+            JOIN notes n ON n.id = b.note_id
+            WHERE b.id IN (${placeholders})
+        `, blockIds);
+
+        for (const row of rows) {
+            results.set(row.block_id as string, this.toHydratedResult(row));
+        }
+
+        return results;
     }
 
-    async isVectorIndexAvailable(): Promise<boolean> {
-        return await this.adapter.isVectorIndexAvailable();
+    private toHydratedResult(row: Record<string, SqlValue>): HydratedResult {
+        // Chunks carry their own span within the note, in the same shape as a block's
+        const startPosition = row.start_position ?? row.chunk_start_position;
+        const endPosition = row.end_position ?? row.chunk_end_position;
+        return {
+            noteId: row.note_id as string,
+            notePath: row.note_path as string,
+            noteName: row.note_name as string,
+            type: row.type as VectorType,
+            chunkId: (row.chunk_id as string | null) || undefined,
+            chunkText: (row.chunk_text as string | null) ?? undefined,
+            blockId: (row.block_id as string | null) || undefined,
+            blockType: (row.block_type as BlockType | null) || undefined,
+            blockContent: (row.block_content as string | null) ?? undefined,
+            blockStartPosition: startPosition ? JSON.parse(startPosition as string) : undefined,
+            blockEndPosition: endPosition ? JSON.parse(endPosition as string) : undefined,
+            blockLocation: row.block_location ? JSON.parse(row.block_location as string) : undefined
+        };
     }
 
     async getVectorCount(): Promise<number> {
@@ -956,6 +1902,64 @@ export class DatabaseService {
         return counts;
     }
 
+    /**
+     * Vectors of a space not stamped with its model fingerprint: `mismatched` ones came from another
+     * model, `unknown` ones predate fingerprints. All zero while the space has no fingerprint.
+     */
+    async getStaleVectorCounts(space: string = DEFAULT_SPACE_ID): Promise<{ mismatched: number; unknown: number; notes: number }> {
+        const fingerprint = this.getModelFingerprint(space);
+        if (!fingerprint) return { mismatched: 0, unknown: 0, notes: 0 };
+
+        const result = await this.adapter.get(`
+            SELECT
+                COUNT(CASE WHEN model IS NOT NULL THEN 1 END) as mismatched,
+                COUNT(CASE WHEN model IS NULL THEN 1 END) as unknown,
+                COUNT(DISTINCT note_id) as notes
+            FROM vectors
+            WHERE space = ? AND (model IS NULL OR model != ?)
+        `, [space, fingerprint]);
+
+        return {
+            mismatched: (result?.mismatched as number) || 0,
+            unknown: (result?.unknown as number) || 0,
+            notes: (result?.notes as number) || 0
+        };
+    }
+
+    async getNotesWithStaleVectors(space: string = DEFAULT_SPACE_ID): Promise<{ path: string; noteId: string }[]> {
+        const fingerprint = this.getModelFingerprint(space);
+        if (!fingerprint) return [];
+
+        const results = await this.adapter.query(`
+            SELECT n.id as note_id, n.path
+            FROM notes n
+            WHERE EXISTS (
+                SELECT 1 FROM vectors v
+                WHERE v.note_id = n.id AND v.space = ? AND (v.model IS NULL OR v.model != ?)
+            )
+            ORDER BY n.path
+        `, [space, fingerprint]);
+
+        return results.map(row => ({
+            path: row.path as string,
+            noteId: row.note_id as string
+        }));
+    }
+
+    /**
+     * Stamp vectors of unknown origin with the current fingerprint, for when the user
+     * knows they were produced by the configured model
+     */
+    async adoptUnstampedVectors(space: string = DEFAULT_SPACE_ID): Promise<void> {
+        const fingerprint = this.getModelFingerprint(space);
+        if (!fingerprint) return;
+
+        await this.adapter.execute('UPDATE vectors SET model = ? WHERE model IS NULL AND space = ?', [fingerprint, space]);
+        // The in-memory scan caches each row's model
+        await this.adapter.reconcileVectorIndex();
+        await this.adapter.save();
+    }
+
     // Change detection methods
     async getFilesModifiedSinceLastVectorCreation(): Promise<{ path: string; lastModified: number }[]> {
         // Get all files that are not fully processed (either note vector or chunk vectors are outdated)
@@ -987,17 +1991,17 @@ export class DatabaseService {
         }));
     }
 
-    async getFilesWithoutVectors(): Promise<{ path: string; noteId: string }[]> {
-        // Get all notes that have no note-level vectors at all
+    async getFilesWithoutVectors(space: string = DEFAULT_SPACE_ID): Promise<{ path: string; noteId: string }[]> {
+        // Get all notes that have no note-level vectors at all in the space
         const query = `
             SELECT n.id as note_id, n.path
             FROM notes n
-            LEFT JOIN vectors v ON n.id = v.note_id AND v.type = 'note'
+            LEFT JOIN vectors v ON n.id = v.note_id AND v.type = 'note' AND v.space = ?
             WHERE v.id IS NULL
             ORDER BY n.created_at DESC
         `;
         
-        const results = await this.adapter.query(query);
+        const results = await this.adapter.query(query, [space]);
         
         return results.map(row => ({
             path: row.path as string,
@@ -1055,7 +2059,8 @@ export class DatabaseService {
             WHERE note_id NOT IN (SELECT id FROM notes)
         `;
         
-        const result = await this.adapter.execute(query);
+        await this.adapter.execute(query);
+        await this.adapter.reconcileVectorIndex();
         await this.adapter.save();
         
         // Return count of cleaned up vectors (sql.js doesn't provide affected row counts)
@@ -1087,6 +2092,7 @@ export class DatabaseService {
         `;
         
         await this.adapter.execute(query);
+        await this.adapter.reconcileVectorIndex();
         await this.adapter.save();
         
         // Return count of cleaned up vectors (sql.js doesn't provide affected row counts)
@@ -1094,18 +2100,51 @@ export class DatabaseService {
         return 0;
     }
 
-    async performFullCleanup(): Promise<{ vectors: number; chunks: number; vectorsForChunks: number }> {
-        const [vectors, chunks, vectorsForChunks] = await Promise.all([
+    async cleanupOrphanedBlocks(): Promise<number> {
+        // Remove blocks that reference non-existent notes
+        const query = `
+            DELETE FROM blocks 
+            WHERE note_id NOT IN (SELECT id FROM notes)
+        `;
+        
+        await this.adapter.execute(query);
+        await this.adapter.save();
+        
+        // Return count of cleaned up blocks (sql.js doesn't provide affected row counts)
+        // For performance reasons, we don't query to count deleted rows
+        return 0;
+    }
+
+    async cleanupOrphanedFTSContent(): Promise<number> {
+        // Remove full-text rows of non-existent notes, and block rows of non-existent blocks
+        const query = `
+            DELETE FROM fts_content 
+            WHERE note_id NOT IN (SELECT id FROM notes)
+            OR (block_id IS NOT NULL AND block_id NOT IN (SELECT id FROM blocks))
+        `;
+        
+        await this.adapter.execute(query);
+        await this.adapter.save();
+        
+        // Return count of cleaned up rows (sql.js doesn't provide affected row counts)
+        // For performance reasons, we don't query to count deleted rows
+        return 0;
+    }
+
+    async performFullCleanup(): Promise<{ vectors: number; chunks: number; vectorsForChunks: number; blocks: number; ftsRows: number }> {
+        const [vectors, chunks, vectorsForChunks, blocks, ftsRows] = await Promise.all([
             this.cleanupOrphanedVectors(),
             this.cleanupOrphanedChunks(),
-            this.cleanupVectorsForDeletedChunks()
+            this.cleanupVectorsForDeletedChunks(),
+            this.cleanupOrphanedBlocks(),
+            this.cleanupOrphanedFTSContent()
         ]);
         
-        return { vectors, chunks, vectorsForChunks };
+        return { vectors, chunks, vectorsForChunks, blocks, ftsRows };
     }
 
-    async getOrphanedDataCounts(): Promise<{ orphanedVectors: number; orphanedChunks: number; orphanedChunkVectors: number }> {
-        const [orphanedVectors, orphanedChunks, orphanedChunkVectors] = await Promise.all([
+    async getOrphanedDataCounts(): Promise<OrphanedDataCounts> {
+        const [orphanedVectors, orphanedChunks, orphanedChunkVectors, orphanedBlocks, orphanedFTSRows] = await Promise.all([
             this.adapter.get(`
                 SELECT COUNT(*) as count FROM vectors 
                 WHERE note_id NOT IN (SELECT id FROM notes)
@@ -1118,13 +2157,24 @@ export class DatabaseService {
                 SELECT COUNT(*) as count FROM vectors 
                 WHERE chunk_id IS NOT NULL 
                 AND chunk_id NOT IN (SELECT id FROM chunks)
+            `),
+            this.adapter.get(`
+                SELECT COUNT(*) as count FROM blocks 
+                WHERE note_id NOT IN (SELECT id FROM notes)
+            `),
+            this.adapter.get(`
+                SELECT COUNT(*) as count FROM fts_content 
+                WHERE note_id NOT IN (SELECT id FROM notes)
+                OR (block_id IS NOT NULL AND block_id NOT IN (SELECT id FROM blocks))
             `)
         ]);
         
         return {
             orphanedVectors: (orphanedVectors?.count as number) || 0,
             orphanedChunks: (orphanedChunks?.count as number) || 0,
-            orphanedChunkVectors: (orphanedChunkVectors?.count as number) || 0
+            orphanedChunkVectors: (orphanedChunkVectors?.count as number) || 0,
+            orphanedBlocks: (orphanedBlocks?.count as number) || 0,
+            orphanedFTSRows: (orphanedFTSRows?.count as number) || 0
         };
     }
 
@@ -1190,12 +2240,14 @@ export class DatabaseService {
             type: row.type as VectorType,
             created_at: row.created_at as string,
             updated_at: row.updated_at as string,
+            model: (row.model as string | null) || undefined,
+            space: (row.space as string | null) || undefined,
             vector: new Int8Array(row.vector as Uint8Array)
         }));
     }
 
-    async isNoteVectorUpToDate(noteId: string): Promise<boolean> {
-        // Check if BOTH note-level vector AND all chunk vectors are up to date
+    async isNoteVectorUpToDate(noteId: string, space: string = DEFAULT_SPACE_ID): Promise<boolean> {
+        // Check if BOTH note-level vector AND all whole-note chunk vectors are up to date
         const result = await this.adapter.get(`
             SELECT 
                 n.updated_at as note_updated,
@@ -1205,12 +2257,12 @@ export class DatabaseService {
                 MIN(CASE WHEN v_note.type = 'note' THEN v_note.created_at END) as note_vector_created,
                 MIN(CASE WHEN v_chunk.type = 'chunk' THEN v_chunk.created_at END) as oldest_chunk_vector_created
             FROM notes n
-            LEFT JOIN chunks c ON n.id = c.note_id
-            LEFT JOIN vectors v_note ON n.id = v_note.note_id AND v_note.type = 'note'
-            LEFT JOIN vectors v_chunk ON c.id = v_chunk.chunk_id AND v_chunk.type = 'chunk'
+            LEFT JOIN chunks c ON n.id = c.note_id AND c.block_id IS NULL
+            LEFT JOIN vectors v_note ON n.id = v_note.note_id AND v_note.type = 'note' AND v_note.space = ?
+            LEFT JOIN vectors v_chunk ON c.id = v_chunk.chunk_id AND v_chunk.type = 'chunk' AND v_chunk.space = ?
             WHERE n.id = ?
             GROUP BY n.id, n.updated_at
-        `, [noteId]);
+        `, [space, space, noteId]);
         
         if (!result) return false;
 
@@ -1283,91 +2335,250 @@ export class DatabaseService {
         };
     }
 
-    async processNoteVector(noteId: string, embeddingService: EmbeddingService): Promise<void> {
+    async processNoteVector(noteId: string, embeddingService: TextEmbedder, space: string = DEFAULT_SPACE_ID): Promise<void> {
         const note = await this.getNote(noteId);
         if (!note) {
             throw new Error('Note not found: ${noteId}');
         }
         const trimmedContent = note.text.trim();
-        if (!trimmedContent || trimmedContent.length < 16) {
+        if (!trimmedContent || trimmedContent.length < MIN_EMBEDDED_NOTE_LENGTH) {
             return
         }
 
-        if (await this.isNoteVectorUpToDate(noteId)) {
+        if (await this.isNoteVectorUpToDate(noteId, space)) {
             return;  // up to date already
         }
 
         try {
-            const noteVector = await embeddingService.embedText(note.text);
-            await this.createVector({
-                note_id: noteId,
-                type: VectorType.NOTE,
-                vector: noteVector
+            // A note too long for the model is represented by its chunks rather than its truncated text
+            const noteVector = await this.getMeanChunkVector(noteId, space)
+                ?? (await this.embedWithCache([note.text], space, async texts => [await embeddingService.embedText(texts[0])]))[0];
+            await this.adapter.transaction(async () => {
+                await this.createVector({
+                    note_id: noteId,
+                    type: VectorType.NOTE,
+                    space,
+                    vector: noteVector
+                });
+                
+                // Full-text rows don't depend on the model, so only the default space writes them
+                if (space !== DEFAULT_SPACE_ID) return;
+
+                // Also add note content to FTS index
+                await this.adapter.insertFTSContent(
+                    `note_${noteId}`,
+                    'note',
+                    noteId,
+                    note.text,
+                    note.path,
+                    note.name
+                );
             });
-            
-            // Also add note content to FTS index
-            await this.adapter.insertFTSContent(
-                `note_${noteId}`,
-                'note',
-                noteId,
-                note.text,
-                note.path,
-                note.name
-            );
         } catch (error) {
             this.logger.error('SqlJsAdapter', `Failed to process note ${noteId}`, error);
             throw error;
         }
     }
 
-    async insertBlocksForNote(noteId: string, blocks: Block[]): Promise<{ blockIds: string[] }> {
-        const blockIds: string[] = [];
-        
-        // Delete existing blocks for this note first (clean slate approach)
-        await this.adapter.execute('DELETE FROM blocks WHERE note_id = ?', [noteId]);
-        
-        // Insert each block
-        for (const block of blocks) {
-            const blockId = this.generateId();
-            const now = new Date().toISOString();
-            
-            await this.adapter.execute(`
-                INSERT INTO blocks (id, note_id, created_at, updated_at, type, content, obsidian_id, start_position, end_position)
-                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-            `, [
-                blockId,
-                noteId,
-                now,
-                now,
-                block.type,
-                block.content,
-                block.obsidian_id,
-                JSON.stringify(block.start_position),
-                JSON.stringify(block.end_position)
-            ]);
-            
-            blockIds.push(blockId);
+    /**
+     * Normalized mean of the vectors of a note's whole-note chunks in a space, or null if it has none
+     */
+    private async getMeanChunkVector(noteId: string, space: string): Promise<Int8Array | null> {
+        const rows = await this.adapter.query(`
+            SELECT v.vector FROM vectors v
+            JOIN chunks c ON c.id = v.chunk_id
+            WHERE c.note_id = ? AND c.block_id IS NULL AND v.type = ? AND v.space = ?
+        `, [noteId, VectorType.CHUNK, space]);
+        if (rows.length === 0) return null;
+
+        const vectors = rows.map(row => new Int8Array(row.vector as Uint8Array));
+        const sum = new Array<number>(vectors[0].length).fill(0);
+        for (const vector of vectors) {
+            for (let i = 0; i < vector.length; i++) {
+                sum[i] += vector[i];
+            }
         }
-        
-        await this.adapter.save();
-        
-        return { blockIds };
+        return VectorUtils.processVector(sum);
+    }
+
+    /**
+     * Embed the given chunks of a note in a space. Chunks of the whole note also make up its note
+     * vector, so embed them before calling processNoteVector.
+     */
+    async processChunkVectors(
+        noteId: string,
+        chunkIds: string[],
+        embeddingService: TextEmbedder,
+        space: string = DEFAULT_SPACE_ID
+    ): Promise<void> {
+        if (chunkIds.length === 0) return;
+
+        const requested = new Set(chunkIds);
+        const chunks = (await this.getChunksForNote(noteId)).filter(chunk => requested.has(chunk.id));
+        if (chunks.length === 0) return;
+
+        try {
+            const embeddings = await this.embedWithCache(chunks.map(chunk => chunk.text), space, texts => embeddingService.embedTexts(texts));
+            await this.adapter.transaction(async () => {
+                for (let i = 0; i < chunks.length; i++) {
+                    await this.createVector({
+                        note_id: noteId,
+                        chunk_id: chunks[i].id,
+                        type: VectorType.CHUNK,
+                        space,
+                        vector: embeddings[i]
+                    });
+                }
+            });
+        } catch (error) {
+            this.logger.error('SqlJsAdapter', `Failed to process chunks of note ${noteId}`, error);
+            throw error;
+        }
+
+        this.logger.info('SqlJsAdapter', `Generated and stored ${chunks.length} chunk embeddings for note ${noteId}`);
+    }
+
+    /**
+     * Bring a note's stored blocks in line with its parsed blocks, keeping the id of every block that
+     * survived the edit. Blocks are matched by Obsidian block id, then by identical content (moved or
+     * untouched blocks), then by start line (a block edited in place). Vectors and full-text rows of
+     * changed and removed blocks are dropped; `changedBlockIds` lists the blocks that need embedding.
+     */
+    async insertBlocksForNote(noteId: string, blocks: Block[]): Promise<{ blockIds: string[]; changedBlockIds: string[] }> {
+        return await this.adapter.transaction(async () => {
+            const existing = await this.getBlocksForNote(noteId);
+            const matches = matchBlocks(existing, blocks);
+
+            const blockIds: string[] = [];
+            const changedBlockIds: string[] = [];
+            const now = new Date().toISOString();
+
+            for (let i = 0; i < blocks.length; i++) {
+                const block = blocks[i];
+                const previous = matches[i];
+
+                if (!previous) {
+                    const blockId = this.generateId();
+                    await this.adapter.execute(`
+                        INSERT INTO blocks (id, note_id, created_at, updated_at, type, content, obsidian_id, start_position, end_position, heading_path, location)
+                        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                    `, [
+                        blockId,
+                        noteId,
+                        now,
+                        now,
+                        block.type,
+                        block.content,
+                        block.obsidian_id,
+                        JSON.stringify(block.start_position),
+                        JSON.stringify(block.end_position),
+                        JSON.stringify(block.heading_path ?? []),
+                        block.location ? JSON.stringify(block.location) : null
+                    ]);
+                    blockIds.push(blockId);
+                    changedBlockIds.push(blockId);
+                    continue;
+                }
+
+                blockIds.push(previous.id);
+                // A block under a renamed heading is embedded with a different breadcrumb
+                const contentChanged = previous.content !== block.content || previous.type !== block.type ||
+                    !sameHeadingPath(previous.heading_path, block.heading_path);
+                if (contentChanged) {
+                    changedBlockIds.push(previous.id);
+                    await this.adapter.execute(`
+                        UPDATE blocks SET updated_at = ?, type = ?, content = ?, obsidian_id = ?, start_position = ?, end_position = ?, heading_path = ?, location = ?
+                        WHERE id = ?
+                    `, [now, block.type, block.content, block.obsidian_id, JSON.stringify(block.start_position), JSON.stringify(block.end_position), JSON.stringify(block.heading_path ?? []), block.location ? JSON.stringify(block.location) : null, previous.id]);
+                } else if (previous.obsidian_id !== block.obsidian_id || !previous.heading_path ||
+                    !samePosition(previous.start_position, block.start_position) ||
+                    !samePosition(previous.end_position, block.end_position) ||
+                    !sameLocation(previous.location, block.location)) {
+                    // Moved or re-labelled: same content, so its vectors and full-text row stay valid
+                    await this.adapter.execute(`
+                        UPDATE blocks SET obsidian_id = ?, start_position = ?, end_position = ?, heading_path = ?, location = ? WHERE id = ?
+                    `, [block.obsidian_id, JSON.stringify(block.start_position), JSON.stringify(block.end_position), JSON.stringify(block.heading_path ?? []), block.location ? JSON.stringify(block.location) : null, previous.id]);
+                }
+            }
+
+            const kept = new Set(blockIds);
+            const removedBlockIds = existing.map(block => block.id).filter(id => !kept.has(id));
+            if (removedBlockIds.length > 0) {
+                await this.adapter.execute(
+                    `DELETE FROM blocks WHERE id IN (${removedBlockIds.map(() => '?').join(', ')})`,
+                    removedBlockIds
+                );
+            }
+            await this.deleteBlockVectors([...removedBlockIds, ...changedBlockIds]);
+
+            await this.adapter.save();
+
+            this.logger.debug('DatabaseService', `Blocks for note ${noteId}: ${blocks.length - changedBlockIds.length} kept, ${changedBlockIds.length} new or changed, ${removedBlockIds.length} removed`);
+            return { blockIds, changedBlockIds };
+        });
+    }
+
+    /**
+     * Drop the vectors (in every space), chunks and full-text rows of blocks whose content is gone
+     */
+    private async deleteBlockVectors(blockIds: string[]): Promise<void> {
+        if (blockIds.length === 0) return;
+
+        const placeholders = blockIds.map(() => '?').join(', ');
+        const rows = await this.adapter.query(`SELECT id FROM vectors WHERE block_id IN (${placeholders})`, blockIds);
+        await this.adapter.execute(`DELETE FROM vectors WHERE block_id IN (${placeholders})`, blockIds);
+        await this.adapter.removeVectorsFromIndex(rows.map(row => row.id as string));
+        await this.adapter.deleteFTSContent(blockIds.map(id => `block_${id}`));
+        await this.deleteChunks(`block_id IN (${placeholders})`, blockIds);
+    }
+
+    /**
+     * Drop a note's own vectors in every space, its whole-note chunks and its full-text row,
+     * leaving its blocks' vectors and chunks alone
+     */
+    async deleteNoteLevelVectors(noteId: string): Promise<void> {
+        await this.adapter.transaction(async () => {
+            const rows = await this.adapter.query('SELECT id FROM vectors WHERE note_id = ? AND type = ?', [noteId, VectorType.NOTE]);
+            await this.adapter.execute('DELETE FROM vectors WHERE note_id = ? AND type = ?', [noteId, VectorType.NOTE]);
+            await this.adapter.removeVectorsFromIndex(rows.map(row => row.id as string));
+            await this.adapter.deleteFTSContent([`note_${noteId}`]);
+            await this.deleteChunks('note_id = ? AND block_id IS NULL', [noteId]);
+            await this.adapter.save();
+        });
+    }
+
+    /**
+     * Delete the chunks matching a condition together with their vectors in every space
+     */
+    private async deleteChunks(condition: string, params: string[]): Promise<void> {
+        const chunkRows = await this.adapter.query(`SELECT id FROM chunks WHERE ${condition}`, params);
+        if (chunkRows.length === 0) return;
+
+        const chunkIds = chunkRows.map(row => row.id as string);
+        const placeholders = chunkIds.map(() => '?').join(', ');
+        const vectorRows = await this.adapter.query(`SELECT id FROM vectors WHERE chunk_id IN (${placeholders})`, chunkIds);
+        await this.adapter.execute(`DELETE FROM vectors WHERE chunk_id IN (${placeholders})`, chunkIds);
+        await this.adapter.removeVectorsFromIndex(vectorRows.map(row => row.id as string));
+        await this.adapter.execute(`DELETE FROM chunks WHERE id IN (${placeholders})`, chunkIds);
     }
 
     async getBlocksForNote(noteId: string, filterNull: boolean = false): Promise<Block[]> {
         const rows = await this.adapter.query(
-            'SELECT * FROM blocks WHERE note_id = ? ORDER BY created_at',
+            'SELECT * FROM blocks WHERE note_id = ?',
             [noteId]
         );
         
+        // Blocks keep their ids across edits, so document order comes from positions rather than creation time
         const blocks: Block[] = rows.map(row => ({
             id: row.id as string,
             type: row.type as BlockType,
             content: row.content as string,
             obsidian_id: (row.obsidian_id as string) || null,
             start_position: JSON.parse(row.start_position as string),
-            end_position: JSON.parse(row.end_position as string)
-        }));
+            end_position: JSON.parse(row.end_position as string),
+            heading_path: row.heading_path ? JSON.parse(row.heading_path as string) : undefined,
+            location: row.location ? JSON.parse(row.location as string) : undefined
+        })).sort((a, b) => a.start_position.offset - b.start_position.offset);
         
         if (filterNull) {
             return blocks.filter(block => block.content && block.content.trim().length > 0);
@@ -1379,7 +2590,8 @@ export class DatabaseService {
     async processBlockVectors(
         noteId: string,
         blockIds: string[],
-        embeddingService: EmbeddingService
+        embeddingService: TextEmbedder,
+        space: string = DEFAULT_SPACE_ID
     ) {
         if (blockIds.length > 0) {
             // Get the blocks for this note, filtering out null content
@@ -1388,54 +2600,63 @@ export class DatabaseService {
                 return;
             }
 
-            // Define whitelist of block types to process
-            const allowedBlockTypes = [
-                BlockType.PARAGRAPH,
-                BlockType.HEADING,
-                BlockType.LIST,
-                BlockType.BLOCKQUOTE
-            ];
-            
-            // Filter blocks to only process allowed types
-            const filteredBlocks = blocks.filter(block => allowedBlockTypes.includes(block.type));
+            // Filter blocks to the requested ones of the indexed types
+            const requested = new Set(blockIds);
+            const filteredBlocks = blocks.filter(block => requested.has(block.id) && this.indexedBlockTypes.includes(block.type));
             
             if (filteredBlocks.length === 0) {
                 return;
             }
 
-            // Extract text content from blocks for embedding
-            const blockTexts = filteredBlocks.map(block => block.content);
+            // Blocks too long for the model are represented by their chunk vectors instead, and
+            // full-text-only types get no vector at all
+            const chunkedBlockIds = new Set((await this.getChunksForNote(noteId)).map(chunk => chunk.block_id));
+            const embeddedBlocks = filteredBlocks.filter(block =>
+                !chunkedBlockIds.has(block.id) && isEmbeddedBlockType(block.type, this.indexedBlockTypes));
+
+            // Extract text content from blocks for embedding, in the context of their note and headings if enabled
+            const title = this.blockContextPrefix ? (await this.getNote(noteId))?.base_name : undefined;
+            const blockTexts = embeddedBlocks.map(block => title !== undefined
+                ? withHeadingContext(blockIndexText(block), title, block.heading_path)
+                : blockIndexText(block));
             
-            // Generate embeddings for all blocks at once
-            const embeddings = await embeddingService.embedTexts(blockTexts);
+            // Generate embeddings for all blocks at once; only text the model hasn't seen is sent to it
+            const embeddings = blockTexts.length > 0
+                ? await this.embedWithCache(blockTexts, space, texts => embeddingService.embedTexts(texts))
+                : [];
+            const embeddingByBlock = new Map(embeddedBlocks.map((block, i) => [block.id, embeddings[i]]));
             
             // Store the embeddings in the vectors table and FTS content
-            for (let i = 0; i < embeddings.length; i++) {
-                const block = filteredBlocks[i];
-                const embedding = embeddings[i];
+            await this.adapter.transaction(async () => {
+                for (const block of filteredBlocks) {
+                    const embedding = embeddingByBlock.get(block.id);
                 
-                await this.createVector({
-                    note_id: noteId,
-                    chunk_id: undefined, // No chunk for block vectors
-                    block_id: block.id,
-                    type: VectorType.BLOCK,
-                    vector: embedding
-                });
+                    if (embedding) {
+                        await this.createVector({
+                            note_id: noteId,
+                            chunk_id: undefined, // No chunk for block vectors
+                            block_id: block.id,
+                            type: VectorType.BLOCK,
+                            space,
+                            vector: embedding
+                        });
+                    }
                 
-                // Get note info for FTS indexing
-                const note = await this.getNote(noteId);
-                if (note) {
-                    await this.adapter.insertFTSContent(
-                        `block_${block.id}`,
-                        'block',
-                        noteId,
-                        block.content,
-                        note.path,
-                        note.name,
-                        block.id
-                    );
+                    // Get note info for FTS indexing; other spaces share the default space's rows
+                    const note = space === DEFAULT_SPACE_ID ? await this.getNote(noteId) : null;
+                    if (note) {
+                        await this.adapter.insertFTSContent(
+                            `block_${block.id}`,
+                            'block',
+                            noteId,
+                            blockIndexText(block),
+                            note.path,
+                            note.name,
+                            block.id
+                        );
+                    }
                 }
-            }
+            });
             
             this.logger.info('SqlJsAdapter', `Generated and stored ${embeddings.length} block embeddings for note ${noteId}`);
         }
@@ -1444,6 +2665,24 @@ export class DatabaseService {
 
 
 
+    /**
+     * Replace a note's vectors in one space with fresh ones from the given embedder, keeping its blocks.
+     * Used to re-embed only the notes whose vectors came from another model, and to fill a new space.
+     */
+    async reembedNote(noteId: string, embeddingService: TextEmbedder, space: string = DEFAULT_SPACE_ID): Promise<void> {
+        const blocks = await this.getBlocksForNote(noteId);
+
+        await this.deleteVectorsForNote(noteId, space);
+        if (space === DEFAULT_SPACE_ID) {
+            await this.adapter.deleteFTSContentForNote(noteId);
+        }
+
+        const chunks = await this.getChunksForNote(noteId);
+        await this.processChunkVectors(noteId, chunks.map(chunk => chunk.id), embeddingService, space);
+        await this.processNoteVector(noteId, embeddingService, space);
+        await this.processBlockVectors(noteId, blocks.map(block => block.id), embeddingService, space);
+    }
+
     /**
      * Unified method to create or update a note, checking for existence and changes
      * Returns true if the note was created or updated, false if no changes were needed
@@ -1489,8 +2728,8 @@ export class DatabaseService {
     }
 
 
-    async searchFTS(query: string, limit: number = 10): Promise<FTSResult[]> {
-        return await this.adapter.searchFTS(query, limit);
+    async searchFTS(query: string, limit: number = 10, noteIds?: string[]): Promise<FTSResult[]> {
+        return await this.adapter.searchFTS(query, limit, noteIds);
     }
 
     async getFTSTableStats(): Promise<{ count: number; sampleContent: string | null }> {
@@ -1516,36 +2755,38 @@ export class DatabaseService {
         
         let populated = 0;
         
-        for (const note of allNotes) {
-            if (!existingFTSNoteIds.has(note.id)) {
-                
-                // Add note content to FTS
-                await this.adapter.insertFTSContent(
-                    `note_${note.id}`,
-                    'note',
-                    note.id,
-                    note.text,
-                    note.path,
-                    note.name
-                );
+        await this.adapter.transaction(async () => {
+            for (const note of allNotes) {
+                if (!existingFTSNoteIds.has(note.id)) {
                 
-                // Add block content to FTS
-                const blocks = await this.getBlocksForNote(note.id);
-                for (const block of blocks) {
+                    // Add note content to FTS
                     await this.adapter.insertFTSContent(
-                        `block_${block.id}`,
-                        'block',
+                        `note_${note.id}`,
+                        'note',
                         note.id,
-                        block.content,
+                        note.text,
                         note.path,
-                        note.name,
-                        block.id
+                        note.name
                     );
-                }
                 
-                populated++;
+                    // Add block content to FTS
+                    const blocks = (await this.getBlocksForNote(note.id)).filter(block => this.indexedBlockTypes.includes(block.type));
+                    for (const block of blocks) {
+                        await this.adapter.insertFTSContent(
+                            `block_${block.id}`,
+                            'block',
+                            note.id,
+                            blockIndexText(block),
+                            note.path,
+                            note.name,
+                            block.id
+                        );
+                    }
+                
+                    populated++;
+                }
             }
-        }
+        });
         
         if (populated > 0) {
             this.logger.info('DatabaseService', `Populated FTS content for ${populated} notes`);
@@ -1558,20 +2799,23 @@ export class DatabaseService {
         totalVectors: number;
         vectorsByType: { note: number; block: number };
         outdatedNotes: number;
-        orphanedData: { orphanedVectors: number; orphanedChunks: number; orphanedChunkVectors: number };
+        orphanedData: OrphanedDataCounts;
+        embeddingCache: EmbeddingCacheStats;
     }> {
         const [
             allNotes,
             vectorCount,
             vectorsByType,
             outdatedFiles,
-            orphanedData
+            orphanedData,
+            embeddingCache
         ] = await Promise.all([
             this.getAllNotes(),
             this.getVectorCount(),
             this.getVectorCountByType(),
             this.getOutdatedFiles(),
-            this.getOrphanedDataCounts()
+            this.getOrphanedDataCounts(),
+            this.getEmbeddingCacheStats()
         ]);
 
         // Count how many notes are fully processed
@@ -1588,7 +2832,8 @@ export class DatabaseService {
             totalVectors: vectorCount,
             vectorsByType,
             outdatedNotes: outdatedFiles.length,
-            orphanedData
+            orphanedData,
+            embeddingCache
         };
     }
 
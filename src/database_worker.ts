@@ -0,0 +1,106 @@
+import type { Plugin } from 'obsidian';
+import { DatabaseService, SqlJsDatabaseAdapter } from './database_service';
+import { TextEmbedder, VectorUtils } from './embedding_service';
+import { DEFAULT_SPACE_ID } from './embedding_space';
+import { logger, LogLevel } from './logger';
+import { SearchService } from './search_service';
+import { TransformersEmbeddingProvider } from './transformers_provider';
+import { DatabaseServiceApi, HostApi, LocalModelApi, MessageEndpoint, RpcEndpoint, WorkerApi, WorkerOptions } from './worker_protocol';
+
+/**
+ * Owns the sql.js database, the vector indexes and search scoring inside a Web Worker, and runs
+ * local embedding models. The plugin talks to it through proxies over the message protocol;
+ * vault I/O and requests to remote embedding providers are sent back to the main thread.
+ */
+export class DatabaseWorker {
+    private endpoint: RpcEndpoint<WorkerApi, HostApi>;
+    private vault: HostApi['vault'];
+    private adapter: SqlJsDatabaseAdapter | null = null;
+    // Local models by folder and model id, each loaded once
+    private localModels = new Map<string, TransformersEmbeddingProvider>();
+
+    constructor(port: MessageEndpoint) {
+        this.endpoint = new RpcEndpoint<WorkerApi, HostApi>(port);
+        this.vault = {
+            exists: path => this.endpoint.call('vault', 'exists', [path]),
+            readBinary: path => this.endpoint.call('vault', 'readBinary', [path]),
+            // The exported database is not reused, so hand the buffer over instead of copying it
+            writeBinary: (path, data) => this.endpoint.call('vault', 'writeBinary', [path, data], [data]),
+            rename: (path, newPath) => this.endpoint.call('vault', 'rename', [path, newPath]),
+            remove: path => this.endpoint.call('vault', 'remove', [path]),
+            read: path => this.endpoint.call('vault', 'read', [path]),
+            append: (path, data) => this.endpoint.call('vault', 'append', [path, data])
+        };
+        this.endpoint.setHandler('worker', {
+            initialize: options => this.initialize(options),
+            setLogLevel: level => this.setLogLevel(level)
+        });
+        const localModels: LocalModelApi = {
+            embedTexts: (folder, model, texts) => this.getLocalModel(folder, model).embed_many(texts),
+            validate: (folder, model) => this.getLocalModel(folder, model).validate()
+        };
+        this.endpoint.setHandler('localModels', localModels);
+    }
+
+    async initialize(options: WorkerOptions): Promise<void> {
+        if (this.adapter) {
+            throw new Error('Database worker already initialized');
+        }
+        logger.setLevel(options.logLevel);
+
+        // The adapter only reaches the vault through plugin.app.vault
+        const plugin = { app: { vault: { configDir: options.configDir, adapter: this.vault } } } as unknown as Plugin;
+
+        const adapter = new SqlJsDatabaseAdapter(plugin, new VectorUtils(logger), logger);
+        adapter.setVectorIndexType(options.vectorIndexType);
+        await adapter.initialize();
+        this.adapter = adapter;
+
+        // Other requests may use the database while one waits on the host for embeddings
+        const embedder = (space: string = DEFAULT_SPACE_ID): TextEmbedder => ({
+            embedText: text => adapter.unlocked(() => this.endpoint.call('embedding', 'embedText', [text, space])),
+            embedTexts: texts => adapter.unlocked(() => this.endpoint.call('embedding', 'embedTexts', [texts, space]))
+        });
+        const databaseService = new DatabaseService(adapter, logger);
+        const database: DatabaseServiceApi = Object.assign(Object.create(databaseService), {
+            processNoteVector: (noteId: string, space?: string) => databaseService.processNoteVector(noteId, embedder(space), space),
+            processChunkVectors: (noteId: string, chunkIds: string[], space?: string) => databaseService.processChunkVectors(noteId, chunkIds, embedder(space), space),
+            processBlockVectors: (noteId: string, blockIds: string[], space?: string) => databaseService.processBlockVectors(noteId, blockIds, embedder(space), space),
+            reembedNote: (noteId: string, space?: string) => databaseService.reembedNote(noteId, embedder(space), space)
+        });
+
+        this.endpoint.setHandler('adapter', exclusive(adapter, adapter));
+        this.endpoint.setHandler('database', exclusive(adapter, database));
+        this.endpoint.setHandler('search', exclusive(adapter, new SearchService(databaseService, embedder(), logger, embedder)));
+
+        logger.info('DatabaseWorker', 'Database worker ready');
+    }
+
+    setLogLevel(level: LogLevel): void {
+        logger.setLevel(level);
+    }
+
+    private getLocalModel(folder: string, model: string): TransformersEmbeddingProvider {
+        const key = `${folder}\n${model}`;
+        let provider = this.localModels.get(key);
+        if (!provider) {
+            provider = new TransformersEmbeddingProvider(this.vault, folder, model, logger);
+            this.localModels.set(key, provider);
+        }
+        return provider;
+    }
+}
+
+/**
+ * Serve `target` with every method call run through adapter.exclusive(), so concurrent requests
+ * take turns with the database instead of running statements inside each other's transactions
+ */
+function exclusive<T extends object>(adapter: SqlJsDatabaseAdapter, target: T): T {
+    return new Proxy(target, {
+        get(object, key) {
+            const value: unknown = Reflect.get(object, key);
+            if (typeof value !== 'function') return value;
+            return (...args: unknown[]) => adapter.exclusive(async () => value.apply(object, args));
+        }
+    });
+}
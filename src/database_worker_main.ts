@@ -0,0 +1,5 @@
+import { DatabaseWorker } from './database_worker';
+import { MessageEndpoint } from './worker_protocol';
+
+// Entry point of the worker bundle built by esbuild.config.mjs
+new DatabaseWorker(self as unknown as MessageEndpoint);
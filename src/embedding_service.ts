@@ -1,20 +1,39 @@
 // LSH configuration interfaces
 export interface LSHConfig {
     id: number;
-    num_hash_functions: number;
+    num_hash_functions: number; // Hash bits per table (K)
+    num_tables: number; // Number of independent hash tables (L)
     vector_dimensions: number;
     vector_count_at_build: number;
+    auto_sized: boolean; // Bits per table were sized from the vector count, so it is rebuilt as the corpus grows
     created_at: string;
 }
 
 export type LSHHashFunction = {
     id: string;
     configId: string;
+    tableIndex?: number; // Defaults to table 0 for single-table indexes
     hashIndex: number;
     projectionMatrix: Float32Array;
     createdAt: Date;
 };
 
+// Tunable LSH parameters. Table/bit counts are fixed when the index is built,
+// probes and candidate multiplier apply per search.
+export interface LSHIndexOptions {
+    numTables: number; // L - more tables raise recall at the cost of index size
+    bitsPerTable: number; // K - 0 sizes each table to ceil(log2(vectorCount))
+    probesPerTable: number; // Buckets visited per table (1 = exact bucket only)
+    candidateMultiplier: number; // Candidates returned per requested result
+}
+
+export const DEFAULT_LSH_OPTIONS: LSHIndexOptions = {
+    numTables: 8,
+    bitsPerTable: 0,
+    probesPerTable: 8,
+    candidateMultiplier: 10
+};
+
 // Ollama API response interfaces
 interface OllamaModel {
     name: string;
@@ -36,40 +55,58 @@ export class VectorUtils {
     }
 
     /**
-     * Generate random projection vectors for LSH hash functions
+     * Generate random projection vectors for LSH hash functions.
+     * Creates numTables independent tables of numHashFunctions bits each.
      */
-    createHashFunctions(vectorCount: number, vectorDimensions: number): { 
+    createHashFunctions(vectorCount: number, vectorDimensions: number, numTables: number = 1, bitsPerTable: number = 0): { 
         numHashFunctions: number; 
-        hashFunctions: { hashIndex: number; projectionMatrix: Float32Array }[] 
+        hashFunctions: { tableIndex: number; hashIndex: number; projectionMatrix: Float32Array }[] 
     } {
         this.logger.info('VectorUtils', `Creating hash functions for ${vectorCount} vectors, ${vectorDimensions} dimensions`);
 
-        // Calculate number of hash functions
-        const numHashFunctions = Math.ceil(Math.log2(vectorCount));
-        this.logger.info('VectorUtils', `Using ${numHashFunctions} hash functions`);
+        // Calculate number of hash functions per table
+        const numHashFunctions = bitsPerTable > 0 ? bitsPerTable : VectorUtils.defaultBitsPerTable(vectorCount);
+        this.logger.info('VectorUtils', `Using ${numTables} table(s) of ${numHashFunctions} hash functions`);
 
         // Generate random projection vectors
-        const hashFunctions: { hashIndex: number; projectionMatrix: Float32Array }[] = [];
-        for (let i = 0; i < numHashFunctions; i++) {
-            const projectionMatrix = this.generateRandomProjectionVector(vectorDimensions);
-            hashFunctions.push({
-                hashIndex: i,
-                projectionMatrix
-            });
+        const hashFunctions: { tableIndex: number; hashIndex: number; projectionMatrix: Float32Array }[] = [];
+        for (let table = 0; table < numTables; table++) {
+            for (let i = 0; i < numHashFunctions; i++) {
+                const projectionMatrix = this.generateRandomProjectionVector(vectorDimensions);
+                hashFunctions.push({
+                    tableIndex: table,
+                    hashIndex: i,
+                    projectionMatrix
+                });
+            }
         }
 
-        this.logger.info('VectorUtils', `Created ${numHashFunctions} hash functions`);
+        this.logger.info('VectorUtils', `Created ${hashFunctions.length} hash functions`);
         
         return { numHashFunctions, hashFunctions };
     }
 
     /**
-     * Compute hash vector (bit string) for a given input vector
+     * Number of hash bits a table needs to spread vectorCount vectors over distinct buckets
      */
+    static defaultBitsPerTable(vectorCount: number): number {
+        return Math.ceil(Math.log2(vectorCount));
+    }
+
     /**
      * Compute LSH hash vector for given input vector using provided hash functions
      */
     computeHashVector(vector: Int8Array, hashFunctions: LSHHashFunction[], expectedDimensions: number): number[] {
+        // Convert to bit: positive = 1, negative/zero = 0
+        return this.computeProjections(vector, hashFunctions, expectedDimensions)
+            .map(projection => projection > 0 ? 1 : 0);
+    }
+
+    /**
+     * Compute the raw projection of a vector onto each hash function's hyperplane.
+     * The sign gives the hash bit, the magnitude how confident that bit is.
+     */
+    computeProjections(vector: Int8Array, hashFunctions: LSHHashFunction[], expectedDimensions: number): number[] {
         if (vector.length !== expectedDimensions) {
             throw new Error(`Input vector has ${vector.length} dimensions, expected ${expectedDimensions}`);
         }
@@ -78,16 +115,49 @@ export class VectorUtils {
             throw new Error('No hash functions provided');
         }
 
-        const hashBits: number[] = [];
+        return hashFunctions.map(hashFunction => this.dotProduct(vector, hashFunction.projectionMatrix));
+    }
 
-        // For each hash function, compute dot product and convert to bit
-        for (const hashFunction of hashFunctions) {
-            const dotProduct = this.dotProduct(vector, hashFunction.projectionMatrix);
-            // Convert to bit: positive = 1, negative/zero = 0
-            hashBits.push(dotProduct > 0 ? 1 : 0);
+    /**
+     * Generate the multi-probe sequence for a query (Lv et al., 2007).
+     * Returns up to numProbes sets of bit positions to flip, ordered by how likely
+     * the flipped bucket is to hold neighbours. The first set is always empty,
+     * i.e. the query's own bucket.
+     */
+    static generateProbeSequence(projections: number[], numProbes: number): number[][] {
+        const probes: number[][] = [[]];
+        if (numProbes <= 1 || projections.length === 0) {
+            return probes;
         }
 
-        return hashBits;
+        // Bits closest to their hyperplane are the cheapest to flip
+        const order = projections
+            .map((projection, bit) => ({ bit, score: Math.abs(projection) }))
+            .sort((a, b) => a.score - b.score);
+
+        const scoreOf = (set: number[]) => set.reduce((sum, position) => sum + order[position].score, 0);
+
+        // Perturbation sets are sorted position lists into `order`; shift/expand
+        // generates every set exactly once in non-decreasing score order
+        const heap: { set: number[]; score: number }[] = [{ set: [0], score: scoreOf([0]) }];
+        while (probes.length < numProbes && heap.length > 0) {
+            let best = 0;
+            for (let i = 1; i < heap.length; i++) {
+                if (heap[i].score < heap[best].score) best = i;
+            }
+            const { set } = heap.splice(best, 1)[0];
+            probes.push(set.map(position => order[position].bit));
+
+            const last = set[set.length - 1];
+            if (last + 1 < order.length) {
+                const shifted = [...set.slice(0, -1), last + 1];
+                const expanded = [...set, last + 1];
+                heap.push({ set: shifted, score: scoreOf(shifted) });
+                heap.push({ set: expanded, score: scoreOf(expanded) });
+            }
+        }
+
+        return probes;
     }
 
     /**
@@ -544,6 +614,153 @@ export class OpenAIEmbeddingProvider extends EmbeddingProvider {
     }
 }
 
+// OpenAI-style embeddings response shared by LM Studio, llama.cpp server, vLLM, LiteLLM...
+interface OpenAICompatibleEmbeddingsResponse {
+    data?: { embedding?: number[]; index?: number }[];
+}
+
+/**
+ * Parse custom request headers written one per line as `Name: value`
+ */
+export function parseHeaderLines(text: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const line of text.split('\n')) {
+        const separator = line.indexOf(':');
+        if (separator <= 0) continue;
+
+        const name = line.slice(0, separator).trim();
+        const value = line.slice(separator + 1).trim();
+        if (name) {
+            headers[name] = value;
+        }
+    }
+    return headers;
+}
+
+/**
+ * Any server speaking the OpenAI `/embeddings` API. The base URL includes the API version
+ * (e.g. http://localhost:1234/v1), and authentication goes in the custom headers.
+ */
+export class OpenAICompatibleEmbeddingProvider extends EmbeddingProvider {
+    private baseUrl: string;
+    private modelName: string;
+    private headers: Record<string, string>;
+    private dimensions: number;
+    private logger: Logger;
+
+    /**
+     * @param dimensions Declared vector size; 0 detects it from the endpoint in validate()
+     */
+    constructor(baseUrl: string, modelName: string, headers: Record<string, string>, dimensions: number, logger: Logger) {
+        super();
+        this.baseUrl = baseUrl.trim().replace(/\/+$/, '');
+        this.modelName = modelName;
+        this.headers = headers;
+        this.dimensions = dimensions;
+        this.logger = logger;
+    }
+
+    /**
+     * Vector size of the model: the declared one, or the one detected by validate(). 0 if neither is known yet.
+     */
+    getDimensions(): number {
+        return this.dimensions;
+    }
+
+    async embed_one(text: string): Promise<Int8Array> {
+        const [embedding] = await this.embed_many([text]);
+        return embedding;
+    }
+
+    async embed_many(texts: string[]): Promise<Int8Array[]> {
+        // Validate input data - should only be strings
+        for (let j = 0; j < texts.length; j++) {
+            const item = texts[j];
+            if (typeof item !== 'string') {
+                this.logger.error('OpenAICompatibleProvider', `Invalid input at index ${j}: ${typeof item}`, item);
+                throw new Error(`Expected string at index ${j}, got ${typeof item}`);
+            }
+        }
+
+        const embeddings: Int8Array[] = [];
+        const batchSize = 16; // Local servers often cap the number of inputs per request
+
+        for (let i = 0; i < texts.length; i += batchSize) {
+            const batch = texts.slice(i, i + batchSize);
+            for (const embedding of await this.requestEmbeddings(batch)) {
+                embeddings.push(VectorUtils.processVector(embedding));
+            }
+        }
+
+        this.logger.info('OpenAICompatibleProvider', `Completed batch processing of ${embeddings.length} embeddings`);
+        return embeddings;
+    }
+
+    async validate(): Promise<void> {
+        if (!this.baseUrl) {
+            throw new Error('Embedding endpoint base URL is required. Please configure it in Tezcat settings (Settings → Community Plugins → Tezcat → Options).');
+        }
+        if (!this.modelName) {
+            throw new Error('Embedding endpoint model name is required. Please configure it in Tezcat settings.');
+        }
+
+        let embedding: number[];
+        try {
+            [embedding] = await this.requestEmbeddings(['Tezcat dimension probe']);
+        } catch (error) {
+            if (error instanceof Error && error.message.includes('fetch')) {
+                throw new Error(`Cannot connect to embedding endpoint at ${this.baseUrl}. Please ensure the server is running and accessible.`);
+            }
+            throw error;
+        }
+
+        if (this.dimensions > 0 && embedding.length !== this.dimensions) {
+            throw new Error(`Embedding endpoint returned ${embedding.length}-dimensional vectors for "${this.modelName}", but the vector size is set to ${this.dimensions}.`);
+        }
+        this.dimensions = embedding.length;
+        this.logger.info('OpenAICompatibleProvider', `Validated ${this.modelName} at ${this.baseUrl} (${this.dimensions} dimensions)`);
+    }
+
+    /**
+     * POST one batch to the endpoint, returning the raw embeddings in input order
+     */
+    private async requestEmbeddings(input: string[]): Promise<number[][]> {
+        const response = await requestUrl({
+            url: `${this.baseUrl}/embeddings`,
+            method: 'POST',
+            headers: {
+                ...this.headers,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                input,
+                model: this.modelName,
+                encoding_format: 'float'
+            }),
+            throw: false
+        });
+
+        if (response.status !== 200) {
+            this.logger.error('OpenAICompatibleProvider', `Error response: ${response.text}`);
+            throw new Error(`Embedding endpoint error: ${response.status} - ${response.text}`);
+        }
+
+        const data = response.json as OpenAICompatibleEmbeddingsResponse;
+        if (!data.data || !Array.isArray(data.data) || data.data.length !== input.length) {
+            throw new Error(`Embedding endpoint returned ${data.data?.length ?? 'no'} embeddings for ${input.length} inputs`);
+        }
+
+        // Servers may answer out of order; each item carries the index of its input
+        const items = data.data.slice().sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+        return items.map(item => {
+            if (!item.embedding || item.embedding.length === 0) {
+                throw new Error('Embedding endpoint returned empty embedding in batch');
+            }
+            return item.embedding;
+        });
+    }
+}
+
 export class EmbeddingService {
     private provider: EmbeddingProvider;
     private logger: Logger;
@@ -566,6 +783,43 @@ export class EmbeddingService {
     }
 }
 
+// The part of EmbeddingService that database and search code needs, so a remote embedder can stand in
+export type TextEmbedder = Pick<EmbeddingService, 'embedText' | 'embedTexts'>;
+
+/**
+ * Identifies the provider, model and vector size that produced a vector.
+ * Vectors with different fingerprints live in different spaces and must not be compared.
+ */
+export function modelFingerprint(provider: string, model: string, dimensions: number): string {
+    return `${provider}/${model}/${dimensions}`;
+}
+
+// Embeddings kept in the database's cache before the least recently used ones are evicted
+export const DEFAULT_EMBEDDING_CACHE_LIMIT = 20000;
+
+// Input tokens each known model embeds before truncating the rest
+const MODEL_TOKEN_LIMITS: Record<string, number> = {
+    'nomic-embed-text': 2048,
+    'nomic-embed-text:v1.5': 2048,
+    'nomic-ai/nomic-embed-text-v1.5': 2048,
+    'mxbai-embed-large': 512,
+    'bge-m3': 8192,
+    'text-embedding-3-small': 8191,
+    'text-embedding-3-large': 8191,
+    'text-embedding-ada-002': 8191,
+    'Xenova/all-MiniLM-L6-v2': 256
+};
+
+// Assumed for models not listed above: the context of most BERT-sized embedding models
+export const DEFAULT_MODEL_TOKEN_LIMIT = 512;
+
+/**
+ * Longest input, in tokens, a model embeds without truncation
+ */
+export function getModelTokenLimit(model: string): number {
+    return MODEL_TOKEN_LIMITS[model] ?? DEFAULT_MODEL_TOKEN_LIMIT;
+}
+
 export interface ModelDownloadProgress {
     status: string;
     completed?: number;
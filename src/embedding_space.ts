@@ -0,0 +1,44 @@
+/**
+ * Named embedding spaces. Each space holds the vectors one embedding model produced for the
+ * vault, with its own vector index tables, so several models can be kept and compared side by side.
+ */
+
+// The space configured by the main embedding settings. Its index tables keep their original names.
+export const DEFAULT_SPACE_ID = 'default';
+
+export type EmbeddingProviderType = 'openai' | 'ollama' | 'transformers' | 'openai-compatible';
+
+export interface EmbeddingSpaceConfig {
+    id: string; // Lowercase letters, digits and underscores; part of the space's table names
+    name: string;
+    provider: EmbeddingProviderType;
+    model: string;
+    vectorSize: number;
+}
+
+/**
+ * Name of a per-space table, e.g. lsh_buckets for the default space and lsh_buckets__bge_m3 for others
+ */
+export function spaceTableName(table: string, space: string): string {
+    if (space === DEFAULT_SPACE_ID) return table;
+    if (!isValidSpaceId(space)) {
+        throw new Error(`Invalid embedding space id: ${space}`);
+    }
+    return `${table}__${space}`;
+}
+
+export function isValidSpaceId(space: string): boolean {
+    return /^[a-z0-9_]+$/.test(space);
+}
+
+/**
+ * Derive a space id from a display name, unique among the given ids
+ */
+export function spaceIdFromName(name: string, existingIds: string[]): string {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'space';
+    let id = base;
+    for (let suffix = 2; id === DEFAULT_SPACE_ID || existingIds.includes(id); suffix++) {
+        id = `${base}_${suffix}`;
+    }
+    return id;
+}
@@ -0,0 +1,53 @@
+// Non-Markdown files whose text is extracted into blocks
+export const CANVAS_EXTENSION = 'canvas';
+export const PDF_EXTENSION = 'pdf';
+
+export type IndexableFileTypes = {
+    canvas: boolean;
+    pdf: boolean;
+};
+
+/**
+ * Whether a vault file is indexed: Markdown always, canvases and PDFs when enabled
+ */
+export function isIndexableFile(file: { extension: string }, types: IndexableFileTypes): boolean {
+    return file.extension === 'md' ||
+        (file.extension === CANVAS_EXTENSION && types.canvas) ||
+        (file.extension === PDF_EXTENSION && types.pdf);
+}
+
+// The parts of pdf.js (as returned by Obsidian's loadPdfJs) used to read text
+export interface PdfJs {
+    getDocument(source: { data: Uint8Array }): { promise: Promise<PdfDocument> };
+}
+
+interface PdfDocument {
+    numPages: number;
+    getPage(pageNumber: number): Promise<{ getTextContent(): Promise<{ items: PdfTextItem[] }> }>;
+    destroy(): Promise<void>;
+}
+
+// Marked content items have no `str`
+type PdfTextItem = { str?: string; hasEOL?: boolean };
+
+/**
+ * Text of every page of a PDF, in page order. Scanned pages without a text layer come back empty.
+ */
+export async function extractPdfPages(data: ArrayBuffer, pdfjs: PdfJs): Promise<string[]> {
+    const document = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+    try {
+        const pages: string[] = [];
+        for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+            const page = await document.getPage(pageNumber);
+            const { items } = await page.getTextContent();
+            pages.push(items
+                .map(item => (item.str ?? '') + (item.hasEOL ? '\n' : ''))
+                .join('')
+                .replace(/[ \t]+/g, ' ')
+                .replace(/ ?\n ?/g, '\n'));
+        }
+        return pages;
+    } finally {
+        await document.destroy();
+    }
+}
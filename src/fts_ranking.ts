@@ -0,0 +1,120 @@
+/**
+ * BM25 ranking, query building and snippet parsing for the fts_content table.
+ *
+ * The sql.js build we ship has FTS3/FTS4 but not FTS5, so there is no built-in
+ * bm25(). Instead the adapter registers `bm25` as a SQL function that scores
+ * FTS4's matchinfo('pcnalx') blob, which carries everything Okapi BM25 needs.
+ */
+
+// Column order of the fts_content table; matchinfo reports per-column values in this order
+export const FTS_COLUMNS = ['id', 'type', 'note_id', 'content', 'note_path', 'note_name', 'block_id'] as const;
+
+// Columns that are stored but not tokenized
+export const FTS_UNINDEXED_COLUMNS = ['id', 'type', 'note_id', 'note_path', 'block_id'];
+
+// A hit in the note's name counts for more than a hit in its body
+export const FTS_COLUMN_WEIGHTS: Record<string, number> = {
+    content: 1.0,
+    note_name: 4.0
+};
+
+export const FTS_MATCHINFO_FORMAT = 'pcnalx';
+
+const BM25_K1 = 1.2; // Term frequency saturation
+const BM25_B = 0.75; // Document length normalisation
+
+// Marker characters wrapped around matches by snippet(); they never occur in note text
+export const SNIPPET_START = '\u0002';
+export const SNIPPET_END = '\u0003';
+export const SNIPPET_ELLIPSIS = '…';
+export const SNIPPET_TOKENS = 24;
+
+// Long cursor contexts are cut to this many distinct terms
+const MAX_QUERY_TERMS = 64;
+
+export type HighlightedSnippet = {
+    text: string;
+    highlights: { start: number; end: number }[]; // Character ranges of matched terms within text
+};
+
+/**
+ * Okapi BM25 over an FTS4 matchinfo('pcnalx') blob, summed per column with the given weights.
+ * Higher is better, unlike FTS5's bm25() which returns negated scores.
+ */
+export function bm25(matchinfo: Uint8Array, weights: number[]): number {
+    const view = new DataView(matchinfo.buffer, matchinfo.byteOffset, matchinfo.byteLength);
+    const value = (index: number) => view.getUint32(index * 4, true);
+
+    const phraseCount = value(0);
+    const columnCount = value(1);
+    const rowCount = value(2);
+    const averageLengthsAt = 3;
+    const lengthsAt = averageLengthsAt + columnCount;
+    const hitsAt = lengthsAt + columnCount;
+
+    let score = 0;
+    for (let phrase = 0; phrase < phraseCount; phrase++) {
+        for (let column = 0; column < columnCount; column++) {
+            const weight = weights[column] || 0;
+            if (weight === 0) continue;
+
+            const hitIndex = hitsAt + 3 * (phrase * columnCount + column);
+            const termFrequency = value(hitIndex);
+            if (termFrequency === 0) continue;
+
+            const documentFrequency = value(hitIndex + 2);
+            const averageLength = value(averageLengthsAt + column) || 1;
+            const length = value(lengthsAt + column);
+
+            const idf = Math.log(1 + (rowCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+            const saturation = (termFrequency * (BM25_K1 + 1)) /
+                (termFrequency + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+            score += weight * idf * saturation;
+        }
+    }
+    return score;
+}
+
+/**
+ * Weights in fts_content column order, as the bm25 SQL function applies them
+ */
+export function ftsColumnWeights(): number[] {
+    return FTS_COLUMNS.map(column => FTS_COLUMN_WEIGHTS[column] || 0);
+}
+
+/**
+ * Turn free text into an FTS4 query matching any of its words, so BM25 decides
+ * the ranking instead of every word being required. Returns null if no words remain.
+ */
+export function buildFTSQuery(text: string): string | null {
+    const terms = new Set<string>();
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || []) {
+        terms.add(word);
+        if (terms.size >= MAX_QUERY_TERMS) break;
+    }
+    if (terms.size === 0) return null;
+
+    // Quoting keeps words like AND, OR, NOT and NEAR from being read as operators
+    return [...terms].map(term => `"${term}"`).join(' OR ');
+}
+
+/**
+ * Split a snippet() result into plain text and the ranges its markers enclosed
+ */
+export function parseHighlightedSnippet(snippet: string): HighlightedSnippet {
+    const highlights: { start: number; end: number }[] = [];
+    let text = '';
+    let start = -1;
+
+    for (const char of snippet) {
+        if (char === SNIPPET_START) {
+            start = text.length;
+        } else if (char === SNIPPET_END) {
+            if (start >= 0) highlights.push({ start, end: text.length });
+            start = -1;
+        } else {
+            text += char;
+        }
+    }
+    return { text, highlights };
+}
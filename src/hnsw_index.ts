@@ -0,0 +1,508 @@
+import { DEFAULT_SPACE_ID, spaceTableName } from './embedding_space';
+import { Logger } from './logger';
+import { DEFAULT_HNSW_OPTIONS, VectorIndex, VectorIndexOptions, VectorIndexStore, VectorIndexType } from './vector_index';
+
+type HNSWConfig = {
+    vectorDimensions: number;
+    m: number;
+    efConstruction: number;
+    entryPoint: string | null;
+    maxLevel: number;
+};
+
+type HNSWNode = {
+    id: string;
+    level: number;
+    vector: Int8Array;
+    norm: number;
+    neighbors: string[][]; // Neighbour ids per layer, 0 = bottom
+};
+
+type ScoredId = {
+    id: string;
+    similarity: number;
+};
+
+type HNSWGraph = {
+    config: HNSWConfig;
+    nodes: Map<string, HNSWNode>;
+};
+
+/**
+ * Hierarchical navigable small world graph (Malkov & Yashunin, 2018).
+ * The graph is persisted as one row per node with its neighbour lists, and kept
+ * in memory after first use together with the vectors it links.
+ */
+export class HNSWVectorIndex implements VectorIndex {
+    readonly type = VectorIndexType.HNSW;
+    private store: VectorIndexStore;
+    private logger: Logger;
+    private space: string;
+    private tableNames: { config: string; nodes: string };
+    private graph: HNSWGraph | null = null;
+    // Nodes whose rows need writing after the current operation
+    private dirtyNodes = new Set<string>();
+
+    constructor(store: VectorIndexStore, logger: Logger, space: string = DEFAULT_SPACE_ID) {
+        this.store = store;
+        this.logger = logger;
+        this.space = space;
+        this.tableNames = {
+            config: spaceTableName('hnsw_config', space),
+            nodes: spaceTableName('hnsw_nodes', space)
+        };
+    }
+
+    async createTables(): Promise<void> {
+        await this.store.execute(`
+            CREATE TABLE IF NOT EXISTS ${this.tableNames.config} (
+                id INTEGER PRIMARY KEY CHECK (id = 1),
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                vector_dimensions INTEGER NOT NULL,
+                m INTEGER NOT NULL,
+                ef_construction INTEGER NOT NULL,
+                entry_point TEXT,
+                max_level INTEGER NOT NULL DEFAULT 0
+            )
+        `);
+
+        await this.store.execute(`
+            CREATE TABLE IF NOT EXISTS ${this.tableNames.nodes} (
+                vector_id TEXT PRIMARY KEY,
+                level INTEGER NOT NULL,
+                neighbors TEXT NOT NULL, -- JSON: vector ids per layer
+                FOREIGN KEY (vector_id) REFERENCES vectors(id) ON DELETE CASCADE
+            )
+        `);
+
+        this.logger.info('HNSWVectorIndex', 'Created HNSW tables for graph storage');
+    }
+
+    async dropTables(): Promise<void> {
+        await this.store.execute(`DROP TABLE IF EXISTS ${this.tableNames.nodes}`);
+        await this.store.execute(`DROP TABLE IF EXISTS ${this.tableNames.config}`);
+        this.graph = null;
+    }
+
+    async isAvailable(): Promise<boolean> {
+        try {
+            return (await this.store.get(`SELECT id FROM ${this.tableNames.config} LIMIT 1`)) !== null;
+        } catch (error) {
+            this.logger.warn('HNSWVectorIndex', 'Failed to check vector index availability', error);
+            return false;
+        }
+    }
+
+    async build(vectorDimensions: number, options: Partial<VectorIndexOptions> = {}): Promise<void> {
+        const { m, efConstruction } = { ...DEFAULT_HNSW_OPTIONS, ...options };
+        this.logger.info('HNSWVectorIndex', `Building HNSW graph with M=${m}, efConstruction=${efConstruction}...`);
+
+        try {
+            await this.createTables();
+            await this.store.execute(`DELETE FROM ${this.tableNames.nodes}`);
+            await this.store.execute(`DELETE FROM ${this.tableNames.config}`);
+
+            const config: HNSWConfig = { vectorDimensions, m, efConstruction, entryPoint: null, maxLevel: 0 };
+            this.graph = { config, nodes: new Map() };
+            this.dirtyNodes.clear();
+
+            const rows = await this.store.query('SELECT id, vector FROM vectors WHERE space = ?', [this.space]);
+            for (const row of rows) {
+                const vector = new Int8Array(row.vector as Uint8Array);
+                if (vector.length !== vectorDimensions) continue;
+                this.insertNode(this.graph, row.id as string, vector);
+            }
+
+            await this.store.execute(`
+                INSERT INTO ${this.tableNames.config} (id, created_at, vector_dimensions, m, ef_construction, entry_point, max_level)
+                VALUES (1, ?, ?, ?, ?, ?, ?)
+            `, [new Date().toISOString(), vectorDimensions, m, efConstruction, config.entryPoint, config.maxLevel]);
+            await this.flush(this.graph);
+
+            this.logger.info('HNSWVectorIndex', `HNSW graph built: ${this.graph.nodes.size} nodes, ${config.maxLevel + 1} layers`);
+        } catch (error) {
+            this.graph = null;
+            this.logger.error('HNSWVectorIndex', 'Failed to build HNSW graph', error);
+            throw error;
+        }
+    }
+
+    async search(queryVector: Int8Array, limit: number, options: Partial<VectorIndexOptions> = {}): Promise<string[]> {
+        const graph = await this.loadGraph();
+        if (!graph) {
+            this.logger.error('HNSWVectorIndex', 'No HNSW configuration found - vector index not built');
+            throw new Error('Vector index not available - HNSW configuration missing');
+        }
+
+        const { efSearch } = { ...DEFAULT_HNSW_OPTIONS, ...options };
+        const { entryPoint, maxLevel, vectorDimensions } = graph.config;
+        if (!entryPoint) return [];
+
+        if (queryVector.length !== vectorDimensions) {
+            throw new Error(`Input vector has ${queryVector.length} dimensions, expected ${vectorDimensions}`);
+        }
+
+        const queryNorm = vectorNorm(queryVector);
+        let entryPoints = [entryPoint];
+        for (let level = maxLevel; level > 0; level--) {
+            entryPoints = [this.searchLayer(graph, queryVector, queryNorm, entryPoints, 1, level)[0].id];
+        }
+
+        const results = this.searchLayer(graph, queryVector, queryNorm, entryPoints, Math.max(efSearch, limit), 0);
+        this.logger.debug('HNSWVectorIndex', `HNSW search returned ${results.length} candidates`);
+
+        return results.map(result => result.id);
+    }
+
+    async insert(vectorId: string, vector: Int8Array): Promise<void> {
+        const graph = await this.loadGraph();
+        if (!graph) return;
+
+        if (vector.length !== graph.config.vectorDimensions) {
+            this.logger.warn('HNSWVectorIndex', `Not indexing vector ${vectorId}: expected ${graph.config.vectorDimensions} dimensions, got ${vector.length}`);
+            return;
+        }
+
+        // Re-inserting replaces the node, which also handles updated vectors
+        if (graph.nodes.has(vectorId)) {
+            this.deleteNodes(graph, new Set([vectorId]));
+        }
+
+        this.insertNode(graph, vectorId, vector);
+        await this.flush(graph);
+    }
+
+    async remove(vectorIds: string[]): Promise<void> {
+        const graph = await this.loadGraph();
+        if (!graph) return;
+
+        const removed = new Set(vectorIds.filter(id => graph.nodes.has(id)));
+        if (removed.size === 0) return;
+
+        this.deleteNodes(graph, removed);
+        await this.flush(graph, Array.from(removed));
+    }
+
+    /**
+     * Drop nodes whose vectors are gone and link in vectors the graph has not seen
+     */
+    async reconcile(): Promise<void> {
+        const graph = await this.loadGraph();
+        if (!graph) return;
+
+        const rows = await this.store.query('SELECT id FROM vectors WHERE space = ?', [this.space]);
+        const vectorIds = new Set(rows.map(row => row.id as string));
+
+        const orphaned = new Set(Array.from(graph.nodes.keys()).filter(id => !vectorIds.has(id)));
+        if (orphaned.size > 0) {
+            this.deleteNodes(graph, orphaned);
+        }
+
+        const missing = await this.store.query(`
+            SELECT id, vector FROM vectors
+            WHERE space = ? AND id NOT IN (SELECT vector_id FROM ${this.tableNames.nodes})
+        `, [this.space]);
+        for (const row of missing) {
+            const vector = new Int8Array(row.vector as Uint8Array);
+            if (vector.length !== graph.config.vectorDimensions || graph.nodes.has(row.id as string)) continue;
+            this.insertNode(graph, row.id as string, vector);
+        }
+
+        await this.flush(graph, Array.from(orphaned));
+        if (orphaned.size > 0 || missing.length > 0) {
+            this.logger.info('HNSWVectorIndex', `Reconciled HNSW graph: removed ${orphaned.size} nodes, added ${missing.length}`);
+        }
+    }
+
+    invalidate(): void {
+        this.graph = null;
+        this.dirtyNodes.clear();
+    }
+
+    dispose(): void {
+        this.invalidate();
+    }
+
+    private async loadGraph(): Promise<HNSWGraph | null> {
+        if (this.graph) return this.graph;
+
+        const configRow = await this.store.get(`SELECT * FROM ${this.tableNames.config} LIMIT 1`);
+        if (!configRow) return null;
+
+        const config: HNSWConfig = {
+            vectorDimensions: configRow.vector_dimensions as number,
+            m: configRow.m as number,
+            efConstruction: configRow.ef_construction as number,
+            entryPoint: (configRow.entry_point as string | null) || null,
+            maxLevel: configRow.max_level as number
+        };
+
+        const nodes = new Map<string, HNSWNode>();
+        const rows = await this.store.query(`
+            SELECT n.vector_id, n.level, n.neighbors, v.vector
+            FROM ${this.tableNames.nodes} n
+            JOIN vectors v ON v.id = n.vector_id
+        `);
+        for (const row of rows) {
+            const vector = new Int8Array(row.vector as Uint8Array);
+            nodes.set(row.vector_id as string, {
+                id: row.vector_id as string,
+                level: row.level as number,
+                vector,
+                norm: vectorNorm(vector),
+                neighbors: JSON.parse(row.neighbors as string)
+            });
+        }
+
+        this.graph = { config, nodes };
+        this.logger.debug('HNSWVectorIndex', `Loaded HNSW graph with ${nodes.size} nodes`);
+        return this.graph;
+    }
+
+    /**
+     * Write dirty nodes, delete removed ones and store the current entry point
+     */
+    private async flush(graph: HNSWGraph, removedIds: string[] = []): Promise<void> {
+        const batchSize = 500;
+        for (let i = 0; i < removedIds.length; i += batchSize) {
+            const batch = removedIds.slice(i, i + batchSize);
+            const placeholders = batch.map(() => '?').join(',');
+            await this.store.execute(`DELETE FROM ${this.tableNames.nodes} WHERE vector_id IN (${placeholders})`, batch);
+        }
+
+        for (const id of this.dirtyNodes) {
+            const node = graph.nodes.get(id);
+            if (!node) continue;
+            await this.store.execute(
+                `INSERT OR REPLACE INTO ${this.tableNames.nodes} (vector_id, level, neighbors) VALUES (?, ?, ?)`,
+                [node.id, node.level, JSON.stringify(node.neighbors)]
+            );
+        }
+        this.dirtyNodes.clear();
+
+        await this.store.execute(
+            `UPDATE ${this.tableNames.config} SET entry_point = ?, max_level = ? WHERE id = 1`,
+            [graph.config.entryPoint, graph.config.maxLevel]
+        );
+    }
+
+    private insertNode(graph: HNSWGraph, id: string, vector: Int8Array): void {
+        const { config, nodes } = graph;
+        const level = this.randomLevel(config.m);
+        const node: HNSWNode = {
+            id,
+            level,
+            vector,
+            norm: vectorNorm(vector),
+            neighbors: Array.from({ length: level + 1 }, () => [])
+        };
+        nodes.set(id, node);
+        this.dirtyNodes.add(id);
+
+        if (!config.entryPoint) {
+            config.entryPoint = id;
+            config.maxLevel = level;
+            return;
+        }
+
+        // Greedy descent through the layers above the new node
+        let entryPoints = [config.entryPoint];
+        for (let layer = config.maxLevel; layer > level; layer--) {
+            entryPoints = [this.searchLayer(graph, vector, node.norm, entryPoints, 1, layer)[0].id];
+        }
+
+        for (let layer = Math.min(level, config.maxLevel); layer >= 0; layer--) {
+            const candidates = this.searchLayer(graph, vector, node.norm, entryPoints, config.efConstruction, layer);
+            node.neighbors[layer] = this.selectNeighbors(graph, candidates, config.m);
+
+            for (const neighborId of node.neighbors[layer]) {
+                const neighbor = nodes.get(neighborId)!;
+                neighbor.neighbors[layer].push(id);
+                if (neighbor.neighbors[layer].length > this.maxConnections(config, layer)) {
+                    neighbor.neighbors[layer] = this.selectNeighbors(
+                        graph,
+                        this.scoreAgainst(graph, neighbor, neighbor.neighbors[layer]),
+                        this.maxConnections(config, layer)
+                    );
+                }
+                this.dirtyNodes.add(neighborId);
+            }
+
+            entryPoints = candidates.map(candidate => candidate.id);
+        }
+
+        if (level > config.maxLevel) {
+            config.entryPoint = id;
+            config.maxLevel = level;
+        }
+    }
+
+    /**
+     * Remove nodes and repair every neighbour list that pointed at them, in one pass over the graph
+     */
+    private deleteNodes(graph: HNSWGraph, removed: Set<string>): void {
+        const { config, nodes } = graph;
+        const removedNodes = Array.from(removed).map(id => nodes.get(id)).filter((node): node is HNSWNode => !!node);
+        removed.forEach(id => {
+            nodes.delete(id);
+            this.dirtyNodes.delete(id);
+        });
+
+        for (const node of nodes.values()) {
+            for (let layer = 0; layer <= node.level; layer++) {
+                const links = node.neighbors[layer];
+                if (!links.some(id => removed.has(id))) continue;
+
+                // Reconnect through the removed nodes' own neighbours
+                const candidateIds = new Set(links.filter(id => !removed.has(id)));
+                for (const removedNode of removedNodes) {
+                    if (!links.includes(removedNode.id) || layer > removedNode.level) continue;
+                    removedNode.neighbors[layer].forEach(id => {
+                        if (id !== node.id && !removed.has(id) && nodes.has(id)) candidateIds.add(id);
+                    });
+                }
+
+                node.neighbors[layer] = this.selectNeighbors(
+                    graph,
+                    this.scoreAgainst(graph, node, Array.from(candidateIds)),
+                    this.maxConnections(config, layer)
+                );
+                this.dirtyNodes.add(node.id);
+            }
+        }
+
+        if (config.entryPoint && removed.has(config.entryPoint)) {
+            config.entryPoint = null;
+            config.maxLevel = 0;
+            for (const node of nodes.values()) {
+                if (config.entryPoint === null || node.level > config.maxLevel) {
+                    config.entryPoint = node.id;
+                    config.maxLevel = node.level;
+                }
+            }
+        }
+    }
+
+    /**
+     * Best-first search of one layer, returning up to ef nodes sorted by similarity
+     */
+    private searchLayer(graph: HNSWGraph, query: Int8Array, queryNorm: number, entryPoints: string[], ef: number, layer: number): ScoredId[] {
+        const visited = new Set<string>();
+        const candidates: ScoredId[] = [];
+        const results: ScoredId[] = [];
+
+        for (const id of entryPoints) {
+            const node = graph.nodes.get(id);
+            if (!node || visited.has(id)) continue;
+            visited.add(id);
+            const scored = { id, similarity: similarity(query, queryNorm, node) };
+            insertSorted(candidates, scored);
+            insertSorted(results, scored);
+        }
+        results.splice(ef);
+
+        while (candidates.length > 0) {
+            const current = candidates.shift()!;
+            if (results.length >= ef && current.similarity < results[results.length - 1].similarity) break;
+
+            const links = graph.nodes.get(current.id)?.neighbors[layer] || [];
+            for (const neighborId of links) {
+                if (visited.has(neighborId)) continue;
+                visited.add(neighborId);
+
+                const neighbor = graph.nodes.get(neighborId);
+                if (!neighbor) continue;
+
+                const scored = { id: neighborId, similarity: similarity(query, queryNorm, neighbor) };
+                if (results.length < ef || scored.similarity > results[results.length - 1].similarity) {
+                    insertSorted(candidates, scored);
+                    insertSorted(results, scored);
+                    if (results.length > ef) results.pop();
+                }
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Neighbour selection heuristic: prefer candidates that are closer to the base node
+     * than to any neighbour already chosen, which keeps links spread across clusters.
+     * Candidates must be sorted by similarity to the base node.
+     */
+    private selectNeighbors(graph: HNSWGraph, candidates: ScoredId[], count: number): string[] {
+        const selected: HNSWNode[] = [];
+        const pruned: string[] = [];
+
+        for (const candidate of candidates) {
+            if (selected.length >= count) break;
+            const node = graph.nodes.get(candidate.id);
+            if (!node) continue;
+
+            const dominated = selected.some(chosen => similarity(node.vector, node.norm, chosen) > candidate.similarity);
+            if (dominated) {
+                pruned.push(candidate.id);
+            } else {
+                selected.push(node);
+            }
+        }
+
+        // Fill up with pruned candidates so well-clustered nodes still get their full degree
+        const result = selected.map(node => node.id);
+        for (const id of pruned) {
+            if (result.length >= count) break;
+            result.push(id);
+        }
+        return result;
+    }
+
+    private scoreAgainst(graph: HNSWGraph, base: HNSWNode, ids: string[]): ScoredId[] {
+        const scored: ScoredId[] = [];
+        for (const id of ids) {
+            const node = graph.nodes.get(id);
+            if (node) insertSorted(scored, { id, similarity: similarity(base.vector, base.norm, node) });
+        }
+        return scored;
+    }
+
+    private maxConnections(config: HNSWConfig, layer: number): number {
+        return layer === 0 ? config.m * 2 : config.m;
+    }
+
+    private randomLevel(m: number): number {
+        return Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) / Math.log(m));
+    }
+}
+
+function vectorNorm(vector: Int8Array): number {
+    let sum = 0;
+    for (let i = 0; i < vector.length; i++) {
+        sum += vector[i] * vector[i];
+    }
+    return Math.sqrt(sum);
+}
+
+function similarity(query: Int8Array, queryNorm: number, node: HNSWNode): number {
+    if (queryNorm === 0 || node.norm === 0) return -1;
+
+    let dot = 0;
+    for (let i = 0; i < query.length; i++) {
+        dot += query[i] * node.vector[i];
+    }
+    return dot / (queryNorm * node.norm);
+}
+
+// Keep the list sorted by descending similarity
+function insertSorted(list: ScoredId[], item: ScoredId): void {
+    let low = 0;
+    let high = list.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (list[mid].similarity >= item.similarity) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    list.splice(low, 0, item);
+}
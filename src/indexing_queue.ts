@@ -0,0 +1,352 @@
+import { Logger } from './logger';
+
+// Failed attempts before a file is given up on and listed as a failure
+const MAX_ATTEMPTS = 5;
+// Delay before the first retry, doubled for each one after it
+const RETRY_BASE_DELAY_MS = 2000;
+// Delay before the queue is written to disk, so a burst of changes is written once
+const SAVE_DELAY_MS = 1000;
+// Recent files the throughput and ETA are estimated from
+const THROUGHPUT_SAMPLES = 20;
+
+/**
+ * A file waiting to be indexed
+ */
+export interface QueuedFile {
+    path: string;
+    attempts: number; // Failed attempts so far
+    retryAt: number; // Not picked before this time, in milliseconds since the epoch
+}
+
+/**
+ * A file that failed every attempt; it stays listed until retried or removed
+ */
+export interface FailedFile {
+    path: string;
+    attempts: number;
+    error: string;
+}
+
+/**
+ * What the queue keeps on disk, so pending work survives a restart
+ */
+export interface IndexingQueueState {
+    pending: QueuedFile[];
+    failed: FailedFile[];
+    paused: boolean;
+}
+
+export interface IndexingProgress {
+    paused: boolean;
+    current: string | null; // File being indexed right now
+    pending: number; // Files still to index, including those waiting to be retried
+    done: number; // Files indexed since the queue was last idle
+    total: number; // done + pending + current
+    failed: FailedFile[];
+    filesPerMinute: number | null; // Null until a file has been indexed
+    etaMs: number | null;
+}
+
+/**
+ * Indexes vault files one at a time, in the background. A file is queued at most once however often
+ * it changes, the active note goes first, and a failed file is retried with exponential backoff.
+ * Nothing is indexed before start(), so files changed during startup simply wait their turn.
+ */
+export class IndexingQueue {
+    private processFile: (path: string) => Promise<void>;
+    private saveState: (state: IndexingQueueState) => Promise<void>;
+    private logger: Logger;
+    private pending: QueuedFile[] = [];
+    private failed: FailedFile[] = [];
+    private current: string | null = null;
+    private paused = false;
+    private started = false;
+    private running = false;
+    private indexing: Promise<void> | null = null; // The file being indexed, settled once it is done
+    private done = 0;
+    private durations: number[] = []; // Milliseconds per file, most recent last
+    private listeners = new Set<(progress: IndexingProgress) => void>();
+    private idleWaiters: (() => void)[] = [];
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(
+        processFile: (path: string) => Promise<void>,
+        saveState: (state: IndexingQueueState) => Promise<void>,
+        logger: Logger
+    ) {
+        this.processFile = processFile;
+        this.saveState = saveState;
+        this.logger = logger;
+    }
+
+    /**
+     * Pick up where the last session stopped. Files queued since are kept, after the restored ones.
+     */
+    restore(state: IndexingQueueState): void {
+        const queued = this.pending;
+        this.pending = [];
+        for (const file of [...state.pending, ...queued]) {
+            if (!this.isPending(file.path)) this.pending.push({ ...file });
+        }
+        this.failed = [...state.failed];
+        this.paused = state.paused;
+        this.changed();
+    }
+
+    /**
+     * Begin indexing queued files; called once the embedding provider is known to work
+     */
+    start(): void {
+        this.started = true;
+        this.run();
+    }
+
+    /**
+     * Stop indexing and write the queue to disk, once the file being indexed is done, so nothing is
+     * left writing to the database after it resolves
+     */
+    async stop(): Promise<void> {
+        this.started = false;
+        this.clearRetryTimer();
+        await this.indexing;
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        await this.saveState(this.getState());
+    }
+
+    /**
+     * Queue a file, or move it to the front if `priority` is set. A file already queued keeps its place,
+     * and a file changed while being indexed is queued again.
+     */
+    enqueue(path: string, priority: boolean = false): void {
+        if (this.isIdle()) this.done = 0;
+        this.failed = this.failed.filter(file => file.path !== path);
+
+        const index = this.pending.findIndex(file => file.path === path);
+        if (index < 0) {
+            const file = { path, attempts: 0, retryAt: 0 };
+            if (priority) {
+                this.pending.unshift(file);
+            } else {
+                this.pending.push(file);
+            }
+        } else if (priority) {
+            // Edited again, so it is worth trying right away
+            const [file] = this.pending.splice(index, 1);
+            this.pending.unshift({ ...file, retryAt: 0 });
+        }
+        this.changed();
+        this.run();
+    }
+
+    enqueueAll(paths: string[]): void {
+        for (const path of paths) {
+            this.enqueue(path);
+        }
+    }
+
+    /**
+     * Move a queued file to the front, e.g. when it is opened. Files not queued are left alone.
+     */
+    prioritize(path: string): void {
+        if (this.isPending(path)) this.enqueue(path, true);
+    }
+
+    /**
+     * Forget a deleted file or folder
+     */
+    remove(path: string): void {
+        const removed = (file: { path: string }) => file.path === path || file.path.startsWith(`${path}/`);
+        this.pending = this.pending.filter(file => !removed(file));
+        this.failed = this.failed.filter(file => !removed(file));
+        this.changed();
+    }
+
+    /**
+     * Follow a renamed file or folder, so queued files are indexed at their new path
+     */
+    rename(oldPath: string, newPath: string): void {
+        const moved = <T extends { path: string }>(file: T): T => {
+            if (file.path === oldPath) return { ...file, path: newPath };
+            if (file.path.startsWith(`${oldPath}/`)) return { ...file, path: newPath + file.path.substring(oldPath.length) };
+            return file;
+        };
+        this.pending = this.pending.map(moved);
+        this.failed = this.failed.map(moved);
+        this.changed();
+    }
+
+    pause(): void {
+        this.paused = true;
+        this.clearRetryTimer();
+        this.changed();
+    }
+
+    resume(): void {
+        this.paused = false;
+        this.changed();
+        this.run();
+    }
+
+    /**
+     * Queue every failed file again, with a fresh set of attempts
+     */
+    retryFailed(): void {
+        const failed = this.failed;
+        this.failed = [];
+        this.enqueueAll(failed.map(file => file.path));
+    }
+
+    isPaused(): boolean {
+        return this.paused;
+    }
+
+    /**
+     * Resolves once nothing is left to index, or indexing is paused and the current file is done
+     */
+    whenIdle(): Promise<void> {
+        if (this.isSettled()) return Promise.resolve();
+        return new Promise(resolve => this.idleWaiters.push(resolve));
+    }
+
+    /**
+     * Called with the progress whenever it changes. Returns a function that unsubscribes.
+     */
+    onProgress(listener: (progress: IndexingProgress) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    getProgress(): IndexingProgress {
+        const average = this.durations.length > 0
+            ? this.durations.reduce((sum, duration) => sum + duration, 0) / this.durations.length
+            : null;
+        const remaining = this.pending.length + (this.current ? 1 : 0);
+        return {
+            paused: this.paused,
+            current: this.current,
+            pending: this.pending.length,
+            done: this.done,
+            total: this.done + remaining,
+            failed: [...this.failed],
+            filesPerMinute: average === null ? null : 60000 / Math.max(average, 1),
+            etaMs: average === null ? null : remaining * average
+        };
+    }
+
+    getState(): IndexingQueueState {
+        // The file being indexed is saved too, in case the session ends before it is done
+        const current = this.current && !this.isPending(this.current) ? [{ path: this.current, attempts: 0, retryAt: 0 }] : [];
+        return {
+            pending: [...current, ...this.pending],
+            failed: [...this.failed],
+            paused: this.paused
+        };
+    }
+
+    private async run(): Promise<void> {
+        if (this.running) return;
+        this.running = true;
+        try {
+            while (this.started && !this.paused) {
+                const file = this.takeNextReady();
+                if (!file) {
+                    this.scheduleRetry();
+                    break;
+                }
+                this.indexing = this.index(file);
+                await this.indexing;
+                this.indexing = null;
+            }
+        } finally {
+            this.running = false;
+            this.changed();
+        }
+    }
+
+    private async index(file: QueuedFile): Promise<void> {
+        this.current = file.path;
+        this.changed();
+        const startedAt = Date.now();
+        try {
+            await this.processFile(file.path);
+            this.done++;
+            this.durations.push(Date.now() - startedAt);
+            if (this.durations.length > THROUGHPUT_SAMPLES) this.durations.shift();
+        } catch (error) {
+            const attempts = file.attempts + 1;
+            // Changed again while being indexed: the fresh entry is tried anyway
+            if (this.isPending(file.path)) {
+                this.logger.debug('IndexingQueue', `Indexing ${file.path} failed, already queued again`);
+            } else if (attempts >= MAX_ATTEMPTS) {
+                this.logger.error('IndexingQueue', `Giving up on ${file.path} after ${attempts} attempts`, error);
+                this.failed.push({ path: file.path, attempts, error: error instanceof Error ? error.message : String(error) });
+            } else {
+                const delay = RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+                this.logger.warn('IndexingQueue', `Indexing ${file.path} failed, retrying in ${delay / 1000}s`, error);
+                this.pending.push({ path: file.path, attempts, retryAt: Date.now() + delay });
+            }
+        } finally {
+            this.current = null;
+        }
+    }
+
+    private takeNextReady(): QueuedFile | null {
+        const now = Date.now();
+        const index = this.pending.findIndex(file => file.retryAt <= now);
+        if (index < 0) return null;
+        return this.pending.splice(index, 1)[0];
+    }
+
+    // Wake up when the earliest file waiting for a retry is due
+    private scheduleRetry(): void {
+        this.clearRetryTimer();
+        if (this.pending.length === 0) return;
+        const retryAt = Math.min(...this.pending.map(file => file.retryAt));
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            this.run();
+        }, Math.max(0, retryAt - Date.now()));
+    }
+
+    private clearRetryTimer(): void {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+    }
+
+    private isPending(path: string): boolean {
+        return this.pending.some(file => file.path === path);
+    }
+
+    private isIdle(): boolean {
+        return this.pending.length === 0 && this.current === null;
+    }
+
+    private isSettled(): boolean {
+        return this.isIdle() || (this.paused && this.current === null);
+    }
+
+    // Tell listeners and waiters, and schedule writing the queue to disk
+    private changed(): void {
+        const progress = this.getProgress();
+        for (const listener of this.listeners) {
+            listener(progress);
+        }
+        if (this.isSettled()) {
+            const waiters = this.idleWaiters;
+            this.idleWaiters = [];
+            waiters.forEach(resolve => resolve());
+        }
+
+        if (this.saveTimer) clearTimeout(this.saveTimer);
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null;
+            this.saveState(this.getState()).catch(error => this.logger.error('IndexingQueue', 'Failed to save the indexing queue', error));
+        }, SAVE_DELAY_MS);
+    }
+}
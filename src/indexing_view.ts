@@ -0,0 +1,105 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { IndexingProgress, IndexingQueue } from './indexing_queue';
+
+const INDEXING_VIEW_TYPE = 'tezcat-indexing';
+
+/**
+ * Rough remaining time for display, e.g. "40s", "3 min" or "2 h 15 min"
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+/**
+ * Progress of the background indexing queue: what is being indexed, how fast, how long is left,
+ * and which files failed
+ */
+class IndexingView extends ItemView {
+  private queue: IndexingQueue;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(leaf: WorkspaceLeaf, queue: IndexingQueue) {
+    super(leaf);
+    this.queue = queue;
+  }
+
+  getViewType() {
+    return INDEXING_VIEW_TYPE;
+  }
+
+  getDisplayText() {
+    return 'Tezcat indexing';
+  }
+
+  getIcon() {
+    return 'list-restart';
+  }
+
+  async onOpen() {
+    this.unsubscribe = this.queue.onProgress(progress => this.render(progress));
+    this.render(this.queue.getProgress());
+  }
+
+  async onClose() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  private render(progress: IndexingProgress) {
+    const container = this.containerEl.children[1] as HTMLElement;
+    container.empty();
+    container.addClass('tezcat-indexing-view');
+
+    const header = container.createDiv({ cls: 'tezcat-indexing-header' });
+    header.createEl('h4', { text: 'Indexing' });
+    const toggleButton = header.createEl('button', { text: progress.paused ? 'Resume' : 'Pause' });
+    toggleButton.onclick = () => progress.paused ? this.queue.resume() : this.queue.pause();
+
+    let status: string;
+    if (progress.paused) {
+      status = progress.pending > 0 ? `Paused, ${progress.pending} files waiting` : 'Paused';
+    } else if (progress.current) {
+      status = `Indexing ${progress.current}`;
+    } else if (progress.pending > 0) {
+      status = `Waiting to retry ${progress.pending} files`;
+    } else {
+      status = 'All files are indexed';
+    }
+    container.createDiv({ cls: 'tezcat-indexing-status', text: status });
+
+    if (progress.total > 0) {
+      container.createEl('progress', { cls: 'tezcat-indexing-bar', attr: { value: progress.done, max: progress.total } });
+      container.createDiv({ cls: 'tezcat-indexing-count', text: `${progress.done} of ${progress.total} files` });
+    }
+
+    if (progress.filesPerMinute !== null) {
+      const stats = [`${progress.filesPerMinute.toFixed(1)} files/min`];
+      if (progress.etaMs !== null && progress.done < progress.total) {
+        stats.push(`about ${formatDuration(progress.etaMs)} left`);
+      }
+      container.createDiv({ cls: 'tezcat-indexing-stats', text: stats.join(' · ') });
+    }
+
+    if (progress.failed.length === 0) return;
+
+    const failuresHeader = container.createDiv({ cls: 'tezcat-indexing-header' });
+    failuresHeader.createEl('h5', { text: `Failed (${progress.failed.length})` });
+    const retryButton = failuresHeader.createEl('button', { text: 'Retry' });
+    retryButton.onclick = () => this.queue.retryFailed();
+
+    const list = container.createDiv({ cls: 'tezcat-indexing-failures' });
+    for (const failure of progress.failed) {
+      const item = list.createDiv({ cls: 'tezcat-indexing-failure' });
+      const link = item.createEl('a', { cls: 'tezcat-indexing-failure-path', text: failure.path });
+      link.onclick = () => this.app.workspace.openLinkText(failure.path, '', false);
+      item.createDiv({ cls: 'tezcat-indexing-failure-error', text: `${failure.error} (${failure.attempts} attempts)` });
+    }
+  }
+}
+
+
+export { IndexingView, INDEXING_VIEW_TYPE };
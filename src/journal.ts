@@ -0,0 +1,60 @@
+import type { BindParams } from 'sql.js';
+
+// One statement as it was run: SQL and its bound parameters
+export type JournalStatement = [string, BindParams | null];
+
+/**
+ * One committed unit of work: a single statement, or every statement of a transaction.
+ * Sequence numbers only grow, so records already folded into the database file can be told apart.
+ */
+export type JournalRecord = {
+    seq: number;
+    statements: JournalStatement[];
+};
+
+/**
+ * One line of the journal file. Blobs (vectors) are stored as base64 so the line stays JSON.
+ */
+export function serializeJournalRecord(record: JournalRecord): string {
+    return JSON.stringify(record, (_key, value) =>
+        ArrayBuffer.isView(value) ? { $bytes: bytesToBase64(new Uint8Array(value.buffer, value.byteOffset, value.byteLength)) } : value
+    ) + '\n';
+}
+
+/**
+ * Records of a journal file in the order they were written. Reading stops at the first line that
+ * does not parse: the process died while appending it, so neither it nor anything after it was committed.
+ */
+export function parseJournal(text: string): { records: JournalRecord[]; complete: boolean } {
+    const records: JournalRecord[] = [];
+    const lines = text.split('\n');
+    // A complete journal ends with a newline, leaving an empty last element
+    for (let i = 0; i < lines.length - 1; i++) {
+        try {
+            records.push(JSON.parse(lines[i], (_key, value) =>
+                value !== null && typeof value === 'object' && typeof value.$bytes === 'string' ? base64ToBytes(value.$bytes) : value
+            ));
+        } catch (error) {
+            return { records, complete: false };
+        }
+    }
+    return { records, complete: lines[lines.length - 1] === '' };
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    // Spread in slices; one call per byte would be slow and one call for all of them overflows the stack
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
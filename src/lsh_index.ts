@@ -0,0 +1,564 @@
+import { DEFAULT_LSH_OPTIONS, LSHConfig, LSHHashFunction, VectorUtils } from './embedding_service';
+import { DEFAULT_SPACE_ID, spaceTableName } from './embedding_space';
+import { Logger } from './logger';
+import { VectorIndex, VectorIndexOptions, VectorIndexStore, VectorIndexType } from './vector_index';
+
+// Delay before a drifted index is re-projected, so bursts of inserts trigger a single rebuild
+const VECTOR_INDEX_REBUILD_DELAY_MS = 5000;
+
+/**
+ * Multi-table random-projection LSH index with multi-probe search
+ */
+export class LSHVectorIndex implements VectorIndex {
+    readonly type = VectorIndexType.LSH;
+    private store: VectorIndexStore;
+    private vectorUtils: VectorUtils;
+    private logger: Logger;
+    private space: string;
+    private tableNames: { configs: string; hashFunctions: string; buckets: string };
+    // Index names are global in SQLite, so they carry the space too
+    private indexNames: { hashFunctions: string; buckets: string };
+    // Parsed hash functions of the current LSH config, grouped by table
+    private lshTablesCache: { configId: string; tables: LSHHashFunction[][] } | null = null;
+    private isBuilding = false;
+    private rebuildTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(store: VectorIndexStore, vectorUtils: VectorUtils, logger: Logger, space: string = DEFAULT_SPACE_ID) {
+        this.store = store;
+        this.vectorUtils = vectorUtils;
+        this.logger = logger;
+        this.space = space;
+        this.tableNames = {
+            configs: spaceTableName('lsh_configs', space),
+            hashFunctions: spaceTableName('lsh_hash_functions', space),
+            buckets: spaceTableName('lsh_buckets', space)
+        };
+        this.indexNames = {
+            hashFunctions: spaceTableName('idx_lsh_hash_functions_config_id', space),
+            buckets: spaceTableName('idx_lsh_buckets_config_table_hash', space)
+        };
+    }
+
+    async createTables(): Promise<void> {
+        // Create LSH configuration table
+        await this.store.execute(`
+            CREATE TABLE IF NOT EXISTS ${this.tableNames.configs} (
+                id TEXT PRIMARY KEY,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                vector_count INTEGER NOT NULL,
+                vector_dimensions INTEGER NOT NULL,
+                num_hash_functions INTEGER NOT NULL,
+                num_tables INTEGER NOT NULL DEFAULT 1,
+                auto_sized INTEGER NOT NULL DEFAULT 0 -- 1 when the bits per table were sized from the vector count
+            )
+        `);
+
+        // Create LSH hash functions table
+        await this.store.execute(`
+            CREATE TABLE IF NOT EXISTS ${this.tableNames.hashFunctions} (
+                id TEXT PRIMARY KEY,
+                config_id TEXT NOT NULL,
+                table_index INTEGER NOT NULL DEFAULT 0,
+                hash_index INTEGER NOT NULL,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                projection_matrix TEXT NOT NULL,
+                FOREIGN KEY (config_id) REFERENCES ${this.tableNames.configs}(id) ON DELETE CASCADE
+            )
+        `);
+
+        // Create LSH buckets table
+        await this.store.execute(`
+            CREATE TABLE IF NOT EXISTS ${this.tableNames.buckets} (
+                id TEXT PRIMARY KEY,
+                config_id TEXT NOT NULL,
+                table_index INTEGER NOT NULL DEFAULT 0,
+                bucket_hash TEXT NOT NULL,
+                vector_id TEXT NOT NULL,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (config_id) REFERENCES ${this.tableNames.configs}(id) ON DELETE CASCADE,
+                FOREIGN KEY (vector_id) REFERENCES vectors(id) ON DELETE CASCADE
+            )
+        `);
+
+        // Create indexes for efficient lookups
+        await this.store.execute(`
+            CREATE INDEX IF NOT EXISTS ${this.indexNames.hashFunctions}
+            ON ${this.tableNames.hashFunctions}(config_id)
+        `);
+
+        await this.store.execute(`
+            CREATE INDEX IF NOT EXISTS ${this.indexNames.buckets}
+            ON ${this.tableNames.buckets}(config_id, table_index, bucket_hash)
+        `);
+
+        this.logger.info('LSHVectorIndex', 'Created LSH tables for hash function storage and bucket indexing');
+    }
+
+    async dropTables(): Promise<void> {
+        await this.store.execute(`DROP TABLE IF EXISTS ${this.tableNames.buckets}`);
+        await this.store.execute(`DROP TABLE IF EXISTS ${this.tableNames.hashFunctions}`);
+        await this.store.execute(`DROP TABLE IF EXISTS ${this.tableNames.configs}`);
+        this.lshTablesCache = null;
+    }
+
+    async build(vectorDimensions: number, options: Partial<VectorIndexOptions> = {}): Promise<void> {
+        const { numTables, bitsPerTable } = { ...DEFAULT_LSH_OPTIONS, ...options };
+        this.logger.info('LSHVectorIndex', 'Starting LSH vector index generation...');
+
+        // Incremental updates are paused while the tables are rebuilt
+        this.isBuilding = true;
+
+        try {
+            // Get vector count from existing vectors
+            const vectorStats = await this.store.get('SELECT COUNT(*) as count FROM vectors WHERE space = ?', [this.space]);
+
+            if (!vectorStats || vectorStats.count === 0) {
+                this.logger.info('LSHVectorIndex', 'No vectors found, skipping LSH index generation');
+                return;
+            }
+
+            const vectorCount = vectorStats.count as number;
+
+            this.logger.info('LSHVectorIndex', `Building LSH index for ${vectorCount} vectors of ${vectorDimensions} dimensions`);
+
+            // Ensure LSH tables exist before clearing them (safe to call multiple times)
+            await this.createTables();
+
+            // Clear existing LSH data
+            await this.clearLSHTables();
+
+            // Generate hash functions using VectorUtils
+            const { numHashFunctions, hashFunctions } = this.vectorUtils.createHashFunctions(
+                vectorCount,
+                vectorDimensions,
+                numTables,
+                bitsPerTable
+            );
+
+            const configId = await this.createLSHConfig({
+                vector_count_at_build: vectorCount,
+                vector_dimensions: vectorDimensions,
+                num_hash_functions: numHashFunctions,
+                num_tables: numTables,
+                auto_sized: !bitsPerTable
+            });
+
+            // Store hash functions in database
+            for (const hashFunction of hashFunctions) {
+                await this.createLSHHashFunction({
+                    configId: configId,
+                    tableIndex: hashFunction.tableIndex,
+                    hashIndex: hashFunction.hashIndex,
+                    projectionMatrix: hashFunction.projectionMatrix
+                });
+            }
+
+            // Get the stored hash functions for proper typing
+            const tables = await this.getLSHTables(configId);
+
+            // Get all vectors and populate LSH buckets
+            const vectors = await this.store.query('SELECT id, vector FROM vectors WHERE space = ?', [this.space]);
+
+            this.logger.info('LSHVectorIndex', `Populating ${tables.length} LSH tables for ${vectors.length} vectors...`);
+
+            for (const vectorRow of vectors) {
+                const vector = new Int8Array(vectorRow.vector as Uint8Array);
+                for (let tableIndex = 0; tableIndex < tables.length; tableIndex++) {
+                    const hashVector = this.vectorUtils.computeHashVector(vector, tables[tableIndex], vectorDimensions);
+                    await this.createLSHBucket(configId, hashVector.join(''), vectorRow.id as string, tableIndex);
+                }
+            }
+
+            // Pick up vectors written while the build was in progress
+            await this.indexMissingVectors(configId, tables, vectorDimensions);
+
+            // Get and log LSH statistics
+            const stats = await this.getLSHStats(configId);
+            this.logger.info('LSHVectorIndex', `LSH index generation completed: totalBuckets=${stats.totalBuckets}, totalVectors=${stats.totalVectors}, avgVectorsPerBucket=${stats.avgVectorsPerBucket.toFixed(2)}, maxVectorsInBucket=${stats.maxVectorsInBucket}`);
+
+        } catch (error) {
+            this.logger.error('LSHVectorIndex', 'Failed to generate LSH vector index', error);
+            throw error;
+        } finally {
+            this.isBuilding = false;
+        }
+    }
+
+    /**
+     * Hash a newly stored vector into every LSH table
+     */
+    async insert(vectorId: string, vector: Int8Array): Promise<void> {
+        if (this.isBuilding) return;
+
+        const config = await this.getLSHConfig();
+        if (!config) return;
+
+        if (vector.length !== config.vector_dimensions) {
+            this.logger.warn('LSHVectorIndex', `Not indexing vector ${vectorId}: expected ${config.vector_dimensions} dimensions, got ${vector.length}`);
+            return;
+        }
+
+        const configId = config.id.toString();
+        const tables = await this.getLSHTables(configId);
+        for (let tableIndex = 0; tableIndex < tables.length; tableIndex++) {
+            const hashVector = this.vectorUtils.computeHashVector(vector, tables[tableIndex], config.vector_dimensions);
+            await this.createLSHBucket(configId, hashVector.join(''), vectorId, tableIndex);
+        }
+
+        await this.checkDrift(config);
+    }
+
+    async remove(vectorIds: string[]): Promise<void> {
+        if (!await this.isAvailable()) return;
+
+        // Stay well below SQLite's bound parameter limit
+        const batchSize = 500;
+        for (let i = 0; i < vectorIds.length; i += batchSize) {
+            const batch = vectorIds.slice(i, i + batchSize);
+            const placeholders = batch.map(() => '?').join(',');
+            await this.store.execute(`DELETE FROM ${this.tableNames.buckets} WHERE vector_id IN (${placeholders})`, batch);
+        }
+    }
+
+    /**
+     * Bring the buckets back in line with the vectors table after bulk deletes,
+     * or for databases written before the index was maintained incrementally
+     */
+    async reconcile(): Promise<void> {
+        if (this.isBuilding) return;
+
+        const config = await this.getLSHConfig();
+        if (!config) return;
+
+        await this.store.execute(`DELETE FROM ${this.tableNames.buckets} WHERE vector_id NOT IN (SELECT id FROM vectors WHERE space = ?)`, [this.space]);
+
+        const configId = config.id.toString();
+        await this.indexMissingVectors(configId, await this.getLSHTables(configId), config.vector_dimensions);
+        await this.checkDrift(config);
+    }
+
+    invalidate(): void {
+        this.lshTablesCache = null;
+    }
+
+    dispose(): void {
+        if (this.rebuildTimer) {
+            clearTimeout(this.rebuildTimer);
+            this.rebuildTimer = null;
+        }
+        this.lshTablesCache = null;
+    }
+
+    private async indexMissingVectors(configId: string, tables: LSHHashFunction[][], vectorDimensions: number): Promise<void> {
+        const rows = await this.store.query(`
+            SELECT id, vector FROM vectors
+            WHERE space = ? AND id NOT IN (SELECT vector_id FROM ${this.tableNames.buckets} WHERE config_id = ? AND table_index = 0)
+        `, [this.space, configId]);
+
+        for (const row of rows) {
+            const vector = new Int8Array(row.vector as Uint8Array);
+            if (vector.length !== vectorDimensions) continue;
+            for (let tableIndex = 0; tableIndex < tables.length; tableIndex++) {
+                const hashVector = this.vectorUtils.computeHashVector(vector, tables[tableIndex], vectorDimensions);
+                await this.createLSHBucket(configId, hashVector.join(''), row.id as string, tableIndex);
+            }
+        }
+
+        if (rows.length > 0) {
+            this.logger.debug('LSHVectorIndex', `Indexed ${rows.length} vectors missing from the LSH tables`);
+        }
+    }
+
+    /**
+     * Schedule a re-projection once the corpus outgrows the bits per table it was sized for.
+     * Indexes built with an explicit bit count are left alone.
+     */
+    private async checkDrift(config: LSHConfig): Promise<void> {
+        if (this.rebuildTimer) return;
+
+        if (!config.auto_sized) return;
+
+        const vectorStats = await this.store.get('SELECT COUNT(*) as count FROM vectors WHERE space = ?', [this.space]);
+        const vectorCount = (vectorStats?.count as number) || 0;
+        if (VectorUtils.defaultBitsPerTable(vectorCount) <= config.num_hash_functions) return;
+
+        this.logger.info('LSHVectorIndex', `Vector index was sized for ${config.vector_count_at_build} vectors and now covers ${vectorCount}, scheduling a rebuild`);
+        this.rebuildTimer = setTimeout(async () => {
+            try {
+                // A manual rebuild already in flight will size itself for the current corpus
+                if (this.isBuilding) return;
+                await this.store.exclusive(async () => {
+                    await this.store.transaction(() => this.build(config.vector_dimensions, { numTables: config.num_tables }));
+                    await this.store.save();
+                });
+            } catch (error) {
+                this.logger.error('LSHVectorIndex', 'Background vector index rebuild failed', error);
+            } finally {
+                this.rebuildTimer = null;
+            }
+        }, VECTOR_INDEX_REBUILD_DELAY_MS);
+    }
+
+    async getLSHConfig(): Promise<LSHConfig | null> {
+        const row = await this.store.get(`SELECT * FROM ${this.tableNames.configs} LIMIT 1`);
+
+        if (!row) return null;
+
+        return {
+            id: row.id as number,
+            vector_count_at_build: row.vector_count as number,
+            vector_dimensions: row.vector_dimensions as number,
+            num_hash_functions: row.num_hash_functions as number,
+            num_tables: (row.num_tables as number) || 1,
+            auto_sized: row.auto_sized === 1,
+            created_at: row.created_at as string
+        };
+    }
+
+    async isAvailable(): Promise<boolean> {
+        try {
+            const config = await this.getLSHConfig();
+            return config !== null;
+        } catch (error) {
+            this.logger.warn('LSHVectorIndex', 'Failed to check vector index availability', error);
+            return false;
+        }
+    }
+
+    async getLSHHashFunctions(configId: string): Promise<LSHHashFunction[]> {
+        const rows = await this.store.query(`
+            SELECT * FROM ${this.tableNames.hashFunctions}
+            WHERE config_id = ?
+            ORDER BY table_index, hash_index
+        `, [configId]);
+
+        return rows.map(row => {
+            // Parse as regular array first, then convert to Float32Array
+            const projectionMatrixArray = JSON.parse(row.projection_matrix as string);
+            const projectionMatrix = new Float32Array(projectionMatrixArray);
+            this.logger.debug('LSHVectorIndex', `Retrieved hash function with ${projectionMatrix.length} dimensions`);
+
+            return {
+                id: row.id as string,
+                configId: row.config_id as string,
+                tableIndex: (row.table_index as number) || 0,
+                hashIndex: row.hash_index as number,
+                projectionMatrix: projectionMatrix,
+                createdAt: new Date(row.created_at as string)
+            };
+        });
+    }
+
+    /**
+     * Hash functions grouped by table, cached since parsing projections is costly
+     */
+    async getLSHTables(configId: string): Promise<LSHHashFunction[][]> {
+        if (this.lshTablesCache?.configId === configId) {
+            return this.lshTablesCache.tables;
+        }
+
+        const tables: LSHHashFunction[][] = [];
+        for (const hashFunction of await this.getLSHHashFunctions(configId)) {
+            const tableIndex = hashFunction.tableIndex || 0;
+            if (!tables[tableIndex]) {
+                tables[tableIndex] = [];
+            }
+            tables[tableIndex].push(hashFunction);
+        }
+
+        this.lshTablesCache = { configId, tables };
+        return tables;
+    }
+
+    async clearLSHTables(): Promise<void> {
+        await this.store.execute(`DELETE FROM ${this.tableNames.buckets}`);
+        await this.store.execute(`DELETE FROM ${this.tableNames.hashFunctions}`);
+        await this.store.execute(`DELETE FROM ${this.tableNames.configs}`);
+        this.lshTablesCache = null;
+        this.logger.info('LSHVectorIndex', 'Cleared all LSH tables');
+    }
+
+    async createLSHConfig(config: Omit<LSHConfig, 'id' | 'created_at'>): Promise<string> {
+        const id = this.generateId();
+        const now = new Date().toISOString();
+
+        await this.store.execute(`
+            INSERT INTO ${this.tableNames.configs} (id, created_at, vector_count, vector_dimensions, num_hash_functions, num_tables, auto_sized)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+        `, [id, now, config.vector_count_at_build, config.vector_dimensions, config.num_hash_functions, config.num_tables, config.auto_sized ? 1 : 0]);
+
+        return id;
+    }
+
+    async createLSHHashFunction(hashFunction: Omit<LSHHashFunction, 'id' | 'createdAt'>): Promise<string> {
+        const id = this.generateId();
+        const now = new Date().toISOString();
+
+        // Convert Float32Array to regular array for proper JSON serialization
+        const projectionMatrixArray = Array.from(hashFunction.projectionMatrix);
+        this.logger.debug('LSHVectorIndex', `Storing hash function with ${projectionMatrixArray.length} dimensions`);
+
+        await this.store.execute(`
+            INSERT INTO ${this.tableNames.hashFunctions} (id, config_id, table_index, hash_index, created_at, projection_matrix)
+            VALUES (?, ?, ?, ?, ?, ?)
+        `, [id, hashFunction.configId, hashFunction.tableIndex || 0, hashFunction.hashIndex, now, JSON.stringify(projectionMatrixArray)]);
+
+        return id;
+    }
+
+    async createLSHBucket(configId: string, bucketHash: string, vectorId: string, tableIndex: number = 0): Promise<string> {
+        const id = this.generateId();
+        const now = new Date().toISOString();
+
+        await this.store.execute(`
+            INSERT INTO ${this.tableNames.buckets} (id, config_id, table_index, bucket_hash, vector_id, created_at)
+            VALUES (?, ?, ?, ?, ?, ?)
+        `, [id, configId, tableIndex, bucketHash, vectorId, now]);
+
+        return id;
+    }
+
+    async getLSHBucket(configId: string, bucketHash: string, tableIndex: number = 0): Promise<string[]> {
+        const rows = await this.store.query(`
+            SELECT vector_id FROM ${this.tableNames.buckets}
+            WHERE config_id = ? AND table_index = ? AND bucket_hash = ?
+        `, [configId, tableIndex, bucketHash]);
+
+        return rows.map(row => row.vector_id as string);
+    }
+
+    async getAllLSHBuckets(configId: string, tableIndex: number = 0): Promise<{bucketHash: string, vectorIds: string[]}[]> {
+        const rows = await this.store.query(`
+            SELECT bucket_hash, vector_id FROM ${this.tableNames.buckets}
+            WHERE config_id = ? AND table_index = ?
+        `, [configId, tableIndex]);
+
+        // Group by bucket hash
+        const bucketMap = new Map<string, string[]>();
+        for (const row of rows) {
+            const bucketHash = row.bucket_hash as string;
+            if (!bucketMap.has(bucketHash)) {
+                bucketMap.set(bucketHash, []);
+            }
+            bucketMap.get(bucketHash)!.push(row.vector_id as string);
+        }
+
+        return Array.from(bucketMap.entries()).map(([bucketHash, vectorIds]) => ({
+            bucketHash,
+            vectorIds
+        }));
+    }
+
+    async clearLSHBuckets(configId: string): Promise<void> {
+        await this.store.execute(`DELETE FROM ${this.tableNames.buckets} WHERE config_id = ?`, [configId]);
+    }
+
+    async getLSHStats(configId: string): Promise<{
+        totalBuckets: number;
+        totalVectors: number;
+        avgVectorsPerBucket: number;
+        maxVectorsInBucket: number;
+        emptyBuckets: number;
+    }> {
+        const stats = await this.store.get(`
+            SELECT
+                COUNT(*) as total_buckets,
+                SUM(bucket_size) as total_vectors,
+                AVG(bucket_size) as avg_vectors_per_bucket,
+                MAX(bucket_size) as max_vectors_in_bucket,
+                COUNT(CASE WHEN bucket_size = 0 THEN 1 END) as empty_buckets
+            FROM (
+                SELECT table_index, bucket_hash, COUNT(*) as bucket_size
+                FROM ${this.tableNames.buckets}
+                WHERE config_id = ?
+                GROUP BY table_index, bucket_hash
+            )
+        `, [configId]);
+
+        return {
+            totalBuckets: (stats?.total_buckets as number) || 0,
+            totalVectors: (stats?.total_vectors as number) || 0,
+            avgVectorsPerBucket: (stats?.avg_vectors_per_bucket as number) || 0,
+            maxVectorsInBucket: (stats?.max_vectors_in_bucket as number) || 0,
+            emptyBuckets: (stats?.empty_buckets as number) || 0
+        };
+    }
+
+    async search(queryVector: Int8Array, limit: number, options: Partial<VectorIndexOptions> = {}): Promise<string[]> {
+        // Check if LSH is available
+        const lshConfig = await this.getLSHConfig();
+        if (!lshConfig) {
+            this.logger.error('LSHVectorIndex', 'No LSH configuration found - vector index not built');
+            throw new Error('Vector index not available - LSH configuration missing');
+        }
+
+        const { probesPerTable, candidateMultiplier } = { ...DEFAULT_LSH_OPTIONS, ...options };
+        const configId = lshConfig.id.toString();
+
+        try {
+            const tables = await this.getLSHTables(configId);
+
+            // Count in how many probed buckets each vector collides with the query
+            const collisions = new Map<string, number>();
+            let bucketsProbed = 0;
+
+            for (let tableIndex = 0; tableIndex < tables.length; tableIndex++) {
+                const projections = this.vectorUtils.computeProjections(queryVector, tables[tableIndex], lshConfig.vector_dimensions);
+                const queryBits: number[] = projections.map(projection => projection > 0 ? 1 : 0);
+
+                // Multi-probe: the query bucket plus the neighbouring buckets most likely to hold matches
+                const bucketHashes = VectorUtils.generateProbeSequence(projections, probesPerTable).map(flips => {
+                    const bits = [...queryBits];
+                    flips.forEach(bit => bits[bit] = 1 - bits[bit]);
+                    return bits.join('');
+                });
+                bucketsProbed += bucketHashes.length;
+
+                const placeholders = bucketHashes.map(() => '?').join(',');
+                const rows = await this.store.query(`
+                    SELECT vector_id FROM ${this.tableNames.buckets}
+                    WHERE config_id = ? AND table_index = ? AND bucket_hash IN (${placeholders})
+                `, [configId, tableIndex, ...bucketHashes]);
+
+                for (const row of rows) {
+                    const vectorId = row.vector_id as string;
+                    collisions.set(vectorId, (collisions.get(vectorId) || 0) + 1);
+                }
+            }
+
+            // Top up from the nearest buckets of the first table when probing came back sparse
+            if (collisions.size < limit && tables.length > 0) {
+                const queryHash = this.vectorUtils.computeHashVector(queryVector, tables[0], lshConfig.vector_dimensions);
+                const bucketDistances = (await this.getAllLSHBuckets(configId, 0))
+                    .map(bucket => ({
+                        ...bucket,
+                        hammingDistance: VectorUtils.hammingDistance(queryHash, bucket.bucketHash.split('').map(Number))
+                    }))
+                    .sort((a, b) => a.hammingDistance - b.hammingDistance);
+
+                for (const bucket of bucketDistances) {
+                    bucket.vectorIds.forEach(id => {
+                        if (!collisions.has(id)) collisions.set(id, 0);
+                    });
+                    if (collisions.size >= limit) break;
+                }
+            }
+
+            this.logger.debug('LSHVectorIndex', `LSH search found ${collisions.size} vector candidates from ${bucketsProbed} buckets across ${tables.length} tables`);
+
+            // Vectors that collide in more tables are more likely to be true neighbours
+            return Array.from(collisions.entries())
+                .sort((a, b) => b[1] - a[1])
+                .slice(0, limit * candidateMultiplier)
+                .map(([vectorId]) => vectorId);
+
+        } catch (error) {
+            this.logger.error('LSHVectorIndex', 'LSH search failed', error);
+            throw error;
+        }
+    }
+
+    private generateId(): string {
+        return Date.now().toString(36) + Math.random().toString(36).substr(2);
+    }
+}
@@ -1,15 +1,24 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, WorkspaceLeaf} from 'obsidian';
-import { TezcatView, VIEW_TYPE } from './search_view';
-import { DatabaseService, SqlJsDatabaseAdapter } from './database_service';
-import { EmbeddingService, OllamaEmbeddingProvider, OpenAIEmbeddingProvider, EmbeddingProvider, VectorUtils, OllamaModelManager } from './embedding_service';
+import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TAbstractFile, TFile, TFolder, WorkspaceLeaf, loadPdfJs } from 'obsidian';
+import { TezcatView, VIEW_TYPE, openAtLocation, renderResultText } from './search_view';
+import { INDEXING_VIEW_TYPE, IndexingView, formatDuration } from './indexing_view';
+import { IndexingProgress, IndexingQueue } from './indexing_queue';
+import { EmbeddingService, OllamaEmbeddingProvider, OpenAIEmbeddingProvider, OpenAICompatibleEmbeddingProvider, EmbeddingProvider, OllamaModelManager, DEFAULT_LSH_OPTIONS, DEFAULT_EMBEDDING_CACHE_LIMIT, getModelTokenLimit, modelFingerprint, parseHeaderLines } from './embedding_service';
+import { DEFAULT_HNSW_OPTIONS, VectorIndexOptions, VectorIndexType } from './vector_index';
 import { ChunkingService } from './chunking_service';
-import { SearchService, SearchResult } from './search_service';
+import { ChunkingStrategyType } from './chunking_strategy';
+import { SearchOptions, SearchResult } from './search_service';
 import { logger, LogLevel } from './logger';
 import { ValidationService, SystemValidationResult, ValidationResult } from './validation_service';
-import { NoteProcessor } from './note_processor';
+import { Block, BlockType, ExtractedFile, NoteProcessor } from './note_processor';
+import { CANVAS_EXTENSION, IndexableFileTypes, PDF_EXTENSION, extractPdfPages, isIndexableFile } from './file_extractors';
+import { BLOCK_TYPE_LABELS, DEFAULT_INDEXED_BLOCK_TYPES, FTS_ONLY_BLOCK_TYPES, INDEXABLE_BLOCK_TYPES, isEmbeddedBlockType } from './block_text';
+import { ORT_WASM_FILE, WorkerTransformersProvider } from './transformers_provider';
+import type { NewChunk } from './database_service';
+import { DatabaseAdapterProxy, DatabaseServiceProxy, HostApi, LocalModelProxy, RpcEndpoint, SearchServiceProxy, WorkerApi } from './worker_protocol';
+import { DEFAULT_SPACE_ID, EmbeddingProviderType, EmbeddingSpaceConfig, spaceIdFromName } from './embedding_space';
+import databaseWorkerSource from 'worker:./database_worker_main';
 
 
-type EmbeddingProviderType = 'openai' | 'ollama';
 type SearchCadence = 'always' | 'sometimes' | 'occasionally';
 type SearchMode = 'vector' | 'hybrid';
 
@@ -19,39 +28,90 @@ interface TezcatSettings {
     vectorSize: number;
     openaiApiKey: string;
     ollamaBaseUrl: string;
+    localModelFolder: string; // Folder of local transformers.js models; empty uses the plugin's models folder
+    compatibleBaseUrl: string; // OpenAI-compatible endpoint, including the API version path
+    compatibleHeaders: string; // Extra request headers for that endpoint, one `Name: value` per line
     chunkSize: number;
     chunkOverlap: number;
+    chunkingStrategy: ChunkingStrategyType; // How notes too long for the model are split
+    blockContextPrefix: boolean; // Embed blocks with their note title and heading path in front
+    indexedBlockTypes: BlockType[]; // Block types that are searchable
+    indexCanvasFiles: boolean; // Index the text nodes of .canvas files
+    indexPdfFiles: boolean; // Index the text of PDF pages
     contextWindowWords: number;
     searchCadence: SearchCadence;
     searchMode: SearchMode;
     logLevel: LogLevel;
     highlightBlockOnOpen: boolean;
+    vectorIndexType: VectorIndexType;
+    lshNumTables: number;
+    lshBitsPerTable: number;
+    lshProbesPerTable: number;
+    lshCandidateMultiplier: number;
+    hnswM: number;
+    hnswEfConstruction: number;
+    hnswEfSearch: number;
+    embeddingCacheLimit: number; // Cached embeddings kept before evicting the least recently used; 0 disables the cache
+    embeddingSpaces: EmbeddingSpaceConfig[]; // Spaces kept next to the default one, which the settings above configure
+    liveSearchSpace: string; // Space the sidebar searches as you write
 }
 
+// Choice in the vector search modal that fuses every space's results
+const ALL_SPACES = '*';
+
+// Model picked when switching to a provider, so the model always belongs to the provider
+const DEFAULT_PROVIDER_MODELS: Record<EmbeddingProviderType, { model: string; vectorSize: number }> = {
+    ollama: { model: 'nomic-embed-text:v1.5', vectorSize: 768 },
+    openai: { model: 'text-embedding-3-small', vectorSize: 1536 },
+    transformers: { model: 'Xenova/all-MiniLM-L6-v2', vectorSize: 384 },
+    'openai-compatible': { model: '', vectorSize: 0 } // Vector size 0 is detected from the endpoint
+};
+
 const DEFAULT_SETTINGS: TezcatSettings = {
     embeddingProvider: 'ollama',
     embeddingModel: 'nomic-embed-text:v1.5',
     vectorSize: 768,
     openaiApiKey: '',
     ollamaBaseUrl: 'http://localhost:11434',
+    localModelFolder: '',
+    compatibleBaseUrl: 'http://localhost:1234/v1',
+    compatibleHeaders: '',
     chunkSize: 128,
     chunkOverlap: 16,
+    chunkingStrategy: ChunkingStrategyType.MARKDOWN,
+    blockContextPrefix: false,
+    indexedBlockTypes: DEFAULT_INDEXED_BLOCK_TYPES,
+    indexCanvasFiles: true,
+    indexPdfFiles: true,
     contextWindowWords: 64, // Smaller context window for more focused search
     searchCadence: 'always',
     searchMode: 'hybrid',
     logLevel: LogLevel.INFO,
-    highlightBlockOnOpen: true
+    highlightBlockOnOpen: true,
+    vectorIndexType: VectorIndexType.LSH,
+    lshNumTables: DEFAULT_LSH_OPTIONS.numTables,
+    lshBitsPerTable: DEFAULT_LSH_OPTIONS.bitsPerTable, // 0 = sized from the vector count
+    lshProbesPerTable: DEFAULT_LSH_OPTIONS.probesPerTable,
+    lshCandidateMultiplier: DEFAULT_LSH_OPTIONS.candidateMultiplier,
+    hnswM: DEFAULT_HNSW_OPTIONS.m,
+    hnswEfConstruction: DEFAULT_HNSW_OPTIONS.efConstruction,
+    hnswEfSearch: DEFAULT_HNSW_OPTIONS.efSearch,
+    embeddingCacheLimit: DEFAULT_EMBEDDING_CACHE_LIMIT,
+    embeddingSpaces: [],
+    liveSearchSpace: DEFAULT_SPACE_ID
 }
 
 export default class Tezcat extends Plugin {
     settings: TezcatSettings;
-    public databaseService: DatabaseService;
-    public databaseAdapter: SqlJsDatabaseAdapter;
+    public databaseService: DatabaseServiceProxy;
+    public databaseAdapter: DatabaseAdapterProxy;
     public embeddingService: EmbeddingService;
+    private spaceEmbeddingServices = new Map<string, EmbeddingService>(); // Extra spaces only
     public chunkingService: ChunkingService;
-    public searchService: SearchService;
+    public searchService: SearchServiceProxy;
+    private databaseWorker: Worker | null = null;
+    private workerEndpoint: RpcEndpoint<HostApi, WorkerApi> | null = null;
     private noteProcessor: NoteProcessor;
-    private vectorUtils: VectorUtils;
     private validationService: ValidationService;
     public modelManager: OllamaModelManager | null = null;
     private systemValidationResult: SystemValidationResult | null = null;
@@ -65,6 +125,8 @@ export default class Tezcat extends Plugin {
     private searchSuppressedUntil: number = 0; // Timestamp to suppress search until
     private currentNoteId: string | null = null; // Track current note for navigation events
     private statusBarItem: HTMLElement | null = null; // Status bar item for system status
+    private systemStatus: { status: string; tooltip: string; className?: string } | null = null; // Shown while not indexing
+    public indexingQueue: IndexingQueue;
 
     async onload() {
         await this.loadSettings();
@@ -74,23 +136,28 @@ export default class Tezcat extends Plugin {
         logger.info('Plugin', 'Loading Tezcat plugin');
         
         
-        // Initialize vector utils and validation service
-        this.vectorUtils = new VectorUtils(logger);
+        // Initialize validation service
         this.validationService = new ValidationService(logger);
         
-        // Initialize database (only this needs async initialization due to file I/O)
-        this.databaseAdapter = new SqlJsDatabaseAdapter(this, this.vectorUtils, logger);
-        await this.databaseAdapter.initialize();
-        
         // Initialize services but don't validate yet
-        this.databaseService = new DatabaseService(this.databaseAdapter, logger);
         this.initializeEmbeddingServices();
-        this.chunkingService = new ChunkingService(this.settings.chunkSize, this.settings.chunkOverlap, this, logger);
-        this.searchService = new SearchService(this.databaseService, this.embeddingService, logger);
+        this.chunkingService = new ChunkingService(this.settings.chunkSize, this.settings.chunkOverlap, this, logger, this.settings.chunkingStrategy);
+
+        // The database, vector indexes and search scoring live in a worker so they never block the editor
+        await this.startDatabaseWorker();
 
         // Initialize note processor
         this.noteProcessor = new NoteProcessor();
 
+        // Files are indexed in the background, one at a time, once setup has validated the system
+        this.indexingQueue = new IndexingQueue(
+            path => this.indexFile(path),
+            state => this.app.vault.adapter.write(this.getIndexingQueuePath(), JSON.stringify(state)),
+            logger
+        );
+        await this.restoreIndexingQueue();
+        this.indexingQueue.onProgress(progress => this.renderStatusBar(progress));
+
         // Create status bar item
         this.statusBarItem = this.addStatusBarItem();
         this.updateStatusBar('sync', 'Tezcat: Initializing...', 'tezcat-status-initializing');
@@ -105,6 +172,10 @@ export default class Tezcat extends Plugin {
           VIEW_TYPE,
           (leaf) => new TezcatView(leaf)
         );
+        this.registerView(
+          INDEXING_VIEW_TYPE,
+          (leaf) => new IndexingView(leaf, this.indexingQueue)
+        );
         
         // Add command to process all vault files
         this.addCommand({
@@ -119,7 +190,17 @@ export default class Tezcat extends Plugin {
         this.registerCommand('rebuild-database', 'Rebuild database', () => this.rebuildDatabase());
         this.registerCommand('show-vector-database-stats', 'Show vector database stats', () => this.showVectorDatabaseStats());
         this.registerCommand('rebuild-vector-index', 'Rebuild vector index', () => this.rebuildVectorIndex());
+        this.registerCommand('reembed-stale-notes', 'Re-embed notes indexed with another model', () => this.reembedStaleNotes());
         this.registerCommand('vector-search', 'Vector search', () => this.performVectorSearch());
+        this.registerCommand('pause-indexing', 'Pause indexing', async () => {
+            this.indexingQueue.pause();
+            new Notice('Indexing paused.');
+        });
+        this.registerCommand('resume-indexing', 'Resume indexing', async () => {
+            this.indexingQueue.resume();
+            new Notice('Indexing resumed.');
+        });
+        this.registerCommand('show-indexing-progress', 'Show indexing progress', () => this.activateIndexingView());
 
 
         // This adds a settings tab so the user can configure various aspects of the plugin
@@ -178,13 +259,42 @@ export default class Tezcat extends Plugin {
         });
     }
 
+    private get indexableFileTypes(): IndexableFileTypes {
+        return { canvas: this.settings.indexCanvasFiles, pdf: this.settings.indexPdfFiles };
+    }
+
+    /**
+     * Text and blocks of a vault file: Markdown as written, canvases and PDFs as extracted text
+     */
+    private async readIndexableFile(file: TFile): Promise<ExtractedFile & { metadata: any }> {
+        if (file.extension === CANVAS_EXTENSION) {
+            const raw = await this.app.vault.read(file);
+            // A new canvas is an empty file until something is placed on it
+            const canvas = raw.trim() ? JSON.parse(raw) : { nodes: [], edges: [] };
+            return { ...this.noteProcessor.getBlocksFromCanvas(canvas), metadata: null };
+        }
+        if (file.extension === PDF_EXTENSION) {
+            const pages = await extractPdfPages(await this.app.vault.readBinary(file), await loadPdfJs());
+            return { ...this.noteProcessor.getBlocksFromPdfPages(pages), metadata: null };
+        }
+
+        const content = await this.app.vault.read(file);
+        const metadata = this.app.metadataCache.getFileCache(file);
+        return { content, blocks: await this.noteProcessor.getBlocksFromFile(content, metadata), metadata };
+    }
+
     async processOneFileIntoDatabase(file: any) {
         try {
-            // Get file content
-            const content = await this.app.vault.read(file);
-            const metadata = await this.app.metadataCache.getFileCache(file);
+            // Extracting a PDF's text is slow, so skip PDFs untouched since they were last stored
+            if (file.extension === PDF_EXTENSION) {
+                const existing = await this.databaseService.getNoteByPath(file.path);
+                if (existing && file.stat.mtime <= Date.parse(existing.updated_at) && (await this.getSpacesMissingVectors(existing.id)).length === 0) {
+                    return { noteId: existing.id, changed: false };
+                }
+            }
 
-            const blocks = await this.noteProcessor.getBlocksFromFile(content, metadata)
+            // Get file content
+            const { content, blocks, metadata } = await this.readIndexableFile(file);
             
             // Use upsertNote to handle existence checking and changes
             const note_result = await this.databaseService.upsertNote(
@@ -194,31 +304,156 @@ export default class Tezcat extends Plugin {
                 content
             );
 
-            if (note_result.changed) {
+            // Compared before writing, so this also fills in notes indexed before properties were recorded
+            await this.databaseService.setNoteProperties(
+                note_result.noteId,
+                this.noteProcessor.getPropertiesFromFile(metadata)
+            );
+
+            // A run that stopped partway stored the new text but not all of its vectors, so an
+            // unchanged note is checked for spaces still missing some
+            const missingSpaces = note_result.changed ? [] : await this.getSpacesMissingVectors(note_result.noteId);
+            const missingEverywhere = missingSpaces.length === this.getEmbeddingSpaces().length;
+
+            if (note_result.changed || missingEverywhere) {
                 const block_result = await this.databaseService.insertBlocksForNote(
                     note_result.noteId,
                     blocks
                 );
+                let embedBlockIds = block_result.changedBlockIds;
+                if (!note_result.changed) {
+                    // It may have stopped before its chunks were stored, so it is chunked again too
+                    logger.info('Plugin', `Embedding ${file.path} again, its last indexing did not finish`);
+                    await this.databaseService.clearNoteEmbeddings(note_result.noteId);
+                    embedBlockIds = block_result.blockIds;
+                }
 
-                await this.databaseService.deleteVectorsForNote(note_result.noteId);
-                await this.databaseService.processNoteVector(
-                    note_result.noteId, 
-                    this.embeddingService
+                // Unchanged blocks keep their vectors; the note's own vector always covers the new text
+                await this.databaseService.deleteNoteLevelVectors(note_result.noteId);
+
+                // Text too long for the model is chunked here, where the tokenizer lives
+                const chunkIds = await this.databaseService.insertChunksForNote(
+                    note_result.noteId,
+                    await this.chunkOversizedContent(content, blocks, block_result.blockIds, embedBlockIds)
                 );
 
+                // The worker embeds through this.embeddingService on the main thread, which runs local models back in the worker
+                await this.databaseService.processChunkVectors(note_result.noteId, chunkIds);
+                await this.databaseService.processNoteVector(note_result.noteId);
+
                 await this.databaseService.processBlockVectors(
                     note_result.noteId,
-                    block_result.blockIds,
-                    this.embeddingService
+                    embedBlockIds
                 );
 
+                await this.embedNoteInExtraSpaces(note_result.noteId, chunkIds, embedBlockIds);
+
                 logger.info('Plugin', `Processed: ${file.path}`);
+            } else if (missingSpaces.length > 0) {
+                // Stopped after the default space, whose chunks the others share, so only these need vectors
+                logger.info('Plugin', `Embedding ${file.path} again in ${missingSpaces.length} spaces, its last indexing did not finish`);
+                await this.reembedInSpaces(note_result.noteId, missingSpaces);
             }
 
             return note_result;
         } catch (error) {
             logger.error('Plugin', `Error processing file ${file.path}`, error);
-            return null;
+            throw error;
+        }
+    }
+
+    /**
+     * Index a queued file. Files deleted or no longer indexable since they were queued are skipped.
+     */
+    private async indexFile(path: string): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile) || !isIndexableFile(file, this.indexableFileTypes)) return;
+        await this.processOneFileIntoDatabase(file);
+    }
+
+    private getIndexingQueuePath(): string {
+        return `${this.getPluginDir()}/indexing-queue.json`;
+    }
+
+    /**
+     * Pick up the files left queued when Obsidian last closed
+     */
+    private async restoreIndexingQueue(): Promise<void> {
+        const path = this.getIndexingQueuePath();
+        try {
+            if (await this.app.vault.adapter.exists(path)) {
+                this.indexingQueue.restore(JSON.parse(await this.app.vault.adapter.read(path)));
+            }
+        } catch (error) {
+            logger.warn('Plugin', 'Could not restore the indexing queue, starting with an empty one', error);
+        }
+    }
+
+    private async getSpacesMissingVectors(noteId: string): Promise<string[]> {
+        return await this.databaseService.getSpacesMissingVectors(noteId, this.getEmbeddingSpaces().map(space => space.id));
+    }
+
+    /**
+     * Replace a note's vectors in the given spaces. A failing extra space is logged and skipped, like in embedNoteInExtraSpaces.
+     */
+    private async reembedInSpaces(noteId: string, spaces: string[]): Promise<void> {
+        for (const space of spaces) {
+            try {
+                await this.databaseService.reembedNote(noteId, space);
+            } catch (error) {
+                if (space === DEFAULT_SPACE_ID) throw error;
+                logger.error('Plugin', `Failed to embed note ${noteId} in space ${space}`, error);
+            }
+        }
+    }
+
+    /**
+     * Chunks for the note and its changed blocks, where they are longer than the smallest model of
+     * any space can embed. `blockIds` are the stored ids of `blocks`, in the same order.
+     */
+    private async chunkOversizedContent(content: string, blocks: Block[], blockIds: string[], changedBlockIds: string[]): Promise<NewChunk[]> {
+        const tokenLimit = Math.min(...this.getEmbeddingSpaces().map(space => getModelTokenLimit(space.model)));
+        const changed = new Set(changedBlockIds);
+        const changedBlocks = blocks
+            .map((block, i) => ({ ...block, id: blockIds[i] }))
+            .filter(block => changed.has(block.id) && isEmbeddedBlockType(block.type, this.settings.indexedBlockTypes));
+        return this.chunkingService.chunkNote(content, changedBlocks, tokenLimit);
+    }
+
+    /**
+     * Embed a note in every extra space. A failing space is logged and skipped, so it never holds up the default one.
+     */
+    private async embedNoteInExtraSpaces(noteId: string, chunkIds: string[], blockIds: string[]): Promise<void> {
+        for (const space of this.settings.embeddingSpaces) {
+            try {
+                await this.databaseService.processChunkVectors(noteId, chunkIds, space.id);
+                await this.databaseService.processNoteVector(noteId, space.id);
+                await this.databaseService.processBlockVectors(noteId, blockIds, space.id);
+            } catch (error) {
+                logger.error('Plugin', `Failed to embed note ${noteId} in space ${space.name}`, error);
+            }
+        }
+    }
+
+    /**
+     * Embed the notes an extra space has no vectors for yet, e.g. right after the space was added
+     */
+    private async fillEmbeddingSpace(space: EmbeddingSpaceConfig): Promise<void> {
+        const notes = await this.databaseService.getFilesWithoutVectors(space.id);
+        if (notes.length === 0) return;
+
+        logger.info('Plugin', `Embedding ${notes.length} notes in space ${space.name}`);
+        let failed = 0;
+        for (const note of notes) {
+            try {
+                await this.databaseService.reembedNote(note.noteId, space.id);
+            } catch (error) {
+                failed++;
+                logger.error('Plugin', `Failed to embed ${note.path} in space ${space.name}`, error);
+            }
+        }
+        if (failed > 0) {
+            logger.warn('Plugin', `${failed} of ${notes.length} notes could not be embedded in space ${space.name}`);
         }
     }
 
@@ -228,26 +463,21 @@ export default class Tezcat extends Plugin {
         }
         
         try {
-            const files = this.app.vault.getMarkdownFiles();
-            logger.info('Plugin', `Found ${files.length} markdown files in vault`);
+            const files = this.app.vault.getFiles().filter(file => isIndexableFile(file, this.indexableFileTypes));
+            logger.info('Plugin', `Found ${files.length} indexable files in vault`);
             
-            let processed = 0;
-            let created = 0;
-            let updated = 0;
-            let skipped = 0;
+            // Unchanged files are skipped cheaply, by comparing their content with what is stored
+            this.indexingQueue.enqueueAll(files.map(file => file.path));
+            this.indexingQueue.start();
+            await this.indexingQueue.whenIdle();
             
-            for (const file of files) {
-                const result = await this.processOneFileIntoDatabase(file);
-                processed++;
-                if (result?.changed) {
-                    created++;
-                } else if (result) {
-                    skipped++;
-                }
-                // If result is null (error), it's counted in processed but not created/skipped
+            const progress = this.indexingQueue.getProgress();
+            let message: string;
+            if (progress.paused && progress.pending > 0) {
+                message = `Indexing paused with ${progress.pending} files left; they are indexed once it resumes`;
+            } else {
+                message = `Completed processing ${files.length} files, ${progress.failed.length} failed`;
             }
-            
-            const message = `Completed processing ${processed} files: ${created} processed (new/changed), ${skipped} skipped (unchanged)`;
             if (showNotice) {
                 new Notice(message);
             }
@@ -285,6 +515,19 @@ export default class Tezcat extends Plugin {
         }
     }
 
+    async activateIndexingView() {
+        const { workspace } = this.app;
+
+        let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(INDEXING_VIEW_TYPE)[0] ?? null;
+        if (!leaf) {
+            leaf = workspace.getRightLeaf(false);
+            await leaf?.setViewState({ type: INDEXING_VIEW_TYPE, active: true });
+        }
+        if (leaf) {
+            workspace.revealLeaf(leaf);
+        }
+    }
+
     async onunload() {
         // Clean up status bar item
         if (this.statusBarItem) {
@@ -292,11 +535,63 @@ export default class Tezcat extends Plugin {
             this.statusBarItem = null;
         }
         
-        // Save and close database connection
+        // Files still queued are indexed next time
+        await this.indexingQueue?.stop();
+        
+        // Write any pending changes and close database connection
         if (this.databaseAdapter) {
-            await this.databaseAdapter.save();
+            await this.databaseAdapter.flush();
             await this.databaseAdapter.close();
         }
+        this.stopDatabaseWorker();
+    }
+
+    private async startDatabaseWorker(): Promise<void> {
+        const workerUrl = URL.createObjectURL(new Blob([databaseWorkerSource], { type: 'text/javascript' }));
+        try {
+            this.databaseWorker = new Worker(workerUrl);
+        } finally {
+            URL.revokeObjectURL(workerUrl);
+        }
+
+        const vault = this.app.vault.adapter;
+        this.workerEndpoint = new RpcEndpoint<HostApi, WorkerApi>(this.databaseWorker, {
+            vault: {
+                exists: path => vault.exists(path),
+                readBinary: path => vault.readBinary(path),
+                writeBinary: (path, data) => vault.writeBinary(path, data),
+                rename: (path, newPath) => vault.rename(path, newPath),
+                remove: path => vault.remove(path),
+                read: path => vault.read(path),
+                append: (path, data) => vault.append(path, data)
+            },
+            // Resolved per call, so the worker always embeds with the current provider settings
+            embedding: {
+                embedText: (text, space) => this.getSpaceEmbeddingService(space).embedText(text),
+                embedTexts: (texts, space) => this.getSpaceEmbeddingService(space).embedTexts(texts)
+            }
+        });
+
+        await this.workerEndpoint.call('worker', 'initialize', [{
+            configDir: this.app.vault.configDir,
+            vectorIndexType: this.settings.vectorIndexType,
+            logLevel: this.settings.logLevel
+        }]);
+
+        this.databaseAdapter = this.workerEndpoint.proxy('adapter');
+        this.databaseService = this.workerEndpoint.proxy('database');
+        this.searchService = this.workerEndpoint.proxy('search');
+        await this.syncEmbeddingSpaces();
+        await this.databaseService.setEmbeddingCacheLimit(this.settings.embeddingCacheLimit);
+        await this.databaseService.setBlockContextPrefix(this.settings.blockContextPrefix);
+        await this.databaseService.setIndexedBlockTypes(this.settings.indexedBlockTypes);
+    }
+
+    private stopDatabaseWorker(): void {
+        this.workerEndpoint?.dispose();
+        this.workerEndpoint = null;
+        this.databaseWorker?.terminate();
+        this.databaseWorker = null;
     }
 
     private registerCommand(id: string, name: string, callback: () => Promise<void>): void {
@@ -309,12 +604,22 @@ export default class Tezcat extends Plugin {
 
     async loadSettings() {
         this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        // Spaces are edited in place, so never share the default array
+        this.settings.embeddingSpaces = [...this.settings.embeddingSpaces];
+        this.settings.indexedBlockTypes = [...this.settings.indexedBlockTypes];
     }
 
     async saveSettings() {
         await this.saveData(this.settings);
         // Update logger level when settings are saved
         logger.setLevel(this.settings.logLevel);
+        await this.workerEndpoint?.call('worker', 'setLogLevel', [this.settings.logLevel]);
+        if (this.databaseService) {
+            await this.syncEmbeddingSpaces();
+            await this.databaseService.setEmbeddingCacheLimit(this.settings.embeddingCacheLimit);
+            await this.databaseService.setBlockContextPrefix(this.settings.blockContextPrefix);
+            await this.databaseService.setIndexedBlockTypes(this.settings.indexedBlockTypes);
+        }
         // Reinitialize services to pick up new settings
         this.reinitializeServicesAfterSettingsChange();
     }
@@ -330,14 +635,8 @@ export default class Tezcat extends Plugin {
             this.settings.chunkSize, 
             this.settings.chunkOverlap, 
             this, 
-            logger
-        );
-        
-        // Recreate search service with updated embedding service
-        this.searchService = new SearchService(
-            this.databaseService, 
-            this.embeddingService, 
-            logger
+            logger,
+            this.settings.chunkingStrategy
         );
         
         // Clear any cached validation results to force fresh validation
@@ -354,6 +653,121 @@ export default class Tezcat extends Plugin {
         this.isSystemValid = false;
     }
 
+    /**
+     * Every embedding space: the default one configured by the embedding settings, then the extra ones
+     */
+    getEmbeddingSpaces(): EmbeddingSpaceConfig[] {
+        return [{
+            id: DEFAULT_SPACE_ID,
+            name: 'Default',
+            provider: this.settings.embeddingProvider,
+            model: this.settings.embeddingModel,
+            vectorSize: this.settings.vectorSize
+        }, ...this.settings.embeddingSpaces];
+    }
+
+    /**
+     * The space live search queries, falling back to the default one if it was removed
+     */
+    getLiveSearchSpace(): string {
+        const space = this.settings.liveSearchSpace;
+        return this.settings.embeddingSpaces.some(config => config.id === space) ? space : DEFAULT_SPACE_ID;
+    }
+
+    private getSpaceEmbeddingService(space: string): EmbeddingService {
+        if (space === DEFAULT_SPACE_ID) return this.embeddingService;
+
+        const service = this.spaceEmbeddingServices.get(space);
+        if (!service) {
+            throw new Error(`Unknown embedding space: ${space}`);
+        }
+        return service;
+    }
+
+    /**
+     * Register each space's index tables and model fingerprint with the worker. New vectors are
+     * stamped with their space's fingerprint, and searches in a space are restricted to it.
+     */
+    private async syncEmbeddingSpaces(): Promise<void> {
+        for (const space of this.getEmbeddingSpaces()) {
+            await this.databaseAdapter.addVectorSpace(space.id);
+            await this.databaseService.setModelFingerprint(modelFingerprint(space.provider, space.model, space.vectorSize), space.id);
+        }
+    }
+
+    /**
+     * Add a space and embed the whole vault into it, leaving the other spaces untouched
+     */
+    async addEmbeddingSpace(space: EmbeddingSpaceConfig): Promise<void> {
+        if (this.isOperationInProgress) {
+            new Notice('Database operation already in progress. Please wait for it to complete.');
+            return;
+        }
+
+        this.settings.embeddingSpaces.push(space);
+        await this.saveSettings();
+        if (!this.ensureSystemValid()) {
+            return;
+        }
+
+        this.isOperationInProgress = true;
+        try {
+            new Notice(`Embedding notes with ${space.model} into ${space.name}...`);
+            await this.fillEmbeddingSpace(space);
+            await this.databaseAdapter.generateVectorIndex(space.vectorSize, this.getVectorIndexOptions(), space.id);
+            new Notice(`Embedding space ${space.name} is ready.`);
+        } catch (error) {
+            logger.error('Plugin', `Failed to fill embedding space ${space.name}`, error);
+            new Notice('Embedding the new space failed. Check console for details.');
+        } finally {
+            this.isOperationInProgress = false;
+        }
+    }
+
+    /**
+     * Remove a space along with its vectors and index tables
+     */
+    async removeEmbeddingSpace(id: string): Promise<void> {
+        if (this.isOperationInProgress) {
+            new Notice('Database operation already in progress. Please wait for it to complete.');
+            return;
+        }
+
+        try {
+            await this.databaseAdapter.removeVectorSpace(id);
+            await this.databaseService.setModelFingerprint(null, id);
+        } catch (error) {
+            logger.error('Plugin', `Failed to remove embedding space ${id}`, error);
+            new Notice('Removing the embedding space failed. Check console for details.');
+            return;
+        }
+
+        // Edited in place: the settings tab's pending copy shares this array
+        const index = this.settings.embeddingSpaces.findIndex(space => space.id === id);
+        if (index >= 0) {
+            this.settings.embeddingSpaces.splice(index, 1);
+        }
+        if (this.settings.liveSearchSpace === id) {
+            this.settings.liveSearchSpace = DEFAULT_SPACE_ID;
+        }
+        await this.saveSettings();
+    }
+
+    /**
+     * Index recall/latency knobs from settings, used both when building and searching the index
+     */
+    getVectorIndexOptions(): VectorIndexOptions {
+        return {
+            numTables: this.settings.lshNumTables,
+            bitsPerTable: this.settings.lshBitsPerTable,
+            probesPerTable: this.settings.lshProbesPerTable,
+            candidateMultiplier: this.settings.lshCandidateMultiplier,
+            m: this.settings.hnswM,
+            efConstruction: this.settings.hnswEfConstruction,
+            efSearch: this.settings.hnswEfSearch
+        };
+    }
+
     // Vector database command implementations
     async rebuildDatabase() {
         if (this.isOperationInProgress) {
@@ -380,12 +794,12 @@ export default class Tezcat extends Plugin {
             new Notice('Processing all vault files...');
             await this.processAllVaultFilesIntoDatabase(false);
             
-            // Build vector index (this will create LSH tables internally if needed)
+            // Build vector indexes (this will create their tables internally if needed)
             new Notice('Building vector index...');
-            await this.databaseAdapter.generateVectorIndex(this.settings.vectorSize);
+            await this.buildVectorIndexes();
             
             // Save the rebuilt database
-            await this.databaseAdapter.save();
+            await this.databaseAdapter.flush();
             
             new Notice('Database rebuild completed successfully!');
             
@@ -401,6 +815,15 @@ export default class Tezcat extends Plugin {
     }
 
 
+    /**
+     * Build every space's vector index from its stored vectors
+     */
+    private async buildVectorIndexes(): Promise<void> {
+        for (const space of this.getEmbeddingSpaces()) {
+            await this.databaseAdapter.generateVectorIndex(space.vectorSize, this.getVectorIndexOptions(), space.id);
+        }
+    }
+
     /**
      * Initialize embedding services with model manager integration
      */
@@ -419,6 +842,10 @@ export default class Tezcat extends Plugin {
             
             this.embeddingService = new EmbeddingService(ollamaProvider, logger);
             this.validationService.setModelManager(this.modelManager);
+        } else if (this.settings.embeddingProvider === 'transformers') {
+            this.embeddingService = new EmbeddingService(this.createTransformersProvider(this.settings.embeddingModel), logger);
+        } else if (this.settings.embeddingProvider === 'openai-compatible') {
+            this.embeddingService = new EmbeddingService(this.createCompatibleProvider(this.settings.embeddingModel, this.settings.vectorSize), logger);
         } else {
             // Create OpenAI provider
             const openaiProvider = new OpenAIEmbeddingProvider(
@@ -430,6 +857,84 @@ export default class Tezcat extends Plugin {
             
             this.embeddingService = new EmbeddingService(openaiProvider, logger);
         }
+
+        this.spaceEmbeddingServices.clear();
+        for (const space of this.settings.embeddingSpaces) {
+            this.spaceEmbeddingServices.set(space.id, new EmbeddingService(this.createSpaceEmbeddingProvider(space), logger));
+        }
+    }
+
+    /**
+     * Provider for an extra space; it shares the connection settings of the default provider
+     */
+    private createSpaceEmbeddingProvider(space: EmbeddingSpaceConfig): EmbeddingProvider {
+        if (space.provider === 'ollama') {
+            const ollamaProvider = new OllamaEmbeddingProvider(this.settings.ollamaBaseUrl, space.model, logger);
+            if (this.modelManager) {
+                ollamaProvider.setModelManager(this.modelManager);
+            }
+            return ollamaProvider;
+        }
+        if (space.provider === 'transformers') {
+            return this.createTransformersProvider(space.model);
+        }
+        if (space.provider === 'openai-compatible') {
+            return this.createCompatibleProvider(space.model, space.vectorSize);
+        }
+        return new OpenAIEmbeddingProvider(this.settings.openaiApiKey, space.model, 'https://api.openai.com', logger);
+    }
+
+    /**
+     * Provider running a model from the local model folder in the database worker
+     */
+    createTransformersProvider(model: string): WorkerTransformersProvider {
+        return new WorkerTransformersProvider(() => this.getLocalModels(), this.getLocalModelFolder(), model);
+    }
+
+    private getLocalModels(): LocalModelProxy {
+        if (!this.workerEndpoint) {
+            throw new Error('Database worker is not running');
+        }
+        return this.workerEndpoint.proxy('localModels');
+    }
+
+    /**
+     * Provider for the configured OpenAI-compatible endpoint (LM Studio, llama.cpp server, vLLM, LiteLLM...)
+     */
+    createCompatibleProvider(model: string, vectorSize: number): OpenAICompatibleEmbeddingProvider {
+        return new OpenAICompatibleEmbeddingProvider(
+            this.settings.compatibleBaseUrl,
+            model,
+            parseHeaderLines(this.settings.compatibleHeaders),
+            vectorSize,
+            logger
+        );
+    }
+
+    /**
+     * Store the vector size an OpenAI-compatible endpoint reported during validation, so the
+     * fingerprint and vector index use it. Only needed when no size was declared.
+     */
+    async adoptDetectedVectorSize(): Promise<void> {
+        const provider = this.embeddingService.embeddingProvider;
+        if (!(provider instanceof OpenAICompatibleEmbeddingProvider)) return;
+
+        const dimensions = provider.getDimensions();
+        if (dimensions > 0 && dimensions !== this.settings.vectorSize) {
+            logger.info('Plugin', `Detected ${dimensions} dimensions for ${this.settings.embeddingModel}`);
+            this.settings.vectorSize = dimensions;
+            // Saved without reinitializing services, which would discard the validation result
+            await this.saveData(this.settings);
+            await this.syncEmbeddingSpaces();
+        }
+    }
+
+    private getPluginDir(): string {
+        return this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    }
+
+    getLocalModelFolder(): string {
+        return this.settings.localModelFolder.trim() || `${this.getPluginDir()}/models`;
     }
 
     /**
@@ -456,6 +961,7 @@ export default class Tezcat extends Plugin {
             
             if (this.isSystemValid) {
                 logger.info('Plugin', 'System validation successful, proceeding with setup...');
+                await this.adoptDetectedVectorSize();
                 await this.performAutomaticSetup();
                 // Only show "ready" status after setup completes successfully
                 this.updateStatusBar('check', 'Tezcat: System ready', 'tezcat-status-ready');
@@ -495,6 +1001,10 @@ export default class Tezcat extends Plugin {
                 new Notice('To fix: Start Ollama by starting up the application (or downloading and running at https://ollama.com/download) or by running "ollama serve" in terminal', 8000);
             } else if (message.includes('API key')) {
                 new Notice('To fix: Add your OpenAI API key in Tezcat settings', 8000);
+            } else if (message.includes('Embedding endpoint')) {
+                new Notice('To fix: Start the embedding server, or check the endpoint URL, headers, model and vector size in Tezcat settings', 8000);
+            } else if (message.includes('Local model')) {
+                new Notice(`To fix: Download the model's ONNX files into ${this.getLocalModelFolder()}, or pick another model in Tezcat settings`, 8000);
             }
         }
         
@@ -525,6 +1035,11 @@ export default class Tezcat extends Plugin {
             logger.info('Plugin', 'Workspace ready, processing vault files...');
             await this.processAllVaultFilesIntoDatabase(false);
             
+            // Spaces added since the last run only have vectors for notes changed since
+            for (const space of this.settings.embeddingSpaces) {
+                await this.fillEmbeddingSpace(space);
+            }
+            
             // Build vector index after all files are processed
             logger.info('Plugin', 'Building vector index...');
             await this.ensureVectorIndexExists();
@@ -533,6 +1048,9 @@ export default class Tezcat extends Plugin {
             logger.info('Plugin', 'Ensuring FTS content is populated...');
             await this.databaseService.ensureFTSContentForAllNotes();
             
+            // Vectors from another model are left out of search until re-embedded
+            await this.checkForStaleVectors();
+            
             // Automatically activate the Tezcat view
             logger.info('Plugin', 'Activating Tezcat view...');
             await this.activateView();
@@ -549,18 +1067,26 @@ export default class Tezcat extends Plugin {
         }
         
         try {
-            // Check if vector index already exists
-            const lshConfig = await this.databaseAdapter.getLSHConfig();
-            
-            if (lshConfig) {
-                logger.info('Plugin', 'Vector index already exists, skipping build');
-                return;
+            let hasExistingIndex = false;
+            for (const space of this.getEmbeddingSpaces()) {
+                // Check if vector index already exists
+                if (await this.databaseAdapter.isVectorIndexAvailable(space.id)) {
+                    hasExistingIndex = true;
+                    continue;
+                }
+                
+                // Index doesn't exist, build it
+                logger.info('Plugin', `Vector index for space ${space.name} not found, building index...`);
+                await this.databaseAdapter.generateVectorIndex(space.vectorSize, this.getVectorIndexOptions(), space.id);
+                logger.info('Plugin', `Vector index for space ${space.name} built successfully`);
             }
             
-            // Index doesn't exist, build it
-            logger.info('Plugin', 'Vector index not found, building index...');
-            await this.databaseAdapter.generateVectorIndex(this.settings.vectorSize);
-            logger.info('Plugin', 'Vector index built successfully');
+            if (hasExistingIndex) {
+                // Reconciling covers every space's index
+                logger.info('Plugin', 'Syncing existing vector indexes with stored vectors');
+                await this.databaseAdapter.reconcileVectorIndex();
+                await this.databaseAdapter.save();
+            }
             
         } catch (error) {
             logger.error('Plugin', 'Failed to ensure vector index exists', error);
@@ -568,6 +1094,72 @@ export default class Tezcat extends Plugin {
         }
     }
 
+    /**
+     * Offer to re-embed notes whose vectors were made by a different model than the configured one
+     */
+    private async checkForStaleVectors(): Promise<void> {
+        const stale = await this.databaseService.getStaleVectorCounts();
+        if (stale.notes === 0) return;
+        
+        logger.warn('Plugin', `${stale.mismatched} vectors from another model and ${stale.unknown} of unknown origin in ${stale.notes} notes`);
+        new StaleVectorsModal(
+            this.app,
+            stale,
+            () => this.reembedStaleNotes(),
+            async () => {
+                await this.databaseService.adoptUnstampedVectors();
+                new Notice('Vectors of unknown origin marked as made by the current model.');
+            }
+        ).open();
+    }
+
+    /**
+     * Re-embed only the notes with stale vectors, instead of rebuilding the whole database
+     */
+    async reembedStaleNotes() {
+        if (this.isOperationInProgress) {
+            new Notice('Database operation already in progress. Please wait for it to complete.');
+            return;
+        }
+        if (!this.ensureSystemValid()) {
+            return;
+        }
+
+        this.isOperationInProgress = true;
+        try {
+            const notes = await this.databaseService.getNotesWithStaleVectors();
+            if (notes.length === 0) {
+                new Notice('All vectors match the current embedding model.');
+                return;
+            }
+            
+            new Notice(`Re-embedding ${notes.length} notes with ${this.settings.embeddingModel}...`);
+            let failed = 0;
+            for (const note of notes) {
+                try {
+                    await this.databaseService.reembedNote(note.noteId);
+                } catch (error) {
+                    failed++;
+                    logger.error('Plugin', `Failed to re-embed ${note.path}`, error);
+                }
+            }
+            
+            // Vector dimensions may have changed along with the model
+            await this.databaseAdapter.generateVectorIndex(this.settings.vectorSize, this.getVectorIndexOptions());
+            
+            const message = failed > 0
+                ? `Re-embedded ${notes.length - failed} notes, ${failed} failed. Check console for details.`
+                : `Re-embedded ${notes.length} notes.`;
+            new Notice(message);
+            logger.info('Plugin', message);
+        } catch (error) {
+            logger.error('Plugin', 'Re-embedding stale notes failed', error);
+            new Notice('Re-embedding failed. Check console for details.');
+        } finally {
+            this.isOperationInProgress = false;
+        }
+    }
+
     async rebuildVectorIndex() {
         if (!this.ensureSystemValid()) {
             return;
@@ -576,7 +1168,7 @@ export default class Tezcat extends Plugin {
         new Notice('Starting vector index rebuild...');
         
         try {
-            await this.databaseAdapter.generateVectorIndex(this.settings.vectorSize);
+            await this.buildVectorIndexes();
             new Notice('Vector index rebuilt successfully!');
         } catch (error) {
             logger.error('Plugin', 'Vector index rebuild failed', error);
@@ -596,10 +1188,15 @@ export default class Tezcat extends Plugin {
 • Block vectors: ${stats.vectorsByType.block}
 • Outdated notes: ${stats.outdatedNotes}
 • Orphaned vectors: ${stats.orphanedData.orphanedVectors}
-• Orphaned chunks: ${stats.orphanedData.orphanedChunks}`;
+• Orphaned chunks: ${stats.orphanedData.orphanedChunks}
+• Orphaned blocks: ${stats.orphanedData.orphanedBlocks}
+• Orphaned full-text rows: ${stats.orphanedData.orphanedFTSRows}
+• Cached embeddings: ${stats.embeddingCache.entries}
+• Cache hits / misses: ${stats.embeddingCache.hits} / ${stats.embeddingCache.misses}
+• Cache evictions: ${stats.embeddingCache.evictions}`;
 
             new Notice(message, 10000); // Show for 10 seconds
-            logger.info('Plugin', `Vector Database Stats: totalNotes=${stats.totalNotes}, processedNotes=${stats.processedNotes}, totalVectors=${stats.totalVectors}, noteVectors=${stats.vectorsByType.note}, blockVectors=${stats.vectorsByType.block}`);
+            logger.info('Plugin', `Vector Database Stats: totalNotes=${stats.totalNotes}, processedNotes=${stats.processedNotes}, totalVectors=${stats.totalVectors}, noteVectors=${stats.vectorsByType.note}, blockVectors=${stats.vectorsByType.block}, cacheEntries=${stats.embeddingCache.entries}, cacheHits=${stats.embeddingCache.hits}, cacheMisses=${stats.embeddingCache.misses}`);
         } catch (error) {
             logger.error('Plugin', 'Failed to get vector database stats', error);
             new Notice('Failed to get vector database stats. Check console for details.');
@@ -609,7 +1206,7 @@ export default class Tezcat extends Plugin {
     async performVectorSearch() {
         try {
             // Create a simple input modal to get the search query
-            new VectorSearchModal(this.app, async (query: string) => {
+            new VectorSearchModal(this.app, this.getEmbeddingSpaces(), async (query: string, space: string) => {
                 if (!query.trim()) {
                     new Notice('Please enter a search query');
                     return;
@@ -621,14 +1218,18 @@ export default class Tezcat extends Plugin {
                     const currentNotePath = this.getCurrentNotePath();
                     const excludeNotePaths = currentNotePath ? [currentNotePath] : [];
                     
-                    const results = await this.searchService.vectorSearch(query, {
+                    const options: SearchOptions = {
                         topK: 10,
                         minScore: 0.1,
                         includeNoteVectors: true,
-                        includeChunkVectors: false,
+                        includeChunkVectors: true,
                         includeBlockVectors: true,
-                        excludeNotePaths
-                    });
+                        excludeNotePaths,
+                        indexOptions: this.getVectorIndexOptions()
+                    };
+                    const results = space === ALL_SPACES
+                        ? await this.searchService.fusedSpaceSearch(query, this.getEmbeddingSpaces().map(config => config.id), options)
+                        : await this.searchService.vectorSearch(query, { ...options, space });
 
                     if (results.length === 0) {
                         new Notice('No results found');
@@ -713,6 +1314,11 @@ export default class Tezcat extends Plugin {
     }
 
     private onFileOpen(file: any) {
+        // The opened file is indexed next, if it is waiting
+        if (file) {
+            this.indexingQueue.prioritize(file.path);
+        }
+
         // Handle note navigation tracking for file opens
         window.setTimeout(() => {
             const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
@@ -853,6 +1459,7 @@ export default class Tezcat extends Plugin {
         try {
             const currentNotePath = this.getCurrentNotePath();
             const excludeNotePaths = currentNotePath ? [currentNotePath] : [];
+            const space = this.getLiveSearchSpace();
             
             // Perform search based on settings (vector or hybrid)
             const searchPromise = this.settings.searchMode === 'hybrid' 
@@ -860,18 +1467,22 @@ export default class Tezcat extends Plugin {
                     topK: 10,
                     minScore: 0, // RRF scores are much smaller than cosine similarity scores
                     includeNoteVectors: true,
-                    includeChunkVectors: false,
+                    includeChunkVectors: true,
                     includeBlockVectors: true,
                     excludeNotePaths,
-                    hybridWeight: 0.5 // Equal weighting by default
+                    indexOptions: this.getVectorIndexOptions(),
+                    hybridWeight: 0.5, // Equal weighting by default
+                    space
                 })
                 : this.searchService.vectorSearch(context, {
                     topK: 10,
                     minScore: 0.1,
                     includeNoteVectors: true,
-                    includeChunkVectors: false,
+                    includeChunkVectors: true,
                     includeBlockVectors: true,
-                    excludeNotePaths
+                    excludeNotePaths,
+                    indexOptions: this.getVectorIndexOptions(),
+                    space
                 });
             
             const results = await searchPromise;
@@ -912,42 +1523,31 @@ export default class Tezcat extends Plugin {
 
     // File event handlers for note reprocessing
     private async handleFileModify(file: any) {
-        // Only process markdown files
-        if (file.extension !== 'md') return;
+        // Only process markdown files and enabled canvases and PDFs
+        if (!isIndexableFile(file, this.indexableFileTypes)) return;
         
-        try {
-            // Use the complete blocks workflow for modified files
-            await this.processOneFileIntoDatabase(file);
-        } catch (error) {
-            logger.error('Plugin', `Failed to handle file modify for ${file.path}`, error);
-        }
+        // The note being edited goes ahead of a vault-wide run
+        this.indexingQueue.enqueue(file.path, this.app.workspace.getActiveFile()?.path === file.path);
     }
 
     private async handleFileCreate(file: any) {
-        // Only process markdown files
-        if (file.extension !== 'md') return;
+        // Only process markdown files and enabled canvases and PDFs
+        if (!isIndexableFile(file, this.indexableFileTypes)) return;
         
-        try {
-            // Use the complete blocks workflow for new files
-            await this.processOneFileIntoDatabase(file);
-        } catch (error) {
-            logger.error('Plugin', `Failed to handle file create for ${file.path}`, error);
-        }
+        this.indexingQueue.enqueue(file.path);
     }
 
     private async handleFileDelete(file: any) {
-        // Only process markdown files
-        if (file.extension !== 'md') return;
+        this.indexingQueue.remove(file.path);
+        // Only process markdown files and enabled canvases and PDFs
+        if (!isIndexableFile(file, this.indexableFileTypes)) return;
         
         try {
             // Check if note exists in database
             const existingNote = await this.databaseService.getNoteByPath(file.path);
             if (existingNote) {
                 logger.info('Plugin', `Removing deleted note from database: ${file.path}`);
-                // Delete in order: vectors, chunks, then note
-                await this.databaseService.deleteVectorsForNote(existingNote.id);
-                await this.databaseService.deleteChunksForNote(existingNote.id);
-                await this.databaseService.deleteNote(existingNote.id);
+                await this.databaseService.removeNote(existingNote.id);
                 logger.info('Plugin', `Successfully removed note ${existingNote.id} (${file.path}) from database`);
             } else {
                 logger.debug('Plugin', `Note not found in database for deletion: ${file.path}`);
@@ -957,20 +1557,31 @@ export default class Tezcat extends Plugin {
         }
     }
 
-    private async handleFileRename(file: any, oldPath: string) {
-        // Only process markdown files
-        if (file.extension !== 'md') return;
-        
+    private async handleFileRename(file: TAbstractFile, oldPath: string) {
+        this.indexingQueue.rename(oldPath, file.path);
+        if (file instanceof TFolder) {
+            await this.handleFolderRename(file, oldPath);
+            return;
+        }
+        // Only process markdown files and enabled canvases and PDFs
+        if (!(file instanceof TFile) || !isIndexableFile(file, this.indexableFileTypes)) return;
+        
         try {
             // Look for note by old path
             const existingNote = await this.databaseService.getNoteByPath(oldPath);
             if (existingNote) {
                 logger.debug('Plugin', `Updating renamed note path: ${oldPath} -> ${file.path}`);
-                await this.databaseService.updateNote(existingNote.id, {
-                    name: file.name,
-                    base_name: file.basename,
-                    path: file.path
-                });
+                await this.databaseService.renameNote(existingNote.id, file.path, file.name, file.basename);
+
+                // With heading context on, block vectors embed the note title
+                if (this.settings.blockContextPrefix && existingNote.base_name !== file.basename) {
+                    for (const space of this.getEmbeddingSpaces()) {
+                        await this.databaseService.reembedNote(existingNote.id, space.id);
+                    }
+                }
+            } else if (await this.databaseService.getNoteByPath(file.path)) {
+                // Already moved along with its folder
+                logger.debug('Plugin', `Note already at renamed path: ${file.path}`);
             } else {
                 // Note not found by old path - might be a new file, handle as create
                 logger.debug('Plugin', `Note not found for rename, treating as new file: ${file.path}`);
@@ -981,6 +1592,19 @@ export default class Tezcat extends Plugin {
         }
     }
 
+    /**
+     * Obsidian also sends a rename event for every file in a renamed folder. Moving the whole folder
+     * here, in one transaction, leaves those events with nothing to do.
+     */
+    private async handleFolderRename(folder: TFolder, oldPath: string) {
+        try {
+            const moved = await this.databaseService.renameFolder(oldPath, folder.path);
+            logger.debug('Plugin', `Moved ${moved} notes from folder ${oldPath} to ${folder.path}`);
+        } catch (error) {
+            logger.error('Plugin', `Failed to handle folder rename from ${oldPath} to ${folder.path}`, error);
+        }
+    }
+
 
     private async handleNoteNavigation(leaf: WorkspaceLeaf | null) {
         // Only handle markdown files
@@ -1009,29 +1633,54 @@ export default class Tezcat extends Plugin {
      * Update the status bar with current system status
      */
     public updateStatusBar(status: string, tooltip: string, className?: string) {
-        if (!this.statusBarItem) return;
-        
-        this.statusBarItem.empty();
+        this.systemStatus = { status, tooltip, className };
+        this.renderStatusBar(this.indexingQueue.getProgress());
+    }
+
+    /**
+     * While files are being indexed the status bar shows how far along indexing is, and opens the
+     * progress view when clicked. Otherwise it shows the system status.
+     */
+    private renderStatusBar(progress: IndexingProgress) {
+        if (!this.statusBarItem || !this.systemStatus) return;
         
-        // Map status to simple text indicators
         let displayText: string;
-        switch (status) {
-            case 'sync':
-                displayText = '○';
-                break;
-            case 'check':
-                displayText = '✓';
-                break;
-            case 'alert-triangle':
-                displayText = '!';
-                break;
-            case 'x':
-                displayText = '×';
-                break;
-            default:
-                displayText = status;
+        let tooltip: string;
+        let className: string | undefined;
+        let onClick: () => void;
+        if (progress.done < progress.total) {
+            const eta = progress.etaMs !== null && !progress.paused ? `, about ${formatDuration(progress.etaMs)} left` : '';
+            displayText = `${progress.paused ? '‖' : '○'} ${progress.done}/${progress.total}`;
+            tooltip = progress.paused
+                ? `Tezcat: Indexing paused, ${progress.total - progress.done} files left`
+                : `Tezcat: Indexing ${progress.done} of ${progress.total} files${eta}`;
+            className = 'tezcat-status-initializing';
+            onClick = () => this.activateIndexingView();
+        } else {
+            // Map status to simple text indicators
+            switch (this.systemStatus.status) {
+                case 'sync':
+                    displayText = '○';
+                    break;
+                case 'check':
+                    displayText = '✓';
+                    break;
+                case 'alert-triangle':
+                    displayText = '!';
+                    break;
+                case 'x':
+                    displayText = '×';
+                    break;
+                default:
+                    displayText = this.systemStatus.status;
+            }
+            tooltip = this.systemStatus.tooltip;
+            className = this.systemStatus.className;
+            // Show validation details
+            onClick = () => this.showSystemStatusModal();
         }
         
+        this.statusBarItem.empty();
         this.statusBarItem.setText(displayText);
         this.statusBarItem.title = tooltip;
         
@@ -1044,10 +1693,7 @@ export default class Tezcat extends Plugin {
             this.statusBarItem.addClass(className);
         }
         
-        // Add click handler to show validation details
-        this.statusBarItem.onclick = () => {
-            this.showSystemStatusModal();
-        };
+        this.statusBarItem.onclick = onClick;
     }
 
     /**
@@ -1125,64 +1771,100 @@ class TezcatSettingTab extends PluginSettingTab {
             .addDropdown(dropdown => dropdown
                 .addOption('ollama', 'Ollama')
                 .addOption('openai', 'OpenAI')
+                .addOption('transformers', 'Local (transformers.js)')
+                .addOption('openai-compatible', 'OpenAI-compatible endpoint')
                 .setValue(this.pendingSettings.embeddingProvider)
                 .onChange((value: EmbeddingProviderType) => {
                     this.pendingSettings.embeddingProvider = value;
+                    this.pendingSettings.embeddingModel = DEFAULT_PROVIDER_MODELS[value].model;
+                    this.pendingSettings.vectorSize = DEFAULT_PROVIDER_MODELS[value].vectorSize;
                     this.hasSensitiveChanges = true;
                     this.display(); // Refresh settings to show/hide conditional settings
                 }));
 
-        new Setting(containerEl)
-            .setName('Embedding model')
-            .setDesc('The model to use for generating embeddings')
-            .addDropdown(dropdown => {
-                if (this.pendingSettings.embeddingProvider === 'openai') {
-                    dropdown
-                        .addOption('text-embedding-3-small', 'Text Embedding 3 Small (1536d)')
-                        .addOption('text-embedding-3-large', 'Text Embedding 3 Large (3072d)');
-                } else if (this.pendingSettings.embeddingProvider === 'ollama') {
-                    dropdown
-                        .addOption('nomic-embed-text:v1.5', 'Nomic Embed Text v1.5 (768d)')
-                        .addOption('bge-m3', 'BGE M3 (1024d)');
-                }
-                
-                dropdown
-                    .setValue(this.pendingSettings.embeddingModel)
-                    .onChange((value) => {
-                        this.pendingSettings.embeddingModel = value;
-                        this.hasSensitiveChanges = true;
-                        
-                        // Auto-update vector size based on model
-                        if (value === 'bge-m3') {
-                            this.pendingSettings.vectorSize = 1024;
-                        } else if (value === 'text-embedding-3-small') {
-                            this.pendingSettings.vectorSize = 1536;
-                        } else if (value === 'text-embedding-3-large') {
-                            this.pendingSettings.vectorSize = 3072;
-                        } else {
-                            this.pendingSettings.vectorSize = 768;
+        if (this.pendingSettings.embeddingProvider === 'openai-compatible') {
+            new Setting(containerEl)
+                .setName('Embedding model')
+                .setDesc('The model name the endpoint expects, e.g. nomic-embed-text-v1.5')
+                .addText(text => {
+                    const originalValue = this.plugin.settings.embeddingModel;
+                    text
+                        .setPlaceholder('nomic-embed-text-v1.5')
+                        .setValue(this.pendingSettings.embeddingModel)
+                        .onChange((value) => {
+                            this.pendingSettings.embeddingModel = value.trim();
+                        });
+                    text.inputEl.addEventListener('blur', () => {
+                        if (this.pendingSettings.embeddingModel !== originalValue) {
+                            this.hasSensitiveChanges = true;
+                            this.display();
                         }
-                        this.display(); // Refresh to update vector size field
                     });
-            });
+                });
+        } else {
+            new Setting(containerEl)
+                .setName('Embedding model')
+                .setDesc('The model to use for generating embeddings')
+                .addDropdown(dropdown => {
+                    if (this.pendingSettings.embeddingProvider === 'openai') {
+                        dropdown
+                            .addOption('text-embedding-3-small', 'Text Embedding 3 Small (1536d)')
+                            .addOption('text-embedding-3-large', 'Text Embedding 3 Large (3072d)');
+                    } else if (this.pendingSettings.embeddingProvider === 'ollama') {
+                        dropdown
+                            .addOption('nomic-embed-text:v1.5', 'Nomic Embed Text v1.5 (768d)')
+                            .addOption('bge-m3', 'BGE M3 (1024d)');
+                    } else if (this.pendingSettings.embeddingProvider === 'transformers') {
+                        dropdown
+                            .addOption('Xenova/all-MiniLM-L6-v2', 'all-MiniLM-L6-v2 (384d)')
+                            .addOption('nomic-ai/nomic-embed-text-v1.5', 'Nomic Embed Text v1.5 (768d)');
+                    }
+                    
+                    dropdown
+                        .setValue(this.pendingSettings.embeddingModel)
+                        .onChange((value) => {
+                            this.pendingSettings.embeddingModel = value;
+                            this.hasSensitiveChanges = true;
+                            
+                            // Auto-update vector size based on model
+                            if (value === 'Xenova/all-MiniLM-L6-v2') {
+                                this.pendingSettings.vectorSize = 384;
+                            } else if (value === 'bge-m3') {
+                                this.pendingSettings.vectorSize = 1024;
+                            } else if (value === 'text-embedding-3-small') {
+                                this.pendingSettings.vectorSize = 1536;
+                            } else if (value === 'text-embedding-3-large') {
+                                this.pendingSettings.vectorSize = 3072;
+                            } else {
+                                this.pendingSettings.vectorSize = 768;
+                            }
+                            this.display(); // Refresh to update vector size field
+                        });
+                });
+        }
 
+        const isCompatibleEndpoint = this.pendingSettings.embeddingProvider === 'openai-compatible';
         new Setting(containerEl)
             .setName('Vector size')
-            .setDesc('The size of the embedding vectors (default: 768)')
+            .setDesc(isCompatibleEndpoint
+                ? 'The size of the embedding vectors. Leave at 0 to detect it from the endpoint when validating.'
+                : 'The size of the embedding vectors (default: 768)')
             .addText(text => {
-                const isReadOnly = this.pendingSettings.embeddingModel === 'bge-m3' || 
+                const isReadOnly = !isCompatibleEndpoint && (
+                                 this.pendingSettings.embeddingModel === 'Xenova/all-MiniLM-L6-v2' ||
+                                 this.pendingSettings.embeddingModel === 'bge-m3' || 
                                  this.pendingSettings.embeddingModel === 'text-embedding-3-small' ||
-                                 this.pendingSettings.embeddingModel === 'text-embedding-3-large';
+                                 this.pendingSettings.embeddingModel === 'text-embedding-3-large');
                 
                 text
-                    .setPlaceholder('768')
+                    .setPlaceholder(isCompatibleEndpoint ? '0' : '768')
                     .setValue(this.pendingSettings.vectorSize.toString())
                     .setDisabled(isReadOnly);
                 
                 if (!isReadOnly) {
                     const originalValue = this.plugin.settings.vectorSize;
                     text.onChange((value) => {
-                        const vectorSize = parseInt(value) || 768;
+                        const vectorSize = parseInt(value) || (isCompatibleEndpoint ? 0 : 768);
                         this.pendingSettings.vectorSize = vectorSize;
                     });
                     text.inputEl.addEventListener('blur', () => {
@@ -1196,7 +1878,7 @@ class TezcatSettingTab extends PluginSettingTab {
 
         new Setting(containerEl)
             .setName('Chunk size')
-            .setDesc('The number of tokens per text chunk. Also affects the search context window size around your cursor (default: 128)')
+            .setDesc('The number of tokens per chunk when a note or block is too long for the embedding model. Also affects the search context window size around your cursor (default: 128)')
             .addText(text => {
                 const originalValue = this.plugin.settings.chunkSize;
                 text
@@ -1234,6 +1916,70 @@ class TezcatSettingTab extends PluginSettingTab {
                 });
             });
 
+        new Setting(containerEl)
+            .setName('Chunking strategy')
+            .setDesc('How notes and blocks too long for the embedding model are split into chunks')
+            .addDropdown(dropdown => dropdown
+                .addOption(ChunkingStrategyType.MARKDOWN, 'Markdown structure (sentences, list items, headings)')
+                .addOption(ChunkingStrategyType.TOKEN, 'Fixed token windows')
+                .setValue(this.pendingSettings.chunkingStrategy)
+                .onChange((value: ChunkingStrategyType) => {
+                    this.pendingSettings.chunkingStrategy = value;
+                    this.hasSensitiveChanges = true;
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('Heading context for blocks')
+            .setDesc('Embed each block with its note title and the headings it sits under, e.g. "Project X > Risks". Blocks are still shown and inserted as written')
+            .addToggle(toggle => toggle
+                .setValue(this.pendingSettings.blockContextPrefix)
+                .onChange((value) => {
+                    this.pendingSettings.blockContextPrefix = value;
+                    this.hasSensitiveChanges = true;
+                    this.display();
+                }));
+
+        new Setting(containerEl).setHeading().setName('Indexed block types');
+        for (const type of INDEXABLE_BLOCK_TYPES) {
+            new Setting(containerEl)
+                .setName(BLOCK_TYPE_LABELS[type] ?? type)
+                .setDesc(FTS_ONLY_BLOCK_TYPES.includes(type) ? 'Found by keyword search only' : '')
+                .addToggle(toggle => toggle
+                    .setValue(this.pendingSettings.indexedBlockTypes.includes(type))
+                    .onChange((value) => {
+                        // Replace rather than mutate: the saved settings share this array until saved
+                        const others = this.pendingSettings.indexedBlockTypes.filter(indexed => indexed !== type);
+                        this.pendingSettings.indexedBlockTypes = value ? [...others, type] : others;
+                        this.hasSensitiveChanges = true;
+                        this.display();
+                    }));
+        }
+
+        new Setting(containerEl).setHeading().setName('Indexed files');
+
+        new Setting(containerEl)
+            .setName('Canvases')
+            .setDesc('Index the text cards of .canvas files; results open at their card')
+            .addToggle(toggle => toggle
+                .setValue(this.pendingSettings.indexCanvasFiles)
+                .onChange((value) => {
+                    this.pendingSettings.indexCanvasFiles = value;
+                    this.hasSensitiveChanges = true;
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('PDFs')
+            .setDesc('Index the text of each PDF page; results open at their page. Scanned pages without a text layer are skipped')
+            .addToggle(toggle => toggle
+                .setValue(this.pendingSettings.indexPdfFiles)
+                .onChange((value) => {
+                    this.pendingSettings.indexPdfFiles = value;
+                    this.hasSensitiveChanges = true;
+                    this.display();
+                }));
+
         // Conditional settings based on provider
         if (this.pendingSettings.embeddingProvider === 'openai') {
             new Setting(containerEl)
@@ -1277,6 +2023,67 @@ class TezcatSettingTab extends PluginSettingTab {
                 });
         }
 
+        if (this.pendingSettings.embeddingProvider === 'openai-compatible') {
+            new Setting(containerEl)
+                .setName('Endpoint base URL')
+                .setDesc('Base URL of the OpenAI-compatible API, including the version path. Embeddings are requested from <base URL>/embeddings.')
+                .addText(text => {
+                    const originalValue = this.plugin.settings.compatibleBaseUrl;
+                    text
+                        .setPlaceholder('http://localhost:1234/v1')
+                        .setValue(this.pendingSettings.compatibleBaseUrl)
+                        .onChange((value) => {
+                            this.pendingSettings.compatibleBaseUrl = value;
+                        });
+                    text.inputEl.addEventListener('blur', () => {
+                        if (this.pendingSettings.compatibleBaseUrl !== originalValue) {
+                            this.hasSensitiveChanges = true;
+                            this.display();
+                        }
+                    });
+                });
+
+            new Setting(containerEl)
+                .setName('Endpoint headers')
+                .setDesc('Extra request headers, one "Name: value" per line, e.g. Authorization: Bearer <key> for a LiteLLM gateway')
+                .addTextArea(text => {
+                    const originalValue = this.plugin.settings.compatibleHeaders;
+                    text
+                        .setPlaceholder('Authorization: Bearer sk-...')
+                        .setValue(this.pendingSettings.compatibleHeaders)
+                        .onChange((value) => {
+                            this.pendingSettings.compatibleHeaders = value;
+                        });
+                    text.inputEl.addEventListener('blur', () => {
+                        if (this.pendingSettings.compatibleHeaders !== originalValue) {
+                            this.hasSensitiveChanges = true;
+                            this.display();
+                        }
+                    });
+                });
+        }
+
+        if (this.pendingSettings.embeddingProvider === 'transformers') {
+            new Setting(containerEl)
+                .setName('Local model folder')
+                .setDesc(`Folder inside the vault holding one subfolder per model, e.g. Xenova/all-MiniLM-L6-v2 with its config, tokenizer and onnx/model_quantized.onnx. ONNX Runtime's ${ORT_WASM_FILE} goes at the top of this folder. Leave empty to use ${this.plugin.getLocalModelFolder()}.`)
+                .addText(text => {
+                    const originalValue = this.plugin.settings.localModelFolder;
+                    text
+                        .setPlaceholder(`${this.plugin.manifest.dir ?? ''}/models`)
+                        .setValue(this.pendingSettings.localModelFolder)
+                        .onChange((value) => {
+                            this.pendingSettings.localModelFolder = value;
+                        });
+                    text.inputEl.addEventListener('blur', () => {
+                        if (this.pendingSettings.localModelFolder !== originalValue) {
+                            this.hasSensitiveChanges = true;
+                            this.display();
+                        }
+                    });
+                });
+        }
+
         // Save and Cancel buttons for sensitive settings
         const buttonContainer = containerEl.createDiv('setting-item');
         const buttonInfo = buttonContainer.createDiv('setting-item-info');
@@ -1316,6 +2123,12 @@ class TezcatSettingTab extends PluginSettingTab {
                     ).open();
                 }));
 
+        containerEl.createEl('hr', {
+            cls: 'tezcat-settings-divider'
+        });
+
+        this.displayEmbeddingSpaces(containerEl);
+
         // Horizontal divider
         const divider = containerEl.createEl('hr', {
             cls: 'tezcat-settings-divider'
@@ -1370,6 +2183,19 @@ class TezcatSettingTab extends PluginSettingTab {
                     logger.info('Settings', `Context window words updated to: ${contextWords}`);
                 }));
 
+        new Setting(containerEl)
+            .setName('Embedding cache size')
+            .setDesc(`Embeddings kept by text hash so unchanged blocks are never re-embedded. The least recently used are evicted beyond this many; 0 turns the cache off (default: ${DEFAULT_EMBEDDING_CACHE_LIMIT})`)
+            .addText(text => text
+                .setPlaceholder(DEFAULT_EMBEDDING_CACHE_LIMIT.toString())
+                .setValue(this.plugin.settings.embeddingCacheLimit.toString())
+                .onChange(async (value) => {
+                    const limit = parseInt(value);
+                    this.plugin.settings.embeddingCacheLimit = isNaN(limit) ? DEFAULT_EMBEDDING_CACHE_LIMIT : Math.max(0, limit);
+                    await this.plugin.saveSettings();
+                    logger.info('Settings', `Embedding cache size updated to: ${this.plugin.settings.embeddingCacheLimit}`);
+                }));
+
         // Highlight Block Setting (applies immediately)
         new Setting(containerEl)
             .setName('Highlight block on open')
@@ -1398,6 +2224,217 @@ class TezcatSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                     logger.setLevel(newLogLevel);
                 }));
+
+        containerEl.createEl('hr', {
+            cls: 'tezcat-settings-divider'
+        });
+
+        // Vector Index Settings Section
+        new Setting(containerEl).setHeading().setName('Vector index');
+
+        new Setting(containerEl)
+            .setName('Index type')
+            .setDesc('LSH is compact and fast to build. HNSW is more accurate and faster to query on large vaults, but slower to build. Linear scan compares every vector and needs no index.')
+            .addDropdown(dropdown => dropdown
+                .addOption(VectorIndexType.LSH, 'LSH')
+                .addOption(VectorIndexType.HNSW, 'HNSW')
+                .addOption(VectorIndexType.LINEAR, 'Linear scan')
+                .setValue(this.plugin.settings.vectorIndexType)
+                .onChange(async (value) => {
+                    this.plugin.settings.vectorIndexType = value as VectorIndexType;
+                    await this.plugin.saveSettings();
+                    await this.plugin.databaseAdapter.setVectorIndexType(this.plugin.settings.vectorIndexType);
+                    logger.info('Settings', `Vector index type updated to: ${value}`);
+                    // Build the newly selected index, or bring a previously built one up to date
+                    await this.plugin.ensureVectorIndexExists();
+                    this.display(); // Refresh to show the selected index's settings
+                }));
+
+        if (this.plugin.settings.vectorIndexType === VectorIndexType.HNSW) {
+            this.displayHNSWSettings(containerEl);
+        } else if (this.plugin.settings.vectorIndexType === VectorIndexType.LSH) {
+            this.displayLSHSettings(containerEl);
+        }
+    }
+
+    private displayHNSWSettings(containerEl: HTMLElement): void {
+        containerEl.createEl('p', {
+            text: 'Neighbours per node and build quality take effect the next time the vector index is rebuilt. Search quality applies to the next search.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Neighbours per node')
+            .setDesc('Links kept per graph node (M). More links raise recall but make the graph larger (default: 16)')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_HNSW_OPTIONS.m.toString())
+                .setValue(this.plugin.settings.hnswM.toString())
+                .onChange(async (value) => {
+                    this.plugin.settings.hnswM = Math.max(2, parseInt(value) || DEFAULT_HNSW_OPTIONS.m);
+                    await this.plugin.saveSettings();
+                    logger.info('Settings', `HNSW M updated to: ${this.plugin.settings.hnswM}`);
+                }));
+
+        new Setting(containerEl)
+            .setName('Build quality')
+            .setDesc('Candidates considered when linking a new vector (efConstruction). Higher builds a better graph, more slowly (default: 100)')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_HNSW_OPTIONS.efConstruction.toString())
+                .setValue(this.plugin.settings.hnswEfConstruction.toString())
+                .onChange(async (value) => {
+                    this.plugin.settings.hnswEfConstruction = Math.max(1, parseInt(value) || DEFAULT_HNSW_OPTIONS.efConstruction);
+                    await this.plugin.saveSettings();
+                    logger.info('Settings', `HNSW efConstruction updated to: ${this.plugin.settings.hnswEfConstruction}`);
+                }));
+
+        new Setting(containerEl)
+            .setName('Search quality')
+            .setDesc('Candidates explored per search (efSearch). Higher raises recall at the cost of latency (default: 64)')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_HNSW_OPTIONS.efSearch.toString())
+                .setValue(this.plugin.settings.hnswEfSearch.toString())
+                .onChange(async (value) => {
+                    this.plugin.settings.hnswEfSearch = Math.max(1, parseInt(value) || DEFAULT_HNSW_OPTIONS.efSearch);
+                    await this.plugin.saveSettings();
+                    logger.info('Settings', `HNSW efSearch updated to: ${this.plugin.settings.hnswEfSearch}`);
+                }));
+    }
+
+    private displayLSHSettings(containerEl: HTMLElement): void {
+        containerEl.createEl('p', {
+            text: 'Tables and hash bits take effect the next time the vector index is rebuilt. Probes and candidates apply to the next search.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Hash tables')
+            .setDesc('Number of independent LSH tables. More tables find more true neighbours but make the index larger (default: 8)')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_LSH_OPTIONS.numTables.toString())
+                .setValue(this.plugin.settings.lshNumTables.toString())
+                .onChange(async (value) => {
+                    this.plugin.settings.lshNumTables = Math.max(1, parseInt(value) || DEFAULT_LSH_OPTIONS.numTables);
+                    await this.plugin.saveSettings();
+                    logger.info('Settings', `LSH tables updated to: ${this.plugin.settings.lshNumTables}`);
+                }));
+
+        new Setting(containerEl)
+            .setName('Hash bits per table')
+            .setDesc('Hyperplanes per table. Fewer bits give larger buckets and higher recall but slower searches. 0 sizes tables from the vault (default: 0)')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(this.plugin.settings.lshBitsPerTable.toString())
+                .onChange(async (value) => {
+                    this.plugin.settings.lshBitsPerTable = Math.max(0, parseInt(value) || 0);
+                    await this.plugin.saveSettings();
+                    logger.info('Settings', `LSH bits per table updated to: ${this.plugin.settings.lshBitsPerTable}`);
+                }));
+
+        new Setting(containerEl)
+            .setName('Probes per table')
+            .setDesc('Neighbouring buckets checked in each table per search. Raises recall without rebuilding the index (default: 8)')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_LSH_OPTIONS.probesPerTable.toString())
+                .setValue(this.plugin.settings.lshProbesPerTable.toString())
+                .onChange(async (value) => {
+                    this.plugin.settings.lshProbesPerTable = Math.max(1, parseInt(value) || DEFAULT_LSH_OPTIONS.probesPerTable);
+                    await this.plugin.saveSettings();
+                    logger.info('Settings', `LSH probes per table updated to: ${this.plugin.settings.lshProbesPerTable}`);
+                }));
+
+        new Setting(containerEl)
+            .setName('Candidates per result')
+            .setDesc('How many index candidates are re-ranked by exact similarity for each result shown (default: 10)')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_LSH_OPTIONS.candidateMultiplier.toString())
+                .setValue(this.plugin.settings.lshCandidateMultiplier.toString())
+                .onChange(async (value) => {
+                    this.plugin.settings.lshCandidateMultiplier = Math.max(1, parseInt(value) || DEFAULT_LSH_OPTIONS.candidateMultiplier);
+                    await this.plugin.saveSettings();
+                    logger.info('Settings', `LSH candidate multiplier updated to: ${this.plugin.settings.lshCandidateMultiplier}`);
+                }));
+    }
+
+    /**
+     * Extra embedding spaces, kept next to the default one. Adding or removing a space
+     * applies immediately and leaves the other spaces' vectors untouched.
+     */
+    private displayEmbeddingSpaces(containerEl: HTMLElement): void {
+        new Setting(containerEl).setHeading().setName('Embedding spaces');
+        containerEl.createEl('p', {
+            text: 'Keep vectors from other models next to the default ones to compare them without reindexing. Each space is embedded and indexed separately.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Live search space')
+            .setDesc('The space the sidebar searches as you write')
+            .addDropdown(dropdown => {
+                for (const space of this.plugin.getEmbeddingSpaces()) {
+                    dropdown.addOption(space.id, space.name);
+                }
+                dropdown
+                    .setValue(this.plugin.getLiveSearchSpace())
+                    .onChange(async (value) => {
+                        this.plugin.settings.liveSearchSpace = value;
+                        await this.plugin.saveSettings();
+                        logger.info('Settings', `Live search space updated to: ${value}`);
+                    });
+            });
+
+        for (const space of this.plugin.settings.embeddingSpaces) {
+            new Setting(containerEl)
+                .setName(space.name)
+                .setDesc(`${space.provider} · ${space.model} · ${space.vectorSize} dimensions`)
+                .addButton(button => button
+                    .setButtonText('Remove')
+                    .setClass('mod-warning')
+                    .onClick(async () => {
+                        await this.plugin.removeEmbeddingSpace(space.id);
+                        this.display();
+                    }));
+        }
+
+        const draft = { name: '', provider: 'ollama' as EmbeddingProviderType, model: '', vectorSize: 1024 };
+        new Setting(containerEl)
+            .setName('Add space')
+            .setDesc('Name, provider, model and vector size of the new space. The vault is embedded into it right away.')
+            .addText(text => text
+                .setPlaceholder('Name')
+                .onChange((value) => {
+                    draft.name = value.trim();
+                }))
+            .addDropdown(dropdown => dropdown
+                .addOption('ollama', 'Ollama')
+                .addOption('openai', 'OpenAI')
+                .addOption('transformers', 'Local (transformers.js)')
+                .addOption('openai-compatible', 'OpenAI-compatible endpoint')
+                .setValue(draft.provider)
+                .onChange((value: EmbeddingProviderType) => {
+                    draft.provider = value;
+                }))
+            .addText(text => text
+                .setPlaceholder('Model, e.g. bge-m3')
+                .onChange((value) => {
+                    draft.model = value.trim();
+                }))
+            .addText(text => text
+                .setPlaceholder('1024')
+                .onChange((value) => {
+                    draft.vectorSize = parseInt(value) || 1024;
+                }))
+            .addButton(button => button
+                .setButtonText('Add')
+                .onClick(async () => {
+                    if (!draft.name || !draft.model) {
+                        new Notice('Enter a name and a model for the new space.');
+                        return;
+                    }
+                    const id = spaceIdFromName(draft.name, this.plugin.settings.embeddingSpaces.map(space => space.id));
+                    const adding = this.plugin.addEmbeddingSpace({ id, ...draft });
+                    this.display();
+                    await adding;
+                }));
     }
 
     private createEmbeddingProvider(): EmbeddingProvider {
@@ -1423,6 +2460,10 @@ class TezcatSettingTab extends PluginSettingTab {
                     'https://api.openai.com',
                     logger
                 );
+            case 'transformers':
+                return this.plugin.createTransformersProvider(this.plugin.settings.embeddingModel);
+            case 'openai-compatible':
+                return this.plugin.createCompatibleProvider(this.plugin.settings.embeddingModel, this.plugin.settings.vectorSize);
             default:
                 throw new Error(`Unknown embedding provider: ${this.plugin.settings.embeddingProvider}`);
         }
@@ -1439,14 +2480,8 @@ class TezcatSettingTab extends PluginSettingTab {
             this.plugin.settings.chunkSize, 
             this.plugin.settings.chunkOverlap, 
             this.plugin, 
-            logger
-        );
-        
-        // Recreate search service to use the new embedding service
-        this.plugin.searchService = new SearchService(
-            this.plugin.databaseService, 
-            this.plugin.embeddingService, 
-            logger
+            logger,
+            this.plugin.settings.chunkingStrategy
         );
         
         // Clear any cached validation results to force fresh validation
@@ -1488,7 +2523,12 @@ class TezcatSettingTab extends PluginSettingTab {
             this.plugin.settings.embeddingModel !== this.pendingSettings.embeddingModel ||
             this.plugin.settings.vectorSize !== this.pendingSettings.vectorSize ||
             this.plugin.settings.chunkSize !== this.pendingSettings.chunkSize ||
-            this.plugin.settings.chunkOverlap !== this.pendingSettings.chunkOverlap
+            this.plugin.settings.chunkOverlap !== this.pendingSettings.chunkOverlap ||
+            this.plugin.settings.chunkingStrategy !== this.pendingSettings.chunkingStrategy ||
+            this.plugin.settings.blockContextPrefix !== this.pendingSettings.blockContextPrefix ||
+            [...this.plugin.settings.indexedBlockTypes].sort().join() !== [...this.pendingSettings.indexedBlockTypes].sort().join() ||
+            this.plugin.settings.indexCanvasFiles !== this.pendingSettings.indexCanvasFiles ||
+            this.plugin.settings.indexPdfFiles !== this.pendingSettings.indexPdfFiles
         );
     }
 
@@ -1515,6 +2555,7 @@ class TezcatSettingTab extends PluginSettingTab {
             // Validate provider before destructive operations
             new Notice('Validating embedding provider...');
             await this.validateCurrentProvider();
+            await this.plugin.adoptDetectedVectorSize();
             
             new Notice('Configuration validated. Rebuilding vector database...');
             logger.info('Plugin', 'Beginning vector database rebuild');
@@ -1541,7 +2582,7 @@ class TezcatSettingTab extends PluginSettingTab {
             let errorMessage = 'Reindexing failed: ';
             if (error.message.includes('Ollama')) {
                 errorMessage += error.message;
-            } else if (error.message.includes('OpenAI')) {
+            } else if (error.message.includes('OpenAI') || error.message.includes('Embedding endpoint')) {
                 errorMessage += error.message;
             } else {
                 errorMessage += 'Unknown error occurred. Check console for details.';
@@ -1631,11 +2672,85 @@ class ReindexConfirmModal extends Modal {
     }
 }
 
+class StaleVectorsModal extends Modal {
+    private stale: { mismatched: number; unknown: number; notes: number };
+    private onReembed: () => void;
+    private onAdopt: () => void;
+
+    constructor(app: App, stale: { mismatched: number; unknown: number; notes: number }, onReembed: () => void, onAdopt: () => void) {
+        super(app);
+        this.stale = stale;
+        this.onReembed = onReembed;
+        this.onAdopt = onAdopt;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        new Setting(contentEl).setHeading().setName('Embeddings from another model');
+
+        contentEl.createEl('p', {
+            text: `${this.stale.notes} notes have embeddings that were not made by the current embedding model. They are left out of search until they are re-embedded.`
+        });
+
+        const list = contentEl.createEl('ul');
+        if (this.stale.mismatched > 0) {
+            list.createEl('li', { text: `${this.stale.mismatched} embeddings were made by a different provider, model or vector size` });
+        }
+        if (this.stale.unknown > 0) {
+            list.createEl('li', { text: `${this.stale.unknown} embeddings were made before Tezcat recorded which model was used` });
+        }
+
+        contentEl.createEl('p', {
+            text: 'Re-embedding only processes these notes; the rest of the database is kept.',
+            cls: 'setting-item-description'
+        });
+
+        const buttonContainer = contentEl.createDiv('tezcat-button-container');
+
+        const reembedButton = buttonContainer.createEl('button', {
+            text: 'Re-embed these notes',
+            cls: 'mod-cta'
+        });
+        reembedButton.onclick = () => {
+            this.close();
+            this.onReembed();
+        };
+
+        // Only vectors of unknown origin can be claimed; ones known to be from another model never match
+        if (this.stale.unknown > 0) {
+            const adoptButton = buttonContainer.createEl('button', {
+                text: 'They are from the current model'
+            });
+            adoptButton.onclick = () => {
+                this.close();
+                this.onAdopt();
+            };
+        }
+
+        const laterButton = buttonContainer.createEl('button', {
+            text: 'Not now'
+        });
+        laterButton.onclick = () => {
+            this.close();
+        };
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
 class VectorSearchModal extends Modal {
-    private onSubmit: (query: string) => void;
+    private spaces: EmbeddingSpaceConfig[];
+    private onSubmit: (query: string, space: string) => void;
+    private space: string = DEFAULT_SPACE_ID;
 
-    constructor(app: App, onSubmit: (query: string) => void) {
+    constructor(app: App, spaces: EmbeddingSpaceConfig[], onSubmit: (query: string, space: string) => void) {
         super(app);
+        this.spaces = spaces;
         this.onSubmit = onSubmit;
     }
 
@@ -1645,6 +2760,23 @@ class VectorSearchModal extends Modal {
 
         new Setting(contentEl).setHeading().setName('Vector search');
 
+        // Scores from different models aren't comparable, so searching all spaces fuses their rankings
+        if (this.spaces.length > 1) {
+            new Setting(contentEl)
+                .setName('Embedding space')
+                .addDropdown(dropdown => {
+                    for (const space of this.spaces) {
+                        dropdown.addOption(space.id, `${space.name} (${space.model})`);
+                    }
+                    dropdown
+                        .addOption(ALL_SPACES, 'All spaces (fused)')
+                        .setValue(this.space)
+                        .onChange(value => {
+                            this.space = value;
+                        });
+                });
+        }
+
         const inputContainer = contentEl.createDiv('tezcat-modal-input-container');
         const input = inputContainer.createEl('input', {
             type: 'text',
@@ -1662,7 +2794,7 @@ class VectorSearchModal extends Modal {
             const query = input.value.trim();
             if (query) {
                 this.close();
-                this.onSubmit(query);
+                this.onSubmit(query, this.space);
             }
         };
 
@@ -1841,7 +2973,7 @@ class VectorSearchResultsModal extends Modal {
             if (result.type === 'chunk') {
                 // For chunks: show chunk text first, then note info below
                 const textEl = resultEl.createDiv('tezcat-search-result-text');
-                textEl.textContent = result.text.length > 200 ? result.text.substring(0, 200) + '...' : result.text;
+                renderResultText(textEl, result, 200);
 
                 // Note info with score and type
                 const headerEl = resultEl.createDiv('tezcat-search-result-header');
@@ -1887,13 +3019,23 @@ class VectorSearchResultsModal extends Modal {
 
                 // Text content (note path and name)
                 const textEl = resultEl.createDiv('tezcat-search-result-text');
-                textEl.textContent = result.text.length > 200 ? result.text.substring(0, 200) + '...' : result.text;
+                renderResultText(textEl, result, 200);
             }
 
-            // Click to open note
-            resultEl.onclick = () => {
+            // Click to open note, at the passage for chunk and block results
+            resultEl.onclick = async () => {
                 this.close();
-                this.app.workspace.openLinkText(result.notePath, '', false);
+                if (await openAtLocation(this.app, result)) return;
+                await this.app.workspace.openLinkText(result.notePath, '', false);
+                const start = result.blockStartPosition;
+                if (!start) return;
+                window.setTimeout(() => {
+                    const editor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+                    if (!editor) return;
+                    const position = { line: start.line, ch: start.col };
+                    editor.setCursor(position);
+                    editor.scrollIntoView({ from: position, to: position }, true);
+                }, 100);
             };
 
             // Hover effects are handled by CSS
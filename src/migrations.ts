@@ -0,0 +1,164 @@
+import { DatabaseAdapter } from './database_service';
+import { DEFAULT_SPACE_ID, spaceTableName } from './embedding_space';
+import { FTS_COLUMNS, FTS_UNINDEXED_COLUMNS } from './fts_ranking';
+
+// The slice of the database adapter a migration runs against
+export type MigrationStore = Pick<DatabaseAdapter, 'execute' | 'query' | 'get'>;
+
+export interface Migration {
+    version: number;
+    description: string;
+    up(store: MigrationStore): Promise<void>;
+}
+
+// Schema of plugin 1.1.0, the last release before schema_version existed.
+// Databases with tables but no schema_version are assumed to be at this version.
+export const BASELINE_SCHEMA_VERSION = 1;
+
+/**
+ * Ordered schema changes. Never edit a released migration; add a new one instead,
+ * and keep the adapter's create*Table methods in step so fresh databases get the latest schema.
+ */
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 2,
+        description: 'Replace the single-table LSH index with a multi-table one',
+        async up(store) {
+            // The new layout is rebuilt from the vectors table, so the old index is simply dropped
+            const columns = await store.query('PRAGMA table_info(lsh_buckets)');
+            if (columns.length === 0 || columns.some(column => column.name === 'table_index')) return;
+
+            await store.execute('DROP TABLE IF EXISTS lsh_buckets');
+            await store.execute('DROP TABLE IF EXISTS lsh_hash_functions');
+            await store.execute('DROP TABLE IF EXISTS lsh_configs');
+        }
+    },
+    {
+        version: 3,
+        description: 'Move full-text search from FTS3 to FTS4 for BM25 ranking',
+        async up(store) {
+            const existing = await store.get("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'fts_content'");
+            if (!existing || !/using\s+fts3\b/i.test(existing.sql as string)) return;
+
+            await store.execute('ALTER TABLE fts_content RENAME TO fts_content_fts3');
+            const unindexed = FTS_UNINDEXED_COLUMNS.map(column => `notindexed=${column}`).join(', ');
+            await store.execute(`
+                CREATE VIRTUAL TABLE fts_content USING fts4(
+                    ${FTS_COLUMNS.join(', ')},
+                    ${unindexed},
+                    tokenize=unicode61
+                )
+            `);
+            const columns = FTS_COLUMNS.join(', ');
+            await store.execute(`INSERT INTO fts_content (${columns}) SELECT ${columns} FROM fts_content_fts3`);
+            await store.execute('DROP TABLE fts_content_fts3');
+        }
+    },
+    {
+        version: 4,
+        description: 'Stamp vectors with the fingerprint of the embedding model that produced them',
+        async up(store) {
+            const columns = await store.query('PRAGMA table_info(vectors)');
+            if (columns.length === 0 || columns.some(column => column.name === 'model')) return;
+
+            // Existing vectors keep a NULL model: nothing recorded which model made them
+            await store.execute('ALTER TABLE vectors ADD COLUMN model TEXT');
+            await store.execute('CREATE INDEX IF NOT EXISTS idx_vectors_model ON vectors(model)');
+        }
+    },
+    {
+        version: 5,
+        description: 'Group vectors into named embedding spaces',
+        async up(store) {
+            const columns = await store.query('PRAGMA table_info(vectors)');
+            if (columns.length === 0 || columns.some(column => column.name === 'space')) return;
+
+            // Every existing vector belongs to the default space, whose index tables keep their names
+            await store.execute(`ALTER TABLE vectors ADD COLUMN space TEXT NOT NULL DEFAULT '${DEFAULT_SPACE_ID}'`);
+            await store.execute('CREATE INDEX IF NOT EXISTS idx_vectors_space ON vectors(space)');
+        }
+    },
+    {
+        version: 6,
+        description: 'Record the block and position of each chunk',
+        async up(store) {
+            const columns = await store.query('PRAGMA table_info(chunks)');
+            if (columns.length === 0 || columns.some(column => column.name === 'block_id')) return;
+
+            // Existing chunks split whole notes; their positions were never recorded
+            await store.execute('ALTER TABLE chunks ADD COLUMN block_id TEXT');
+            await store.execute('ALTER TABLE chunks ADD COLUMN start_position TEXT');
+            await store.execute('ALTER TABLE chunks ADD COLUMN end_position TEXT');
+            await store.execute('CREATE INDEX IF NOT EXISTS idx_chunks_block_id ON chunks(block_id)');
+        }
+    },
+    {
+        version: 7,
+        description: 'Record the heading path of each block',
+        async up(store) {
+            const columns = await store.query('PRAGMA table_info(blocks)');
+            if (columns.length === 0 || columns.some(column => column.name === 'heading_path')) return;
+
+            // Existing blocks get their path the next time their note is indexed
+            await store.execute('ALTER TABLE blocks ADD COLUMN heading_path TEXT');
+        }
+    },
+    {
+        version: 8,
+        description: 'Record the page or canvas node of blocks from PDFs and canvases',
+        async up(store) {
+            const columns = await store.query('PRAGMA table_info(blocks)');
+            if (columns.length === 0 || columns.some(column => column.name === 'location')) return;
+
+            // Only Markdown was indexed before, so existing blocks have no location
+            await store.execute('ALTER TABLE blocks ADD COLUMN location TEXT');
+        }
+    },
+    {
+        version: 9,
+        description: 'Index the LSH tables of every embedding space',
+        async up(store) {
+            // The index names used to be shared, so only the first space's LSH tables got them
+            const lshIndexes = [
+                { table: 'lsh_hash_functions', index: 'idx_lsh_hash_functions_config_id', columns: 'config_id' },
+                { table: 'lsh_buckets', index: 'idx_lsh_buckets_config_table_hash', columns: 'config_id, table_index, bucket_hash' }
+            ];
+            for (const { table, index, columns } of lshIndexes) {
+                // An extra space added before the default space's tables existed took the default name
+                const existing = await store.get("SELECT tbl_name FROM sqlite_master WHERE type = 'index' AND name = ?", [index]);
+                if (existing && existing.tbl_name !== table) {
+                    await store.execute(`DROP INDEX ${index}`);
+                }
+
+                const tables = await store.query(
+                    "SELECT name FROM sqlite_master WHERE type = 'table' AND (name = ? OR name GLOB ?)",
+                    [table, `${table}__*`]
+                );
+                for (const { name } of tables) {
+                    const space = name === table ? DEFAULT_SPACE_ID : (name as string).substring(table.length + 2);
+                    await store.execute(`CREATE INDEX IF NOT EXISTS ${spaceTableName(index, space)} ON ${name}(${columns})`);
+                }
+            }
+        }
+    },
+    {
+        version: 10,
+        description: 'Record whether each LSH index was sized from the vector count',
+        async up(store) {
+            const tables = await store.query(
+                "SELECT name FROM sqlite_master WHERE type = 'table' AND (name = 'lsh_configs' OR name GLOB 'lsh_configs__*')"
+            );
+            for (const { name } of tables) {
+                const columns = await store.query(`PRAGMA table_info(${name})`);
+                if (columns.some(column => column.name === 'auto_sized')) continue;
+
+                // How existing indexes were sized wasn't recorded, so they are left alone until rebuilt
+                await store.execute(`ALTER TABLE ${name} ADD COLUMN auto_sized INTEGER NOT NULL DEFAULT 0`);
+            }
+        }
+    }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.length > 0
+    ? MIGRATIONS[MIGRATIONS.length - 1].version
+    : BASELINE_SCHEMA_VERSION;
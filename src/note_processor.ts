@@ -1,5 +1,5 @@
 
-import { randomUUID } from 'crypto';
+import type { CanvasData, CanvasGroupData, CanvasNodeData, CanvasTextData } from 'obsidian/canvas';
 
 export enum BlockType {
     PARAGRAPH = 'paragraph',  // Regular text blocks
@@ -24,20 +24,175 @@ export interface Position {
     offset: number
 }
 
+// Where a block from a non-Markdown file is opened: a PDF page, or a canvas node
+export interface BlockLocation {
+    page?: number  // 1-based, as in `file.pdf#page=3`
+    canvasNodeId?: string
+}
+
 export interface Block {
     id: string
     type: BlockType
     content: string
     obsidian_id: string | null
-    start_position: Position
+    start_position: Position  // In the note's text; for PDFs and canvases, the text extracted from them
     end_position: Position
+    heading_path?: string[]  // Text of the headings the block sits under, outermost first
+    location?: BlockLocation
+}
+
+// A non-Markdown file as indexable text, with a block per node or page
+export interface ExtractedFile {
+    content: string
+    blocks: Block[]
+}
+
+// One value of a frontmatter property; list properties have a row per item
+export interface NoteProperty {
+    key: string  // Property name, lower-cased as Obsidian treats names case-insensitively
+    value: string
+    date: string | null  // ISO date or date-time when the value is one, for range filters
+}
+
+// Obsidian's legacy singular property names
+const PROPERTY_ALIASES: Record<string, string> = { tag: 'tags', alias: 'aliases', cssclass: 'cssclasses' };
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Level and text of a heading section, ATX (`## Risks`) or setext (`Risks` underlined with `---`)
+ */
+export function parseHeading(content: string): { level: number; text: string } | null {
+    const atx = content.match(/^\s{0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/);
+    if (atx) {
+        return { level: atx[1].length, text: (atx[2] ?? '').trim() };
+    }
+    const setext = content.match(/^([^\n]+)\n\s{0,3}(=+|-+)\s*$/);
+    if (setext) {
+        return { level: setext[2].startsWith('=') ? 1 : 2, text: setext[1].trim() };
+    }
+    return null;
+}
+
+/**
+ * Text a block is embedded as when context prefixes are on: the note title and heading
+ * breadcrumb on the first line, then the block itself
+ */
+export function withHeadingContext(content: string, noteTitle: string, headingPath: string[] = []): string {
+    return `${[noteTitle, ...headingPath].join(' > ')}\n\n${content}`;
+}
+
+/**
+ * Line, column and offset of a character offset in a note's text
+ */
+export function positionAt(text: string, offset: number): Position {
+    const before = text.substring(0, offset);
+    const lineStart = before.lastIndexOf('\n') + 1;
+    return {
+        line: before.split('\n').length - 1,
+        col: offset - lineStart,
+        offset
+    };
 }
 
 
 export class NoteProcessor {
 
+    /**
+     * Frontmatter properties of a note, one entry per value. Tags also include the note's inline
+     * tags, without their `#`, since both tag the note as a whole.
+     */
+    getPropertiesFromFile(metadata: any): NoteProperty[] {
+        const properties: NoteProperty[] = [];
+        const seen = new Set<string>();
+        const add = (key: string, value: string) => {
+            const entry = `${key}\u0000${value}`;
+            if (!value || seen.has(entry)) return;
+            seen.add(entry);
+            properties.push({ key, value, date: ISO_DATE.test(value) ? value.replace(' ', 'T') : null });
+        };
+
+        for (const [name, raw] of Object.entries(metadata?.frontmatter ?? {})) {
+            const key = PROPERTY_ALIASES[name.toLowerCase()] ?? name.toLowerCase();
+            if (key === 'position') continue; // Added by Obsidian's parser, not written by the user
+            // Tags and aliases may also be written as one comma-separated string
+            const values = Array.isArray(raw) ? raw
+                : typeof raw === 'string' && (key === 'tags' || key === 'aliases') ? raw.split(',')
+                : [raw];
+            for (const value of values) {
+                if (value === null || value === undefined) continue;
+                const text = typeof value === 'object' ? JSON.stringify(value) : String(value).trim();
+                add(key, key === 'tags' ? text.replace(/^#/, '') : text);
+            }
+        }
+
+        for (const tag of metadata?.tags ?? []) {
+            add('tags', String(tag.tag).replace(/^#/, ''));
+        }
+
+        return properties;
+    }
+
+    /**
+     * A block per text node of a canvas, in reading order (top to bottom, then left to right).
+     * Nodes inside labelled groups get the group labels as their heading path.
+     */
+    getBlocksFromCanvas(canvas: CanvasData): ExtractedFile {
+        const nodes = canvas.nodes ?? [];
+        const groups = nodes.filter((node): node is CanvasGroupData => node.type === 'group' && !!node.label);
+        const textNodes = nodes
+            .filter((node): node is CanvasTextData => node.type === 'text' && typeof node.text === 'string' && node.text.trim().length > 0)
+            .sort((a, b) => a.y - b.y || a.x - b.x);
+
+        const contains = (group: CanvasNodeData, node: CanvasNodeData) =>
+            node.x >= group.x && node.y >= group.y &&
+            node.x + node.width <= group.x + group.width && node.y + node.height <= group.y + group.height;
+
+        return this.joinBlocks(textNodes.map(node => ({
+            content: node.text.trim(),
+            heading_path: groups
+                .filter(group => contains(group, node))
+                .sort((a, b) => b.width * b.height - a.width * a.height)
+                .map(group => group.label!),
+            location: { canvasNodeId: node.id }
+        })));
+    }
+
+    /**
+     * A block per page of a PDF that has text; `pages` holds each page's text in page order
+     */
+    getBlocksFromPdfPages(pages: string[]): ExtractedFile {
+        return this.joinBlocks(pages
+            .map((text, i) => ({ content: text.trim(), heading_path: [], location: { page: i + 1 } }))
+            .filter(page => page.content.length > 0));
+    }
+
+    /**
+     * Lay extracted pieces out as one text, a blank line apart, with each block's position in it
+     */
+    private joinBlocks(pieces: Pick<Block, 'content' | 'heading_path' | 'location'>[]): ExtractedFile {
+        const content = pieces.map(piece => piece.content).join('\n\n');
+        let offset = 0;
+        const blocks = pieces.map(piece => {
+            const start = offset;
+            offset += piece.content.length + 2;
+            return {
+                id: crypto.randomUUID(),
+                type: BlockType.PARAGRAPH,
+                content: piece.content,
+                obsidian_id: null,
+                start_position: positionAt(content, start),
+                end_position: positionAt(content, start + piece.content.length),
+                heading_path: piece.heading_path,
+                location: piece.location
+            };
+        });
+        return { content, blocks };
+    }
+
     async getBlocksFromFile(content: string, metadata: any): Promise<Block[]> {
         const blocks: Block[] = [];
+        // Headings above the current section, outermost first
+        const headings: { level: number; text: string }[] = [];
         
         if (metadata?.sections) {
             for (const section of metadata.sections) {
@@ -61,16 +216,30 @@ export class NoteProcessor {
                     offset: section.position.end.offset
                 }
                 
+                // A heading closes every heading at its level or deeper; it sits under the ones that remain
+                const heading = section.type === BlockType.HEADING ? parseHeading(blockContent) : null;
+                if (heading) {
+                    while (headings.length > 0 && headings[headings.length - 1].level >= heading.level) {
+                        headings.pop();
+                    }
+                }
+                const heading_path = headings.map(parent => parent.text);
+                if (heading) {
+                    headings.push(heading);
+                }
+
                 // Generate block id
-                const blockId = randomUUID();
+                const blockId = crypto.randomUUID();
 
                 const block: Block = {
                     id: blockId,
-                    type: section.type as BlockType,  // cast to BlockType
+                    // Obsidian names footnote sections after the Markdown syntax tree node
+                    type: section.type === 'footnoteDefinition' ? BlockType.FOOTNOTE : section.type as BlockType,
                     content: blockContent,
                     obsidian_id: obsidianId,
                     start_position: start_position,
-                    end_position: end_position
+                    end_position: end_position,
+                    heading_path: heading_path
                 }
             
                 blocks.push(block);
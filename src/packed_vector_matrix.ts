@@ -0,0 +1,260 @@
+import { VectorType } from './database_service';
+
+export type PackedVectorRow = {
+    id: string;
+    noteId: string;
+    type: VectorType;
+    model?: string; // Embedding model fingerprint, if the vector was stamped with one
+};
+
+export type PackedVectorMatch = {
+    row: PackedVectorRow;
+    score: number; // Dot product of the quantized vectors, scaled to roughly [-1, 1]
+};
+
+/*
+ * WebAssembly SIMD kernel writing the int8 dot product of a query against `rows`
+ * consecutive rows of `stride` bytes (a multiple of 16) as int32s at `out`:
+ *
+ * (module
+ *   (import "env" "memory" (memory 1))
+ *   (func (export "dotRows") (param $query i32) (param $data i32) (param $rows i32) (param $stride i32) (param $out i32)
+ *     (local $row i32) (local $j i32) (local $rowPtr i32) (local $acc v128) (local $q v128) (local $d v128)
+ *     (local.set $rowPtr (local.get $data))
+ *     (block $done
+ *       (loop $rowLoop
+ *         (br_if $done (i32.ge_u (local.get $row) (local.get $rows)))
+ *         (local.set $acc (v128.const i32x4 0 0 0 0))
+ *         (local.set $j (i32.const 0))
+ *         (block $dimDone
+ *           (loop $dimLoop
+ *             (br_if $dimDone (i32.ge_u (local.get $j) (local.get $stride)))
+ *             (local.set $q (v128.load (i32.add (local.get $query) (local.get $j))))
+ *             (local.set $d (v128.load (i32.add (local.get $rowPtr) (local.get $j))))
+ *             (local.set $acc (i32x4.add (local.get $acc)
+ *               (i32x4.dot_i16x8_s (i16x8.extend_low_i8x16_s (local.get $q)) (i16x8.extend_low_i8x16_s (local.get $d)))))
+ *             (local.set $acc (i32x4.add (local.get $acc)
+ *               (i32x4.dot_i16x8_s (i16x8.extend_high_i8x16_s (local.get $q)) (i16x8.extend_high_i8x16_s (local.get $d)))))
+ *             (local.set $j (i32.add (local.get $j) (i32.const 16)))
+ *             (br $dimLoop)))
+ *         (i32.store (i32.add (local.get $out) (i32.shl (local.get $row) (i32.const 2)))
+ *           (i32.add
+ *             (i32.add (i32x4.extract_lane 0 (local.get $acc)) (i32x4.extract_lane 1 (local.get $acc)))
+ *             (i32.add (i32x4.extract_lane 2 (local.get $acc)) (i32x4.extract_lane 3 (local.get $acc)))))
+ *         (local.set $rowPtr (i32.add (local.get $rowPtr) (local.get $stride)))
+ *         (local.set $row (i32.add (local.get $row) (i32.const 1)))
+ *         (br $rowLoop)))))
+ */
+const DOT_ROWS_WASM = 'AGFzbQEAAAABCQFgBX9/f39/AAIPAQNlbnYGbWVtb3J5AgABAwIBAAcLAQdkb3RSb3dzAAAKuAEBtQECA38DeyABIQcCQANAIAUgAk8NAf0MAAAAAAAAAAAAAAAAAAAAACEIQQAhBgJAA0AgBiADTw0BIAAgBmr9AAQAIQkgByAGav0ABAAhCiAIIAn9hwEgCv2HAf26Af2uASEIIAggCf2IASAK/YgB/boB/a4BIQggBkEQaiEGDAALCyAEIAVBAnRqIAj9GwAgCP0bAWogCP0bAiAI/RsDamo2AgAgByADaiEHIAVBAWohBQwACwsL';
+
+const WASM_PAGE_SIZE = 65536;
+
+type DotRowsKernel = (query: number, data: number, rows: number, stride: number, out: number) => void;
+
+// processVector quantizes unit vectors to [-127, 127], so a dot product of 127² means identical
+const QUANTIZED_UNIT_DOT = 127 * 127;
+
+let dotRowsModule: WebAssembly.Module | null | undefined;
+
+function getDotRowsModule(): WebAssembly.Module | null {
+    if (dotRowsModule === undefined) {
+        try {
+            const bytes = Uint8Array.from(atob(DOT_ROWS_WASM), char => char.charCodeAt(0));
+            dotRowsModule = WebAssembly.validate(bytes) ? new WebAssembly.Module(bytes) : null;
+        } catch (error) {
+            dotRowsModule = null;
+        }
+    }
+    return dotRowsModule;
+}
+
+/**
+ * All vectors of one dimensionality packed row by row into a single Int8Array,
+ * so a brute-force scan touches contiguous memory and allocates nothing per row.
+ * Rows are padded to 16 bytes for the SIMD kernel; without SIMD support an
+ * unrolled JavaScript loop computes the same dot products.
+ */
+export class PackedVectorMatrix {
+    readonly dimensions: number;
+    readonly usesSimd: boolean;
+    private stride: number;
+    private capacity = 0;
+    private memory: WebAssembly.Memory;
+    private dotRows: DotRowsKernel | null = null;
+    private data = new Int8Array(0);
+    private rows: PackedVectorRow[] = [];
+    private rowById = new Map<string, number>();
+
+    constructor(dimensions: number, options: { initialCapacity?: number; useSimd?: boolean } = {}) {
+        const { initialCapacity = 1024, useSimd = true } = options;
+        this.dimensions = dimensions;
+        this.stride = Math.ceil(dimensions / 16) * 16;
+        this.memory = new WebAssembly.Memory({ initial: 1 });
+
+        const module = useSimd ? getDotRowsModule() : null;
+        if (module) {
+            const instance = new WebAssembly.Instance(module, { env: { memory: this.memory } });
+            this.dotRows = instance.exports.dotRows as DotRowsKernel;
+        }
+        this.usesSimd = this.dotRows !== null;
+
+        this.ensureCapacity(initialCapacity);
+    }
+
+    get size(): number {
+        return this.rows.length;
+    }
+
+    has(id: string): boolean {
+        return this.rowById.has(id);
+    }
+
+    /**
+     * Add a vector, or overwrite it in place if the id is already present
+     */
+    upsert(row: PackedVectorRow, vector: Int8Array): void {
+        if (vector.length !== this.dimensions) {
+            throw new Error(`Input vector has ${vector.length} dimensions, expected ${this.dimensions}`);
+        }
+
+        let index = this.rowById.get(row.id);
+        if (index === undefined) {
+            index = this.rows.length;
+            this.ensureCapacity(index + 1);
+            this.rows.push(row);
+            this.rowById.set(row.id, index);
+        } else {
+            this.rows[index] = row;
+        }
+
+        // Layout: [query][row 0][row 1]...; padding must be zero since grown rows reuse score memory
+        const offset = this.stride * (index + 1);
+        this.data.set(vector, offset);
+        this.data.fill(0, offset + this.dimensions, offset + this.stride);
+    }
+
+    /**
+     * Remove a vector by moving the last row into its slot
+     */
+    remove(id: string): boolean {
+        const index = this.rowById.get(id);
+        if (index === undefined) return false;
+
+        const lastIndex = this.rows.length - 1;
+        if (index !== lastIndex) {
+            const lastRow = this.rows[lastIndex];
+            const lastOffset = this.stride * (lastIndex + 1);
+            this.data.copyWithin(this.stride * (index + 1), lastOffset, lastOffset + this.stride);
+            this.rows[index] = lastRow;
+            this.rowById.set(lastRow.id, index);
+        }
+
+        this.data.fill(0, this.stride * (lastIndex + 1), this.stride * (lastIndex + 2));
+        this.rows.pop();
+        this.rowById.delete(id);
+        return true;
+    }
+
+    /**
+     * The k rows with the highest dot product against the query, best first
+     */
+    search(query: Int8Array, k: number, predicate?: (row: PackedVectorRow) => boolean): PackedVectorMatch[] {
+        if (query.length !== this.dimensions) {
+            throw new Error(`Input vector has ${query.length} dimensions, expected ${this.dimensions}`);
+        }
+        if (k <= 0 || this.rows.length === 0) return [];
+
+        const scores = this.computeScores(query);
+
+        // Bounded min-heap: the root is the weakest of the best k seen so far
+        const heapRows = new Int32Array(k);
+        const heapScores = new Int32Array(k);
+        let heapSize = 0;
+
+        for (let row = 0; row < scores.length; row++) {
+            const score = scores[row];
+            if (heapSize === k && score <= heapScores[0]) continue;
+            if (predicate && !predicate(this.rows[row])) continue;
+
+            if (heapSize < k) {
+                // Sift up
+                let i = heapSize++;
+                while (i > 0) {
+                    const parent = (i - 1) >> 1;
+                    if (heapScores[parent] <= score) break;
+                    heapScores[i] = heapScores[parent];
+                    heapRows[i] = heapRows[parent];
+                    i = parent;
+                }
+                heapScores[i] = score;
+                heapRows[i] = row;
+            } else {
+                // Replace the root and sift down
+                let i = 0;
+                while (true) {
+                    let child = 2 * i + 1;
+                    if (child >= heapSize) break;
+                    if (child + 1 < heapSize && heapScores[child + 1] < heapScores[child]) child++;
+                    if (heapScores[child] >= score) break;
+                    heapScores[i] = heapScores[child];
+                    heapRows[i] = heapRows[child];
+                    i = child;
+                }
+                heapScores[i] = score;
+                heapRows[i] = row;
+            }
+        }
+
+        const matches: PackedVectorMatch[] = [];
+        for (let i = 0; i < heapSize; i++) {
+            matches.push({ row: this.rows[heapRows[i]], score: heapScores[i] / QUANTIZED_UNIT_DOT });
+        }
+        return matches.sort((a, b) => b.score - a.score);
+    }
+
+    private computeScores(query: Int8Array): Int32Array {
+        const rowCount = this.rows.length;
+        const dataOffset = this.stride;
+        const scoresOffset = this.stride * (this.capacity + 1);
+        this.data.set(query, 0);
+
+        const scores = new Int32Array(this.memory.buffer, scoresOffset, rowCount);
+        if (this.dotRows) {
+            this.dotRows(0, dataOffset, rowCount, this.stride, scoresOffset);
+            return scores;
+        }
+
+        const data = this.data;
+        const stride = this.stride;
+        for (let row = 0, base = dataOffset; row < rowCount; row++, base += stride) {
+            // Independent accumulators let the JIT overlap the multiplies
+            let s0 = 0, s1 = 0, s2 = 0, s3 = 0;
+            for (let j = 0; j < stride; j += 4) {
+                s0 += data[j] * data[base + j];
+                s1 += data[j + 1] * data[base + j + 1];
+                s2 += data[j + 2] * data[base + j + 2];
+                s3 += data[j + 3] * data[base + j + 3];
+            }
+            scores[row] = s0 + s1 + s2 + s3;
+        }
+        return scores;
+    }
+
+    private ensureCapacity(required: number): void {
+        if (required <= this.capacity) return;
+
+        let capacity = Math.max(this.capacity, 1);
+        while (capacity < required) capacity *= 2;
+
+        // Query row, vector rows, then one int32 score per row
+        const bytesNeeded = this.stride * (capacity + 1) + capacity * 4;
+        const pagesNeeded = Math.ceil(bytesNeeded / WASM_PAGE_SIZE) - this.memory.buffer.byteLength / WASM_PAGE_SIZE;
+        if (pagesNeeded > 0) {
+            this.memory.grow(pagesNeeded);
+        }
+
+        // Growing detaches the old buffer, so views must be recreated
+        this.capacity = capacity;
+        this.data = new Int8Array(this.memory.buffer, 0, this.stride * (capacity + 1));
+    }
+}
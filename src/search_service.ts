@@ -1,12 +1,16 @@
-import { DatabaseService, Vector, VectorType, FTSResult } from './database_service';
-import { EmbeddingService } from './embedding_service';
+import { DatabaseService, HydratedResult, NoteFilters, Vector, VectorType, FTSResult, hasNoteFilters } from './database_service';
+import { TextEmbedder } from './embedding_service';
+import { DEFAULT_SPACE_ID } from './embedding_space';
+import { HighlightedSnippet } from './fts_ranking';
 import { Logger } from './logger';
-import { Position } from './note_processor';
+import { BlockLocation, BlockType, Position } from './note_processor';
+import { VectorIndexOptions, VectorScanFilter } from './vector_index';
 
 export type SearchResult = {
     noteId: string;
     chunkId?: string;
     blockId?: string;
+    blockType?: BlockType; // Markdown type of a block result, for rendering
     type: VectorType;
     score: number;
     text: string;
@@ -14,6 +18,8 @@ export type SearchResult = {
     noteName: string;
     blockStartPosition?: Position;
     blockEndPosition?: Position;
+    blockLocation?: BlockLocation; // Page or canvas node of a block from a PDF or canvas
+    snippet?: HighlightedSnippet; // Matched passage with highlighted terms, for full-text hits
 };
 
 export type SearchOptions = {
@@ -24,25 +30,62 @@ export type SearchOptions = {
     includeBlockVectors?: boolean;
     excludeNotePaths?: string[];
     useVectorIndex?: boolean;
+    indexOptions?: Partial<VectorIndexOptions>; // Per-search index knobs (LSH probes and candidates, HNSW efSearch)
     useHybridSearch?: boolean;
     hybridWeight?: number; // Weight for combining vector and FTS scores (0.0 = only FTS, 1.0 = only vector)
+    space?: string; // Embedding space to search; the default space when omitted
+    filters?: NoteFilters; // Only notes with these tags, folder and properties; applied before scoring
 };
 
+// Reciprocal Rank Fusion constant: damps the weight of top ranks so no single list dominates
+const RRF_K = 60;
+
+/**
+ * Identity of a result when fusing rankings: the block, chunk or note it points at
+ */
+function resultKey(result: SearchResult): string {
+    return result.blockId || result.chunkId || result.noteId;
+}
+
 
 export class SearchService {
     private databaseService: DatabaseService;
-    private embeddingService: EmbeddingService;
+    private embeddingService: TextEmbedder;
+    private spaceEmbedder: (space: string) => TextEmbedder;
     private logger: Logger;
 
-    constructor(databaseService: DatabaseService, embeddingService: EmbeddingService, logger: Logger) {
+    /**
+     * Queries against a space other than the default one are embedded with `spaceEmbedder(space)`
+     */
+    constructor(
+        databaseService: DatabaseService,
+        embeddingService: TextEmbedder,
+        logger: Logger,
+        spaceEmbedder: (space: string) => TextEmbedder = () => embeddingService
+    ) {
         this.databaseService = databaseService;
         this.embeddingService = embeddingService;
+        this.spaceEmbedder = spaceEmbedder;
         this.logger = logger;
     }
 
-    private async isVectorIndexAvailable(): Promise<boolean> {
+    private getEmbedder(space: string): TextEmbedder {
+        return space === DEFAULT_SPACE_ID ? this.embeddingService : this.spaceEmbedder(space);
+    }
+
+    /**
+     * Notes meeting the search filters, or null when there are none to apply
+     */
+    private async getFilteredNoteIds(filters: NoteFilters | undefined): Promise<string[] | null> {
+        if (!hasNoteFilters(filters)) return null;
+        const noteIds = await this.databaseService.getNoteIdsMatching(filters);
+        this.logger.debug('SearchService', `Filters match ${noteIds.length} notes`);
+        return noteIds;
+    }
+
+    private async isVectorIndexAvailable(space: string): Promise<boolean> {
         try {
-            return await this.databaseService.isVectorIndexAvailable();
+            return await this.databaseService.isVectorIndexAvailable(space);
         } catch (error) {
             this.logger.warn('SearchService', 'Vector index availability check failed', error);
             return false;
@@ -60,31 +103,20 @@ export class SearchService {
             includeChunkVectors = false,
             includeBlockVectors = true,
             excludeNotePaths = [],
-            useVectorIndex = true
+            useVectorIndex = true,
+            indexOptions = {},
+            space = DEFAULT_SPACE_ID,
+            filters
         } = options;
 
         const searchStartTime = performance.now();
-        this.logger.info('SearchService', `Starting vector search for query: "${query.substring(0, 50)}${query.length > 50 ? '...' : ''}"`);
+        this.logger.info('SearchService', `Starting vector search in space ${space} for query: "${query.substring(0, 50)}${query.length > 50 ? '...' : ''}"`);
 
-        // Embed the query
-        const queryVector = await this.embeddingService.embedText(query);
+        const filteredNoteIds = await this.getFilteredNoteIds(filters);
+        if (filteredNoteIds?.length === 0) return [];
 
-        // Get vectors from database - use index if requested and available
-        let allVectors: Vector[];
-        if (useVectorIndex && await this.isVectorIndexAvailable()) {
-            this.logger.info('SearchService', 'Using vector index for candidate selection');
-            try {
-                allVectors = await this.databaseService.getSimilarVectors(queryVector, topK);
-            } catch (error) {
-                this.logger.warn('SearchService', 'Vector index failed, falling back to linear search', error);
-                allVectors = await this.databaseService.getAllVectors();
-            }
-        } else {
-            if (useVectorIndex) {
-                this.logger.warn('SearchService', 'Vector index requested but not available, using linear search');
-            }
-            allVectors = await this.databaseService.getAllVectors();
-        }
+        // Embed the query with the space's own model
+        const queryVector = await this.getEmbedder(space).embedText(query);
 
         // Get excluded note IDs if we have excluded paths
         let excludedNoteIds: string[] = [];
@@ -101,6 +133,33 @@ export class SearchService {
             }
         }
 
+        const types: VectorType[] = [];
+        if (includeNoteVectors) types.push(VectorType.NOTE);
+        if (includeChunkVectors) types.push(VectorType.CHUNK);
+        if (includeBlockVectors) types.push(VectorType.BLOCK);
+        // Vectors from another embedding model live in a different space, so never compare against them
+        const model = this.databaseService.getModelFingerprint(space) || undefined;
+        const scanFilter: VectorScanFilter = { types, excludeNoteIds: excludedNoteIds, noteIds: filteredNoteIds ?? undefined, model };
+
+        // Get vectors from database - use index if requested and available. Index candidates are
+        // picked before any filter, so filtered searches scan only the matching notes instead.
+        let allVectors: Vector[];
+        if (useVectorIndex && !filteredNoteIds && await this.isVectorIndexAvailable(space)) {
+            this.logger.info('SearchService', 'Using vector index for candidate selection');
+            try {
+                allVectors = await this.databaseService.getSimilarVectors(queryVector, topK, indexOptions, space);
+            } catch (error) {
+                this.logger.warn('SearchService', 'Vector index failed, falling back to linear search', error);
+                allVectors = await this.databaseService.scanVectors(queryVector, topK, scanFilter, space);
+            }
+        } else {
+            if (useVectorIndex) {
+                this.logger.warn('SearchService', 'Vector index requested but not available, using linear search');
+            }
+            // The scan applies the type and note filters itself, so it returns topK usable vectors
+            allVectors = await this.databaseService.scanVectors(queryVector, topK, scanFilter, space);
+        }
+
         // Filter by type and excluded notes
         let vectors = allVectors.filter(vector => {
             // Filter by type if specified
@@ -111,74 +170,57 @@ export class SearchService {
             // Filter out excluded notes (both note vectors and chunk vectors from those notes)
             if (excludedNoteIds.length > 0 && excludedNoteIds.includes(vector.note_id)) return false;
             
+            // Index candidates are not filtered by model, so drop stale ones here
+            if (model && vector.model !== model) return false;
+            
             return true;
         });
         
 
-        // Calculate similarities
-        const results: SearchResult[] = [];
-        for (const vector of vectors) {
-            const similarity = this.calculateCosineSimilarity(queryVector, vector.vector);
-            
-            if (similarity >= minScore) {
-                // Get the note info
-                const note = await this.databaseService.getNote(vector.note_id);
-                if (!note) continue; // Skip if note not found
+        // Score every candidate first; only the best ones need their text and positions
+        const scored = vectors
+            .map(vector => ({ vector, score: this.calculateCosineSimilarity(queryVector, vector.vector) }))
+            .filter(candidate => candidate.score >= minScore)
+            .sort((a, b) => b.score - a.score);
+
+        // Hydrate in topK-sized pages, so a page only repeats when results had gone missing
+        const topResults: SearchResult[] = [];
+        for (let offset = 0; offset < scored.length && topResults.length < topK; offset += topK) {
+            const page = scored.slice(offset, offset + topK);
+            const hydrated = await this.databaseService.hydrateVectors(page.map(candidate => candidate.vector.id));
+
+            for (const { vector, score } of page) {
+                const data = hydrated.get(vector.id);
+                if (!data || topResults.length >= topK) continue; // Skip if note, chunk or block not found
 
                 let text: string;
-                
                 if (vector.type === VectorType.NOTE) {
                     // For note vectors, return note path and name (not full text)
-                    text = `${note.path} - ${note.name}`;
-                } else if (vector.type === VectorType.CHUNK && vector.chunk_id) {
-                    // For chunk vectors, get the chunk text
-                    const chunks = await this.databaseService.getChunksForNote(vector.note_id);
-                    const chunk = chunks.find(c => c.id === vector.chunk_id);
-                    if (!chunk) continue; // Skip if chunk not found
-                    text = chunk.text;
-                } else if (vector.type === VectorType.BLOCK && vector.block_id) {
-                    // For block vectors, get the block text and position
-                    const blocks = await this.databaseService.getBlocksForNote(vector.note_id);
-                    const block = blocks.find(b => b.id === vector.block_id);
-                    if (!block) continue; // Skip if block not found
-                    text = block.content;
-                    
-                    // Add block result with position data
-                    results.push({
-                        noteId: vector.note_id,
-                        chunkId: vector.chunk_id,
-                        blockId: vector.block_id,
-                        type: vector.type,
-                        score: similarity,
-                        text,
-                        notePath: note.path,
-                        noteName: note.name,
-                        blockStartPosition: block.start_position,
-                        blockEndPosition: block.end_position
-                    });
-                    continue; // Skip the generic result push below
+                    text = `${data.notePath} - ${data.noteName}`;
+                } else if (vector.type === VectorType.CHUNK) {
+                    text = data.chunkText!;
                 } else {
-                    continue; // Skip invalid vectors
+                    text = data.blockContent!;
                 }
 
-                // For non-block results, add without position data
-                results.push({
+                topResults.push({
                     noteId: vector.note_id,
                     chunkId: vector.chunk_id,
                     blockId: vector.block_id,
                     type: vector.type,
-                    score: similarity,
+                    score,
                     text,
-                    notePath: note.path,
-                    noteName: note.name
+                    notePath: data.notePath,
+                    noteName: data.noteName,
+                    blockType: data.blockType,
+                    // Block and chunk results carry position data for highlighting
+                    blockStartPosition: data.blockStartPosition,
+                    blockEndPosition: data.blockEndPosition,
+                    blockLocation: data.blockLocation
                 });
             }
         }
 
-        // Sort by similarity score (highest first) and take top K
-        results.sort((a, b) => b.score - a.score);
-        const topResults = results.slice(0, topK);
-
         const searchEndTime = performance.now();
         const totalSearchTime = searchEndTime - searchStartTime;
         
@@ -204,10 +246,11 @@ export class SearchService {
         const searchStartTime = performance.now();
         this.logger.info('SearchService', `Starting RRF hybrid search for query: "${query.substring(0, 50)}${query.length > 50 ? '...' : ''}"`);
 
-        // Perform both vector and FTS searches in parallel
+        // Perform both vector and FTS searches in parallel, each only over the notes the filters allow
+        const filteredNoteIds = await this.getFilteredNoteIds(options.filters);
         const [vectorResults, ftsResults] = await Promise.all([
             this.vectorSearch(query, { ...options, useHybridSearch: false }),
-            this.databaseService.searchFTS(query, topK * 2)
+            this.databaseService.searchFTS(query, topK * 2, filteredNoteIds ?? undefined)
         ]);
 
         // Create maps for RRF processing
@@ -217,11 +260,22 @@ export class SearchService {
 
         // Build vector rank map and results map
         vectorResults.forEach((result, index) => {
-            const key = result.blockId || result.noteId;
+            const key = resultKey(result);
             vectorRankMap.set(key, index + 1);
             allResultsMap.set(key, result);
         });
 
+        // Position data for FTS-only block results, fetched in one query
+        const ftsOnlyBlockIds = ftsResults
+            .filter(ftsResult => ftsResult.blockId && ftsResult.type === 'block' && !allResultsMap.has(ftsResult.blockId))
+            .map(ftsResult => ftsResult.blockId!);
+        let hydratedBlocks = new Map<string, HydratedResult>();
+        try {
+            hydratedBlocks = await this.databaseService.hydrateBlocks(ftsOnlyBlockIds);
+        } catch (error) {
+            this.logger.warn('SearchService', 'Failed to get block positions for full-text results', error);
+        }
+
         // Build FTS rank map and add FTS-only results to results map
         for (let i = 0; i < ftsResults.length; i++) {
             const ftsResult = ftsResults[i];
@@ -229,7 +283,10 @@ export class SearchService {
             ftsRankMap.set(key, i + 1);
             
             // If not already in results map from vector search, add it
-            if (!allResultsMap.has(key)) {
+            const existing = allResultsMap.get(key);
+            if (existing) {
+                existing.snippet = ftsResult.snippet;
+            } else {
                 const searchResult: SearchResult = {
                     noteId: ftsResult.noteId,
                     blockId: ftsResult.blockId,
@@ -237,21 +294,18 @@ export class SearchService {
                     score: 0, // Will be set by RRF
                     text: ftsResult.content,
                     notePath: ftsResult.notePath,
-                    noteName: ftsResult.noteName
+                    noteName: ftsResult.noteName,
+                    snippet: ftsResult.snippet
                 };
                 
-                // Add position data for blocks if available
-                if (ftsResult.blockId && ftsResult.type === 'block') {
-                    try {
-                        const blocks = await this.databaseService.getBlocksForNote(ftsResult.noteId);
-                        const block = blocks.find(b => b.id === ftsResult.blockId);
-                        if (block) {
-                            searchResult.blockStartPosition = block.start_position;
-                            searchResult.blockEndPosition = block.end_position;
-                        }
-                    } catch (error) {
-                        this.logger.warn('SearchService', `Failed to get block position for ${ftsResult.blockId}`, error);
-                    }
+                // Add position data for blocks if available; the full-text row may hold rewritten text, so show the block as written
+                const block = ftsResult.blockId ? hydratedBlocks.get(ftsResult.blockId) : undefined;
+                if (block) {
+                    searchResult.text = block.blockContent ?? searchResult.text;
+                    searchResult.blockType = block.blockType;
+                    searchResult.blockStartPosition = block.blockStartPosition;
+                    searchResult.blockEndPosition = block.blockEndPosition;
+                    searchResult.blockLocation = block.blockLocation;
                 }
                 
                 allResultsMap.set(key, searchResult);
@@ -259,7 +313,7 @@ export class SearchService {
         }
 
         // Apply Reciprocal Rank Fusion (RRF) with hybrid weighting
-        const k = 60; // RRF constant
+        const k = RRF_K;
         const rrfScores = new Map<string, number>();
 
         // Calculate RRF scores for all results
@@ -310,6 +364,48 @@ export class SearchService {
         return finalResults;
     }
 
+    /**
+     * Search several embedding spaces and fuse their rankings with Reciprocal Rank Fusion.
+     * Cosine scores from different models aren't comparable, but their ranks are.
+     */
+    async fusedSpaceSearch(query: string, spaces: string[], options: SearchOptions = {}): Promise<SearchResult[]> {
+        const { topK = 10 } = options;
+
+        const searchStartTime = performance.now();
+        const rankings: SearchResult[][] = [];
+        for (const space of spaces) {
+            try {
+                rankings.push(await this.vectorSearch(query, { ...options, space }));
+            } catch (error) {
+                // One unreachable provider shouldn't sink the other spaces' results
+                this.logger.warn('SearchService', `Search in space ${space} failed, leaving it out of the fusion`, error);
+            }
+        }
+
+        const fused = new Map<string, SearchResult>();
+        for (const results of rankings) {
+            results.forEach((result, index) => {
+                const key = resultKey(result);
+                const contribution = 1 / (RRF_K + index + 1);
+                const existing = fused.get(key);
+                if (existing) {
+                    existing.score += contribution;
+                } else {
+                    fused.set(key, { ...result, score: contribution });
+                }
+            });
+        }
+
+        const finalResults = Array.from(fused.values())
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+
+        const totalSearchTime = performance.now() - searchStartTime;
+        this.logger.info('SearchService', `Fused search over ${spaces.length} spaces completed in ${totalSearchTime.toFixed(2)}ms`);
+
+        return finalResults;
+    }
+
     /**
      * Calculate cosine similarity between two quantized int8 vectors
      */
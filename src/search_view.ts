@@ -1,11 +1,106 @@
-import { ItemView, WorkspaceLeaf, MarkdownView, Notice, Setting } from 'obsidian';
+import { App, ItemView, WorkspaceLeaf, MarkdownView, Notice, Setting, View } from 'obsidian';
+import { HighlightedSnippet } from './fts_ranking';
 import { SearchResult } from './search_service';
 import { logger } from './logger';
-import { Position } from './note_processor';
+import { BlockType, Position } from './note_processor';
+import { footnoteText, mathSource, parseCallout, parseCodeBlock, parseTable } from './block_text';
 import type Tezcat from './main';
 
 const VIEW_TYPE = 'remembrance-search';
 
+// Lines of code and rows of a table shown in a result preview
+const PREVIEW_LINES = 6;
+const PREVIEW_ROWS = 4;
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? text.substring(0, maxLength) + '...' : text;
+}
+
+// The parts of Obsidian's canvas view used to focus a card. It has no public API, so this
+// may drift from the real view; if it does, the canvas simply stays as opened.
+interface CanvasView extends View {
+  canvas?: {
+    nodes?: Map<string, unknown>;
+    selectOnly(node: unknown): void;
+    zoomToSelection(): void;
+  };
+}
+
+/**
+ * Open a result from a PDF at its page, or from a canvas at its card. Returns false for results
+ * from Markdown notes, which the caller opens in the editor.
+ */
+export async function openAtLocation(app: App, result: SearchResult): Promise<boolean> {
+  const location = result.blockLocation;
+  if (location?.page) {
+    await app.workspace.openLinkText(`${result.notePath}#page=${location.page}`, '', false);
+    return true;
+  }
+  if (location?.canvasNodeId) {
+    const nodeId = location.canvasNodeId;
+    await app.workspace.openLinkText(result.notePath, '', false);
+    window.setTimeout(() => {
+      const view = app.workspace.getMostRecentLeaf()?.view;
+      if (view?.getViewType() !== 'canvas') return;
+      const canvas = (view as CanvasView).canvas;
+      const node = canvas?.nodes?.get(nodeId);
+      if (canvas && node) {
+        canvas.selectOnly(node);
+        canvas.zoomToSelection();
+      }
+    }, 100);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Preview of a block or chunk result in the style of its block type: code and math in monospace,
+ * tables as tables, callouts with their title. Other results show their text.
+ */
+export function renderResultText(containerEl: HTMLElement, result: SearchResult, maxLength: number) {
+  switch (result.type === 'block' ? result.blockType : undefined) {
+    case BlockType.CODE: {
+      const { language, code } = parseCodeBlock(result.text);
+      const lines = code.split('\n');
+      const preEl = containerEl.createEl('pre', { cls: 'tezcat-search-result-code' });
+      preEl.createEl('code', {
+        cls: language ? `language-${language}` : undefined,
+        text: lines.slice(0, PREVIEW_LINES).join('\n') + (lines.length > PREVIEW_LINES ? '\n...' : '')
+      });
+      break;
+    }
+    case BlockType.TABLE: {
+      const [header = [], ...rows] = parseTable(result.text);
+      const tableEl = containerEl.createEl('table', { cls: 'tezcat-search-result-table' });
+      const headerRowEl = tableEl.createEl('tr');
+      header.forEach(cell => headerRowEl.createEl('th', { text: cell }));
+      for (const row of rows.slice(0, PREVIEW_ROWS)) {
+        const rowEl = tableEl.createEl('tr');
+        row.forEach(cell => rowEl.createEl('td', { text: cell }));
+      }
+      break;
+    }
+    case BlockType.CALLOUT: {
+      const { kind, title, body } = parseCallout(result.text);
+      const calloutEl = containerEl.createDiv({ cls: 'tezcat-search-result-callout', attr: { 'data-callout': kind } });
+      calloutEl.createDiv({ cls: 'tezcat-search-result-callout-title', text: title });
+      if (body) {
+        calloutEl.createDiv({ text: truncate(body, maxLength) });
+      }
+      break;
+    }
+    case BlockType.MATH:
+      containerEl.createEl('code', { cls: 'tezcat-search-result-math', text: truncate(mathSource(result.text), maxLength) });
+      break;
+    case BlockType.FOOTNOTE:
+      containerEl.textContent = truncate(footnoteText(result.text), maxLength);
+      break;
+    default:
+      containerEl.textContent = truncate(result.text, maxLength);
+  }
+}
+
 class TezcatView extends ItemView {
   private resultsContainer: HTMLElement;
   private lastActiveMarkdownView: MarkdownView | null = null;
@@ -87,13 +182,26 @@ class TezcatView extends ItemView {
     emptyEl.createEl('p', { text: 'Move your cursor around in a markdown file to see related content.' });
   }
 
+  private renderSnippet(containerEl: HTMLElement, snippet: HighlightedSnippet) {
+    let position = 0;
+    for (const { start, end } of snippet.highlights) {
+      containerEl.appendText(snippet.text.substring(position, start));
+      containerEl.createEl('mark', { cls: 'tezcat-search-result-highlight', text: snippet.text.substring(start, end) });
+      position = end;
+    }
+    containerEl.appendText(snippet.text.substring(position));
+  }
+
   private createResultItem(result: SearchResult, index: number) {
     const itemEl = this.resultsContainer.createEl('div', { cls: 'tezcat-search-result-item' });
 
-    // Result content (text for blocks)
-    if (result.type === 'block') {
+    // Result content (text for blocks, or the matched passage for full-text hits)
+    if (result.snippet && result.snippet.highlights.length > 0) {
       const textEl = itemEl.createEl('div', { cls: 'tezcat-search-result-text' });
-      textEl.textContent = result.text.length > 150 ? result.text.substring(0, 150) + '...' : result.text;
+      this.renderSnippet(textEl, result.snippet);
+    } else if (result.type !== 'note') {
+      const textEl = itemEl.createEl('div', { cls: 'tezcat-search-result-text' });
+      renderResultText(textEl, result, 150);
     }
 
     // Path with type and score
@@ -104,7 +212,7 @@ class TezcatView extends ItemView {
 
     const metaEl = pathContainerEl.createDiv({ cls: 'tezcat-search-result-meta' });
     const typeSpan = metaEl.createEl('span', {
-      text: result.type,
+      text: result.blockType && result.blockType !== BlockType.PARAGRAPH ? `${result.type} · ${result.blockType}` : result.type,
       cls: 'tezcat-search-result-type'
     });
 
@@ -133,11 +241,11 @@ class TezcatView extends ItemView {
         this.openNote(result);
       };
 
-    } else if (result.type === 'block') {
-      // For block results: show "Insert block", "Insert link", and "Open note" (goes to block location)
+    } else {
+      // For block and chunk results: show "Insert block", "Insert link", and "Open note" (goes to their location)
 
       // Insert text button
-      const insertTextBtn = actionsEl.createEl('button', { text: 'Insert block' });
+      const insertTextBtn = actionsEl.createEl('button', { text: result.type === 'block' ? 'Insert block' : 'Insert text' });
       insertTextBtn.onclick = (e) => {
         e.stopPropagation();
         this.insertText(result);
@@ -179,7 +287,7 @@ class TezcatView extends ItemView {
     }
     
     if (targetView && targetView.editor) {
-      const text = result.type === 'block' ? result.text : result.noteName;
+      const text = result.type !== 'note' ? result.text : result.noteName;
       targetView.editor.replaceSelection(text);
     } else {
       logger.warn('SearchView', 'No valid markdown view found for text insertion');
@@ -201,7 +309,8 @@ class TezcatView extends ItemView {
     }
     
     if (targetView && targetView.editor) {
-      const linkText = `[[${result.notePath}|${result.noteName}]]`;
+      const page = result.blockLocation?.page;
+      const linkText = page ? `[[${result.notePath}#page=${page}|${result.noteName}]]` : `[[${result.notePath}|${result.noteName}]]`;
       targetView.editor.replaceSelection(linkText);
     } else {
       logger.warn('SearchView', 'No valid markdown view found for link insertion');
@@ -213,6 +322,8 @@ class TezcatView extends ItemView {
   }
 
   private async openBlockInNote(result: SearchResult) {
+    if (await openAtLocation(this.app, result)) return;
+
     // Open the note first
     await this.app.workspace.openLinkText(result.notePath, '', false);
     
@@ -260,10 +371,10 @@ class TezcatView extends ItemView {
       let textToCopy: string;
       let noticeMessage: string;
 
-      if (result.type === 'block') {
-        // For blocks: copy the block text
+      if (result.type !== 'note') {
+        // For blocks and chunks: copy their text
         textToCopy = result.text;
-        noticeMessage = 'Block text copied to clipboard';
+        noticeMessage = result.type === 'block' ? 'Block text copied to clipboard' : 'Chunk text copied to clipboard';
       } else {
         // For notes: copy a markdown link
         textToCopy = `[[${result.notePath}|${result.noteName}]]`;
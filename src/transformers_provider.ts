@@ -0,0 +1,221 @@
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import { EmbeddingProvider, VectorUtils } from './embedding_service';
+import { Logger } from './logger';
+import type { LocalModelProxy } from './worker_protocol';
+
+/**
+ * Where local model files are read from: the vault adapter, or anything with the same shape
+ */
+export interface ModelFileReader {
+    exists(path: string): Promise<boolean>;
+    readBinary(path: string): Promise<ArrayBuffer>;
+}
+
+// Files transformers.js needs from a model folder; the weights are the 8-bit quantized ONNX export
+export const REQUIRED_MODEL_FILES = ['config.json', 'tokenizer.json', 'tokenizer_config.json', 'onnx/model_quantized.onnx'];
+
+// ONNX Runtime's WebAssembly binary, read from the top of the model folder. Required: it is never fetched from a CDN.
+export const ORT_WASM_FILE = 'ort-wasm-simd-threaded.jsep.wasm';
+
+// transformers.js prefixes local model paths with this; the custom cache maps it back to the model folders
+const LOCAL_MODEL_PREFIX = 'tezcat-models/';
+
+type Transformers = typeof import('@huggingface/transformers');
+
+type ModelSource = { reader: ModelFileReader; folder: string };
+
+// Model id -> folder its files are read from, shared by every provider through transformers.js' global env
+const modelSources = new Map<string, ModelSource>();
+let transformers: Promise<Transformers> | null = null;
+
+/**
+ * Serve a model file from its registered folder, or nothing so transformers.js reports it missing
+ */
+async function matchModelFile(key: string): Promise<Response | undefined> {
+    if (!key.startsWith(LOCAL_MODEL_PREFIX)) return undefined;
+
+    const path = key.slice(LOCAL_MODEL_PREFIX.length);
+    for (const [model, source] of modelSources) {
+        if (!path.startsWith(`${model}/`)) continue;
+
+        const filePath = `${source.folder}/${path}`;
+        if (!await source.reader.exists(filePath)) return undefined;
+        return new Response(await source.reader.readBinary(filePath));
+    }
+    return undefined;
+}
+
+/**
+ * Load transformers.js on first use, configured to only read models from the registered folders.
+ * It is imported lazily so the plugin starts quickly when another provider is configured.
+ */
+function loadTransformers(): Promise<Transformers> {
+    if (!transformers) {
+        transformers = (async () => {
+            // Obsidian's renderer looks like Node.js to transformers.js, which would then reach for
+            // onnxruntime-node. Registering onnxruntime-web before it loads keeps inference on WebAssembly.
+            const ort = await import('onnxruntime-web');
+            (globalThis as unknown as Record<symbol, unknown>)[Symbol.for('onnxruntime')] = ort;
+
+            const module = await import('@huggingface/transformers');
+            const { env } = module;
+            env.allowRemoteModels = false;
+            env.allowLocalModels = true;
+            env.localModelPath = LOCAL_MODEL_PREFIX;
+            env.useBrowserCache = false;
+            env.useFSCache = false;
+            env.useCustomCache = true;
+            env.customCache = {
+                match: matchModelFile,
+                put: async () => undefined
+            };
+            if (env.backends.onnx.wasm) {
+                // Obsidian isn't cross-origin isolated, so the runtime can't use worker threads. It runs
+                // in the database worker already, so it needs no proxy worker of its own either.
+                env.backends.onnx.wasm.numThreads = 1;
+                env.backends.onnx.wasm.proxy = false;
+            }
+            return module;
+        })().catch(error => {
+            transformers = null;
+            throw error;
+        });
+    }
+    return transformers;
+}
+
+/**
+ * Runs a small embedding model (all-MiniLM, nomic-embed...) on the CPU with transformers.js and ONNX Runtime.
+ * The model's files are read from `folder/<model id>/`, so no server or network access is needed.
+ */
+export class TransformersEmbeddingProvider extends EmbeddingProvider {
+    private reader: ModelFileReader;
+    private folder: string;
+    private modelName: string;
+    private logger: Logger;
+    private extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+    constructor(reader: ModelFileReader, folder: string, modelName: string, logger: Logger) {
+        super();
+        this.reader = reader;
+        this.folder = folder.replace(/\/+$/, '');
+        this.modelName = modelName;
+        this.logger = logger;
+    }
+
+    async embed_one(text: string): Promise<Int8Array> {
+        const [embedding] = await this.embed_many([text]);
+        return embedding;
+    }
+
+    async embed_many(texts: string[]): Promise<Int8Array[]> {
+        // Validate input data - should only be strings
+        for (let j = 0; j < texts.length; j++) {
+            const item = texts[j];
+            if (typeof item !== 'string') {
+                this.logger.error('TransformersProvider', `Invalid input at index ${j}: ${typeof item}`, item);
+                throw new Error(`Expected string at index ${j}, got ${typeof item}`);
+            }
+        }
+
+        const extractor = await this.getExtractor();
+        const embeddings: Int8Array[] = [];
+        const batchSize = 8; // Texts in a batch are padded to the longest one, so keep batches small on the CPU
+
+        for (let i = 0; i < texts.length; i += batchSize) {
+            const batch = texts.slice(i, i + batchSize);
+            const output = await extractor(batch, { pooling: 'mean', normalize: true });
+
+            for (const embedding of output.tolist() as number[][]) {
+                if (!embedding || embedding.length === 0) {
+                    throw new Error('Local model returned empty embedding in batch');
+                }
+                embeddings.push(VectorUtils.processVector(embedding));
+            }
+        }
+
+        this.logger.info('TransformersProvider', `Completed batch processing of ${embeddings.length} embeddings`);
+        return embeddings;
+    }
+
+    async validate(): Promise<void> {
+        const modelFolder = `${this.folder}/${this.modelName}`;
+        const missing: string[] = [];
+        for (const file of REQUIRED_MODEL_FILES) {
+            if (!await this.reader.exists(`${modelFolder}/${file}`)) {
+                missing.push(file);
+            }
+        }
+        if (missing.length > 0) {
+            throw new Error(`Local model "${this.modelName}" is missing ${missing.join(', ')} in ${modelFolder}. Download the model's files from Hugging Face into that folder.`);
+        }
+        if (!await this.reader.exists(`${this.folder}/${ORT_WASM_FILE}`)) {
+            throw this.missingRuntimeError();
+        }
+
+        await this.getExtractor();
+        this.logger.info('TransformersProvider', `Validated local model: ${this.modelName}`);
+    }
+
+    private missingRuntimeError(): Error {
+        return new Error(`Local model runtime ${ORT_WASM_FILE} is missing in ${this.folder}. Download it from the dist folder of the onnxruntime-web package into that folder.`);
+    }
+
+    private getExtractor(): Promise<FeatureExtractionPipeline> {
+        if (!this.extractor) {
+            this.extractor = this.loadExtractor().catch(error => {
+                this.extractor = null;
+                throw error;
+            });
+        }
+        return this.extractor;
+    }
+
+    private async loadExtractor(): Promise<FeatureExtractionPipeline> {
+        modelSources.set(this.modelName, { reader: this.reader, folder: this.folder });
+        const { env, pipeline } = await loadTransformers();
+
+        const wasm = env.backends.onnx.wasm;
+        const wasmPath = `${this.folder}/${ORT_WASM_FILE}`;
+        if (wasm && !wasm.wasmBinary) {
+            // Without a binary, ONNX Runtime would download one
+            if (!await this.reader.exists(wasmPath)) throw this.missingRuntimeError();
+            wasm.wasmBinary = await this.reader.readBinary(wasmPath);
+        }
+
+        const startTime = performance.now();
+        const extractor = await pipeline('feature-extraction', this.modelName, { device: 'wasm', dtype: 'q8' });
+        this.logger.info('TransformersProvider', `Loaded ${this.modelName} in ${(performance.now() - startTime).toFixed(0)}ms`);
+        return extractor;
+    }
+}
+
+/**
+ * Embeds with a local model that the database worker runs, so inference stays off the main thread.
+ * The worker is looked up on every call, since providers are created before it starts.
+ */
+export class WorkerTransformersProvider extends EmbeddingProvider {
+    private models: () => LocalModelProxy;
+    private folder: string;
+    private modelName: string;
+
+    constructor(models: () => LocalModelProxy, folder: string, modelName: string) {
+        super();
+        this.models = models;
+        this.folder = folder;
+        this.modelName = modelName;
+    }
+
+    async embed_one(text: string): Promise<Int8Array> {
+        const [embedding] = await this.embed_many([text]);
+        return embedding;
+    }
+
+    async embed_many(texts: string[]): Promise<Int8Array[]> {
+        return await this.models().embedTexts(this.folder, this.modelName, texts);
+    }
+
+    async validate(): Promise<void> {
+        await this.models().validate(this.folder, this.modelName);
+    }
+}
@@ -1,4 +1,10 @@
 declare module '*.wasm' {
   const content: Uint8Array;
   export default content;
-}
\ No newline at end of file
+}
+
+// Worker entry points, bundled separately by esbuild.config.mjs and imported as source text
+declare module 'worker:*' {
+  const source: string;
+  export default source;
+}
@@ -1,7 +1,7 @@
 import { Notice } from 'obsidian';
 import { Logger } from './logger';
 import { EmbeddingProvider, OllamaModelManager, OllamaEmbeddingProvider, OpenAIEmbeddingProvider } from './embedding_service';
-import { SqlJsDatabaseAdapter, DatabaseService } from './database_service';
+import { DatabaseServiceProxy } from './worker_protocol';
 
 export interface ValidationResult {
     success: boolean;
@@ -115,7 +115,7 @@ export class ValidationService {
     /**
      * Validate database accessibility and integrity
      */
-    async validateDatabase(databaseService: DatabaseService): Promise<ValidationResult> {
+    async validateDatabase(databaseService: DatabaseServiceProxy): Promise<ValidationResult> {
         try {
             this.logger.info('ValidationService', 'Validating database...');
             
@@ -187,7 +187,7 @@ export class ValidationService {
      */
     async validateSystem(
         provider: EmbeddingProvider, 
-        databaseService: DatabaseService, 
+        databaseService: DatabaseServiceProxy, 
         requiredModels: string[] = []
     ): Promise<SystemValidationResult> {
         this.logger.info('ValidationService', 'Starting comprehensive system validation...');
@@ -0,0 +1,200 @@
+import { DatabaseAdapter, VectorType } from './database_service';
+import { LSHIndexOptions } from './embedding_service';
+import { DEFAULT_SPACE_ID } from './embedding_space';
+import { Logger } from './logger';
+import { PackedVectorMatrix, PackedVectorRow } from './packed_vector_matrix';
+import { SqlValue } from 'sql.js';
+
+export enum VectorIndexType {
+    LSH = 'lsh',
+    HNSW = 'hnsw',
+    LINEAR = 'linear'
+}
+
+// Tunable HNSW parameters. M and efConstruction are fixed when the graph is built,
+// efSearch applies per search.
+export interface HNSWIndexOptions {
+    m: number; // Neighbours kept per node (2M on the bottom layer)
+    efConstruction: number; // Candidate list size while inserting - higher builds a better graph, slower
+    efSearch: number; // Candidate list size while searching - higher raises recall, slower
+}
+
+export const DEFAULT_HNSW_OPTIONS: HNSWIndexOptions = {
+    m: 16,
+    efConstruction: 100,
+    efSearch: 64
+};
+
+export type VectorIndexOptions = LSHIndexOptions & HNSWIndexOptions;
+
+// The slice of the database adapter an index needs to persist itself
+export type VectorIndexStore = Pick<DatabaseAdapter, 'execute' | 'query' | 'get' | 'save' | 'transaction' | 'exclusive'>;
+
+/**
+ * Approximate nearest neighbour index over the vectors table.
+ * Implementations keep their own tables next to `vectors`; writes are not
+ * persisted until the adapter saves, except for background rebuilds.
+ */
+export interface VectorIndex {
+    readonly type: VectorIndexType;
+
+    createTables(): Promise<void>;
+    dropTables(): Promise<void>;
+    isAvailable(): Promise<boolean>;
+
+    build(vectorDimensions: number, options?: Partial<VectorIndexOptions>): Promise<void>;
+    // Candidate vector ids, best first; callers re-rank by exact similarity
+    search(queryVector: Int8Array, limit: number, options?: Partial<VectorIndexOptions>): Promise<string[]>;
+
+    insert(vectorId: string, vector: Int8Array): Promise<void>;
+    remove(vectorIds: string[]): Promise<void>;
+    reconcile(): Promise<void>;
+
+    // Forget what is held in memory, so it is loaded again from the tables; called when a transaction rolls back
+    invalidate(): void;
+    dispose(): void;
+}
+
+export type VectorScanFilter = {
+    types?: VectorType[]; // Only these vector types; all types when omitted
+    excludeNoteIds?: string[];
+    noteIds?: string[]; // Only vectors of these notes; all notes when omitted
+    model?: string; // Only vectors stamped with this model fingerprint
+};
+
+/**
+ * Exact search by scanning every stored vector. Needs no index tables, so it is always available.
+ * Vectors are loaded once into a packed in-memory matrix and kept current on write.
+ */
+export class LinearVectorIndex implements VectorIndex {
+    readonly type = VectorIndexType.LINEAR;
+    private store: VectorIndexStore;
+    private logger: Logger;
+    private space: string;
+    private matrix: PackedVectorMatrix | null = null;
+
+    constructor(store: VectorIndexStore, logger: Logger, space: string = DEFAULT_SPACE_ID) {
+        this.store = store;
+        this.logger = logger;
+        this.space = space;
+    }
+
+    async createTables(): Promise<void> {}
+
+    async dropTables(): Promise<void> {
+        this.matrix = null;
+    }
+
+    async isAvailable(): Promise<boolean> {
+        return true;
+    }
+
+    async build(): Promise<void> {
+        this.logger.info('LinearVectorIndex', 'Linear scan needs no index, skipping build');
+    }
+
+    async search(queryVector: Int8Array, limit: number): Promise<string[]> {
+        return await this.scan(queryVector, limit);
+    }
+
+    /**
+     * Top vector ids by dot product, best first, skipping rows the filter rules out
+     */
+    async scan(queryVector: Int8Array, limit: number, filter: VectorScanFilter = {}): Promise<string[]> {
+        const matrix = await this.getMatrix(queryVector.length);
+
+        const types = filter.types ? new Set(filter.types) : null;
+        const excludeNoteIds = filter.excludeNoteIds?.length ? new Set(filter.excludeNoteIds) : null;
+        const noteIds = filter.noteIds ? new Set(filter.noteIds) : null;
+        const model = filter.model;
+        const predicate = types || excludeNoteIds || noteIds || model
+            ? (row: PackedVectorRow) => (!types || types.has(row.type)) &&
+                (!excludeNoteIds || !excludeNoteIds.has(row.noteId)) &&
+                (!noteIds || noteIds.has(row.noteId)) &&
+                (!model || row.model === model)
+            : undefined;
+
+        return matrix.search(queryVector, limit, predicate).map(match => match.row.id);
+    }
+
+    async insert(vectorId: string, vector: Int8Array): Promise<void> {
+        // Nothing to keep current until the first search loads the matrix
+        if (!this.matrix) return;
+        if (vector.length !== this.matrix.dimensions) {
+            this.logger.warn('LinearVectorIndex', `Skipping vector ${vectorId} with ${vector.length} dimensions, expected ${this.matrix.dimensions}`);
+            return;
+        }
+
+        const row = await this.store.get('SELECT note_id, type, model FROM vectors WHERE id = ? AND space = ?', [vectorId, this.space]);
+        if (!row) return;
+        this.matrix.upsert(this.toRow(vectorId, row), vector);
+    }
+
+    async remove(vectorIds: string[]): Promise<void> {
+        if (!this.matrix) return;
+        for (const vectorId of vectorIds) {
+            this.matrix.remove(vectorId);
+        }
+    }
+
+    async reconcile(): Promise<void> {
+        // Cleanup deletes rows in bulk, so reload on the next search rather than diffing
+        this.matrix = null;
+    }
+
+    invalidate(): void {
+        this.matrix = null;
+    }
+
+    dispose(): void {
+        this.matrix = null;
+    }
+
+    private async getMatrix(dimensions: number): Promise<PackedVectorMatrix> {
+        if (this.matrix && this.matrix.dimensions === dimensions) return this.matrix;
+
+        const startTime = performance.now();
+        const rows = await this.store.query('SELECT id, note_id, type, model, vector FROM vectors WHERE space = ?', [this.space]);
+        const matrix = new PackedVectorMatrix(dimensions, { initialCapacity: rows.length });
+
+        let skipped = 0;
+        for (const row of rows) {
+            const vector = new Int8Array(row.vector as Uint8Array);
+            if (vector.length !== dimensions) {
+                skipped++;
+                continue;
+            }
+            matrix.upsert(this.toRow(row.id as string, row), vector);
+        }
+        if (skipped > 0) {
+            this.logger.warn('LinearVectorIndex', `Skipped ${skipped} vectors that do not have ${dimensions} dimensions`);
+        }
+
+        this.logger.info('LinearVectorIndex', `Loaded ${matrix.size} vectors in ${(performance.now() - startTime).toFixed(2)}ms (SIMD: ${matrix.usesSimd})`);
+        this.matrix = matrix;
+        return matrix;
+    }
+
+    private toRow(id: string, row: Record<string, SqlValue>): PackedVectorRow {
+        return { id, noteId: row.note_id as string, type: row.type as VectorType, model: (row.model as string | null) || undefined };
+    }
+}
+
+/**
+ * Raw cosine similarity in [-1, 1]; mismatched or zero vectors score -1 so they rank last
+ */
+export function cosineSimilarity(a: Int8Array, b: Int8Array): number {
+    if (a.length !== b.length) return -1;
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+
+    if (normA === 0 || normB === 0) return -1;
+    return dot / Math.sqrt(normA * normB);
+}
@@ -0,0 +1,216 @@
+import type { DatabaseService, SqlJsDatabaseAdapter } from './database_service';
+import type { LogLevel } from './logger';
+import type { SearchService } from './search_service';
+import type { VectorIndexType } from './vector_index';
+
+/**
+ * Anything messages can be posted through: a Worker, the worker's global scope or a MessagePort
+ */
+export interface MessageEndpoint {
+    postMessage(message: unknown, transfer?: Transferable[]): void;
+    onmessage: ((event: MessageEvent) => void) | null;
+}
+
+type RpcRequest = {
+    type: 'request';
+    id: number;
+    target: string;
+    method: string;
+    args: unknown[];
+};
+
+type RpcResponse = {
+    type: 'response';
+    id: number;
+    result?: unknown;
+    error?: { name: string; message: string; stack?: string };
+};
+
+export type RpcMessage = RpcRequest | RpcResponse;
+
+type MethodArgs<F> = F extends (...args: infer A) => unknown ? A : never;
+type MethodResult<F> = F extends (...args: any[]) => infer R ? Awaited<R> : never;
+
+/**
+ * The async view of an object living on the other side of a message endpoint:
+ * every method returns a promise, fields are dropped
+ */
+export type Remote<T> = {
+    [K in keyof T as T[K] extends (...args: any[]) => unknown ? K : never]: (...args: MethodArgs<T[K]>) => Promise<MethodResult<T[K]>>;
+};
+
+export type WorkerOptions = {
+    configDir: string; // Vault config directory the database file lives under
+    vectorIndexType: VectorIndexType;
+    logLevel: LogLevel;
+};
+
+// Adapter operations the plugin drives directly: schema resets, index builds and persistence
+export type DatabaseAdapterApi = Pick<SqlJsDatabaseAdapter,
+    'save' | 'flush' | 'close' | 'setVectorIndexType' | 'dropAllTables' |
+    'createNotesTable' | 'createChunksTable' | 'createVectorsTable' | 'createBlocksTable' | 'createFTSTable' | 'createEmbeddingCacheTable' |
+    'generateVectorIndex' | 'isVectorIndexAvailable' | 'reconcileVectorIndex' |
+    'addVectorSpace' | 'removeVectorSpace' | 'getVectorSpaces'>;
+
+// Embedding methods use the worker's own embedder for the space, which calls back into the host
+export type DatabaseServiceApi = Omit<DatabaseService, 'processNoteVector' | 'processChunkVectors' | 'processBlockVectors' | 'reembedNote'> & {
+    processNoteVector(noteId: string, space?: string): Promise<void>;
+    processChunkVectors(noteId: string, chunkIds: string[], space?: string): Promise<void>;
+    processBlockVectors(noteId: string, blockIds: string[], space?: string): Promise<void>;
+    reembedNote(noteId: string, space?: string): Promise<void>;
+};
+
+export type SearchServiceApi = Pick<SearchService, 'vectorSearch' | 'hybridSearch' | 'fusedSpaceSearch'>;
+
+/**
+ * Embeds with the provider configured for the given embedding space
+ */
+export type SpaceEmbeddingApi = {
+    embedText(text: string, space: string): Promise<Int8Array>;
+    embedTexts(texts: string[], space: string): Promise<Int8Array[]>;
+};
+
+/**
+ * Runs local transformers.js models, whose files are read from `folder` through the host's vault
+ */
+export type LocalModelApi = {
+    embedTexts(folder: string, model: string, texts: string[]): Promise<Int8Array[]>;
+    validate(folder: string, model: string): Promise<void>;
+};
+
+/**
+ * Served by the database worker. Local model inference runs there too, so it never blocks the editor.
+ */
+export interface WorkerApi {
+    worker: {
+        initialize(options: WorkerOptions): Promise<void>;
+        setLogLevel(level: LogLevel): void;
+    };
+    adapter: DatabaseAdapterApi;
+    database: DatabaseServiceApi;
+    search: SearchServiceApi;
+    localModels: LocalModelApi;
+}
+
+/**
+ * Served by the plugin on the main thread. The vault and the embedding providers
+ * (which rely on Obsidian's requestUrl) are only reachable from there.
+ */
+export interface HostApi {
+    vault: {
+        exists(path: string): Promise<boolean>;
+        readBinary(path: string): Promise<ArrayBuffer>;
+        writeBinary(path: string, data: ArrayBuffer): Promise<void>;
+        read(path: string): Promise<string>;
+        append(path: string, data: string): Promise<void>;
+        rename(path: string, newPath: string): Promise<void>;
+        remove(path: string): Promise<void>;
+    };
+    embedding: SpaceEmbeddingApi;
+}
+
+export type DatabaseAdapterProxy = Remote<DatabaseAdapterApi>;
+export type DatabaseServiceProxy = Remote<DatabaseServiceApi>;
+export type SearchServiceProxy = Remote<SearchServiceApi>;
+export type LocalModelProxy = Remote<LocalModelApi>;
+
+/**
+ * One side of a request/response channel. Serves the local API to the other side
+ * and calls into the remote API, matching responses to requests by id.
+ */
+export class RpcEndpoint<LocalApi extends object, RemoteApi extends object> {
+    private port: MessageEndpoint;
+    private handlers: Partial<LocalApi>;
+    private nextId = 1;
+    private pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+
+    constructor(port: MessageEndpoint, handlers: Partial<LocalApi> = {}) {
+        this.port = port;
+        this.handlers = handlers;
+        this.port.onmessage = (event: MessageEvent) => this.handleMessage(event.data as RpcMessage);
+    }
+
+    /**
+     * Serve a target, replacing any previous handler for it
+     */
+    setHandler<T extends keyof LocalApi>(target: T, handler: LocalApi[T]): void {
+        this.handlers[target] = handler;
+    }
+
+    call<T extends keyof RemoteApi & string, M extends keyof RemoteApi[T] & string>(
+        target: T,
+        method: M,
+        args: MethodArgs<RemoteApi[T][M]>,
+        transfer: Transferable[] = []
+    ): Promise<MethodResult<RemoteApi[T][M]>> {
+        const id = this.nextId++;
+        return new Promise((resolve, reject) => {
+            this.pending.set(id, { resolve: resolve as (value: unknown) => void, reject });
+            const request: RpcRequest = { type: 'request', id, target, method, args };
+            this.port.postMessage(request, transfer);
+        });
+    }
+
+    /**
+     * An object whose methods call the remote target
+     */
+    proxy<T extends keyof RemoteApi & string>(target: T): Remote<RemoteApi[T]> {
+        return new Proxy({}, {
+            get: (_, method) => {
+                // Never look like a promise, or awaiting the proxy would call a remote `then`
+                if (typeof method !== 'string' || method === 'then') return undefined;
+                return (...args: unknown[]) => this.call(target, method as keyof RemoteApi[T] & string, args as MethodArgs<RemoteApi[T][keyof RemoteApi[T]]>);
+            }
+        }) as Remote<RemoteApi[T]>;
+    }
+
+    /**
+     * Stop listening and fail every call still waiting for a response
+     */
+    dispose(): void {
+        this.port.onmessage = null;
+        for (const { reject } of this.pending.values()) {
+            reject(new Error('Worker connection closed'));
+        }
+        this.pending.clear();
+    }
+
+    private async handleMessage(message: RpcMessage): Promise<void> {
+        if (message.type === 'response') {
+            const pending = this.pending.get(message.id);
+            if (!pending) return;
+            this.pending.delete(message.id);
+
+            if (message.error) {
+                const error = new Error(message.error.message);
+                error.name = message.error.name;
+                error.stack = message.error.stack;
+                pending.reject(error);
+            } else {
+                pending.resolve(message.result);
+            }
+            return;
+        }
+
+        const response: RpcResponse = { type: 'response', id: message.id };
+        try {
+            const handler = this.handlers[message.target as keyof LocalApi] as Record<string, unknown> | undefined;
+            const method = handler?.[message.method];
+            if (typeof method !== 'function') {
+                throw new Error(`Unknown method ${message.target}.${message.method}`);
+            }
+            response.result = await method.apply(handler, message.args);
+        } catch (error) {
+            const cause = error instanceof Error ? error : new Error(String(error));
+            response.error = { name: cause.name, message: cause.message, stack: cause.stack };
+        }
+
+        try {
+            this.port.postMessage(response);
+        } catch (error) {
+            // The result could not be cloned across the boundary; report that instead of hanging the caller
+            const cause = error instanceof Error ? error : new Error(String(error));
+            this.port.postMessage({ type: 'response', id: message.id, error: { name: cause.name, message: cause.message, stack: cause.stack } });
+        }
+    }
+}
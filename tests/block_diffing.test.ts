@@ -0,0 +1,165 @@
+/**
+ * Tests for keeping block identity across note edits
+ * Uses a REAL in-memory sql.js database and the same steps as processOneFileIntoDatabase
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+import { SqlJsDatabaseAdapter, DatabaseService, VectorType } from '../src/database_service';
+import { Block, BlockType } from '../src/note_processor';
+import { embedder, openTestDatabase } from './mocks/indexing-mock';
+
+type BlockSpec = string | { content: string; obsidianId?: string; type?: BlockType };
+
+// Blocks laid out like Obsidian's sections: one per paragraph, separated by a blank line
+function layout(specs: BlockSpec[]): { text: string; blocks: Block[] } {
+    let offset = 0;
+    let line = 0;
+    const blocks = specs.map(spec => {
+        const { content, obsidianId, type } = typeof spec === 'string' ? { content: spec, obsidianId: undefined, type: undefined } : spec;
+        const block: Block = {
+            id: '',
+            type: type ?? BlockType.PARAGRAPH,
+            content,
+            obsidian_id: obsidianId ?? null,
+            start_position: { line, col: 0, offset },
+            end_position: { line, col: content.length, offset: offset + content.length }
+        };
+        offset += content.length + 2;
+        line += 2;
+        return block;
+    });
+    return { text: specs.map(spec => typeof spec === 'string' ? spec : spec.content).join('\n\n'), blocks };
+}
+
+describe('Block diffing', () => {
+    let adapter: SqlJsDatabaseAdapter;
+    let databaseService: DatabaseService;
+    let model: ReturnType<typeof embedder>;
+
+    // Same steps as processOneFileIntoDatabase for a changed note
+    async function save(specs: BlockSpec[]) {
+        const { text, blocks } = layout(specs);
+        const { noteId } = await databaseService.upsertNote('garden.md', 'garden.md', 'garden', text);
+        const result = await databaseService.insertBlocksForNote(noteId, blocks);
+        await databaseService.deleteNoteLevelVectors(noteId);
+        await databaseService.processNoteVector(noteId, model);
+        await databaseService.processBlockVectors(noteId, result.changedBlockIds, model);
+        return { noteId, ...result };
+    }
+
+    async function blockState(noteId: string) {
+        const blocks = await databaseService.getBlocksForNote(noteId);
+        const vectors = await databaseService.getVectorsForNote(noteId);
+        return blocks.map(block => ({
+            id: block.id,
+            content: block.content,
+            line: block.start_position.line,
+            vectorIds: vectors.filter(vector => vector.block_id === block.id).map(vector => vector.id)
+        }));
+    }
+
+    async function ftsBlockIds(): Promise<string[]> {
+        const rows = await adapter.query("SELECT block_id FROM fts_content WHERE type = 'block' ORDER BY block_id");
+        return rows.map(row => row.block_id as string);
+    }
+
+    beforeEach(async () => {
+        ({ adapter, databaseService } = await openTestDatabase());
+        model = embedder();
+    });
+
+    afterEach(async () => {
+        await adapter.close();
+    });
+
+    it('keeps ids, vectors and full-text rows of untouched blocks when one is edited', async () => {
+        const first = await save(['Tomatoes need full sun.', 'Basil likes warm soil.', 'Water every morning.']);
+        const before = await blockState(first.noteId);
+        model.embedTexts.mockClear();
+
+        const second = await save(['Tomatoes need full sun.', 'Basil likes warm, rich soil.', 'Water every morning.']);
+
+        const after = await blockState(second.noteId);
+        expect(second.blockIds).toEqual(first.blockIds);
+        expect(second.changedBlockIds).toEqual([first.blockIds[1]]);
+        expect(model.embedTexts).toHaveBeenCalledWith(['Basil likes warm, rich soil.']);
+        expect(after[0].vectorIds).toEqual(before[0].vectorIds);
+        expect(after[2].vectorIds).toEqual(before[2].vectorIds);
+        expect(after[1].vectorIds).toHaveLength(1);
+        expect(after[1].vectorIds).not.toEqual(before[1].vectorIds);
+        expect(await ftsBlockIds()).toEqual([...first.blockIds].sort());
+        const [hit] = await databaseService.searchFTS('rich', 5);
+        expect(hit.blockId).toBe(first.blockIds[1]);
+    });
+
+    it('keeps ids of moved blocks without re-embedding them', async () => {
+        const first = await save(['Alpha paragraph text.', 'Beta paragraph text.', 'Gamma paragraph text.']);
+        model.embedTexts.mockClear();
+
+        const second = await save(['New opening paragraph.', 'Gamma paragraph text.', 'Alpha paragraph text.', 'Beta paragraph text.']);
+
+        expect(second.blockIds.slice(1)).toEqual([first.blockIds[2], first.blockIds[0], first.blockIds[1]]);
+        expect(second.changedBlockIds).toEqual([second.blockIds[0]]);
+        expect(model.embedTexts).toHaveBeenCalledWith(['New opening paragraph.']);
+        // Positions follow the move, so blocks come back in document order
+        expect((await blockState(second.noteId)).map(block => [block.content, block.line])).toEqual([
+            ['New opening paragraph.', 0],
+            ['Gamma paragraph text.', 2],
+            ['Alpha paragraph text.', 4],
+            ['Beta paragraph text.', 6]
+        ]);
+    });
+
+    it('follows an Obsidian block id through edits and moves', async () => {
+        const first = await save(['Intro text here.', { content: 'Quoted claim ^claim', obsidianId: 'claim' }]);
+
+        const second = await save([{ content: 'Revised claim, moved up ^claim', obsidianId: 'claim' }, 'Intro text here.']);
+
+        expect(second.blockIds).toEqual([first.blockIds[1], first.blockIds[0]]);
+        expect(second.changedBlockIds).toEqual([first.blockIds[1]]);
+    });
+
+    it('deletes removed blocks with their vectors and full-text rows', async () => {
+        const first = await save(['Keep this paragraph.', 'Remove this paragraph.']);
+
+        const second = await save(['Keep this paragraph.']);
+
+        expect(second.blockIds).toEqual([first.blockIds[0]]);
+        expect(second.changedBlockIds).toEqual([]);
+        expect(await databaseService.getBlocksForNote(second.noteId)).toHaveLength(1);
+        const blockVectors = (await databaseService.getVectorsForNote(second.noteId)).filter(vector => vector.type === VectorType.BLOCK);
+        expect(blockVectors.map(vector => vector.block_id)).toEqual([first.blockIds[0]]);
+        expect(await ftsBlockIds()).toEqual([first.blockIds[0]]);
+    });
+
+    it('replaces the note vector on every change', async () => {
+        const first = await save(['Only paragraph, first version.']);
+        const noteVector = async () => (await databaseService.getVectorsForNote(first.noteId)).filter(vector => vector.type === VectorType.NOTE);
+        const before = await noteVector();
+
+        await save(['Only paragraph, first version.', 'An added paragraph.']);
+
+        const after = await noteVector();
+        expect(after).toHaveLength(1);
+        expect(after[0].id).not.toBe(before[0].id);
+        expect((await adapter.query("SELECT id FROM fts_content WHERE type = 'note'"))).toHaveLength(1);
+    });
+
+    it('matches repeated text to the nearest copy', async () => {
+        const first = await save(['Repeated line of text.', 'Something in between.', 'Repeated line of text.']);
+
+        const second = await save(['Something in between.', 'Repeated line of text.']);
+
+        // The copy that was nearer the new position survives, the other one is removed
+        expect(second.blockIds).toEqual([first.blockIds[1], first.blockIds[0]]);
+        expect(second.changedBlockIds).toEqual([]);
+    });
+});
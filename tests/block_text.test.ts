@@ -0,0 +1,140 @@
+/**
+ * Tests for indexing code, tables, callouts, math and footnotes
+ * Uses a REAL in-memory sql.js database and the same steps as processOneFileIntoDatabase
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+import { SqlJsDatabaseAdapter, DatabaseService, VectorType } from '../src/database_service';
+import { Block, BlockType } from '../src/note_processor';
+import { blockIndexText, parseCallout, parseTable } from '../src/block_text';
+import { SearchService } from '../src/search_service';
+import { embedder, mockLogger, openTestDatabase } from './mocks/indexing-mock';
+
+const CODE = '```python\ndef harvest(hive):\n    return hive.frames\n```';
+const TABLE = '| Hive | Queen | Frames |\n| --- | :-: | --- |\n| North | marked | 10 |\n| South | a \\| b |  |';
+const CALLOUT = '> [!warning] Swarm season\n> Check for queen cells\n> every week.';
+const MATH = '$$\n\\frac{honey}{frames}\n$$';
+const FOOTNOTE = '[^1]: Langstroth, 1853.';
+
+describe('Block text', () => {
+    it('tags code with its language', () => {
+        expect(blockIndexText({ type: BlockType.CODE, content: CODE })).toBe('Code (python):\ndef harvest(hive):\n    return hive.frames');
+        expect(blockIndexText({ type: BlockType.CODE, content: '```\nls -la\n```' })).toBe('Code:\nls -la');
+    });
+
+    it('linearises table rows against their headers', () => {
+        expect(parseTable(TABLE)).toEqual([['Hive', 'Queen', 'Frames'], ['North', 'marked', '10'], ['South', 'a | b', '']]);
+        expect(blockIndexText({ type: BlockType.TABLE, content: TABLE })).toBe(
+            'Hive: North; Queen: marked; Frames: 10\nHive: South; Queen: a | b'
+        );
+    });
+
+    it('keeps callout titles and bodies without their markers', () => {
+        expect(parseCallout(CALLOUT)).toEqual({ kind: 'warning', title: 'Swarm season', body: 'Check for queen cells\nevery week.' });
+        expect(parseCallout('> [!tip]-\n> Smoke calms bees.').title).toBe('Tip');
+        expect(blockIndexText({ type: BlockType.CALLOUT, content: CALLOUT })).toBe('Swarm season\n\nCheck for queen cells\nevery week.');
+    });
+
+    it('strips math delimiters and footnote labels', () => {
+        expect(blockIndexText({ type: BlockType.MATH, content: MATH })).toBe('\\frac{honey}{frames}');
+        expect(blockIndexText({ type: BlockType.FOOTNOTE, content: FOOTNOTE })).toBe('Langstroth, 1853.');
+    });
+});
+
+describe('Block type indexing', () => {
+    let adapter: SqlJsDatabaseAdapter;
+    let databaseService: DatabaseService;
+    let model: ReturnType<typeof embedder>;
+
+    // Blocks laid out like Obsidian's sections, separated by a blank line
+    async function save(specs: { type: BlockType; content: string }[]) {
+        let offset = 0;
+        let line = 0;
+        const blocks: Block[] = specs.map(({ type, content }) => {
+            const lines = content.split('\n').length;
+            const block: Block = {
+                id: '',
+                type,
+                content,
+                obsidian_id: null,
+                start_position: { line, col: 0, offset },
+                end_position: { line: line + lines - 1, col: 0, offset: offset + content.length }
+            };
+            offset += content.length + 2;
+            line += lines + 1;
+            return block;
+        });
+        const text = specs.map(spec => spec.content).join('\n\n');
+        const { noteId } = await databaseService.upsertNote('hives.md', 'hives.md', 'hives', text);
+        const result = await databaseService.insertBlocksForNote(noteId, blocks);
+        await databaseService.deleteNoteLevelVectors(noteId);
+        await databaseService.processNoteVector(noteId, model);
+        await databaseService.processBlockVectors(noteId, result.changedBlockIds, model);
+        return { noteId, ...result };
+    }
+
+    async function blockVectorIds(): Promise<string[]> {
+        const rows = await adapter.query('SELECT block_id FROM vectors WHERE type = ?', [VectorType.BLOCK]);
+        return rows.map(row => row.block_id as string);
+    }
+
+    beforeEach(async () => {
+        ({ adapter, databaseService } = await openTestDatabase());
+        model = embedder();
+    });
+
+    afterEach(async () => {
+        await adapter.close();
+    });
+
+    it('embeds structured blocks as normalised text and keeps math for full-text search only', async () => {
+        const { blockIds } = await save([
+            { type: BlockType.CODE, content: CODE },
+            { type: BlockType.TABLE, content: TABLE },
+            { type: BlockType.MATH, content: MATH },
+            { type: BlockType.RULE, content: '---' }
+        ]);
+
+        expect(model.embedTexts).toHaveBeenCalledWith([
+            'Code (python):\ndef harvest(hive):\n    return hive.frames',
+            'Hive: North; Queen: marked; Frames: 10\nHive: South; Queen: a | b'
+        ]);
+        expect((await blockVectorIds()).sort()).toEqual([blockIds[0], blockIds[1]].sort());
+        const [mathHit] = await databaseService.searchFTS('frac', 5);
+        expect(mathHit.blockId).toBe(blockIds[2]);
+        expect((await databaseService.searchFTS('python', 5)).filter(hit => hit.type === 'block').map(hit => hit.blockId)).toEqual([blockIds[0]]);
+        // Rules are structure only
+        expect((await adapter.query("SELECT block_id FROM fts_content WHERE type = 'block'")).map(row => row.block_id)).not.toContain(blockIds[3]);
+    });
+
+    it('leaves out block types that are switched off', async () => {
+        databaseService.setIndexedBlockTypes([BlockType.PARAGRAPH]);
+
+        const { blockIds } = await save([
+            { type: BlockType.PARAGRAPH, content: 'Bees forage for miles.' },
+            { type: BlockType.CALLOUT, content: CALLOUT }
+        ]);
+
+        expect(await blockVectorIds()).toEqual([blockIds[0]]);
+        expect((await databaseService.searchFTS('queen', 5)).some(hit => hit.type === 'block')).toBe(false);
+    });
+
+    it('returns full-text hits as written, with their block type', async () => {
+        const { blockIds } = await save([{ type: BlockType.MATH, content: MATH }]);
+        const searchService = new SearchService(databaseService, model, mockLogger as any);
+
+        const results = await searchService.hybridSearch('frac', { minScore: 0 });
+
+        const mathResult = results.find(result => result.blockId === blockIds[0])!;
+        expect(mathResult.text).toBe(MATH);
+        expect(mathResult.blockType).toBe(BlockType.MATH);
+    });
+});
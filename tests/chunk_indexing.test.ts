@@ -0,0 +1,178 @@
+/**
+ * Tests for chunking notes and blocks too long for the embedding model
+ * Uses a REAL in-memory sql.js database and the same steps as processOneFileIntoDatabase
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+// One token per space-separated word, decoding back to the original words
+vi.mock('tiktoken', () => {
+    const vocabulary: string[] = [];
+    return {
+        get_encoding: () => ({
+            encode: (text: string) => text.split(' ').map(word => {
+                const index = vocabulary.indexOf(word);
+                return index >= 0 ? index : vocabulary.push(word) - 1;
+            }),
+            decode: (tokens: number[]) => tokens.map(token => vocabulary[token]).join(' '),
+            free: () => {}
+        })
+    };
+});
+
+import { ChunkingService } from '../src/chunking_service';
+import { SqlJsDatabaseAdapter, DatabaseService, VectorType } from '../src/database_service';
+import { Block, BlockType } from '../src/note_processor';
+import { DEFAULT_INDEXED_BLOCK_TYPES, isEmbeddedBlockType } from '../src/block_text';
+import { SearchService } from '../src/search_service';
+import { embedder, mockLogger, openTestDatabase } from './mocks/indexing-mock';
+
+const TOKEN_LIMIT = 40;
+
+function words(topic: string, count: number): string {
+    return Array.from({ length: count }, (_, i) => `${topic}${i}`).join(' ');
+}
+
+// Blocks laid out like Obsidian's sections: one per paragraph, separated by a blank line
+function layout(paragraphs: string[]): { text: string; blocks: Block[] } {
+    let offset = 0;
+    const blocks = paragraphs.map((content, i) => {
+        const block: Block = {
+            id: '',
+            type: BlockType.PARAGRAPH,
+            content,
+            obsidian_id: null,
+            start_position: { line: i * 2, col: 0, offset },
+            end_position: { line: i * 2, col: content.length, offset: offset + content.length }
+        };
+        offset += content.length + 2;
+        return block;
+    });
+    return { text: paragraphs.join('\n\n'), blocks };
+}
+
+describe('Chunk indexing', () => {
+    let adapter: SqlJsDatabaseAdapter;
+    let databaseService: DatabaseService;
+    let chunkingService: ChunkingService;
+    let model: ReturnType<typeof embedder>;
+
+    // Same steps as processOneFileIntoDatabase for a changed note
+    async function save(paragraphs: string[]) {
+        const { text, blocks } = layout(paragraphs);
+        const { noteId } = await databaseService.upsertNote('essay.md', 'essay.md', 'essay', text);
+        const result = await databaseService.insertBlocksForNote(noteId, blocks);
+        await databaseService.deleteNoteLevelVectors(noteId);
+
+        const changed = new Set(result.changedBlockIds);
+        const changedBlocks = blocks
+            .map((block, i) => ({ ...block, id: result.blockIds[i] }))
+            .filter(block => changed.has(block.id) && isEmbeddedBlockType(block.type, DEFAULT_INDEXED_BLOCK_TYPES));
+        const chunkIds = await databaseService.insertChunksForNote(noteId, await chunkingService.chunkNote(text, changedBlocks, TOKEN_LIMIT));
+
+        await databaseService.processChunkVectors(noteId, chunkIds, model);
+        await databaseService.processNoteVector(noteId, model);
+        await databaseService.processBlockVectors(noteId, result.changedBlockIds, model);
+        return { noteId, text, ...result };
+    }
+
+    beforeEach(async () => {
+        ({ adapter, databaseService } = await openTestDatabase());
+        chunkingService = new ChunkingService(16, 4, {} as any, mockLogger as any);
+        model = embedder();
+    });
+
+    afterEach(async () => {
+        await adapter.close();
+        chunkingService.dispose();
+    });
+
+    it('leaves notes that fit the model unchunked', async () => {
+        const { noteId } = await save(['A short note about soil.', 'And a second paragraph.']);
+
+        expect(await databaseService.getChunksForNote(noteId)).toEqual([]);
+        expect(model.embedText).toHaveBeenCalledWith('A short note about soil.\n\nAnd a second paragraph.');
+    });
+
+    it('chunks a long note and builds its note vector from the chunk vectors', async () => {
+        const { noteId, text } = await save([words('soil', 20), words('compost', 20), words('mulch', 20)]);
+
+        const noteChunks = (await databaseService.getChunksForNote(noteId)).filter(chunk => !chunk.block_id);
+        expect(noteChunks.length).toBeGreaterThan(1);
+        for (const chunk of noteChunks) {
+            expect(text.substring(chunk.start_position!.offset, chunk.end_position!.offset)).toBe(chunk.text);
+        }
+        // The chunk starting in the third paragraph knows its line
+        const mulch = noteChunks.find(chunk => chunk.text.startsWith('mulch'))!;
+        expect(mulch.start_position).toMatchObject({ line: 4, col: words('mulch', 20).indexOf(mulch.text.split(' ')[0]) });
+
+        // The whole note is never sent to the model, it would be truncated
+        expect(model.embedText).not.toHaveBeenCalled();
+        const vectors = await databaseService.getVectorsForNote(noteId);
+        expect(vectors.filter(vector => vector.type === VectorType.CHUNK)).toHaveLength(noteChunks.length);
+        expect(vectors.filter(vector => vector.type === VectorType.NOTE)).toHaveLength(1);
+    });
+
+    it('represents an oversized block by its chunks and keeps them while other blocks change', async () => {
+        const long = words('hive', 50);
+        const first = await save(['Bees need water nearby.', long]);
+
+        const blockChunks = (await databaseService.getChunksForNote(first.noteId)).filter(chunk => chunk.block_id === first.blockIds[1]);
+        expect(blockChunks.length).toBeGreaterThan(1);
+        expect(blockChunks[0].start_position).toEqual({ line: 2, col: 0, offset: 'Bees need water nearby.\n\n'.length });
+        const blockVectors = (await databaseService.getVectorsForNote(first.noteId)).filter(vector => vector.block_id === first.blockIds[1]);
+        expect(blockVectors).toEqual([]);
+        // Still found by full-text search
+        const [hit] = await databaseService.searchFTS('hive7', 5);
+        expect(hit.blockId).toBe(first.blockIds[1]);
+
+        model.embedTexts.mockClear();
+        const second = await save(['Bees need fresh water nearby.', long]);
+
+        const kept = (await databaseService.getChunksForNote(second.noteId)).filter(chunk => chunk.block_id === first.blockIds[1]);
+        expect(kept.map(chunk => chunk.id)).toEqual(blockChunks.map(chunk => chunk.id));
+        const embedded = model.embedTexts.mock.calls.flat(2);
+        expect(embedded).toContain('Bees need fresh water nearby.');
+        expect(blockChunks.some(chunk => embedded.includes(chunk.text))).toBe(false);
+    });
+
+    it('drops the chunks and chunk vectors of a block that is edited or removed', async () => {
+        const first = await save(['Intro line.', words('hive', 50)]);
+
+        const second = await save(['Intro line.', words('swarm', 50)]);
+
+        const chunks = await databaseService.getChunksForNote(second.noteId);
+        expect(chunks.some(chunk => chunk.text.includes('hive'))).toBe(false);
+        expect(chunks.some(chunk => chunk.text.includes('swarm'))).toBe(true);
+        const chunkIds = new Set(chunks.map(chunk => chunk.id));
+        const chunkVectors = (await databaseService.getVectorsForNote(second.noteId)).filter(vector => vector.type === VectorType.CHUNK);
+        expect(chunkVectors.every(vector => chunkIds.has(vector.chunk_id!))).toBe(true);
+
+        const third = await save(['Intro line.']);
+
+        expect(await databaseService.getChunksForNote(third.noteId)).toEqual([]);
+        expect((await databaseService.getVectorsForNote(third.noteId)).some(vector => vector.type === VectorType.CHUNK)).toBe(false);
+        expect(first.blockIds[0]).toBe(third.blockIds[0]);
+    });
+
+    it('finds chunks in search with their position in the note', async () => {
+        const { noteId, text, blockIds } = await save(['Bees need water nearby.', words('hive', 50)]);
+        const searchService = new SearchService(databaseService, model, mockLogger as any);
+        const chunk = (await databaseService.getChunksForNote(noteId)).filter(chunk => chunk.block_id === blockIds[1])[1];
+
+        const results = await searchService.vectorSearch(chunk.text, { includeChunkVectors: true, minScore: 0 });
+
+        const [top] = results;
+        expect(top.type).toBe(VectorType.CHUNK);
+        expect(top.chunkId).toBe(chunk.id);
+        expect(top.text).toBe(chunk.text);
+        expect(text.substring(top.blockStartPosition!.offset, top.blockEndPosition!.offset)).toBe(chunk.text);
+    });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for the chunking strategies
+ * Uses a stand-in tokenizer with one token per word or run of whitespace
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect } from 'vitest';
+import { MarkdownChunkingStrategy, TextChunk, TokenWindowChunkingStrategy, Tokenizer } from '../src/chunking_strategy';
+
+const mockLogger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    setLevel: vi.fn()
+};
+
+function wordTokenizer(): Tokenizer {
+    const vocabulary: string[] = [];
+    return {
+        encode: text => Uint32Array.from((text.match(/\s+|\S+/g) ?? []).map(piece => {
+            const index = vocabulary.indexOf(piece);
+            return index >= 0 ? index : vocabulary.push(piece) - 1;
+        })),
+        decode: tokens => Array.from(tokens).map(token => vocabulary[token]).join('')
+    };
+}
+
+function expectExactOffsets(text: string, chunks: TextChunk[]): void {
+    for (const chunk of chunks) {
+        expect(text.substring(chunk.startIndex, chunk.endIndex)).toBe(chunk.text);
+    }
+}
+
+describe('MarkdownChunkingStrategy', () => {
+    const strategy = new MarkdownChunkingStrategy(mockLogger as any);
+
+    it('returns short text as a single chunk', () => {
+        const text = '# Title\n\nOne short paragraph.';
+
+        expect(strategy.chunk(text, wordTokenizer(), 50, 0)).toEqual([
+            { text, startIndex: 0, endIndex: text.length, tokenCount: 9 }
+        ]);
+    });
+
+    it('ends chunks between sentences', () => {
+        const text = 'Bees gather nectar from flowers. They turn it into honey! Does the hive need water? '
+            + 'Keepers check the frames weekly. Swarms happen in spring.';
+
+        const chunks = strategy.chunk(text, wordTokenizer(), 20, 0);
+
+        expect(chunks.map(chunk => chunk.text)).toEqual([
+            'Bees gather nectar from flowers. They turn it into honey!',
+            'Does the hive need water? Keepers check the frames weekly.',
+            'Swarms happen in spring.'
+        ]);
+        expectExactOffsets(text, chunks);
+        expect(chunks.every(chunk => chunk.tokenCount <= 20)).toBe(true);
+    });
+
+    it('never lets a chunk run across a heading', () => {
+        const text = '# Bees\n\nBees make honey. Bees make wax.\n\n## Hives\n\nHives hold frames. Frames hold comb.';
+
+        const chunks = strategy.chunk(text, wordTokenizer(), 24, 0);
+
+        expect(chunks.map(chunk => chunk.text)).toEqual([
+            '# Bees\n\nBees make honey. Bees make wax.',
+            '## Hives\n\nHives hold frames. Frames hold comb.'
+        ]);
+        expectExactOffsets(text, chunks);
+    });
+
+    it('keeps list items and code blocks whole', () => {
+        const text = [
+            'Supplies for the season:',
+            '- a smoker with',
+            '  plenty of fuel',
+            '- a hive tool',
+            '- a veil and gloves',
+            '',
+            '```',
+            'inspect(hive);',
+            'log(frames);',
+            '```'
+        ].join('\n');
+
+        const chunks = strategy.chunk(text, wordTokenizer(), 22, 0);
+
+        expect(chunks.map(chunk => chunk.text)).toEqual([
+            'Supplies for the season:\n- a smoker with\n  plenty of fuel',
+            '- a hive tool\n- a veil and gloves',
+            '```\ninspect(hive);\nlog(frames);\n```'
+        ]);
+        expectExactOffsets(text, chunks);
+    });
+
+    it('repeats trailing sentences that fit in the overlap', () => {
+        const text = 'One two three. Four five six. Seven eight nine. Ten eleven twelve.';
+
+        const chunks = strategy.chunk(text, wordTokenizer(), 12, 6);
+
+        expect(chunks.map(chunk => chunk.text)).toEqual([
+            'One two three. Four five six.',
+            'Four five six. Seven eight nine.',
+            'Seven eight nine. Ten eleven twelve.'
+        ]);
+    });
+
+    it('falls back to token windows for a sentence longer than a chunk, with exact offsets', () => {
+        const long = Array.from({ length: 30 }, (_, i) => `word${i}`).join(' ');
+        const text = `Intro sentence.\n\n${long}`;
+
+        const chunks = strategy.chunk(text, wordTokenizer(), 20, 4);
+
+        expect(chunks[0].text).toBe('Intro sentence.');
+        expect(chunks.length).toBeGreaterThan(2);
+        expect(chunks[1].startIndex).toBe(text.indexOf('word0'));
+        expectExactOffsets(text, chunks);
+        expect(chunks.every(chunk => chunk.tokenCount <= 20)).toBe(true);
+    });
+});
+
+describe('TokenWindowChunkingStrategy', () => {
+    const strategy = new TokenWindowChunkingStrategy(mockLogger as any);
+
+    it('finds each window in the source text, overlapping ones included', () => {
+        const text = 'alpha beta gamma alpha beta gamma alpha beta gamma';
+
+        const chunks = strategy.chunk(text, wordTokenizer(), 6, 2);
+
+        expect(chunks.map(chunk => chunk.startIndex)).toEqual([0, 11, 23, 34, 45]);
+        expectExactOffsets(text, chunks);
+    });
+
+    it('drops characters split at a window edge instead of guessing positions', () => {
+        const tokenizer: Tokenizer = {
+            encode: text => Uint32Array.from(Array.from(text).map(char => char.codePointAt(0)!)),
+            // Pretend the window edges cut a multi-byte character in half
+            decode: tokens => `\uFFFD${String.fromCodePoint(...Array.from(tokens).slice(1, -1))}\uFFFD`
+        };
+        const text = 'abcdefghijkl';
+
+        const chunks = strategy.chunk(text, tokenizer, 6, 0);
+
+        expect(chunks.map(chunk => [chunk.text, chunk.startIndex, chunk.endIndex])).toEqual([['bcde', 1, 5], ['hijk', 7, 11]]);
+    });
+});
@@ -24,15 +24,25 @@ class MockDatabaseAdapter implements DatabaseAdapter {
     createVectorsTable = vi.fn().mockResolvedValue(undefined);
     createBlocksTable = vi.fn().mockResolvedValue(undefined);
     createFTSTable = vi.fn().mockResolvedValue(undefined);
+    createEmbeddingCacheTable = vi.fn().mockResolvedValue(undefined);
+    createNotePropertiesTable = vi.fn().mockResolvedValue(undefined);
     searchFTS = vi.fn().mockResolvedValue([]);
     insertFTSContent = vi.fn().mockResolvedValue(undefined);
     deleteFTSContentForNote = vi.fn().mockResolvedValue(undefined);
+    deleteFTSContent = vi.fn().mockResolvedValue(undefined);
     dropAllTables = vi.fn().mockResolvedValue(undefined);
     generateVectorIndex = vi.fn().mockResolvedValue(undefined);
     getSimilarVectors = vi.fn().mockResolvedValue([]);
     isVectorIndexAvailable = vi.fn().mockResolvedValue(false);
+    indexVector = vi.fn().mockResolvedValue(undefined);
+    removeVectorsFromIndex = vi.fn().mockResolvedValue(undefined);
+    reconcileVectorIndex = vi.fn().mockResolvedValue(undefined);
+    scanVectors = vi.fn().mockResolvedValue([]);
     save = vi.fn().mockResolvedValue(undefined);
+    flush = vi.fn().mockResolvedValue(undefined);
     load = vi.fn().mockResolvedValue(undefined);
+    transaction = vi.fn().mockImplementation(async (work: () => Promise<unknown>) => await work());
+    exclusive = vi.fn().mockImplementation(async (task: () => Promise<unknown>) => await task());
 
     execute = vi.fn().mockImplementation(async (sql: string, params?: any[]) => {
         // Mock INSERT/DELETE operations for testing
@@ -286,7 +296,7 @@ describe('DatabaseService', () => {
         });
 
         it('gets orphaned data counts', async () => {
-            const mockCounts = [5, 3, 2];
+            const mockCounts = [5, 3, 2, 4, 6];
             let callIndex = 0;
             
             (mockAdapter.get as MockedFunction<any>).mockImplementation(async () => {
@@ -298,15 +308,17 @@ describe('DatabaseService', () => {
             expect(result).toEqual({
                 orphanedVectors: 5,
                 orphanedChunks: 3,
-                orphanedChunkVectors: 2
+                orphanedChunkVectors: 2,
+                orphanedBlocks: 4,
+                orphanedFTSRows: 6
             });
         });
 
         it('performs full cleanup', async () => {
             await databaseService.performFullCleanup();
 
-            expect(mockAdapter.execute).toHaveBeenCalledTimes(3); // 3 cleanup operations
-            expect(mockAdapter.save).toHaveBeenCalledTimes(3);
+            expect(mockAdapter.execute).toHaveBeenCalledTimes(5); // 5 cleanup operations
+            expect(mockAdapter.save).toHaveBeenCalledTimes(5);
         });
     });
 
@@ -0,0 +1,134 @@
+/**
+ * Tests for the database worker and its message protocol
+ * Runs the worker side in-process over a MessageChannel with a REAL in-memory sql.js database
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+import { VectorType } from '../src/database_service';
+import { DatabaseWorker } from '../src/database_worker';
+import { VectorUtils } from '../src/embedding_service';
+import { LogLevel } from '../src/logger';
+import { VectorIndexType } from '../src/vector_index';
+import { HostApi, RpcEndpoint, WorkerApi } from '../src/worker_protocol';
+import { MockVaultAdapter } from './mocks/vault-adapter-mock';
+
+const DIMENSIONS = 16;
+
+// Deterministic stand-in for an embedding model: similar texts share leading characters
+function embed(text: string): Int8Array {
+    return VectorUtils.processVector(Array.from({ length: DIMENSIONS }, (_, i) => (text.charCodeAt(i % text.length) % 13) - 6 + 0.5));
+}
+
+describe('Database worker', () => {
+    let vault: MockVaultAdapter;
+    let embedding: { embedText: ReturnType<typeof vi.fn>; embedTexts: ReturnType<typeof vi.fn> };
+    let channels: MessageChannel[];
+
+    async function startWorker(): Promise<RpcEndpoint<HostApi, WorkerApi>> {
+        const channel = new MessageChannel();
+        channels.push(channel);
+        new DatabaseWorker(channel.port1);
+
+        const host = new RpcEndpoint<HostApi, WorkerApi>(channel.port2, {
+            vault: {
+                exists: path => vault.exists(path),
+                readBinary: path => vault.readBinary(path),
+                writeBinary: (path, data) => vault.writeBinary(path, data),
+                rename: (path, newPath) => vault.rename(path, newPath),
+                remove: path => vault.remove(path),
+                read: path => vault.read(path),
+                append: (path, data) => vault.append(path, data)
+            },
+            embedding
+        });
+        await host.call('worker', 'initialize', [{ configDir: '.obsidian', vectorIndexType: VectorIndexType.LINEAR, logLevel: LogLevel.ERROR }]);
+        return host;
+    }
+
+    async function createNote(host: RpcEndpoint<HostApi, WorkerApi>, name: string, text: string): Promise<string> {
+        const database = host.proxy('database');
+        const noteId = await database.createNote({ path: `${name}.md`, name: `${name}.md`, base_name: name, text });
+        await database.processNoteVector(noteId);
+        return noteId;
+    }
+
+    beforeEach(() => {
+        vault = new MockVaultAdapter();
+        embedding = {
+            embedText: vi.fn(async (text: string) => embed(text)),
+            embedTexts: vi.fn(async (texts: string[]) => texts.map(embed))
+        };
+        channels = [];
+    });
+
+    afterEach(() => {
+        channels.forEach(channel => {
+            channel.port1.close();
+            channel.port2.close();
+        });
+    });
+
+    it('embeds through the host and searches inside the worker', async () => {
+        const host = await startWorker();
+        await createNote(host, 'apples', 'Apples grow on trees in the orchard');
+        await createNote(host, 'zebras', 'Zebras roam across the open savanna');
+
+        const results = await host.proxy('search').vectorSearch('Apples grow on trees in the orchard', { topK: 1 });
+
+        expect(embedding.embedText).toHaveBeenCalledWith('Apples grow on trees in the orchard', 'default');
+        expect(results).toHaveLength(1);
+        expect(results[0].notePath).toBe('apples.md');
+        expect(results[0].type).toBe(VectorType.NOTE);
+    });
+
+    it('returns typed arrays intact across the boundary', async () => {
+        const host = await startWorker();
+        const noteId = await createNote(host, 'apples', 'Apples grow on trees in the orchard');
+
+        const [vector] = await host.proxy('database').getVectorsForNote(noteId);
+
+        expect(vector.vector).toBeInstanceOf(Int8Array);
+        expect(Array.from(vector.vector)).toEqual(Array.from(embed('Apples grow on trees in the orchard')));
+    });
+
+    it('rejects with the error thrown inside the worker', async () => {
+        const host = await startWorker();
+
+        await expect(host.proxy('database').processNoteVector('missing')).rejects.toThrow('Note not found');
+        await expect(host.call('adapter', 'nonexistent' as any, [] as any)).rejects.toThrow('Unknown method adapter.nonexistent');
+    });
+
+    it('persists through the host vault so a new worker picks the database up', async () => {
+        const first = await startWorker();
+        await createNote(first, 'apples', 'Apples grow on trees in the orchard');
+        await first.proxy('adapter').save();
+        await first.proxy('adapter').close();
+
+        expect(vault.files.has('.obsidian/plugins/tezcat/tezcat.db')).toBe(true);
+
+        const second = await startWorker();
+        const notes = await second.proxy('database').getAllNotes();
+        expect(notes.map(note => note.path)).toEqual(['apples.md']);
+    });
+
+    it('refuses calls before the worker is initialized and fails pending calls on dispose', async () => {
+        const channel = new MessageChannel();
+        channels.push(channel);
+        new DatabaseWorker(channel.port1);
+        const host = new RpcEndpoint<HostApi, WorkerApi>(channel.port2, {});
+
+        await expect(host.proxy('database').getAllNotes()).rejects.toThrow('Unknown method database.getAllNotes');
+
+        const pending = host.proxy('database').getAllNotes();
+        host.dispose();
+        await expect(pending).rejects.toThrow('Worker connection closed');
+    });
+});
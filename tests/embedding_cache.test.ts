@@ -0,0 +1,162 @@
+/**
+ * Tests for the content-hash embedding cache
+ * Uses a REAL in-memory sql.js database with a stand-in embedding model that counts its calls
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+import { SqlJsDatabaseAdapter, DatabaseService } from '../src/database_service';
+import { modelFingerprint } from '../src/embedding_service';
+import { Block, BlockType } from '../src/note_processor';
+import { VectorIndexType } from '../src/vector_index';
+import { DIMENSIONS, embedder, openTestDatabase } from './mocks/indexing-mock';
+
+const NOMIC = modelFingerprint('ollama', 'nomic-embed-text:v1.5', DIMENSIONS);
+const BGE = modelFingerprint('ollama', 'bge-m3', DIMENSIONS);
+
+function paragraphs(texts: string[]): Block[] {
+    return texts.map(content => ({
+        id: '',
+        type: BlockType.PARAGRAPH,
+        content,
+        obsidian_id: null,
+        start_position: { line: 0, col: 0, offset: 0 },
+        end_position: { line: 0, col: content.length, offset: content.length }
+    }));
+}
+
+describe('Embedding cache', () => {
+    let adapter: SqlJsDatabaseAdapter;
+    let databaseService: DatabaseService;
+    let model: ReturnType<typeof embedder>;
+
+    // Drop all of a note's vectors and embed every block again, as re-embedding a note does
+    async function indexNote(path: string, texts: string[]): Promise<string> {
+        const text = texts.join('\n\n');
+        const { noteId } = await databaseService.upsertNote(path, path, path.replace('.md', ''), text);
+        const { blockIds } = await databaseService.insertBlocksForNote(noteId, paragraphs(texts));
+        await databaseService.deleteVectorsForNote(noteId);
+        await databaseService.processNoteVector(noteId, model);
+        await databaseService.processBlockVectors(noteId, blockIds, model);
+        return noteId;
+    }
+
+    beforeEach(async () => {
+        ({ adapter, databaseService } = await openTestDatabase());
+        databaseService.setModelFingerprint(NOMIC);
+        model = embedder(3);
+    });
+
+    afterEach(async () => {
+        await adapter.close();
+    });
+
+    it('only embeds the blocks whose text changed', async () => {
+        await indexNote('garden.md', ['Tomatoes need full sun all day.', 'Basil grows well next to tomatoes.', 'Water the beds each morning.']);
+        model.embedTexts.mockClear();
+        model.embedText.mockClear();
+
+        const noteId = await indexNote('garden.md', ['Tomatoes need full sun all day.', 'Mint spreads quickly if left alone.', 'Water the beds each morning.']);
+
+        expect(model.embedTexts).toHaveBeenCalledTimes(1);
+        expect(model.embedTexts).toHaveBeenCalledWith(['Mint spreads quickly if left alone.']);
+        // The whole note changed, so its vector is embedded again
+        expect(model.embedText).toHaveBeenCalledTimes(1);
+
+        const blocks = await databaseService.getBlocksForNote(noteId);
+        const vectors = await databaseService.getVectorsForNote(noteId);
+        const blockVector = (content: string) => vectors.find(vector => vector.block_id === blocks.find(block => block.content === content)!.id)!.vector;
+        expect(blockVector('Tomatoes need full sun all day.')).toEqual(await model.embedText('Tomatoes need full sun all day.'));
+        expect(blockVector('Mint spreads quickly if left alone.')).toEqual(await model.embedText('Mint spreads quickly if left alone.'));
+    });
+
+    it('embeds identical text once, across blocks and notes', async () => {
+        await indexNote('a.md', ['Shared paragraph about bees.', 'Shared paragraph about bees.']);
+        await indexNote('b.md', ['Shared paragraph about bees.', 'Only in the second note.']);
+
+        expect(model.embedTexts.mock.calls).toEqual([
+            [['Shared paragraph about bees.']],
+            [['Only in the second note.']]
+        ]);
+        const stats = await databaseService.getEmbeddingCacheStats();
+        expect(stats).toMatchObject({ hits: 2, misses: 2 + 2 }); // Plus one miss per note vector
+    });
+
+    it('keeps vectors of different models apart', async () => {
+        const texts = ['Honey is harvested in late summer.', 'Bees swarm in spring.'];
+        await indexNote('a.md', texts);
+        model.embedTexts.mockClear();
+
+        databaseService.setModelFingerprint(BGE);
+        await indexNote('a.md', texts);
+
+        expect(model.embedTexts).toHaveBeenCalledWith(texts);
+        const rows = await adapter.query('SELECT fingerprint, COUNT(*) as count FROM embedding_cache GROUP BY fingerprint ORDER BY fingerprint');
+        expect(rows).toEqual([{ fingerprint: BGE, count: 3 }, { fingerprint: NOMIC, count: 3 }]);
+    });
+
+    it('evicts the least recently used entries beyond the limit', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        try {
+            databaseService.setEmbeddingCacheLimit(2);
+            // Single-paragraph notes: the note and its block share one cache entry
+            vi.setSystemTime(new Date('2026-01-01T10:00:00Z'));
+            await indexNote('alpha.md', ['Alpha paragraph text.']);
+            vi.setSystemTime(new Date('2026-01-01T10:01:00Z'));
+            await indexNote('beta.md', ['Beta paragraph text.']);
+            vi.setSystemTime(new Date('2026-01-01T10:02:00Z'));
+            await indexNote('alpha-copy.md', ['Alpha paragraph text.']);
+            vi.setSystemTime(new Date('2026-01-01T10:03:00Z'));
+            await indexNote('gamma.md', ['Gamma paragraph text.']);
+        } finally {
+            vi.useRealTimers();
+        }
+        model.embedText.mockClear();
+
+        await indexNote('alpha-again.md', ['Alpha paragraph text.']);
+        await indexNote('beta-again.md', ['Beta paragraph text.']);
+
+        // Beta was the least recently used when Gamma arrived
+        expect(model.embedText.mock.calls).toEqual([['Beta paragraph text.']]);
+        const stats = await databaseService.getEmbeddingCacheStats();
+        expect(stats.entries).toBe(2);
+        expect(stats.evictions).toBe(2);
+    });
+
+    it('is bypassed without a model fingerprint or with a limit of 0', async () => {
+        databaseService.setModelFingerprint(null);
+        await indexNote('a.md', ['Unstamped vectors are not cached.']);
+        databaseService.setModelFingerprint(NOMIC);
+        databaseService.setEmbeddingCacheLimit(0);
+        await indexNote('b.md', ['Caching is turned off.']);
+
+        expect((await databaseService.getEmbeddingCacheStats()).entries).toBe(0);
+    });
+
+    it('survives a database rebuild', async () => {
+        adapter.setVectorIndexType(VectorIndexType.LINEAR);
+        await indexNote('a.md', ['Kept across rebuilds.']);
+        await adapter.dropAllTables();
+        await adapter.createNotesTable();
+        await adapter.createChunksTable();
+        await adapter.createVectorsTable();
+        await adapter.createBlocksTable();
+        await adapter.createFTSTable();
+        model.embedText.mockClear();
+        model.embedTexts.mockClear();
+
+        await indexNote('a.md', ['Kept across rebuilds.']);
+
+        expect(model.embedText).not.toHaveBeenCalled();
+        expect(model.embedTexts).not.toHaveBeenCalled();
+        const stats = await databaseService.getVectorDatabaseStats();
+        expect(stats.embeddingCache).toEqual({ entries: 1, hits: 3, misses: 1, evictions: 0 });
+    });
+});
@@ -0,0 +1,160 @@
+/**
+ * Tests for multiple embedding spaces sharing one database
+ * Uses a REAL in-memory sql.js database with two stand-in embedding models
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+import { SqlJsDatabaseAdapter, DatabaseService, VectorType } from '../src/database_service';
+import { DEFAULT_SPACE_ID, spaceIdFromName, spaceTableName } from '../src/embedding_space';
+import { BlockType } from '../src/note_processor';
+import { SearchService } from '../src/search_service';
+import { embedder, mockLogger, openTestDatabase } from './mocks/indexing-mock';
+
+const BGE = 'bge_m3';
+const NOMIC_DIMENSIONS = 16;
+const BGE_DIMENSIONS = 24;
+
+describe('Embedding spaces', () => {
+    let adapter: SqlJsDatabaseAdapter;
+    let databaseService: DatabaseService;
+    let nomic: ReturnType<typeof embedder>;
+    let bge: ReturnType<typeof embedder>;
+
+    async function indexNote(name: string, text: string): Promise<string> {
+        const noteId = await databaseService.createNote({ path: `${name}.md`, name: `${name}.md`, base_name: name, text });
+        const { blockIds } = await databaseService.insertBlocksForNote(noteId, [{
+            id: '',
+            type: BlockType.PARAGRAPH,
+            content: text,
+            obsidian_id: null,
+            start_position: { line: 0, col: 0, offset: 0 },
+            end_position: { line: 0, col: text.length, offset: text.length }
+        }]);
+        await databaseService.processNoteVector(noteId, nomic);
+        await databaseService.processBlockVectors(noteId, blockIds, nomic);
+        await databaseService.processNoteVector(noteId, bge, BGE);
+        await databaseService.processBlockVectors(noteId, blockIds, bge, BGE);
+        return noteId;
+    }
+
+    async function count(sql: string, params: string[] = []): Promise<number> {
+        return (await adapter.get(sql, params))?.count as number;
+    }
+
+    beforeEach(async () => {
+        ({ adapter, databaseService } = await openTestDatabase());
+        await adapter.addVectorSpace(BGE);
+        databaseService.setModelFingerprint('ollama/nomic-embed-text:v1.5/16');
+        databaseService.setModelFingerprint('ollama/bge-m3/24', BGE);
+        nomic = embedder(3, NOMIC_DIMENSIONS);
+        bge = embedder(7, BGE_DIMENSIONS);
+    });
+
+    afterEach(async () => {
+        await adapter.close();
+    });
+
+    it('derives table names and ids for spaces', () => {
+        expect(spaceTableName('lsh_buckets', DEFAULT_SPACE_ID)).toBe('lsh_buckets');
+        expect(spaceTableName('lsh_buckets', BGE)).toBe('lsh_buckets__bge_m3');
+        expect(() => spaceTableName('lsh_buckets', 'bge-m3; DROP TABLE notes')).toThrow('Invalid embedding space id');
+        expect(spaceIdFromName('BGE M3', [])).toBe('bge_m3');
+        expect(spaceIdFromName('BGE M3', ['bge_m3'])).toBe('bge_m3_2');
+        expect(spaceIdFromName('Default', [])).toBe('default_2');
+    });
+
+    it('stores each space\'s vectors with its own model and dimensions', async () => {
+        const noteId = await indexNote('apples', 'Apples grow on trees in the orchard');
+
+        const vectors = await databaseService.getVectorsForNote(noteId);
+        const bySpace = (space: string) => vectors.filter(vector => vector.space === space);
+        expect(bySpace(DEFAULT_SPACE_ID).map(vector => vector.vector.length)).toEqual([NOMIC_DIMENSIONS, NOMIC_DIMENSIONS]);
+        expect(bySpace(BGE).map(vector => vector.model)).toEqual(['ollama/bge-m3/24', 'ollama/bge-m3/24']);
+        // Full-text rows are shared, not duplicated per space
+        expect((await databaseService.getFTSTableStats()).count).toBe(2);
+    });
+
+    it('builds a separate LSH index per space', async () => {
+        await indexNote('apples', 'Apples grow on trees in the orchard');
+        await indexNote('pears', 'Pears ripen slowly on the kitchen windowsill');
+
+        await adapter.generateVectorIndex(NOMIC_DIMENSIONS, { numTables: 2 });
+        expect(await adapter.isVectorIndexAvailable(BGE)).toBe(false);
+        await adapter.generateVectorIndex(BGE_DIMENSIONS, { numTables: 3 }, BGE);
+
+        expect(await count('SELECT COUNT(*) as count FROM lsh_buckets')).toBe(4 * 2);
+        expect(await count('SELECT COUNT(*) as count FROM lsh_buckets__bge_m3')).toBe(4 * 3);
+        expect(await adapter.isVectorIndexAvailable(BGE)).toBe(true);
+    });
+
+    it('embeds queries with the space\'s model and only searches its vectors', async () => {
+        await indexNote('apples', 'Apples grow on trees in the orchard');
+        await indexNote('pears', 'Pears ripen slowly on the kitchen windowsill');
+        await adapter.generateVectorIndex(BGE_DIMENSIONS, {}, BGE);
+        const searchService = new SearchService(databaseService, nomic, mockLogger as any, () => bge);
+        nomic.embedText.mockClear();
+
+        const [result] = await searchService.vectorSearch('Pears ripen slowly on the kitchen windowsill', { topK: 1, space: BGE });
+
+        expect(result.notePath).toBe('pears.md');
+        expect(bge.embedText).toHaveBeenCalledWith('Pears ripen slowly on the kitchen windowsill');
+        expect(nomic.embedText).not.toHaveBeenCalled();
+    });
+
+    it('fills a space for a note without touching the default space', async () => {
+        const noteId = await indexNote('apples', 'Apples grow on trees in the orchard');
+        const defaultIds = (await databaseService.getVectorsForNote(noteId))
+            .filter(vector => vector.space === DEFAULT_SPACE_ID)
+            .map(vector => vector.id);
+        await databaseService.deleteVectorsForNote(noteId, BGE);
+        expect((await databaseService.getFilesWithoutVectors(BGE)).map(note => note.path)).toEqual(['apples.md']);
+
+        await databaseService.reembedNote(noteId, bge, BGE);
+
+        expect(await databaseService.getFilesWithoutVectors(BGE)).toEqual([]);
+        const vectors = await databaseService.getVectorsForNote(noteId);
+        expect(vectors.filter(vector => vector.space === DEFAULT_SPACE_ID).map(vector => vector.id)).toEqual(defaultIds);
+        expect(vectors.filter(vector => vector.space === BGE)).toHaveLength(2);
+        expect((await databaseService.getFTSTableStats()).count).toBe(2);
+    });
+
+    it('fuses rankings from several spaces', async () => {
+        await indexNote('apples', 'Apples grow on trees in the orchard');
+        await indexNote('pears', 'Pears ripen slowly on the kitchen windowsill');
+        await indexNote('zebras', 'Zebras roam across the open savanna');
+        const searchService = new SearchService(databaseService, nomic, mockLogger as any, () => bge);
+
+        const results = await searchService.fusedSpaceSearch('Zebras roam across the open savanna', [DEFAULT_SPACE_ID, BGE], {
+            topK: 3,
+            includeNoteVectors: false,
+            useVectorIndex: false
+        });
+
+        expect(results).toHaveLength(3);
+        expect(results[0].notePath).toBe('zebras.md');
+        // Ranked first by both spaces
+        expect(results[0].score).toBeCloseTo(2 / 61);
+        expect(results.every(result => result.type === VectorType.BLOCK)).toBe(true);
+    });
+
+    it('removes a space with its vectors and index tables', async () => {
+        const noteId = await indexNote('apples', 'Apples grow on trees in the orchard');
+        await adapter.generateVectorIndex(BGE_DIMENSIONS, {}, BGE);
+
+        await adapter.removeVectorSpace(BGE);
+
+        expect(adapter.getVectorSpaces()).toEqual([DEFAULT_SPACE_ID]);
+        expect(await count('SELECT COUNT(*) as count FROM vectors WHERE space = ?', [BGE])).toBe(0);
+        expect(await adapter.get("SELECT name FROM sqlite_master WHERE name = 'lsh_buckets__bge_m3'")).toBeNull();
+        expect(await databaseService.getVectorsForNote(noteId)).toHaveLength(2);
+        await expect(adapter.removeVectorSpace(DEFAULT_SPACE_ID)).rejects.toThrow('cannot be removed');
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * Tests for indexing canvases and PDFs as blocks
+ * Uses a REAL in-memory sql.js database for the storage tests
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+import type { CanvasData } from 'obsidian/canvas';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+import { SqlJsDatabaseAdapter, DatabaseService } from '../src/database_service';
+import { ExtractedFile, NoteProcessor } from '../src/note_processor';
+import { PdfJs, extractPdfPages, isIndexableFile } from '../src/file_extractors';
+import { SearchService } from '../src/search_service';
+import { embedder, mockLogger, openTestDatabase } from './mocks/indexing-mock';
+
+const CANVAS: CanvasData = {
+    nodes: [
+        { id: 'risks', type: 'group', label: 'Risks', x: 0, y: 0, width: 500, height: 400 },
+        { id: 'funding', type: 'text', text: 'Funding may slip', x: 20, y: 200, width: 200, height: 60 },
+        { id: 'hiring', type: 'text', text: 'Hiring is slow', x: 260, y: 40, width: 200, height: 60 },
+        { id: 'goal', type: 'text', text: '## Goal\n\nShip in spring', x: 600, y: 0, width: 200, height: 100 },
+        { id: 'empty', type: 'text', text: '   ', x: 600, y: 300, width: 200, height: 60 },
+        { id: 'file', type: 'file', file: 'Plan.md', x: 900, y: 0, width: 200, height: 100 }
+    ],
+    edges: []
+};
+
+function expectExactPositions(extracted: ExtractedFile): void {
+    for (const block of extracted.blocks) {
+        expect(extracted.content.substring(block.start_position.offset, block.end_position.offset)).toBe(block.content);
+    }
+}
+
+describe('Canvas and PDF extraction', () => {
+    const processor = new NoteProcessor();
+
+    it('turns canvas text cards into blocks in reading order, under their group labels', () => {
+        const extracted = processor.getBlocksFromCanvas(CANVAS);
+
+        expect(extracted.blocks.map(block => [block.content, block.heading_path, block.location])).toEqual([
+            ['## Goal\n\nShip in spring', [], { canvasNodeId: 'goal' }],
+            ['Hiring is slow', ['Risks'], { canvasNodeId: 'hiring' }],
+            ['Funding may slip', ['Risks'], { canvasNodeId: 'funding' }]
+        ]);
+        expect(extracted.blocks[1].start_position.line).toBe(4);
+        expectExactPositions(extracted);
+    });
+
+    it('turns PDF pages with text into blocks that know their page', () => {
+        const extracted = processor.getBlocksFromPdfPages(['Cover page', '', '  Chapter one text  ']);
+
+        expect(extracted.content).toBe('Cover page\n\nChapter one text');
+        expect(extracted.blocks.map(block => block.location)).toEqual([{ page: 1 }, { page: 3 }]);
+        expectExactPositions(extracted);
+    });
+
+    it('reads the text layer of every page and releases the document', async () => {
+        const destroy = vi.fn(async () => {});
+        const pages = [
+            [{ str: 'Hive', hasEOL: false }, { str: ' ' }, { str: 'inspection', hasEOL: true }, { str: 'notes   here' }],
+            [{}, { str: 'Page two' }]
+        ];
+        const pdfjs: PdfJs = {
+            getDocument: () => ({
+                promise: Promise.resolve({
+                    numPages: pages.length,
+                    getPage: async (pageNumber: number) => ({ getTextContent: async () => ({ items: pages[pageNumber - 1] }) }),
+                    destroy
+                })
+            })
+        };
+
+        expect(await extractPdfPages(new ArrayBuffer(0), pdfjs)).toEqual(['Hive inspection\nnotes here', 'Page two']);
+        expect(destroy).toHaveBeenCalled();
+    });
+
+    it('indexes canvases and PDFs only when enabled', () => {
+        const enabled = { canvas: true, pdf: false };
+
+        expect(isIndexableFile({ extension: 'md' }, enabled)).toBe(true);
+        expect(isIndexableFile({ extension: 'canvas' }, enabled)).toBe(true);
+        expect(isIndexableFile({ extension: 'pdf' }, enabled)).toBe(false);
+        expect(isIndexableFile({ extension: 'png' }, { canvas: true, pdf: true })).toBe(false);
+    });
+});
+
+describe('Extracted block storage', () => {
+    let adapter: SqlJsDatabaseAdapter;
+    let databaseService: DatabaseService;
+    let model: ReturnType<typeof embedder>;
+
+    async function save(path: string, extracted: ExtractedFile) {
+        const name = path.split('/').pop()!;
+        const { noteId } = await databaseService.upsertNote(path, name, name.replace(/\.\w+$/, ''), extracted.content);
+        const result = await databaseService.insertBlocksForNote(noteId, extracted.blocks);
+        await databaseService.deleteNoteLevelVectors(noteId);
+        await databaseService.processNoteVector(noteId, model);
+        await databaseService.processBlockVectors(noteId, result.changedBlockIds, model);
+        return { noteId, ...result };
+    }
+
+    beforeEach(async () => {
+        ({ adapter, databaseService } = await openTestDatabase());
+        model = embedder();
+    });
+
+    afterEach(async () => {
+        await adapter.close();
+    });
+
+    it('keeps a moved canvas card and records its new place', async () => {
+        const processor = new NoteProcessor();
+        const first = await save('Board.canvas', processor.getBlocksFromCanvas(CANVAS));
+        model.embedTexts.mockClear();
+
+        // The goal card moves below the group, so it now comes last
+        const moved = { ...CANVAS, nodes: CANVAS.nodes.map(node => node.id === 'goal' ? { ...node, y: 500 } : node) };
+        const second = await save('Board.canvas', processor.getBlocksFromCanvas(moved));
+
+        expect(second.changedBlockIds).toEqual([]);
+        expect(model.embedTexts).not.toHaveBeenCalled();
+        const blocks = await databaseService.getBlocksForNote(second.noteId);
+        expect(blocks.map(block => block.location?.canvasNodeId)).toEqual(['hiring', 'funding', 'goal']);
+        expect(blocks[2].id).toBe(first.blockIds[0]);
+    });
+
+    it('returns the page of PDF results from both vector and full-text search', async () => {
+        await save('Papers/bees.pdf', new NoteProcessor().getBlocksFromPdfPages(['Abstract about pollination', 'Results on nectar flow']));
+        const searchService = new SearchService(databaseService, model, mockLogger as any);
+
+        const vectorResults = await searchService.vectorSearch('Results on nectar flow', { minScore: 0, includeNoteVectors: false });
+        expect(vectorResults[0].blockLocation).toEqual({ page: 2 });
+
+        const hybridResults = await searchService.hybridSearch('pollination', { minScore: 0, includeBlockVectors: false, includeNoteVectors: false });
+        expect(hybridResults.find(result => result.type === 'block')?.blockLocation).toEqual({ page: 1 });
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for BM25-ranked full-text search over the FTS4 table
+ * Uses a REAL in-memory sql.js database
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+import { SqlJsDatabaseAdapter } from '../src/database_service';
+import { VectorUtils } from '../src/embedding_service';
+import { buildFTSQuery, parseHighlightedSnippet, SNIPPET_END, SNIPPET_START } from '../src/fts_ranking';
+import { MockVaultAdapter, createMockPlugin } from './mocks/vault-adapter-mock';
+
+const mockLogger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    setLevel: vi.fn()
+};
+
+describe('Full-text search ranking', () => {
+    let vault: MockVaultAdapter;
+    let adapter: SqlJsDatabaseAdapter;
+
+    async function createAdapter(): Promise<SqlJsDatabaseAdapter> {
+        const created = new SqlJsDatabaseAdapter(createMockPlugin(vault), new VectorUtils(mockLogger as any), mockLogger as any);
+        await created.initialize();
+        return created;
+    }
+
+    async function insert(id: string, content: string, noteName: string): Promise<void> {
+        await adapter.insertFTSContent(id, 'block', `note-${id}`, content, `${noteName}.md`, noteName, `block-${id}`);
+    }
+
+    beforeEach(async () => {
+        vault = new MockVaultAdapter();
+        adapter = await createAdapter();
+    });
+
+    afterEach(async () => {
+        await adapter.close();
+    });
+
+    it('ranks rows by BM25 instead of match order', async () => {
+        await insert('once', 'The garden has one tomato plant among many other vegetables and herbs', 'Garden');
+        await insert('never', 'Nothing relevant in this block at all', 'Misc');
+        await insert('often', 'Tomato soup, tomato salad and roasted tomato', 'Recipes');
+
+        const results = await adapter.searchFTS('tomato', 10);
+
+        expect(results.map(result => result.id)).toEqual(['often', 'once']);
+        expect(results[0].relevance).toBeGreaterThan(results[1].relevance);
+        expect(results[1].relevance).toBeGreaterThan(0);
+    });
+
+    it('weights a match in the note name above a match in the content', async () => {
+        await insert('body', 'Notes about compost and soil health', 'Gardening');
+        await insert('title', 'Notes about soil health', 'Compost');
+
+        const results = await adapter.searchFTS('compost', 10);
+
+        expect(results[0].id).toBe('title');
+    });
+
+    it('matches any query word, ranking rows with more of them first', async () => {
+        await insert('one', 'Apples are sweet', 'Fruit');
+        await insert('both', 'Apples and pears in the orchard', 'Orchard');
+
+        const results = await adapter.searchFTS('apples pears', 10);
+
+        expect(results.map(result => result.id)).toEqual(['both', 'one']);
+    });
+
+    it('returns a snippet with the matched terms highlighted', async () => {
+        await insert('snippet', 'Rainwater collected in barrels keeps the garden green in summer', 'Water');
+
+        const [result] = await adapter.searchFTS('barrels', 10);
+        const highlighted = result.snippet.highlights.map(({ start, end }) => result.snippet.text.substring(start, end));
+
+        expect(highlighted).toEqual(['barrels']);
+        expect(result.snippet.text).toContain('collected in barrels keeps');
+    });
+
+    it('treats query operators and punctuation as plain words', async () => {
+        await insert('ops', 'Either this OR that, but NOT both', 'Logic');
+
+        expect(await adapter.searchFTS('"NOT" (both)', 10)).toHaveLength(1);
+        expect(await adapter.searchFTS('?!', 10)).toEqual([]);
+        expect(buildFTSQuery('Near AND near')).toBe('"near" OR "and"');
+    });
+
+    it('migrates an FTS3 table from older databases, keeping its rows', async () => {
+        await adapter.execute('DROP TABLE fts_content');
+        await adapter.execute(`
+            CREATE VIRTUAL TABLE fts_content USING fts3(
+                id TEXT, type TEXT, note_id TEXT, content TEXT, note_path TEXT, note_name TEXT, block_id TEXT
+            )
+        `);
+        await adapter.execute(
+            'INSERT INTO fts_content (id, type, note_id, content, note_path, note_name, block_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
+            ['legacy', 'note', 'note-legacy', 'Legacy content about beekeeping', 'Bees.md', 'Bees', null]
+        );
+        // Pretend the database predates the FTS4 migration
+        await adapter.execute('DELETE FROM schema_version');
+        await adapter.save();
+        await adapter.close();
+
+        adapter = await createAdapter();
+
+        const table = await adapter.get("SELECT sql FROM sqlite_master WHERE name = 'fts_content'");
+        expect(table?.sql).toMatch(/fts4/i);
+        expect(await adapter.get("SELECT name FROM sqlite_master WHERE name = 'fts_content_fts3'")).toBeNull();
+
+        const [result] = await adapter.searchFTS('beekeeping', 10);
+        expect(result.id).toBe('legacy');
+        expect(result.blockId).toBeUndefined();
+    });
+});
+
+describe('parseHighlightedSnippet', () => {
+    it('strips markers and records the ranges they enclosed', () => {
+        const snippet = parseHighlightedSnippet(`…a ${SNIPPET_START}red${SNIPPET_END} and ${SNIPPET_START}blue${SNIPPET_END} sky`);
+
+        expect(snippet.text).toBe('…a red and blue sky');
+        expect(snippet.highlights).toEqual([{ start: 3, end: 6 }, { start: 11, end: 15 }]);
+    });
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for embedding blocks with their note title and heading breadcrumb
+ * Uses a REAL in-memory sql.js database and the same steps as processOneFileIntoDatabase
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+import { SqlJsDatabaseAdapter, DatabaseService } from '../src/database_service';
+import { BlockType, NoteProcessor, parseHeading } from '../src/note_processor';
+import { embedder, openTestDatabase } from './mocks/indexing-mock';
+
+// Metadata shaped like Obsidian's cache: one section per paragraph, separated by a blank line
+function metadataFor(sections: { type: BlockType; content: string }[]): { text: string; metadata: any } {
+    let offset = 0;
+    let line = 0;
+    const metadata = {
+        sections: sections.map(({ type, content }) => {
+            const lines = content.split('\n');
+            const section = {
+                type,
+                position: {
+                    start: { line, col: 0, offset },
+                    end: { line: line + lines.length - 1, col: lines[lines.length - 1].length, offset: offset + content.length }
+                }
+            };
+            offset += content.length + 2;
+            line += lines.length + 1;
+            return section;
+        })
+    };
+    return { text: sections.map(section => section.content).join('\n\n'), metadata };
+}
+
+const heading = (content: string) => ({ type: BlockType.HEADING, content });
+const paragraph = (content: string) => ({ type: BlockType.PARAGRAPH, content });
+const list = (content: string) => ({ type: BlockType.LIST, content });
+
+describe('Heading paths', () => {
+    const processor = new NoteProcessor();
+
+    it('gives each block the headings above it, dropping siblings and deeper levels', async () => {
+        const { text, metadata } = metadataFor([
+            paragraph('Opening words.'),
+            heading('# Project X'),
+            heading('## Risks'),
+            list('- Funding may slip'),
+            heading('### Technical'),
+            paragraph('The build is fragile.'),
+            heading('## Timeline'),
+            paragraph('Ships in spring.')
+        ]);
+
+        const blocks = await processor.getBlocksFromFile(text, metadata);
+
+        expect(blocks.map(block => block.heading_path)).toEqual([
+            [],
+            [],
+            ['Project X'],
+            ['Project X', 'Risks'],
+            ['Project X', 'Risks'],
+            ['Project X', 'Risks', 'Technical'],
+            ['Project X'],
+            ['Project X', 'Timeline']
+        ]);
+    });
+
+    it('reads ATX and setext headings', () => {
+        expect(parseHeading('## Risks ##')).toEqual({ level: 2, text: 'Risks' });
+        expect(parseHeading('Overview\n========')).toEqual({ level: 1, text: 'Overview' });
+        expect(parseHeading('Details\n---')).toEqual({ level: 2, text: 'Details' });
+        expect(parseHeading('Not a heading')).toBeNull();
+    });
+});
+
+describe('Block context prefixes', () => {
+    let adapter: SqlJsDatabaseAdapter;
+    let databaseService: DatabaseService;
+    let model: ReturnType<typeof embedder>;
+
+    // Same steps as processOneFileIntoDatabase for a changed note
+    async function save(sections: { type: BlockType; content: string }[]) {
+        const { text, metadata } = metadataFor(sections);
+        const blocks = await new NoteProcessor().getBlocksFromFile(text, metadata);
+        const { noteId } = await databaseService.upsertNote('Project X.md', 'Project X.md', 'Project X', text);
+        const result = await databaseService.insertBlocksForNote(noteId, blocks);
+        await databaseService.deleteNoteLevelVectors(noteId);
+        await databaseService.processNoteVector(noteId, model);
+        await databaseService.processBlockVectors(noteId, result.changedBlockIds, model);
+        return { noteId, ...result };
+    }
+
+    beforeEach(async () => {
+        ({ adapter, databaseService } = await openTestDatabase());
+        model = embedder();
+    });
+
+    afterEach(async () => {
+        await adapter.close();
+    });
+
+    it('embeds blocks as written while the option is off', async () => {
+        await save([heading('## Risks'), list('- Funding may slip')]);
+
+        expect(model.embedTexts).toHaveBeenCalledWith(['## Risks', '- Funding may slip']);
+    });
+
+    it('embeds blocks under their note title and headings but stores them as written', async () => {
+        databaseService.setBlockContextPrefix(true);
+
+        const { noteId } = await save([heading('## Risks'), list('- Funding may slip')]);
+
+        expect(model.embedTexts).toHaveBeenCalledWith(['Project X\n\n## Risks', 'Project X > Risks\n\n- Funding may slip']);
+        const blocks = await databaseService.getBlocksForNote(noteId);
+        expect(blocks.map(block => block.content)).toEqual(['## Risks', '- Funding may slip']);
+        expect(blocks[1].heading_path).toEqual(['Risks']);
+        const [hit] = await databaseService.searchFTS('funding', 5);
+        expect(hit.blockId).toBe(blocks[1].id);
+    });
+
+    it('re-embeds the blocks under a renamed heading, keeping their ids', async () => {
+        databaseService.setBlockContextPrefix(true);
+        const first = await save([heading('## Risks'), list('- Funding may slip'), heading('## Timeline'), paragraph('Ships in spring.')]);
+        model.embedTexts.mockClear();
+
+        const second = await save([heading('## Open risks'), list('- Funding may slip'), heading('## Timeline'), paragraph('Ships in spring.')]);
+
+        expect(second.blockIds).toEqual(first.blockIds);
+        expect(second.changedBlockIds).toEqual([first.blockIds[0], first.blockIds[1]]);
+        expect(model.embedTexts).toHaveBeenCalledWith(['Project X\n\n## Open risks', 'Project X > Open risks\n\n- Funding may slip']);
+    });
+});
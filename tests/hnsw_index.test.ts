@@ -0,0 +1,214 @@
+/**
+ * Tests for the HNSW and linear-scan vector indexes behind DatabaseService.getSimilarVectors
+ * Uses a REAL in-memory sql.js database with synthetic clustered embeddings
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+import { SqlJsDatabaseAdapter, DatabaseService, VectorType } from '../src/database_service';
+import { VectorUtils } from '../src/embedding_service';
+import { VectorIndexType, cosineSimilarity } from '../src/vector_index';
+import { MockVaultAdapter, createMockPlugin } from './mocks/vault-adapter-mock';
+
+const mockLogger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    setLevel: vi.fn()
+};
+
+const DIMENSIONS = 32;
+const VECTOR_COUNT = 600;
+const CLUSTER_COUNT = 30;
+const TOP_K = 10;
+
+// Deterministic PRNG (mulberry32) so the corpus is identical on every run
+function createRandom(seed: number): () => number {
+    return () => {
+        seed |= 0;
+        seed = seed + 0x6D2B79F5 | 0;
+        let t = Math.imul(seed ^ seed >>> 15, 1 | seed);
+        t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t;
+        return ((t ^ t >>> 14) >>> 0) / 4294967296;
+    };
+}
+
+function gaussian(random: () => number): number {
+    return Math.sqrt(-2 * Math.log(random() || 1e-12)) * Math.cos(2 * Math.PI * random());
+}
+
+describe('HNSW vector index', () => {
+    let vault: MockVaultAdapter;
+    let adapter: SqlJsDatabaseAdapter;
+    let databaseService: DatabaseService;
+    let random: () => number;
+    let centers: number[][];
+
+    function clusteredVector(cluster: number): Int8Array {
+        return VectorUtils.processVector(centers[cluster % CLUSTER_COUNT].map(value => value + gaussian(random) * 0.6));
+    }
+
+    async function createAdapter(): Promise<SqlJsDatabaseAdapter> {
+        const created = new SqlJsDatabaseAdapter(createMockPlugin(vault), new VectorUtils(mockLogger as any), mockLogger as any);
+        created.setVectorIndexType(VectorIndexType.HNSW);
+        await created.initialize();
+        return created;
+    }
+
+    async function insertVector(index: number, vector: Int8Array): Promise<void> {
+        await adapter.execute(
+            'INSERT INTO notes (id, path, name, base_name, text) VALUES (?, ?, ?, ?, ?)',
+            [`note-${index}`, `note-${index}.md`, `note-${index}.md`, `note-${index}`, `Note ${index}`]
+        );
+        await adapter.execute(
+            'INSERT INTO vectors (id, note_id, type, vector) VALUES (?, ?, ?, ?)',
+            [`vector-${index}`, `note-${index}`, 'note', vector as unknown as Uint8Array]
+        );
+    }
+
+    async function exactNeighbours(query: Int8Array, limit: number): Promise<string[]> {
+        return (await databaseService.getAllVectors())
+            .sort((a, b) => cosineSimilarity(query, b.vector) - cosineSimilarity(query, a.vector))
+            .slice(0, limit)
+            .map(vector => vector.id);
+    }
+
+    async function recallAt(queries: Int8Array[], limit: number): Promise<number> {
+        let found = 0;
+        for (const query of queries) {
+            const approximate = new Set((await databaseService.getSimilarVectors(query, limit)).map(vector => vector.id));
+            found += (await exactNeighbours(query, limit)).filter(id => approximate.has(id)).length;
+        }
+        return found / (queries.length * limit);
+    }
+
+    beforeEach(async () => {
+        vault = new MockVaultAdapter();
+        random = createRandom(7);
+        centers = Array.from({ length: CLUSTER_COUNT }, () =>
+            Array.from({ length: DIMENSIONS }, () => gaussian(random))
+        );
+
+        adapter = await createAdapter();
+        databaseService = new DatabaseService(adapter, mockLogger as any);
+
+        for (let i = 0; i < VECTOR_COUNT; i++) {
+            await insertVector(i, clusteredVector(i));
+        }
+        await adapter.generateVectorIndex(DIMENSIONS);
+    }, 60000);
+
+    afterEach(async () => {
+        await adapter.close();
+    });
+
+    it('reaches high recall@10 against brute force', async () => {
+        const queries = Array.from({ length: 20 }, (_, i) => clusteredVector(i * 7));
+
+        expect(await recallAt(queries, TOP_K)).toBeGreaterThanOrEqual(0.9);
+    }, 60000);
+
+    it('persists one node row per vector with a single config row', async () => {
+        const nodes = await adapter.get('SELECT COUNT(*) as count FROM hnsw_nodes');
+        const config = await adapter.get('SELECT * FROM hnsw_config');
+
+        expect(nodes?.count).toBe(VECTOR_COUNT);
+        expect(config?.vector_dimensions).toBe(DIMENSIONS);
+        expect(await adapter.isVectorIndexAvailable()).toBe(true);
+    });
+
+    it('links new vectors into the graph as they are created', async () => {
+        const vector = clusteredVector(3);
+        const vectorId = await databaseService.createVector({ note_id: 'note-3', type: VectorType.NOTE, vector });
+
+        const node = await adapter.get('SELECT * FROM hnsw_nodes WHERE vector_id = ?', [vectorId]);
+        expect(node).not.toBeNull();
+
+        const candidates = await databaseService.getSimilarVectors(vector, TOP_K);
+        expect(candidates.map(candidate => candidate.id)).toContain(vectorId);
+    });
+
+    it('unlinks deleted vectors from every neighbour list', async () => {
+        await databaseService.deleteVectorsForNote('note-5');
+
+        const node = await adapter.get('SELECT * FROM hnsw_nodes WHERE vector_id = ?', ['vector-5']);
+        const referencing = await adapter.get(
+            'SELECT COUNT(*) as count FROM hnsw_nodes WHERE neighbors LIKE ?',
+            ['%"vector-5"%']
+        );
+        expect(node).toBeNull();
+        expect(referencing?.count).toBe(0);
+
+        const candidates = await databaseService.getSimilarVectors(clusteredVector(5), TOP_K);
+        expect(candidates.map(candidate => candidate.id)).not.toContain('vector-5');
+    });
+
+    it('keeps recall after a batch of deletes', async () => {
+        for (let i = 0; i < VECTOR_COUNT; i += 4) {
+            await databaseService.deleteVectorsForNote(`note-${i}`);
+        }
+        const queries = Array.from({ length: 20 }, (_, i) => clusteredVector(i * 7));
+
+        expect(await recallAt(queries, TOP_K)).toBeGreaterThanOrEqual(0.85);
+    }, 60000);
+
+    it('searches the persisted graph after reloading without rebuilding', async () => {
+        await adapter.save();
+        await adapter.close();
+
+        adapter = await createAdapter();
+        databaseService = new DatabaseService(adapter, mockLogger as any);
+        const query = clusteredVector(11);
+
+        const candidates = await databaseService.getSimilarVectors(query, TOP_K);
+        const exact = await exactNeighbours(query, 1);
+        expect(candidates.map(candidate => candidate.id)).toContain(exact[0]);
+    });
+
+    it('removes orphaned nodes and adds missing vectors when reconciling', async () => {
+        await adapter.execute('DELETE FROM vectors WHERE id = ?', ['vector-9']);
+        await insertVector(VECTOR_COUNT, clusteredVector(9));
+
+        await adapter.reconcileVectorIndex();
+
+        expect(await adapter.get('SELECT * FROM hnsw_nodes WHERE vector_id = ?', ['vector-9'])).toBeNull();
+        expect(await adapter.get('SELECT * FROM hnsw_nodes WHERE vector_id = ?', [`vector-${VECTOR_COUNT}`])).not.toBeNull();
+    });
+
+    it('returns exact neighbours from the linear scan index without building anything', async () => {
+        adapter.setVectorIndexType(VectorIndexType.LINEAR);
+        const query = clusteredVector(2);
+
+        const candidates = await databaseService.getSimilarVectors(query, TOP_K);
+
+        expect(await adapter.isVectorIndexAvailable()).toBe(true);
+        expect(candidates.map(candidate => candidate.id).sort()).toEqual((await exactNeighbours(query, TOP_K)).sort());
+    });
+
+    it.each([VectorIndexType.HNSW, VectorIndexType.LINEAR])('drops the %s index\'s in-memory changes when a transaction rolls back', async type => {
+        adapter.setVectorIndexType(type);
+        const query = clusteredVector(4);
+        const deleted = (await databaseService.getAllVectors()).find(vector => vector.id === 'vector-4')!;
+        // Load the graph or matrix before changing it
+        await databaseService.getSimilarVectors(query, TOP_K);
+
+        let createdId = '';
+        await expect(adapter.transaction(async () => {
+            createdId = await databaseService.createVector({ note_id: 'note-4', type: VectorType.NOTE, vector: query });
+            await databaseService.deleteVectorsForNote('note-4');
+            throw new Error('Embedding failed');
+        })).rejects.toThrow('Embedding failed');
+
+        expect(await adapter.get('SELECT * FROM vectors WHERE id = ?', [createdId])).toBeNull();
+        expect((await databaseService.getSimilarVectors(query, TOP_K)).map(candidate => candidate.id)).not.toContain(createdId);
+        expect((await databaseService.getSimilarVectors(deleted.vector, TOP_K)).map(candidate => candidate.id)).toContain('vector-4');
+    });
+});
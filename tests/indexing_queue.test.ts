@@ -0,0 +1,184 @@
+/**
+ * Tests for the background indexing queue: ordering, deduplication, retries, pausing and progress
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { IndexingQueue, IndexingQueueState } from '../src/indexing_queue';
+
+const mockLogger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    setLevel: vi.fn()
+};
+
+describe('IndexingQueue', () => {
+    let indexed: string[];
+    let failing: Map<string, number>; // Failures left per path
+    let saved: IndexingQueueState | null;
+    let queue: IndexingQueue;
+
+    // Each file takes a second to index
+    async function processFile(path: string): Promise<void> {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        const failures = failing.get(path) ?? 0;
+        if (failures > 0) {
+            failing.set(path, failures - 1);
+            throw new Error(`Cannot read ${path}`);
+        }
+        indexed.push(path);
+    }
+
+    function createQueue(): IndexingQueue {
+        return new IndexingQueue(processFile, async state => { saved = state; }, mockLogger as any);
+    }
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        indexed = [];
+        failing = new Map();
+        saved = null;
+        queue = createQueue();
+    });
+
+    afterEach(async () => {
+        // Stopping waits for the file being indexed
+        const stopped = queue.stop();
+        await vi.runAllTimersAsync();
+        await stopped;
+        vi.useRealTimers();
+    });
+
+    it('waits for start, then indexes each queued file once', async () => {
+        queue.enqueueAll(['A.md', 'B.md', 'A.md']);
+        queue.enqueue('C.md');
+        queue.enqueue('B.md');
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(indexed).toEqual([]);
+
+        queue.start();
+        await vi.advanceTimersByTimeAsync(3000);
+
+        expect(indexed).toEqual(['A.md', 'B.md', 'C.md']);
+    });
+
+    it('indexes the active note first and requeues a file changed while it is indexed', async () => {
+        queue.enqueueAll(['A.md', 'B.md', 'C.md']);
+        queue.start();
+        await vi.advanceTimersByTimeAsync(500);
+
+        // A.md is being indexed when it changes again; C.md is opened
+        queue.enqueue('A.md');
+        queue.prioritize('C.md');
+        queue.prioritize('Unqueued.md');
+        await vi.advanceTimersByTimeAsync(4000);
+
+        expect(indexed).toEqual(['A.md', 'C.md', 'B.md', 'A.md']);
+    });
+
+    it('retries a failing file with growing delays and lists it once attempts run out', async () => {
+        failing.set('Flaky.md', 2);
+        failing.set('Broken.md', Infinity);
+        queue.enqueueAll(['Flaky.md', 'Broken.md', 'Fine.md']);
+        queue.start();
+
+        await vi.advanceTimersByTimeAsync(3000);
+        expect(indexed).toEqual(['Fine.md']);
+
+        // Retried after 2s, 4s, 8s and 16s
+        await vi.advanceTimersByTimeAsync(40000);
+        expect(indexed).toEqual(['Fine.md', 'Flaky.md']);
+        expect(queue.getProgress().failed).toEqual([{ path: 'Broken.md', attempts: 5, error: 'Cannot read Broken.md' }]);
+
+        failing.delete('Broken.md');
+        queue.retryFailed();
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(indexed).toEqual(['Fine.md', 'Flaky.md', 'Broken.md']);
+        expect(queue.getProgress().failed).toEqual([]);
+    });
+
+    it('finishes the current file when paused and carries on when resumed', async () => {
+        queue.enqueueAll(['A.md', 'B.md']);
+        queue.start();
+        await vi.advanceTimersByTimeAsync(500);
+
+        queue.pause();
+        const idle = vi.fn();
+        queue.whenIdle().then(idle);
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(indexed).toEqual(['A.md']);
+        expect(idle).toHaveBeenCalled();
+        expect(queue.getProgress()).toMatchObject({ paused: true, pending: 1, done: 1, total: 2 });
+
+        queue.resume();
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(indexed).toEqual(['A.md', 'B.md']);
+    });
+
+    it('follows renamed folders and forgets deleted files', async () => {
+        queue.enqueueAll(['Inbox/A.md', 'Inbox/Sub/B.md', 'Inbox2/C.md', 'D.md']);
+        queue.rename('Inbox', 'Archive');
+        queue.remove('D.md');
+        queue.start();
+        await vi.advanceTimersByTimeAsync(5000);
+
+        expect(indexed).toEqual(['Archive/A.md', 'Archive/Sub/B.md', 'Inbox2/C.md']);
+    });
+
+    it('reports throughput and time left from recent files', async () => {
+        queue.enqueueAll(['A.md', 'B.md', 'C.md', 'D.md']);
+        expect(queue.getProgress()).toMatchObject({ done: 0, total: 4, filesPerMinute: null, etaMs: null });
+        queue.start();
+
+        await vi.advanceTimersByTimeAsync(2000);
+
+        expect(queue.getProgress()).toMatchObject({ current: 'C.md', done: 2, total: 4, filesPerMinute: 60, etaMs: 2000 });
+    });
+
+    it('saves pending work and restores it in the next session', async () => {
+        queue.enqueueAll(['A.md', 'B.md', 'C.md']);
+        queue.pause();
+        queue.start();
+        await queue.stop();
+        expect(saved).toEqual({
+            pending: ['A.md', 'B.md', 'C.md'].map(path => ({ path, attempts: 0, retryAt: 0 })),
+            failed: [],
+            paused: true
+        });
+
+        queue = createQueue();
+        queue.enqueue('New.md');
+        queue.enqueue('B.md');
+        queue.restore(saved!);
+        queue.resume();
+        queue.start();
+        await vi.advanceTimersByTimeAsync(4000);
+
+        expect(indexed).toEqual(['A.md', 'B.md', 'C.md', 'New.md']);
+    });
+
+    it('finishes the file being indexed before stopping, and restores the rest', async () => {
+        queue.enqueueAll(['A.md', 'B.md', 'C.md']);
+        queue.start();
+        await vi.advanceTimersByTimeAsync(1500);
+
+        // Stopped halfway through B.md, e.g. when Obsidian closes
+        const stopped = vi.fn();
+        queue.stop().then(stopped);
+        await vi.advanceTimersByTimeAsync(400);
+        expect(stopped).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(100);
+        expect(stopped).toHaveBeenCalled();
+        expect(indexed).toEqual(['A.md', 'B.md']);
+        expect(saved!.pending.map(file => file.path)).toEqual(['C.md']);
+
+        queue = createQueue();
+        queue.restore(saved!);
+        queue.start();
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(indexed).toEqual(['A.md', 'B.md', 'C.md']);
+    });
+});
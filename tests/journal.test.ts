@@ -0,0 +1,177 @@
+/**
+ * Tests for the write-ahead journal of tezcat.db, simulating a crash at each stage of a write
+ * Uses a REAL sql.js database persisted to an in-memory vault
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+import { SqlJsDatabaseAdapter, DatabaseService } from '../src/database_service';
+import { VectorUtils } from '../src/embedding_service';
+import { parseJournal, serializeJournalRecord } from '../src/journal';
+import { MockVaultAdapter, createMockPlugin } from './mocks/vault-adapter-mock';
+
+const mockLogger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    setLevel: vi.fn()
+};
+
+const DB_PATH = '.obsidian/plugins/tezcat/tezcat.db';
+const JOURNAL_PATH = `${DB_PATH}.journal`;
+
+// Deterministic stand-in for an embedding model
+const embedder = {
+    embedText: async (text: string) => VectorUtils.processVector(Array.from({ length: 16 }, (_, i) => text.charCodeAt(i % text.length) - 100)),
+    embedTexts: async (texts: string[]) => Promise.all(texts.map(text => embedder.embedText(text)))
+};
+
+describe('Journal records', () => {
+    it('round-trip statements with blobs', () => {
+        const vector = new Int8Array([-128, 0, 5, 127]);
+        const line = serializeJournalRecord({ seq: 3, statements: [['INSERT INTO vectors (id, vector) VALUES (?, ?)', ['v1', vector as unknown as Uint8Array]], ['DELETE FROM notes', null]] });
+
+        const { records, complete } = parseJournal(line);
+
+        expect(complete).toBe(true);
+        expect(records).toEqual([{ seq: 3, statements: [['INSERT INTO vectors (id, vector) VALUES (?, ?)', ['v1', new Uint8Array(vector.buffer)]], ['DELETE FROM notes', null]] }]);
+    });
+
+    it('stop at a partly written record', () => {
+        const first = serializeJournalRecord({ seq: 1, statements: [['DELETE FROM notes', null]] });
+        const second = serializeJournalRecord({ seq: 2, statements: [['DELETE FROM chunks', null]] });
+
+        expect(parseJournal(first + second.slice(0, 20))).toEqual({ records: [{ seq: 1, statements: [['DELETE FROM notes', null]] }], complete: false });
+        expect(parseJournal('')).toEqual({ records: [], complete: true });
+    });
+});
+
+describe('Database journal', () => {
+    let vault: MockVaultAdapter;
+    let adapter: SqlJsDatabaseAdapter;
+    let databaseService: DatabaseService;
+
+    async function openDatabase(): Promise<void> {
+        adapter = new SqlJsDatabaseAdapter(createMockPlugin(vault), new VectorUtils(mockLogger as any), mockLogger as any);
+        await adapter.initialize();
+        databaseService = new DatabaseService(adapter, mockLogger as any);
+    }
+
+    // The process dies: nothing more is written and the next start opens whatever is on disk
+    async function crashAndRestart(): Promise<void> {
+        vi.clearAllTimers();
+        await openDatabase();
+    }
+
+    async function notePaths(): Promise<string[]> {
+        return (await databaseService.getAllNotes()).map(note => note.path).sort();
+    }
+
+    beforeEach(async () => {
+        vault = new MockVaultAdapter();
+        vi.useFakeTimers();
+        await openDatabase();
+        await adapter.flush();
+    });
+
+    afterEach(async () => {
+        vi.useRealTimers();
+        await adapter.close();
+    });
+
+    it('leaves no journal behind after a start that changed nothing', async () => {
+        expect(vault.files.has(JOURNAL_PATH)).toBe(false);
+
+        await crashAndRestart();
+
+        expect(vault.files.has(JOURNAL_PATH)).toBe(false);
+    });
+
+    it('replays changes made since the last write and folds them into the file', async () => {
+        const { noteId } = await databaseService.upsertNote('Bees.md', 'Bees.md', 'Bees', 'Honey bees forage for nectar.');
+        await databaseService.setNoteProperties(noteId, [{ key: 'tags', value: 'bees', date: null }]);
+        await databaseService.processNoteVector(noteId, embedder);
+        const vector = (await databaseService.getVectorsForNote(noteId))[0].vector;
+        expect(vault.files.has(JOURNAL_PATH)).toBe(true);
+
+        await crashAndRestart();
+
+        expect(await notePaths()).toEqual(['Bees.md']);
+        expect(await databaseService.getNoteProperties(noteId)).toEqual([{ key: 'tags', value: 'bees', date: null }]);
+        expect((await databaseService.getVectorsForNote(noteId))[0].vector).toEqual(vector);
+        expect((await databaseService.searchFTS('nectar', 5)).map(result => result.noteId)).toEqual([noteId]);
+        expect(vault.files.has(JOURNAL_PATH)).toBe(false);
+    });
+
+    it('drops a record that was being appended when the process died', async () => {
+        await databaseService.upsertNote('Kept.md', 'Kept.md', 'Kept', 'Text');
+        const appended = serializeJournalRecord({ seq: 99, statements: [["DELETE FROM notes WHERE path = 'Kept.md'", null]] });
+        await vault.append(JOURNAL_PATH, appended.slice(0, appended.length / 2));
+
+        await crashAndRestart();
+
+        expect(await notePaths()).toEqual(['Kept.md']);
+    });
+
+    it('does not apply records twice when the process died before the journal was cleared', async () => {
+        const { noteId } = await databaseService.upsertNote('Bees.md', 'Bees.md', 'Bees', 'Honey bees forage for nectar.');
+        await databaseService.setNoteProperties(noteId, [{ key: 'tags', value: 'bees', date: null }]);
+        await databaseService.processNoteVector(noteId, embedder);
+        const journal = vault.files.get(JOURNAL_PATH)!;
+        await adapter.flush();
+        // The file was replaced, but the journal survived
+        vault.files.set(JOURNAL_PATH, journal);
+        mockLogger.error.mockClear();
+
+        await crashAndRestart();
+
+        expect(mockLogger.error).not.toHaveBeenCalled();
+        expect(await databaseService.getNoteProperties(noteId)).toHaveLength(1);
+        expect(await databaseService.getVectorsForNote(noteId)).toHaveLength(1);
+        expect(await databaseService.searchFTS('nectar', 5)).toHaveLength(1);
+    });
+
+    it('recovers from the journal when the process died while writing the file', async () => {
+        await databaseService.upsertNote('First.md', 'First.md', 'First', 'Text');
+        vi.spyOn(vault, 'writeBinary').mockRejectedValueOnce(new Error('crashed'));
+        await expect(adapter.flush()).rejects.toThrow('crashed');
+
+        await crashAndRestart();
+
+        expect(await notePaths()).toEqual(['First.md']);
+    });
+
+    it('replays again when the process died while folding the journal in', async () => {
+        await databaseService.upsertNote('First.md', 'First.md', 'First', 'Text');
+        vi.clearAllTimers();
+        vi.spyOn(vault, 'writeBinary').mockRejectedValueOnce(new Error('crashed'));
+        await openDatabase();
+        expect(await notePaths()).toEqual(['First.md']);
+        expect(vault.files.has(JOURNAL_PATH)).toBe(true);
+
+        await crashAndRestart();
+
+        expect(await notePaths()).toEqual(['First.md']);
+        expect(vault.files.has(JOURNAL_PATH)).toBe(false);
+    });
+
+    it('keeps rolled back transactions out of the journal', async () => {
+        await expect(adapter.transaction(async () => {
+            await databaseService.upsertNote('Discarded.md', 'Discarded.md', 'Discarded', 'Text');
+            throw new Error('interrupted');
+        })).rejects.toThrow('interrupted');
+        await databaseService.upsertNote('Kept.md', 'Kept.md', 'Kept', 'Text');
+
+        await crashAndRestart();
+
+        expect(await notePaths()).toEqual(['Kept.md']);
+    });
+});
@@ -0,0 +1,262 @@
+/**
+ * Tests for schema versioning and migrations of tezcat.db
+ * Upgrades fixture databases written with the schema of earlier plugin releases,
+ * using a REAL sql.js database
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+import { SqlJsDatabaseAdapter, DatabaseService } from '../src/database_service';
+import { VectorUtils } from '../src/embedding_service';
+import { LATEST_SCHEMA_VERSION, MIGRATIONS } from '../src/migrations';
+import { MockVaultAdapter, createMockPlugin } from './mocks/vault-adapter-mock';
+
+const mockLogger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    setLevel: vi.fn()
+};
+
+const DB_PATH = '.obsidian/plugins/tezcat/tezcat.db';
+
+// Fixtures hold the tables plugin 1.1.0 created on startup: FTS3 full-text search and a
+// single-table LSH index. tezcat-1.1.0.db also has three notes with blocks, vectors and FTS rows.
+function readFixture(name: string): Uint8Array {
+    return new Uint8Array(readFileSync(join(__dirname, 'fixtures', name)));
+}
+
+describe('Schema migrations', () => {
+    let vault: MockVaultAdapter;
+    let adapter: SqlJsDatabaseAdapter;
+
+    async function openDatabase(): Promise<SqlJsDatabaseAdapter> {
+        adapter = new SqlJsDatabaseAdapter(createMockPlugin(vault), new VectorUtils(mockLogger as any), mockLogger as any);
+        await adapter.initialize();
+        return adapter;
+    }
+
+    async function tableSql(name: string): Promise<string | null> {
+        const row = await adapter.get('SELECT sql FROM sqlite_master WHERE name = ?', [name]);
+        return (row?.sql as string | undefined) ?? null;
+    }
+
+    beforeEach(() => {
+        vault = new MockVaultAdapter();
+    });
+
+    afterEach(async () => {
+        await adapter?.close();
+    });
+
+    it('stamps a fresh database with the latest version without a backup', async () => {
+        await openDatabase();
+
+        expect(await adapter.getSchemaVersion()).toBe(LATEST_SCHEMA_VERSION);
+        expect([...vault.files.keys()].filter(path => path.endsWith('.bak'))).toEqual([]);
+    });
+
+    it('upgrades a 1.1.0 database to the latest version, keeping notes, blocks and vectors', async () => {
+        vault.files.set(DB_PATH, readFixture('tezcat-1.1.0.db'));
+
+        await openDatabase();
+        const databaseService = new DatabaseService(adapter, mockLogger as any);
+
+        expect(await adapter.getSchemaVersion()).toBe(LATEST_SCHEMA_VERSION);
+        expect((await databaseService.getAllNotes()).map(note => note.path).sort()).toEqual(['Gardening.md', 'Projects/Beekeeping.md', 'Recipes.md']);
+        expect(await databaseService.getVectorCount()).toBe(9);
+
+        const note = (await databaseService.getNoteByPath('Recipes.md'))!;
+        const blocks = await databaseService.getBlocksForNote(note.id);
+        expect(blocks.map(block => block.content)).toEqual(['Tomato soup with basil.', 'Honey glazed carrots.']);
+        expect(blocks[1].start_position).toEqual({ line: 2, col: 0, offset: 25 });
+    });
+
+    it('backs up the database file before migrating', async () => {
+        const fixture = readFixture('tezcat-1.1.0.db');
+        vault.files.set(DB_PATH, fixture);
+
+        await openDatabase();
+
+        expect(vault.files.get(`${DB_PATH}.v1.bak`)).toEqual(fixture);
+    });
+
+    it('persists the migrated database so it is not migrated again', async () => {
+        vault.files.set(DB_PATH, readFixture('tezcat-1.1.0.db'));
+        await openDatabase();
+        await adapter.close();
+        vault.files.delete(`${DB_PATH}.v1.bak`);
+
+        await openDatabase();
+
+        expect(await adapter.getSchemaVersion()).toBe(LATEST_SCHEMA_VERSION);
+        expect(vault.files.has(`${DB_PATH}.v1.bak`)).toBe(false);
+        const applied = await adapter.query('SELECT version FROM schema_version ORDER BY version');
+        expect(applied.map(row => row.version)).toEqual(MIGRATIONS.map(migration => migration.version));
+    });
+
+    it('upgrades a 1.1.0 database that was never indexed', async () => {
+        vault.files.set(DB_PATH, readFixture('tezcat-1.1.0-empty.db'));
+
+        await openDatabase();
+
+        expect(await adapter.getSchemaVersion()).toBe(LATEST_SCHEMA_VERSION);
+        expect(await tableSql('fts_content')).toMatch(/fts4/i);
+        expect(await adapter.isVectorIndexAvailable()).toBe(false);
+    });
+
+    it('version 2 drops the single-table LSH index so it is rebuilt with multiple tables', async () => {
+        vault.files.set(DB_PATH, readFixture('tezcat-1.1.0.db'));
+
+        await openDatabase();
+
+        const columns = await adapter.query('PRAGMA table_info(lsh_buckets)');
+        expect(columns.map(column => column.name)).toContain('table_index');
+        expect((await adapter.get('SELECT COUNT(*) as count FROM lsh_configs'))?.count).toBe(0);
+        expect(await adapter.isVectorIndexAvailable()).toBe(false);
+
+        await adapter.generateVectorIndex(16, { numTables: 2 });
+        expect((await adapter.get('SELECT COUNT(*) as count FROM lsh_buckets'))?.count).toBe(9 * 2);
+    });
+
+    it('version 3 moves full-text rows from FTS3 to FTS4', async () => {
+        vault.files.set(DB_PATH, readFixture('tezcat-1.1.0.db'));
+
+        await openDatabase();
+
+        expect(await tableSql('fts_content')).toMatch(/fts4/i);
+        expect(await tableSql('fts_content_fts3')).toBeNull();
+        expect((await adapter.get('SELECT COUNT(*) as count FROM fts_content'))?.count).toBe(9);
+
+        const [result] = await adapter.searchFTS('honey', 10);
+        expect(result.noteName).toMatch(/Beekeeping|Recipes/);
+        expect(result.snippet.highlights).toHaveLength(1);
+    });
+
+    it('version 4 adds a model fingerprint column, leaving existing vectors unstamped', async () => {
+        vault.files.set(DB_PATH, readFixture('tezcat-1.1.0.db'));
+
+        await openDatabase();
+
+        const columns = await adapter.query('PRAGMA table_info(vectors)');
+        expect(columns.map(column => column.name)).toContain('model');
+        expect((await adapter.get('SELECT COUNT(*) as count FROM vectors WHERE model IS NULL'))?.count).toBe(9);
+    });
+
+    it('version 5 puts existing vectors in the default embedding space', async () => {
+        vault.files.set(DB_PATH, readFixture('tezcat-1.1.0.db'));
+
+        await openDatabase();
+
+        expect((await adapter.get("SELECT COUNT(*) as count FROM vectors WHERE space = 'default'"))?.count).toBe(9);
+        const databaseService = new DatabaseService(adapter, mockLogger as any);
+        expect(await databaseService.getFilesWithoutVectors()).toEqual([]);
+    });
+
+    it('version 6 adds block and position columns to chunks', async () => {
+        vault.files.set(DB_PATH, readFixture('tezcat-1.1.0.db'));
+
+        await openDatabase();
+
+        const columns = await adapter.query('PRAGMA table_info(chunks)');
+        expect(columns.map(column => column.name)).toEqual(expect.arrayContaining(['block_id', 'start_position', 'end_position']));
+    });
+
+    it('version 7 adds a heading path column to blocks, filled in when a note is next indexed', async () => {
+        vault.files.set(DB_PATH, readFixture('tezcat-1.1.0.db'));
+
+        await openDatabase();
+        const databaseService = new DatabaseService(adapter, mockLogger as any);
+
+        const note = (await databaseService.getNoteByPath('Recipes.md'))!;
+        const blocks = await databaseService.getBlocksForNote(note.id);
+        expect(blocks.map(block => block.heading_path)).toEqual([undefined, undefined]);
+
+        const result = await databaseService.insertBlocksForNote(note.id, blocks.map(block => ({ ...block, heading_path: ['Recipes'] })));
+
+        expect(result.changedBlockIds).toEqual([]);
+        expect((await databaseService.getBlocksForNote(note.id)).map(block => block.heading_path)).toEqual([['Recipes'], ['Recipes']]);
+    });
+
+    it('version 8 adds a location column to blocks', async () => {
+        vault.files.set(DB_PATH, readFixture('tezcat-1.1.0.db'));
+
+        await openDatabase();
+
+        const columns = await adapter.query('PRAGMA table_info(blocks)');
+        expect(columns.map(column => column.name)).toContain('location');
+        expect((await adapter.get('SELECT COUNT(*) as count FROM blocks WHERE location IS NOT NULL'))?.count).toBe(0);
+    });
+
+    it('version 9 indexes the LSH tables of every embedding space', async () => {
+        // As the previous release left it: the index names were taken by the default space's tables
+        await openDatabase();
+        await adapter.addVectorSpace('bge_m3');
+        await adapter.execute('DROP INDEX idx_lsh_hash_functions_config_id__bge_m3');
+        await adapter.execute('DROP INDEX idx_lsh_buckets_config_table_hash__bge_m3');
+        await adapter.execute('DELETE FROM schema_version');
+        await adapter.execute('INSERT INTO schema_version (version, description) VALUES (?, ?)', [8, 'Previous release']);
+        await adapter.close();
+
+        await openDatabase();
+
+        expect(await adapter.getSchemaVersion()).toBe(LATEST_SCHEMA_VERSION);
+        const indexes = await adapter.query("SELECT name, tbl_name FROM sqlite_master WHERE type = 'index' AND name GLOB 'idx_lsh_*' ORDER BY name");
+        expect(indexes).toEqual([
+            { name: 'idx_lsh_buckets_config_table_hash', tbl_name: 'lsh_buckets' },
+            { name: 'idx_lsh_buckets_config_table_hash__bge_m3', tbl_name: 'lsh_buckets__bge_m3' },
+            { name: 'idx_lsh_hash_functions_config_id', tbl_name: 'lsh_hash_functions' },
+            { name: 'idx_lsh_hash_functions_config_id__bge_m3', tbl_name: 'lsh_hash_functions__bge_m3' }
+        ]);
+    });
+
+    it('version 10 records how LSH indexes were sized, leaving existing ones alone', async () => {
+        await openDatabase();
+        await adapter.addVectorSpace('bge_m3');
+        await adapter.execute('ALTER TABLE lsh_configs DROP COLUMN auto_sized');
+        await adapter.execute('ALTER TABLE lsh_configs__bge_m3 DROP COLUMN auto_sized');
+        await adapter.execute("INSERT INTO lsh_configs (id, vector_count, vector_dimensions, num_hash_functions) VALUES ('config', 40, 16, 6)");
+        await adapter.execute('DELETE FROM schema_version');
+        await adapter.execute('INSERT INTO schema_version (version, description) VALUES (?, ?)', [9, 'Previous release']);
+        await adapter.close();
+
+        await openDatabase();
+
+        expect(await adapter.getSchemaVersion()).toBe(LATEST_SCHEMA_VERSION);
+        expect(await adapter.query('SELECT auto_sized FROM lsh_configs')).toEqual([{ auto_sized: 0 }]);
+        const columns = await adapter.query('PRAGMA table_info(lsh_configs__bge_m3)');
+        expect(columns.map(column => column.name)).toContain('auto_sized');
+    });
+
+    it('rolls back a failing migration and leaves the file on disk untouched', async () => {
+        const fixture = readFixture('tezcat-1.1.0.db');
+        vault.files.set(DB_PATH, fixture);
+        MIGRATIONS.push({
+            version: LATEST_SCHEMA_VERSION + 1,
+            description: 'Broken migration',
+            async up(store) {
+                await store.execute('DROP TABLE notes');
+                await store.execute('SELECT * FROM missing_table');
+            }
+        });
+
+        try {
+            adapter = new SqlJsDatabaseAdapter(createMockPlugin(vault), new VectorUtils(mockLogger as any), mockLogger as any);
+            await expect(adapter.initialize()).rejects.toThrow(`Migration to schema version ${LATEST_SCHEMA_VERSION + 1} failed`);
+        } finally {
+            MIGRATIONS.pop();
+        }
+
+        expect(vault.files.get(DB_PATH)).toEqual(fixture);
+        expect(await adapter.get("SELECT name FROM sqlite_master WHERE name = 'notes'")).not.toBeNull();
+    });
+});
@@ -0,0 +1,43 @@
+/**
+ * A fake embedding model and a real in-memory database for the suites that index notes end to end.
+ * Those suites still load the real sql.js WASM binary themselves, since vi.mock only applies
+ * to the test file it is called in.
+ */
+
+import { vi } from 'vitest';
+import { SqlJsDatabaseAdapter, DatabaseService } from '../../src/database_service';
+import { VectorUtils } from '../../src/embedding_service';
+import { createMockPlugin } from './vault-adapter-mock';
+
+export const DIMENSIONS = 16;
+
+export const mockLogger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    setLevel: vi.fn()
+};
+
+/**
+ * Deterministic stand-in for an embedding model that records what it was asked to embed.
+ * Models with different seeds embed the same text differently.
+ */
+export function embedder(seed: number = 3, dimensions: number = DIMENSIONS) {
+    const embed = (text: string) => VectorUtils.processVector(
+        Array.from({ length: dimensions }, (_, i) => ((text.charCodeAt(i % text.length) * (seed + i)) % 13) - 6 + 0.5)
+    );
+    return {
+        embedText: vi.fn(async (text: string) => embed(text)),
+        embedTexts: vi.fn(async (texts: string[]) => texts.map(embed))
+    };
+}
+
+/**
+ * Open an empty database on a fresh in-memory vault
+ */
+export async function openTestDatabase(): Promise<{ adapter: SqlJsDatabaseAdapter; databaseService: DatabaseService }> {
+    const adapter = new SqlJsDatabaseAdapter(createMockPlugin(), new VectorUtils(mockLogger as any), mockLogger as any);
+    await adapter.initialize();
+    return { adapter, databaseService: new DatabaseService(adapter, mockLogger as any) };
+}
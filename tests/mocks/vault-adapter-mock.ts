@@ -0,0 +1,60 @@
+/**
+ * In-memory stand-in for the Obsidian vault adapter and plugin, so the real
+ * sql.js adapter can persist to and load from "disk" inside tests
+ */
+
+export class MockVaultAdapter {
+    files = new Map<string, Uint8Array>();
+
+    async exists(path: string): Promise<boolean> {
+        return this.files.has(path);
+    }
+
+    async readBinary(path: string): Promise<ArrayBuffer> {
+        const data = this.files.get(path);
+        if (!data) throw new Error(`ENOENT: ${path}`);
+        return data.slice().buffer;
+    }
+
+    async writeBinary(path: string, data: ArrayBuffer | Uint8Array): Promise<void> {
+        this.files.set(path, new Uint8Array(data).slice());
+    }
+
+    async read(path: string): Promise<string> {
+        return new TextDecoder().decode(await this.readBinary(path));
+    }
+
+    // Creates the file if it does not exist yet
+    async append(path: string, data: string): Promise<void> {
+        const existing = this.files.get(path) ?? new Uint8Array(0);
+        const added = new TextEncoder().encode(data);
+        const combined = new Uint8Array(existing.length + added.length);
+        combined.set(existing);
+        combined.set(added, existing.length);
+        this.files.set(path, combined);
+    }
+
+    // Like Obsidian's adapter, refuses to replace an existing file
+    async rename(path: string, newPath: string): Promise<void> {
+        const data = this.files.get(path);
+        if (!data) throw new Error(`ENOENT: ${path}`);
+        if (this.files.has(newPath)) throw new Error('Destination file already exists!');
+        this.files.delete(path);
+        this.files.set(newPath, data);
+    }
+
+    async remove(path: string): Promise<void> {
+        if (!this.files.delete(path)) throw new Error(`ENOENT: ${path}`);
+    }
+}
+
+export function createMockPlugin(adapter: MockVaultAdapter = new MockVaultAdapter()): any {
+    return {
+        app: {
+            vault: {
+                configDir: '.obsidian',
+                adapter
+            }
+        }
+    };
+}
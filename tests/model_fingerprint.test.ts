@@ -0,0 +1,174 @@
+/**
+ * Tests for embedding model fingerprints on stored vectors
+ * Uses a REAL in-memory sql.js database with two stand-in embedding models
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+import { SqlJsDatabaseAdapter, DatabaseService, VectorType } from '../src/database_service';
+import { modelFingerprint, TextEmbedder, VectorUtils } from '../src/embedding_service';
+import { BlockType } from '../src/note_processor';
+import { SearchService } from '../src/search_service';
+import { VectorIndexType } from '../src/vector_index';
+import { createMockPlugin } from './mocks/vault-adapter-mock';
+
+const mockLogger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    setLevel: vi.fn()
+};
+
+const DIMENSIONS = 16;
+const OLD_MODEL = modelFingerprint('ollama', 'nomic-embed-text:v1.5', DIMENSIONS);
+const NEW_MODEL = modelFingerprint('ollama', 'bge-m3', DIMENSIONS);
+
+// Deterministic stand-in for an embedding model; the seed makes each model's space different
+function embedder(seed: number): TextEmbedder {
+    const embed = (text: string) => VectorUtils.processVector(
+        Array.from({ length: DIMENSIONS }, (_, i) => ((text.charCodeAt(i % text.length) * (seed + i)) % 13) - 6 + 0.5)
+    );
+    return {
+        embedText: async (text: string) => embed(text),
+        embedTexts: async (texts: string[]) => texts.map(embed)
+    };
+}
+
+describe('Embedding model fingerprints', () => {
+    let adapter: SqlJsDatabaseAdapter;
+    let databaseService: DatabaseService;
+    const oldEmbedder = embedder(3);
+    const newEmbedder = embedder(7);
+
+    async function indexNote(name: string, text: string, embeddingService: TextEmbedder): Promise<string> {
+        const noteId = await databaseService.createNote({ path: `${name}.md`, name: `${name}.md`, base_name: name, text });
+        const { blockIds } = await databaseService.insertBlocksForNote(noteId, [{
+            id: '',
+            type: BlockType.PARAGRAPH,
+            content: text,
+            obsidian_id: null,
+            start_position: { line: 0, col: 0, offset: 0 },
+            end_position: { line: 0, col: text.length, offset: text.length }
+        }]);
+        await databaseService.processNoteVector(noteId, embeddingService);
+        await databaseService.processBlockVectors(noteId, blockIds, embeddingService);
+        return noteId;
+    }
+
+    async function modelsOf(noteId: string): Promise<(string | undefined)[]> {
+        return (await databaseService.getVectorsForNote(noteId)).map(vector => vector.model);
+    }
+
+    beforeEach(async () => {
+        adapter = new SqlJsDatabaseAdapter(createMockPlugin(), new VectorUtils(mockLogger as any), mockLogger as any);
+        adapter.setVectorIndexType(VectorIndexType.LINEAR);
+        await adapter.initialize();
+        databaseService = new DatabaseService(adapter, mockLogger as any);
+    });
+
+    afterEach(async () => {
+        await adapter.close();
+    });
+
+    it('stamps new vectors with the current model fingerprint', async () => {
+        databaseService.setModelFingerprint(OLD_MODEL);
+
+        const noteId = await indexNote('apples', 'Apples grow on trees in the orchard', oldEmbedder);
+
+        expect(await modelsOf(noteId)).toEqual([OLD_MODEL, OLD_MODEL]);
+    });
+
+    it('leaves vectors from another model out of search', async () => {
+        databaseService.setModelFingerprint(OLD_MODEL);
+        await indexNote('apples', 'Apples grow on trees in the orchard', oldEmbedder);
+        databaseService.setModelFingerprint(NEW_MODEL);
+        await indexNote('pears', 'Pears ripen slowly on the kitchen windowsill', newEmbedder);
+
+        const searchService = new SearchService(databaseService, newEmbedder, mockLogger as any);
+        const results = await searchService.vectorSearch('Apples grow on trees in the orchard', { topK: 10, useVectorIndex: false });
+
+        expect(results.length).toBeGreaterThan(0);
+        expect(results.every(result => result.notePath === 'pears.md')).toBe(true);
+    });
+
+    it('filters stale candidates returned by an approximate index', async () => {
+        databaseService.setModelFingerprint(OLD_MODEL);
+        await indexNote('apples', 'Apples grow on trees in the orchard', oldEmbedder);
+        databaseService.setModelFingerprint(NEW_MODEL);
+        await indexNote('pears', 'Pears ripen slowly on the kitchen windowsill', newEmbedder);
+        adapter.setVectorIndexType(VectorIndexType.HNSW);
+        await adapter.generateVectorIndex(DIMENSIONS);
+
+        const searchService = new SearchService(databaseService, newEmbedder, mockLogger as any);
+        const results = await searchService.vectorSearch('Apples grow on trees in the orchard', { topK: 10 });
+
+        expect(results.every(result => result.notePath === 'pears.md')).toBe(true);
+    });
+
+    it('counts stale vectors and lists only the notes that need re-embedding', async () => {
+        databaseService.setModelFingerprint(OLD_MODEL);
+        await indexNote('apples', 'Apples grow on trees in the orchard', oldEmbedder);
+        databaseService.setModelFingerprint(null);
+        await indexNote('cherries', 'Cherries were picked before the storm arrived', oldEmbedder);
+        databaseService.setModelFingerprint(NEW_MODEL);
+        await indexNote('pears', 'Pears ripen slowly on the kitchen windowsill', newEmbedder);
+
+        expect(await databaseService.getStaleVectorCounts()).toEqual({ mismatched: 2, unknown: 2, notes: 2 });
+        expect((await databaseService.getNotesWithStaleVectors()).map(note => note.path)).toEqual(['apples.md', 'cherries.md']);
+    });
+
+    it('re-embeds a stale note with the current model, keeping its blocks and full-text rows', async () => {
+        databaseService.setModelFingerprint(OLD_MODEL);
+        const noteId = await indexNote('apples', 'Apples grow on trees in the orchard', oldEmbedder);
+        const [block] = await databaseService.getBlocksForNote(noteId);
+        databaseService.setModelFingerprint(NEW_MODEL);
+
+        await databaseService.reembedNote(noteId, newEmbedder);
+
+        expect(await modelsOf(noteId)).toEqual([NEW_MODEL, NEW_MODEL]);
+        expect((await databaseService.getBlocksForNote(noteId)).map(b => b.id)).toEqual([block.id]);
+        expect((await databaseService.getFTSTableStats()).count).toBe(2);
+        expect(await databaseService.getStaleVectorCounts()).toEqual({ mismatched: 0, unknown: 0, notes: 0 });
+
+        const searchService = new SearchService(databaseService, newEmbedder, mockLogger as any);
+        const [result] = await searchService.vectorSearch('Apples grow on trees in the orchard', { topK: 1, useVectorIndex: false });
+        expect(result.notePath).toBe('apples.md');
+    });
+
+    it('adopts vectors of unknown origin but never ones from another model', async () => {
+        databaseService.setModelFingerprint(OLD_MODEL);
+        const appleId = await indexNote('apples', 'Apples grow on trees in the orchard', oldEmbedder);
+        databaseService.setModelFingerprint(null);
+        const cherryId = await indexNote('cherries', 'Cherries were picked before the storm arrived', newEmbedder);
+        databaseService.setModelFingerprint(NEW_MODEL);
+
+        await databaseService.adoptUnstampedVectors();
+
+        expect(await modelsOf(appleId)).toEqual([OLD_MODEL, OLD_MODEL]);
+        expect(await modelsOf(cherryId)).toEqual([NEW_MODEL, NEW_MODEL]);
+
+        const searchService = new SearchService(databaseService, newEmbedder, mockLogger as any);
+        const results = await searchService.vectorSearch('Cherries were picked before the storm arrived', { topK: 10, useVectorIndex: false });
+        expect(results.map(result => result.notePath)).toContain('cherries.md');
+    });
+
+    it('compares every vector while no fingerprint is set', async () => {
+        databaseService.setModelFingerprint(OLD_MODEL);
+        await indexNote('apples', 'Apples grow on trees in the orchard', oldEmbedder);
+        databaseService.setModelFingerprint(null);
+
+        const searchService = new SearchService(databaseService, oldEmbedder, mockLogger as any);
+        const results = await searchService.vectorSearch('Apples grow on trees in the orchard', { topK: 10, useVectorIndex: false });
+
+        expect(results.map(result => result.notePath)).toContain('apples.md');
+        expect(await databaseService.getStaleVectorCounts()).toEqual({ mismatched: 0, unknown: 0, notes: 0 });
+    });
+});
@@ -0,0 +1,217 @@
+/**
+ * Tests for removing and renaming notes, and cleaning up what deleted notes leave behind
+ * Uses a REAL in-memory sql.js database
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+import { SqlJsDatabaseAdapter, DatabaseService } from '../src/database_service';
+import { DEFAULT_SPACE_ID } from '../src/embedding_space';
+import { BlockType } from '../src/note_processor';
+import { SearchService } from '../src/search_service';
+import { DIMENSIONS, embedder, mockLogger, openTestDatabase } from './mocks/indexing-mock';
+
+const EXTRA_SPACE = 'bge_m3';
+
+// Tables holding rows that belong to a note
+const NOTE_TABLES = ['notes', 'blocks', 'chunks', 'vectors', 'fts_content', 'note_properties'];
+
+describe('Note removal and rename', () => {
+    let adapter: SqlJsDatabaseAdapter;
+    let databaseService: DatabaseService;
+    let model: ReturnType<typeof embedder>;
+
+    // Stores a note the way processOneFileIntoDatabase does, in both spaces
+    async function addNote(path: string, text: string): Promise<string> {
+        const name = path.split('/').pop()!;
+        const { noteId } = await databaseService.upsertNote(path, name, name.replace(/\.md$/, ''), text);
+        await databaseService.setNoteProperties(noteId, [{ key: 'tags', value: 'bees', date: null }]);
+        const offset = text.indexOf('\n\n') + 2;
+        const { changedBlockIds } = await databaseService.insertBlocksForNote(noteId, [{
+            id: '',
+            type: BlockType.PARAGRAPH,
+            content: text.slice(offset),
+            obsidian_id: null,
+            start_position: { line: 2, col: 0, offset },
+            end_position: { line: 2, col: text.length - offset, offset: text.length }
+        }]);
+        const chunkIds = await databaseService.insertChunksForNote(noteId, [{ chunk_index: 0, text }]);
+        for (const space of [undefined, EXTRA_SPACE]) {
+            await databaseService.processChunkVectors(noteId, chunkIds, model, space);
+            await databaseService.processNoteVector(noteId, model, space);
+            await databaseService.processBlockVectors(noteId, changedBlockIds, model, space);
+        }
+        return noteId;
+    }
+
+    async function rowCounts(noteId: string): Promise<Record<string, number>> {
+        const counts: Record<string, number> = {};
+        for (const table of NOTE_TABLES) {
+            const column = table === 'notes' ? 'id' : 'note_id';
+            counts[table] = (await adapter.get(`SELECT COUNT(*) as count FROM ${table} WHERE ${column} = ?`, [noteId]))!.count as number;
+        }
+        return counts;
+    }
+
+    beforeEach(async () => {
+        ({ adapter, databaseService } = await openTestDatabase());
+        await adapter.addVectorSpace(EXTRA_SPACE);
+        model = embedder();
+    });
+
+    afterEach(async () => {
+        await adapter.close();
+    });
+
+    it('removes a note from every table and vector index, leaving other notes alone', async () => {
+        const removed = await addNote('Hives.md', 'Hives\n\nInspect the brood frames weekly.');
+        const kept = await addNote('Garden.md', 'Garden\n\nPlant clover for the bees.');
+        await adapter.generateVectorIndex(DIMENSIONS);
+        const removedVectorIds = (await databaseService.getVectorsForNote(removed)).map(vector => vector.id);
+        const keptCounts = await rowCounts(kept);
+
+        await databaseService.removeNote(removed);
+
+        expect(Object.values(await rowCounts(removed))).toEqual(NOTE_TABLES.map(() => 0));
+        const placeholders = removedVectorIds.map(() => '?').join(', ');
+        expect((await adapter.get(`SELECT COUNT(*) as count FROM lsh_buckets WHERE vector_id IN (${placeholders})`, removedVectorIds))!.count).toBe(0);
+        expect(await rowCounts(kept)).toEqual(keptCounts);
+        expect(await databaseService.getOrphanedDataCounts()).toEqual({
+            orphanedVectors: 0, orphanedChunks: 0, orphanedChunkVectors: 0, orphanedBlocks: 0, orphanedFTSRows: 0
+        });
+    });
+
+    it('moves a note and its full-text rows to the new path, keeping blocks and vectors', async () => {
+        const noteId = await addNote('Inbox/Hives.md', 'Hives\n\nInspect the brood frames weekly.');
+        const blockIds = (await databaseService.getBlocksForNote(noteId)).map(block => block.id);
+        const vectorIds = (await databaseService.getVectorsForNote(noteId)).map(vector => vector.id).sort();
+
+        await databaseService.renameNote(noteId, 'Apiary/Hive log.md', 'Hive log.md', 'Hive log');
+
+        expect(await databaseService.getNoteByPath('Inbox/Hives.md')).toBeNull();
+        expect((await databaseService.getNoteByPath('Apiary/Hive log.md'))?.base_name).toBe('Hive log');
+        expect((await databaseService.getBlocksForNote(noteId)).map(block => block.id)).toEqual(blockIds);
+        expect((await databaseService.getVectorsForNote(noteId)).map(vector => vector.id).sort()).toEqual(vectorIds);
+        const ftsRows = await adapter.query('SELECT DISTINCT note_path, note_name FROM fts_content WHERE note_id = ?', [noteId]);
+        expect(ftsRows).toEqual([{ note_path: 'Apiary/Hive log.md', note_name: 'Hive log.md' }]);
+
+        const searchService = new SearchService(databaseService, model, mockLogger as any);
+        const results = await searchService.hybridSearch('brood', { minScore: 0, includeBlockVectors: false, includeNoteVectors: false });
+        expect(results.length).toBeGreaterThan(0);
+        expect(results.every(result => result.notePath === 'Apiary/Hive log.md')).toBe(true);
+    });
+
+    it('moves every note under a renamed folder without touching look-alike folders', async () => {
+        const nested = await addNote('Bees 100%/Hives/Log.md', 'Log\n\nInspect the brood frames weekly.');
+        const top = await addNote('Bees 100%/Plan 🐝.md', 'Plan\n\nPlant clover for the bees.');
+        const lookAlike = await addNote('Bees 1000/Other.md', 'Other\n\nA neighbouring folder.');
+        const vectorIds = (await databaseService.getVectorsForNote(nested)).map(vector => vector.id).sort();
+        const blockIds = (await databaseService.getBlocksForNote(nested)).map(block => block.id);
+        model.embedText.mockClear();
+        model.embedTexts.mockClear();
+
+        expect(await databaseService.renameFolder('Bees 100%', 'Archive/Bees ✓')).toBe(2);
+
+        expect((await databaseService.getNote(nested))?.path).toBe('Archive/Bees ✓/Hives/Log.md');
+        expect((await databaseService.getNote(top))?.path).toBe('Archive/Bees ✓/Plan 🐝.md');
+        expect((await databaseService.getNote(lookAlike))?.path).toBe('Bees 1000/Other.md');
+        expect((await databaseService.getVectorsForNote(nested)).map(vector => vector.id).sort()).toEqual(vectorIds);
+        expect((await databaseService.getBlocksForNote(nested)).map(block => block.id)).toEqual(blockIds);
+        const ftsPaths = await adapter.query('SELECT DISTINCT note_path FROM fts_content ORDER BY note_path');
+        expect(ftsPaths.map(row => row.note_path)).toEqual(['Archive/Bees ✓/Hives/Log.md', 'Archive/Bees ✓/Plan 🐝.md', 'Bees 1000/Other.md']);
+        expect(model.embedText).not.toHaveBeenCalled();
+        expect(model.embedTexts).not.toHaveBeenCalled();
+        expect(await databaseService.renameFolder('Empty', 'Still empty')).toBe(0);
+    });
+
+    it('leaves a folder whose name differs only in case alone when renaming', async () => {
+        const moved = await addNote('Projects/Hives.md', 'Hives\n\nInspect the brood frames weekly.');
+        const sibling = await addNote('projects/Garden.md', 'Garden\n\nPlant clover for the bees.');
+
+        expect(await databaseService.renameFolder('Projects', 'Archive')).toBe(1);
+
+        expect((await databaseService.getNote(moved))?.path).toBe('Archive/Hives.md');
+        expect((await databaseService.getNote(sibling))?.path).toBe('projects/Garden.md');
+        const ftsPaths = await adapter.query('SELECT DISTINCT note_path FROM fts_content ORDER BY note_path');
+        expect(ftsPaths.map(row => row.note_path)).toEqual(['Archive/Hives.md', 'projects/Garden.md']);
+    });
+
+    it('tells which spaces a note whose indexing stopped partway is missing vectors in', async () => {
+        const spaces = [DEFAULT_SPACE_ID, EXTRA_SPACE];
+        const noteId = await addNote('Hives.md', 'Hives\n\nInspect the brood frames weekly.');
+        expect(await databaseService.getSpacesMissingVectors(noteId, spaces)).toEqual([]);
+        const counts = await rowCounts(noteId);
+
+        // The edit is stored, then indexing stops before anything is embedded
+        const text = 'Hives\n\nInspect the brood frames every week.';
+        const { changed } = await databaseService.upsertNote('Hives.md', 'Hives.md', 'Hives', text);
+        expect(changed).toBe(true);
+        const offset = text.indexOf('\n\n') + 2;
+        const { blockIds } = await databaseService.insertBlocksForNote(noteId, [{
+            id: '',
+            type: BlockType.PARAGRAPH,
+            content: text.slice(offset),
+            obsidian_id: null,
+            start_position: { line: 2, col: 0, offset },
+            end_position: { line: 2, col: text.length - offset, offset: text.length }
+        }]);
+        await databaseService.deleteNoteLevelVectors(noteId);
+        expect((await databaseService.upsertNote('Hives.md', 'Hives.md', 'Hives', text)).changed).toBe(false);
+        expect(await databaseService.getSpacesMissingVectors(noteId, spaces)).toEqual(spaces);
+
+        // What the next indexing of the unchanged note does when every space is missing vectors
+        await databaseService.clearNoteEmbeddings(noteId);
+        const chunkIds = await databaseService.insertChunksForNote(noteId, [{ chunk_index: 0, text }]);
+        for (const space of [undefined, EXTRA_SPACE]) {
+            await databaseService.processChunkVectors(noteId, chunkIds, model, space);
+            await databaseService.processNoteVector(noteId, model, space);
+            await databaseService.processBlockVectors(noteId, blockIds, model, space);
+        }
+        expect(await databaseService.getSpacesMissingVectors(noteId, spaces)).toEqual([]);
+        expect(await rowCounts(noteId)).toEqual(counts);
+
+        // Stopped after the default space: only the extra space is embedded again
+        const defaultVectorIds = (await databaseService.getVectorsForNote(noteId))
+            .filter(vector => vector.space === DEFAULT_SPACE_ID).map(vector => vector.id).sort();
+        await databaseService.deleteVectorsForNote(noteId, EXTRA_SPACE);
+        expect(await databaseService.getSpacesMissingVectors(noteId, spaces)).toEqual([EXTRA_SPACE]);
+        await databaseService.reembedNote(noteId, model, EXTRA_SPACE);
+        expect(await databaseService.getSpacesMissingVectors(noteId, spaces)).toEqual([]);
+        expect((await databaseService.getVectorsForNote(noteId))
+            .filter(vector => vector.space === DEFAULT_SPACE_ID).map(vector => vector.id).sort()).toEqual(defaultVectorIds);
+        expect(await rowCounts(noteId)).toEqual(counts);
+
+        // Vectors of another model are stale, not missing
+        databaseService.setModelFingerprint('ollama:other-model:16');
+        expect(await databaseService.getSpacesMissingVectors(noteId, spaces)).toEqual([]);
+    });
+
+    it('counts and cleans up blocks and full-text rows whose note or block is gone', async () => {
+        const noteId = await addNote('Hives.md', 'Hives\n\nInspect the brood frames weekly.');
+        const kept = await addNote('Garden.md', 'Garden\n\nPlant clover for the bees.');
+        // Deleted the way the delete handler used to, leaving blocks and full-text rows behind
+        await databaseService.deleteVectorsForNote(noteId);
+        await databaseService.deleteChunksForNote(noteId);
+        await databaseService.deleteNote(noteId);
+        const [keptBlock] = await databaseService.getBlocksForNote(kept);
+        await adapter.execute('DELETE FROM blocks WHERE id = ?', [keptBlock.id]);
+
+        const counts = await databaseService.getOrphanedDataCounts();
+        expect(counts.orphanedBlocks).toBe(1);
+        expect(counts.orphanedFTSRows).toBe(3);
+
+        await databaseService.performFullCleanup();
+
+        expect(await databaseService.getOrphanedDataCounts()).toEqual({
+            orphanedVectors: 0, orphanedChunks: 0, orphanedChunkVectors: 0, orphanedBlocks: 0, orphanedFTSRows: 0
+        });
+        expect((await databaseService.searchFTS('clover', 5)).map(result => result.type)).toEqual(['note']);
+    });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests for frontmatter properties and the search filters built on them
+ * Uses a REAL in-memory sql.js database
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+import { SqlJsDatabaseAdapter, DatabaseService } from '../src/database_service';
+import { NoteProcessor } from '../src/note_processor';
+import { SearchService } from '../src/search_service';
+import { DIMENSIONS, embedder, mockLogger, openTestDatabase } from './mocks/indexing-mock';
+
+describe('NoteProcessor.getPropertiesFromFile', () => {
+    const processor = new NoteProcessor();
+
+    it('flattens frontmatter into one entry per value', () => {
+        const properties = processor.getPropertiesFromFile({
+            frontmatter: {
+                Tags: ['#project/alpha', 'review'],
+                alias: 'Alpha, Project A',
+                due: '2024-03-15',
+                reviewed: '2024-03-01 09:30',
+                priority: 2,
+                draft: false,
+                owner: null,
+                position: { start: 0, end: 10 }
+            },
+            tags: [{ tag: '#inline' }, { tag: '#review' }]
+        });
+
+        expect(properties).toEqual([
+            { key: 'tags', value: 'project/alpha', date: null },
+            { key: 'tags', value: 'review', date: null },
+            { key: 'aliases', value: 'Alpha', date: null },
+            { key: 'aliases', value: 'Project A', date: null },
+            { key: 'due', value: '2024-03-15', date: '2024-03-15' },
+            { key: 'reviewed', value: '2024-03-01 09:30', date: '2024-03-01T09:30' },
+            { key: 'priority', value: '2', date: null },
+            { key: 'draft', value: 'false', date: null },
+            { key: 'tags', value: 'inline', date: null }
+        ]);
+    });
+
+    it('returns nothing for a note without frontmatter or tags', () => {
+        expect(processor.getPropertiesFromFile({ sections: [] })).toEqual([]);
+        expect(processor.getPropertiesFromFile(null)).toEqual([]);
+    });
+});
+
+describe('Note filters', () => {
+    let adapter: SqlJsDatabaseAdapter;
+    let databaseService: DatabaseService;
+    let searchService: SearchService;
+    const processor = new NoteProcessor();
+    const ids: Record<string, string> = {};
+
+    async function addNote(path: string, text: string, frontmatter: Record<string, unknown>) {
+        const name = path.split('/').pop()!;
+        const { noteId } = await databaseService.upsertNote(path, name, name.replace(/\.md$/, ''), text);
+        await databaseService.setNoteProperties(noteId, processor.getPropertiesFromFile({ frontmatter }));
+        await databaseService.processNoteVector(noteId, model);
+        ids[path] = noteId;
+    }
+
+    let model: ReturnType<typeof embedder>;
+
+    beforeEach(async () => {
+        ({ adapter, databaseService } = await openTestDatabase());
+        model = embedder();
+        searchService = new SearchService(databaseService, model, mockLogger as any);
+
+        await addNote('Projects/Alpha.md', 'Alpha launch plan with honey budget', { tags: ['project/alpha'], status: 'Active', due: '2024-03-15' });
+        await addNote('Projects/Beta.md', 'Beta launch plan with wax budget', { tags: ['project/beta'], status: 'done', due: '2024-06-01T12:00' });
+        await addNote('Projects_old/Gamma.md', 'Gamma launch plan with honey notes', { tags: ['archive'], status: 'active' });
+        await addNote('Journal/2024-03-10.md', 'Daily journal about honey', { tags: ['journal'], date: '2024-03-10' });
+    });
+
+    afterEach(async () => {
+        await adapter.close();
+    });
+
+    const paths = (noteIds: string[]) => Object.keys(ids).filter(path => noteIds.includes(ids[path])).sort();
+
+    it('matches tags, including nested ones', async () => {
+        expect(paths(await databaseService.getNoteIdsMatching({ tags: ['#project'] }))).toEqual(['Projects/Alpha.md', 'Projects/Beta.md']);
+        expect(paths(await databaseService.getNoteIdsMatching({ tags: ['project/alpha'] }))).toEqual(['Projects/Alpha.md']);
+        expect(paths(await databaseService.getNoteIdsMatching({ tags: ['proj'] }))).toEqual([]);
+    });
+
+    it('matches folders without leaking into folders sharing a prefix', async () => {
+        expect(paths(await databaseService.getNoteIdsMatching({ folder: 'Projects/' }))).toEqual(['Projects/Alpha.md', 'Projects/Beta.md']);
+        expect(paths(await databaseService.getNoteIdsMatching({ folder: 'Projects_old' }))).toEqual(['Projects_old/Gamma.md']);
+    });
+
+    it('matches folders case-sensitively, like vault paths', async () => {
+        await addNote('projects/Delta.md', 'Delta launch plan', {});
+
+        expect(paths(await databaseService.getNoteIdsMatching({ folder: 'Projects' }))).toEqual(['Projects/Alpha.md', 'Projects/Beta.md']);
+        expect(paths(await databaseService.getNoteIdsMatching({ folder: 'projects' }))).toEqual(['projects/Delta.md']);
+    });
+
+    it('matches property values case-insensitively and combines filters', async () => {
+        expect(paths(await databaseService.getNoteIdsMatching({ properties: { Status: 'active' } }))).toEqual(['Projects/Alpha.md', 'Projects_old/Gamma.md']);
+        expect(paths(await databaseService.getNoteIdsMatching({ properties: { status: 'active' }, folder: 'Projects' }))).toEqual(['Projects/Alpha.md']);
+    });
+
+    it('matches date ranges, with a date-only upper bound covering its whole day', async () => {
+        expect(paths(await databaseService.getNoteIdsMatching({ dateRanges: [{ property: 'due', from: '2024-03-01', to: '2024-06-01' }] })))
+            .toEqual(['Projects/Alpha.md', 'Projects/Beta.md']);
+        expect(paths(await databaseService.getNoteIdsMatching({ dateRanges: [{ property: 'due', to: '2024-05-31' }] }))).toEqual(['Projects/Alpha.md']);
+        expect(paths(await databaseService.getNoteIdsMatching({ dateRanges: [{ property: 'date', from: '2024-04-01' }] }))).toEqual([]);
+    });
+
+    it('skips writing unchanged properties and replaces changed ones', async () => {
+        const noteId = ids['Projects/Alpha.md'];
+        const properties = processor.getPropertiesFromFile({ frontmatter: { tags: ['project/alpha'], status: 'Active', due: '2024-03-15' } });
+
+        expect(await databaseService.setNoteProperties(noteId, properties)).toBe(false);
+        expect(await databaseService.setNoteProperties(noteId, [{ key: 'status', value: 'done', date: null }])).toBe(true);
+        expect(await databaseService.getNoteProperties(noteId)).toEqual([{ key: 'status', value: 'done', date: null }]);
+    });
+
+    it('applies filters in vector search before scoring, even with an index', async () => {
+        await adapter.generateVectorIndex(DIMENSIONS);
+
+        const results = await searchService.vectorSearch('launch plan', { topK: 2, minScore: 0, filters: { tags: ['project'] } });
+
+        expect(results.map(result => result.notePath).sort()).toEqual(['Projects/Alpha.md', 'Projects/Beta.md']);
+        expect(await searchService.vectorSearch('launch plan', { filters: { tags: ['missing'] } })).toEqual([]);
+    });
+
+    it('applies filters to the full-text side of hybrid search', async () => {
+        const results = await searchService.hybridSearch('honey', { minScore: 0, filters: { folder: 'Journal' } });
+
+        expect(results.map(result => result.notePath)).toEqual(['Journal/2024-03-10.md']);
+    });
+});
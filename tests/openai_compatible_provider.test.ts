@@ -0,0 +1,146 @@
+/**
+ * Tests for the OpenAI-compatible embedding provider
+ * Runs against a local mock HTTP server speaking the /v1/embeddings API
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+
+// Obsidian's requestUrl, backed by fetch: non-2xx statuses throw unless `throw: false`
+vi.mock('obsidian', async (importOriginal) => ({
+    ...await importOriginal<Record<string, unknown>>(),
+    requestUrl: async (request: { url: string; method?: string; headers?: Record<string, string>; body?: string; throw?: boolean }) => {
+        const response = await fetch(request.url, { method: request.method, headers: request.headers, body: request.body });
+        const text = await response.text();
+        if (response.status >= 400 && request.throw !== false) {
+            throw new Error(`Request failed, status ${response.status}`);
+        }
+        return { status: response.status, text, get json() { return JSON.parse(text); } };
+    }
+}));
+
+import { OpenAICompatibleEmbeddingProvider, VectorUtils, parseHeaderLines } from '../src/embedding_service';
+
+const mockLogger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    setLevel: vi.fn()
+};
+
+const DIMENSIONS = 6;
+
+interface EmbeddingsRequest {
+    url: string;
+    headers: IncomingHttpHeaders;
+    body: { input: string[]; model: string };
+}
+
+// Deterministic embedding of an input, so tests can check which vector belongs to which text
+function fakeEmbedding(text: string): number[] {
+    return Array.from({ length: DIMENSIONS }, (_, i) => ((text.charCodeAt(i % text.length) * (i + 1)) % 11) - 5 + 0.5);
+}
+
+describe('OpenAICompatibleEmbeddingProvider', () => {
+    let server: Server;
+    let baseUrl: string;
+    let requests: EmbeddingsRequest[];
+    let respond: (request: EmbeddingsRequest) => { status: number; body: unknown };
+
+    function provider(options: { model?: string; headers?: Record<string, string>; dimensions?: number; url?: string } = {}) {
+        return new OpenAICompatibleEmbeddingProvider(
+            options.url ?? `${baseUrl}/v1/`,
+            options.model ?? 'nomic-embed-text-v1.5',
+            options.headers ?? {},
+            options.dimensions ?? 0,
+            mockLogger as any
+        );
+    }
+
+    beforeAll(async () => {
+        server = createServer((req, res) => {
+            let raw = '';
+            req.on('data', chunk => raw += chunk);
+            req.on('end', () => {
+                const request = { url: req.url ?? '', headers: req.headers, body: JSON.parse(raw || '{}') };
+                requests.push(request);
+                const { status, body } = respond(request);
+                res.writeHead(status, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify(body));
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        requests = [];
+        respond = ({ url, body }) => url === '/v1/embeddings'
+            ? { status: 200, body: { object: 'list', model: body.model, data: body.input.map((text, index) => ({ object: 'embedding', index, embedding: fakeEmbedding(text) })) } }
+            : { status: 404, body: { error: 'not found' } };
+    });
+
+    it('posts batches to <base URL>/embeddings with the model and custom headers', async () => {
+        const texts = Array.from({ length: 20 }, (_, i) => `Note number ${i}`);
+
+        const embeddings = await provider({ headers: { 'Authorization': 'Bearer gateway-key', 'X-Team': 'notes' } }).embed_many(texts);
+
+        expect(requests.map(request => request.body.input.length)).toEqual([16, 4]);
+        expect(requests[0].body.model).toBe('nomic-embed-text-v1.5');
+        expect(requests[0].headers.authorization).toBe('Bearer gateway-key');
+        expect(requests[0].headers['x-team']).toBe('notes');
+        expect(embeddings[19]).toEqual(VectorUtils.processVector(fakeEmbedding('Note number 19')));
+    });
+
+    it('keeps input order when the server answers out of order', async () => {
+        respond = ({ body }) => ({
+            status: 200,
+            body: { data: body.input.map((text, index) => ({ index, embedding: fakeEmbedding(text) })).reverse() }
+        });
+
+        const embeddings = await provider().embed_many(['alpha', 'beta', 'gamma']);
+
+        expect(embeddings).toEqual(['alpha', 'beta', 'gamma'].map(text => VectorUtils.processVector(fakeEmbedding(text))));
+    });
+
+    it('detects the vector size by probing the endpoint once during validation', async () => {
+        const compatible = provider();
+        expect(compatible.getDimensions()).toBe(0);
+
+        await compatible.validate();
+
+        expect(compatible.getDimensions()).toBe(DIMENSIONS);
+        expect(requests).toHaveLength(1);
+    });
+
+    it('rejects a declared vector size the endpoint does not produce', async () => {
+        await expect(provider({ dimensions: 768 }).validate()).rejects.toThrow(`returned ${DIMENSIONS}-dimensional vectors`);
+        await expect(provider({ dimensions: DIMENSIONS }).validate()).resolves.toBeUndefined();
+    });
+
+    it('surfaces the server error for unknown models and wrong base URLs', async () => {
+        respond = ({ body }) => ({ status: 400, body: { error: { message: `model "${body.model}" not found` } } });
+        await expect(provider({ model: 'missing-model' }).embed_one('hello')).rejects.toThrow('Embedding endpoint error: 400 - {"error":{"message":"model \\"missing-model\\" not found"}}');
+
+        respond = () => ({ status: 404, body: { error: 'not found' } });
+        await expect(provider({ url: baseUrl }).validate()).rejects.toThrow('Embedding endpoint error: 404');
+    });
+
+    it('explains when the server cannot be reached', async () => {
+        await expect(provider({ url: 'http://127.0.0.1:1/v1' }).validate()).rejects.toThrow('Cannot connect to embedding endpoint at http://127.0.0.1:1/v1');
+    });
+
+    it('parses header lines from settings', () => {
+        expect(parseHeaderLines('Authorization: Bearer a:b\n\n  X-Team : notes \ninvalid line\n: no name')).toEqual({
+            'Authorization': 'Bearer a:b',
+            'X-Team': 'notes'
+        });
+    });
+});
@@ -0,0 +1,214 @@
+/**
+ * Tests for the packed in-memory vector matrix behind the linear scan
+ * Uses a REAL in-memory sql.js database for the adapter-level scan
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+import { SqlJsDatabaseAdapter, DatabaseService, VectorType } from '../src/database_service';
+import { VectorUtils } from '../src/embedding_service';
+import { PackedVectorMatrix } from '../src/packed_vector_matrix';
+import { VectorIndexType } from '../src/vector_index';
+import { createMockPlugin } from './mocks/vault-adapter-mock';
+
+const mockLogger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    setLevel: vi.fn()
+};
+
+function randomVector(dimensions: number): Int8Array {
+    return VectorUtils.processVector(Array.from({ length: dimensions }, () => Math.random() - 0.5));
+}
+
+function dot(a: Int8Array, b: Int8Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+}
+
+function bruteForce(query: Int8Array, vectors: Map<string, Int8Array>, k: number): string[] {
+    return [...vectors.entries()]
+        .sort((a, b) => dot(query, b[1]) - dot(query, a[1]))
+        .slice(0, k)
+        .map(([id]) => id);
+}
+
+function fillMatrix(matrix: PackedVectorMatrix, count: number): Map<string, Int8Array> {
+    const vectors = new Map<string, Int8Array>();
+    for (let i = 0; i < count; i++) {
+        const vector = randomVector(matrix.dimensions);
+        vectors.set(`v${i}`, vector);
+        matrix.upsert({ id: `v${i}`, noteId: `n${i % 10}`, type: i % 2 ? VectorType.BLOCK : VectorType.NOTE }, vector);
+    }
+    return vectors;
+}
+
+describe('PackedVectorMatrix', () => {
+    it('returns the same top k as a brute-force scan, best first', () => {
+        const matrix = new PackedVectorMatrix(48, { initialCapacity: 4 });
+        const vectors = fillMatrix(matrix, 500);
+        const query = randomVector(48);
+
+        const matches = matrix.search(query, 10);
+
+        expect(matches.map(match => match.row.id)).toEqual(bruteForce(query, vectors, 10));
+        expect(matches[0].score).toBeCloseTo(dot(query, vectors.get(matches[0].row.id)!) / (127 * 127), 6);
+    });
+
+    it('scores a vector against itself close to 1', () => {
+        const matrix = new PackedVectorMatrix(384);
+        const vectors = fillMatrix(matrix, 20);
+
+        const [best] = matrix.search(vectors.get('v7')!, 1);
+
+        expect(best.row.id).toBe('v7');
+        expect(best.score).toBeGreaterThan(0.98);
+    });
+
+    it('overwrites in place and fills removed slots with the last row', () => {
+        const matrix = new PackedVectorMatrix(16);
+        const vectors = fillMatrix(matrix, 5);
+
+        const replacement = randomVector(16);
+        matrix.upsert({ id: 'v1', noteId: 'n1', type: VectorType.BLOCK }, replacement);
+        vectors.set('v1', replacement);
+        expect(matrix.size).toBe(5);
+
+        expect(matrix.remove('v0')).toBe(true);
+        expect(matrix.remove('v0')).toBe(false);
+        vectors.delete('v0');
+
+        expect(matrix.size).toBe(4);
+        expect(matrix.has('v0')).toBe(false);
+        for (const [id, vector] of vectors) {
+            expect(matrix.search(vector, 1)[0].row.id).toBe(id);
+        }
+    });
+
+    it('skips rows rejected by the predicate', () => {
+        const matrix = new PackedVectorMatrix(32);
+        fillMatrix(matrix, 200);
+
+        const matches = matrix.search(randomVector(32), 25, row => row.type === VectorType.NOTE && row.noteId !== 'n0');
+
+        expect(matches).toHaveLength(25);
+        matches.forEach(match => {
+            expect(match.row.type).toBe(VectorType.NOTE);
+            expect(match.row.noteId).not.toBe('n0');
+        });
+    });
+
+    it('computes identical scores with and without SIMD for unpadded dimensions', () => {
+        const simd = new PackedVectorMatrix(37);
+        const plain = new PackedVectorMatrix(37, { useSimd: false });
+        const vectors = fillMatrix(simd, 300);
+        for (const [id, vector] of vectors) {
+            plain.upsert({ id, noteId: 'n', type: VectorType.NOTE }, vector);
+        }
+        const query = randomVector(37);
+
+        expect(plain.usesSimd).toBe(false);
+        expect(simd.search(query, 20).map(match => match.score)).toEqual(plain.search(query, 20).map(match => match.score));
+    });
+
+    it('rejects vectors of the wrong dimensionality', () => {
+        const matrix = new PackedVectorMatrix(16);
+
+        expect(() => matrix.upsert({ id: 'x', noteId: 'n', type: VectorType.NOTE }, randomVector(8))).toThrow();
+        expect(() => matrix.search(randomVector(8), 5)).toThrow();
+    });
+
+    it('scans 100k 768-dimension vectors quickly', () => {
+        const dimensions = 768;
+        const count = 100_000;
+        const matrix = new PackedVectorMatrix(dimensions, { initialCapacity: count });
+        const vector = new Int8Array(dimensions);
+        for (let i = 0; i < count; i++) {
+            for (let j = 0; j < dimensions; j++) vector[j] = ((i * 31 + j * 17) % 255) - 127;
+            matrix.upsert({ id: `v${i}`, noteId: `n${i}`, type: VectorType.BLOCK }, vector);
+        }
+        const query = randomVector(dimensions);
+        matrix.search(query, 10); // Warm up the kernel
+
+        const startTime = performance.now();
+        const matches = matrix.search(query, 10);
+        const elapsed = performance.now() - startTime;
+
+        expect(matches).toHaveLength(10);
+        // Wall-clock time only means something on a quiet machine, so it is checked on request:
+        // TEZCAT_BENCHMARK=1 npm test
+        if (process.env.TEZCAT_BENCHMARK) {
+            expect(elapsed).toBeLessThan(20);
+        }
+    }, 60000);
+});
+
+describe('Linear scan over the packed matrix', () => {
+    let adapter: SqlJsDatabaseAdapter;
+    let databaseService: DatabaseService;
+
+    async function createNoteVector(index: number, vector: Int8Array, type = VectorType.NOTE): Promise<string> {
+        const noteId = await databaseService.createNote({
+            path: `note-${index}.md`,
+            name: `note-${index}.md`,
+            base_name: `note-${index}`,
+            text: `Note ${index}`
+        });
+        return await databaseService.createVector({ note_id: noteId, type, vector });
+    }
+
+    beforeEach(async () => {
+        adapter = new SqlJsDatabaseAdapter(createMockPlugin(), new VectorUtils(mockLogger as any), mockLogger as any);
+        await adapter.initialize();
+        databaseService = new DatabaseService(adapter, mockLogger as any);
+
+        for (let i = 0; i < 30; i++) {
+            await createNoteVector(i, randomVector(16), i % 3 ? VectorType.BLOCK : VectorType.NOTE);
+        }
+    });
+
+    afterEach(async () => {
+        await adapter.close();
+    });
+
+    it('keeps the loaded matrix current as vectors are written, whichever index is active', async () => {
+        adapter.setVectorIndexType(VectorIndexType.HNSW);
+        await databaseService.scanVectors(randomVector(16), 5);
+
+        const vector = randomVector(16);
+        const vectorId = await createNoteVector(100, vector);
+        expect((await databaseService.scanVectors(vector, 1))[0].id).toBe(vectorId);
+
+        const updated = randomVector(16);
+        await databaseService.updateVector(vectorId, updated);
+        expect((await databaseService.scanVectors(updated, 1))[0].id).toBe(vectorId);
+
+        await databaseService.deleteVector(vectorId);
+        expect((await databaseService.scanVectors(updated, 30)).map(v => v.id)).not.toContain(vectorId);
+    });
+
+    it('filters by type and excluded notes inside the scan', async () => {
+        const excluded = (await databaseService.getNoteByPath('note-1.md'))!;
+
+        const vectors = await databaseService.scanVectors(randomVector(16), 100, {
+            types: [VectorType.BLOCK],
+            excludeNoteIds: [excluded.id]
+        });
+
+        expect(vectors).toHaveLength(19);
+        vectors.forEach(vector => {
+            expect(vector.type).toBe(VectorType.BLOCK);
+            expect(vector.note_id).not.toBe(excluded.id);
+        });
+    });
+});
@@ -0,0 +1,179 @@
+/**
+ * Tests for transactions, debounced flushes and crash-safe writes of tezcat.db
+ * Uses a REAL sql.js database persisted to an in-memory vault
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+import { SqlJsDatabaseAdapter, DatabaseService } from '../src/database_service';
+import { VectorUtils } from '../src/embedding_service';
+import { MockVaultAdapter, createMockPlugin } from './mocks/vault-adapter-mock';
+
+const mockLogger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    setLevel: vi.fn()
+};
+
+const DB_PATH = '.obsidian/plugins/tezcat/tezcat.db';
+
+describe('Database persistence', () => {
+    let vault: MockVaultAdapter;
+    let adapter: SqlJsDatabaseAdapter;
+    let databaseService: DatabaseService;
+
+    async function openDatabase(): Promise<void> {
+        adapter = new SqlJsDatabaseAdapter(createMockPlugin(vault), new VectorUtils(mockLogger as any), mockLogger as any);
+        await adapter.initialize();
+        databaseService = new DatabaseService(adapter, mockLogger as any);
+    }
+
+    async function notePathsOnDisk(): Promise<string[]> {
+        const reopened = new SqlJsDatabaseAdapter(createMockPlugin(vault), new VectorUtils(mockLogger as any), mockLogger as any);
+        await reopened.initialize();
+        const rows = await reopened.query('SELECT path FROM notes ORDER BY path');
+        await reopened.close();
+        return rows.map(row => row.path as string);
+    }
+
+    beforeEach(async () => {
+        vault = new MockVaultAdapter();
+        await openDatabase();
+        vi.useFakeTimers();
+    });
+
+    afterEach(async () => {
+        vi.useRealTimers();
+        await adapter.close();
+    });
+
+    it('writes a burst of changes once, after they pause', async () => {
+        const writeBinary = vi.spyOn(vault, 'writeBinary');
+
+        for (let i = 0; i < 5; i++) {
+            await databaseService.upsertNote(`Note ${i}.md`, `Note ${i}.md`, `Note ${i}`, `Text ${i}`);
+            await vi.advanceTimersByTimeAsync(500);
+        }
+        expect(writeBinary).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(2000);
+        expect(writeBinary).toHaveBeenCalledTimes(1);
+        expect(await notePathsOnDisk()).toHaveLength(5);
+    });
+
+    it('still writes during steady editing', async () => {
+        const writeBinary = vi.spyOn(vault, 'writeBinary');
+
+        for (let second = 0; second < 31 && writeBinary.mock.calls.length === 0; second++) {
+            await databaseService.upsertNote('Draft.md', 'Draft.md', 'Draft', `Revision ${second}`);
+            await vi.advanceTimersByTimeAsync(1000);
+        }
+
+        expect(writeBinary).toHaveBeenCalledTimes(1);
+    });
+
+    it('writes pending changes on close', async () => {
+        await databaseService.upsertNote('Unsaved.md', 'Unsaved.md', 'Unsaved', 'Written on unload');
+
+        await adapter.close();
+
+        expect(await notePathsOnDisk()).toEqual(['Unsaved.md']);
+    });
+
+    it('rolls back every write of a failed transaction', async () => {
+        const { noteId } = await databaseService.upsertNote('Kept.md', 'Kept.md', 'Kept', 'Text');
+
+        await expect(adapter.transaction(async () => {
+            await databaseService.setNoteProperties(noteId, [{ key: 'status', value: 'draft', date: null }]);
+            await databaseService.deleteNote(noteId);
+            throw new Error('interrupted');
+        })).rejects.toThrow('interrupted');
+
+        expect((await databaseService.getNote(noteId))?.path).toBe('Kept.md');
+        expect(await databaseService.getNoteProperties(noteId)).toEqual([]);
+    });
+
+    it('keeps a concurrent caller out of an open transaction', async () => {
+        let resume!: () => void;
+        const paused = new Promise<void>(resolve => resume = resolve);
+        const failed = adapter.exclusive(() => adapter.transaction(async () => {
+            await databaseService.upsertNote('Discarded.md', 'Discarded.md', 'Discarded', 'Text');
+            await paused;
+            throw new Error('interrupted');
+        }));
+        const concurrent = adapter.exclusive(() => databaseService.upsertNote('Kept.md', 'Kept.md', 'Kept', 'Text'));
+
+        await vi.advanceTimersByTimeAsync(0);
+        resume();
+
+        await expect(failed).rejects.toThrow('interrupted');
+        await concurrent;
+        expect((await databaseService.getAllNotes()).map(note => note.path)).toEqual(['Kept.md']);
+    });
+
+    it('lets other callers in while one waits outside a transaction', async () => {
+        let resume!: () => void;
+        const paused = new Promise<void>(resolve => resume = resolve);
+        const waiting = adapter.exclusive(async () => {
+            await adapter.unlocked(() => paused);
+            await databaseService.upsertNote('Second.md', 'Second.md', 'Second', 'Text');
+        });
+
+        await adapter.exclusive(() => databaseService.upsertNote('First.md', 'First.md', 'First', 'Text'));
+        resume();
+        await waiting;
+
+        expect((await databaseService.getAllNotes()).map(note => note.path).sort()).toEqual(['First.md', 'Second.md']);
+        await expect(adapter.transaction(() => adapter.unlocked(async () => {}))).rejects.toThrow('inside a transaction');
+    });
+
+    it('keeps the previous file until the new one is completely written', async () => {
+        await databaseService.upsertNote('First.md', 'First.md', 'First', 'Text');
+        await adapter.flush();
+        const firstFile = vault.files.get(DB_PATH);
+
+        await databaseService.upsertNote('Second.md', 'Second.md', 'Second', 'Text');
+        vi.spyOn(vault, 'writeBinary').mockRejectedValueOnce(new Error('disk full'));
+        await expect(adapter.flush()).rejects.toThrow('disk full');
+
+        expect(vault.files.get(DB_PATH)).toEqual(firstFile);
+        // The changes stay pending and go out with the next flush
+        await adapter.flush();
+        expect(await notePathsOnDisk()).toEqual(['First.md', 'Second.md']);
+        expect([...vault.files.keys()]).toEqual([DB_PATH]);
+    });
+
+    it('recovers the new file when a write stops between renames', async () => {
+        await databaseService.upsertNote('First.md', 'First.md', 'First', 'Text');
+        await adapter.flush();
+        await databaseService.upsertNote('Second.md', 'Second.md', 'Second', 'Text');
+        // The old file is moved aside, then the process dies before the new one is moved into place
+        const rename = vault.rename.bind(vault);
+        vi.spyOn(vault, 'rename').mockImplementation(async (path, newPath) => {
+            if (path.endsWith('.tmp')) throw new Error('crashed');
+            await rename(path, newPath);
+        });
+        await expect(adapter.flush()).rejects.toThrow('crashed');
+        expect(vault.files.has(DB_PATH)).toBe(false);
+        vi.mocked(vault.rename).mockRestore();
+
+        expect(await notePathsOnDisk()).toEqual(['First.md', 'Second.md']);
+    });
+
+    it('ignores a half-written temporary file next to the database', async () => {
+        await databaseService.upsertNote('First.md', 'First.md', 'First', 'Text');
+        await adapter.flush();
+        vault.files.set(`${DB_PATH}.tmp`, new Uint8Array([1, 2, 3]));
+
+        expect(await notePathsOnDisk()).toEqual(['First.md']);
+    });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests for batched result hydration in SearchService
+ * Uses a REAL in-memory sql.js database and counts the queries each search issues
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { readFileSync } from 'fs';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+import { SqlJsDatabaseAdapter, DatabaseService, VectorType } from '../src/database_service';
+import { VectorUtils } from '../src/embedding_service';
+import { BlockType } from '../src/note_processor';
+import { SearchService } from '../src/search_service';
+import { createMockPlugin } from './mocks/vault-adapter-mock';
+
+const mockLogger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    setLevel: vi.fn()
+};
+
+const DIMENSIONS = 16;
+const NOTE_COUNT = 60;
+const BLOCKS_PER_NOTE = 3;
+
+function randomVector(): Int8Array {
+    return VectorUtils.processVector(Array.from({ length: DIMENSIONS }, () => Math.random() - 0.5));
+}
+
+describe('Search result hydration', () => {
+    let adapter: SqlJsDatabaseAdapter;
+    let databaseService: DatabaseService;
+    let searchService: SearchService;
+    const embeddingService = { embedText: vi.fn(), embedTexts: vi.fn() };
+
+    async function countQueries(search: () => Promise<unknown>): Promise<number> {
+        const querySpy = vi.spyOn(adapter, 'query');
+        const getSpy = vi.spyOn(adapter, 'get');
+        try {
+            await search();
+            return querySpy.mock.calls.length + getSpy.mock.calls.length;
+        } finally {
+            querySpy.mockRestore();
+            getSpy.mockRestore();
+        }
+    }
+
+    beforeAll(async () => {
+        adapter = new SqlJsDatabaseAdapter(createMockPlugin(), new VectorUtils(mockLogger as any), mockLogger as any);
+        await adapter.initialize();
+        databaseService = new DatabaseService(adapter, mockLogger as any);
+        searchService = new SearchService(databaseService, embeddingService as any, mockLogger as any);
+
+        for (let i = 0; i < NOTE_COUNT; i++) {
+            const noteId = await databaseService.createNote({
+                path: `note-${i}.md`,
+                name: `note-${i}.md`,
+                base_name: `note-${i}`,
+                text: `Note ${i}`
+            });
+            await databaseService.createVector({ note_id: noteId, type: VectorType.NOTE, vector: randomVector() });
+
+            const { blockIds } = await databaseService.insertBlocksForNote(noteId, Array.from({ length: BLOCKS_PER_NOTE }, (_, b) => ({
+                id: '',
+                type: BlockType.PARAGRAPH,
+                content: `Block ${b} of note ${i} about hydration`,
+                obsidian_id: null,
+                start_position: { line: b, col: 0, offset: b * 40 },
+                end_position: { line: b, col: 38, offset: b * 40 + 38 }
+            })));
+            for (const blockId of blockIds) {
+                await databaseService.createVector({ note_id: noteId, block_id: blockId, type: VectorType.BLOCK, vector: randomVector() });
+                await adapter.insertFTSContent(`block_${blockId}`, 'block', noteId, `Block of note ${i} about hydration`, `note-${i}.md`, `note-${i}.md`, blockId);
+            }
+        }
+    }, 60000);
+
+    afterAll(async () => {
+        await adapter.close();
+    });
+
+    it('issues the same number of queries regardless of topK', async () => {
+        embeddingService.embedText.mockResolvedValue(randomVector());
+        const search = (topK: number) => () => searchService.vectorSearch('query', { topK, useVectorIndex: false });
+        // The first scan loads the in-memory vector matrix
+        await search(5)();
+
+        const small = await countQueries(search(5));
+        const large = await countQueries(search(100));
+
+        expect(large).toBe(small);
+        // Vector scan plus one joined hydration query
+        expect(small).toBeLessThanOrEqual(3);
+    });
+
+    it('returns the same text and positions the per-result lookups used to', async () => {
+        embeddingService.embedText.mockResolvedValue(randomVector());
+
+        const results = await searchService.vectorSearch('query', { topK: 50, useVectorIndex: false });
+
+        expect(results).toHaveLength(50);
+        for (const result of results) {
+            if (result.type === VectorType.BLOCK) {
+                const block = (await databaseService.getBlocksForNote(result.noteId)).find(b => b.id === result.blockId)!;
+                expect(result.text).toBe(block.content);
+                expect(result.blockStartPosition).toEqual(block.start_position);
+                expect(result.blockEndPosition).toEqual(block.end_position);
+            } else {
+                expect(result.text).toBe(`${result.notePath} - ${result.noteName}`);
+                expect(result.blockStartPosition).toBeUndefined();
+            }
+        }
+        expect(results.map(result => result.score)).toEqual([...results.map(result => result.score)].sort((a, b) => b - a));
+    });
+
+    it('fetches positions for full-text-only hits in one query', async () => {
+        embeddingService.embedText.mockResolvedValue(randomVector());
+        const search = (topK: number) => () => searchService.hybridSearch('hydration', { topK, useVectorIndex: false });
+
+        expect(await countQueries(search(40))).toBe(await countQueries(search(5)));
+
+        const results = await searchService.hybridSearch('hydration', { topK: 40, useVectorIndex: false });
+        const blockResults = results.filter(result => result.type === VectorType.BLOCK);
+        expect(blockResults.length).toBeGreaterThan(0);
+        blockResults.forEach(result => expect(result.blockStartPosition).toBeDefined());
+    });
+
+    it('drops vectors whose block has been deleted', async () => {
+        const note = (await databaseService.getNoteByPath('note-0.md'))!;
+        const blockVector = (await databaseService.getVectorsForNote(note.id)).find(v => v.type === VectorType.BLOCK)!;
+        await adapter.execute('DELETE FROM blocks WHERE id = ?', [blockVector.block_id!]);
+
+        const hydrated = await databaseService.hydrateVectors([blockVector.id]);
+
+        expect(hydrated.has(blockVector.id)).toBe(false);
+    });
+});
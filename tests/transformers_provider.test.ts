@@ -0,0 +1,194 @@
+/**
+ * Tests for the local transformers.js embedding provider
+ * transformers.js itself is replaced by a stand-in pipeline that loads its files
+ * through the provider's model cache, like the real one does
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+const { env, extractor, pipeline } = vi.hoisted(() => {
+    const env: any = { backends: { onnx: { wasm: {} } } };
+    const extractor = vi.fn(async (texts: string[], _options: unknown) => ({
+        tolist: () => texts.map(text => [text.length, 1, -1, 0.5])
+    }));
+    const pipeline = vi.fn(async (_task: string, model: string) => {
+        const response = await env.customCache.match(`${env.localModelPath}${model}/config.json`);
+        if (!response) throw new Error(`file was not found locally at "${model}/config.json"`);
+        return extractor;
+    });
+    return { env, extractor, pipeline };
+});
+
+vi.mock('@huggingface/transformers', () => ({ env, pipeline }));
+vi.mock('onnxruntime-web', () => ({ InferenceSession: {} }));
+
+import { DatabaseWorker } from '../src/database_worker';
+import { VectorUtils } from '../src/embedding_service';
+import { LogLevel } from '../src/logger';
+import { ORT_WASM_FILE, REQUIRED_MODEL_FILES, TransformersEmbeddingProvider, WorkerTransformersProvider } from '../src/transformers_provider';
+import { ValidationService } from '../src/validation_service';
+import { HostApi, RpcEndpoint, WorkerApi } from '../src/worker_protocol';
+import { MockVaultAdapter } from './mocks/vault-adapter-mock';
+
+const mockLogger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    setLevel: vi.fn()
+};
+
+const FOLDER = '.obsidian/plugins/tezcat/models';
+const MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+function installModel(vault: MockVaultAdapter, model: string = MODEL): void {
+    for (const file of REQUIRED_MODEL_FILES) {
+        vault.files.set(`${FOLDER}/${model}/${file}`, new TextEncoder().encode(JSON.stringify({ file })));
+    }
+}
+
+describe('TransformersEmbeddingProvider', () => {
+    let vault: MockVaultAdapter;
+
+    beforeEach(() => {
+        vault = new MockVaultAdapter();
+        vault.files.set(`${FOLDER}/${ORT_WASM_FILE}`, new Uint8Array([0, 97, 115, 109]));
+        extractor.mockClear();
+        pipeline.mockClear();
+    });
+
+    it('embeds texts in batches with mean pooling and quantizes them', async () => {
+        installModel(vault);
+        const provider = new TransformersEmbeddingProvider(vault, FOLDER, MODEL, mockLogger as any);
+        const texts = Array.from({ length: 10 }, (_, i) => 'x'.repeat(i + 1));
+
+        const embeddings = await provider.embed_many(texts);
+
+        expect(extractor).toHaveBeenCalledTimes(2);
+        expect(extractor.mock.calls[0][0]).toHaveLength(8);
+        expect(extractor.mock.calls[0][1]).toEqual({ pooling: 'mean', normalize: true });
+        expect(embeddings[9]).toEqual(VectorUtils.processVector([10, 1, -1, 0.5]));
+        expect(await provider.embed_one('abc')).toEqual(VectorUtils.processVector([3, 1, -1, 0.5]));
+        // The model is loaded once and reused
+        expect(pipeline).toHaveBeenCalledTimes(1);
+        expect(pipeline).toHaveBeenCalledWith('feature-extraction', MODEL, { device: 'wasm', dtype: 'q8' });
+    });
+
+    it('only reads model files from the local folder', async () => {
+        installModel(vault);
+        await new TransformersEmbeddingProvider(vault, `${FOLDER}/`, MODEL, mockLogger as any).embed_one('warm up');
+
+        expect(env.allowRemoteModels).toBe(false);
+        const response = await env.customCache.match(`${env.localModelPath}${MODEL}/config.json`);
+        expect(await response.json()).toEqual({ file: 'config.json' });
+        expect(await env.customCache.match(`${env.localModelPath}${MODEL}/missing.json`)).toBeUndefined();
+        expect(await env.customCache.match(`https://huggingface.co/${MODEL}/resolve/main/config.json`)).toBeUndefined();
+        expect(await env.customCache.match(`${env.localModelPath}Xenova/unknown-model/config.json`)).toBeUndefined();
+    });
+
+    it('runs ONNX Runtime single-threaded from the binary in the model folder', async () => {
+        installModel(vault);
+        await new TransformersEmbeddingProvider(vault, FOLDER, MODEL, mockLogger as any).embed_one('warm up');
+
+        expect(new Uint8Array(env.backends.onnx.wasm.wasmBinary)).toEqual(new Uint8Array([0, 97, 115, 109]));
+        expect(env.backends.onnx.wasm.numThreads).toBe(1);
+    });
+
+    it('reports missing model files through the validation service', async () => {
+        vault.files.set(`${FOLDER}/${MODEL}/config.json`, new Uint8Array([123, 125]));
+        const provider = new TransformersEmbeddingProvider(vault, FOLDER, MODEL, mockLogger as any);
+
+        const result = await new ValidationService(mockLogger as any).validateEmbeddingProvider(provider);
+
+        expect(result.success).toBe(false);
+        expect(result.message).toContain('tokenizer.json, tokenizer_config.json, onnx/model_quantized.onnx');
+        expect(result.message).toContain(`${FOLDER}/${MODEL}`);
+        expect(pipeline).not.toHaveBeenCalled();
+    });
+
+    it('requires the ONNX Runtime binary in the model folder instead of downloading it', async () => {
+        installModel(vault);
+        vault.files.delete(`${FOLDER}/${ORT_WASM_FILE}`);
+        env.backends.onnx.wasm.wasmBinary = undefined;
+        const provider = new TransformersEmbeddingProvider(vault, FOLDER, MODEL, mockLogger as any);
+
+        const result = await new ValidationService(mockLogger as any).validateEmbeddingProvider(provider);
+
+        expect(result.success).toBe(false);
+        expect(result.message).toContain(`${ORT_WASM_FILE} is missing in ${FOLDER}`);
+        await expect(provider.embed_one('abc')).rejects.toThrow(ORT_WASM_FILE);
+        expect(pipeline).not.toHaveBeenCalled();
+    });
+
+    it('loads the model again after a failed attempt', async () => {
+        const model = 'nomic-ai/nomic-embed-text-v1.5';
+        const provider = new TransformersEmbeddingProvider(vault, FOLDER, model, mockLogger as any);
+        await expect(provider.embed_one('too early')).rejects.toThrow('not found locally');
+
+        installModel(vault, model);
+
+        await expect(provider.validate()).resolves.toBeUndefined();
+        expect(await provider.embed_one('abc')).toHaveLength(4);
+    });
+});
+
+describe('WorkerTransformersProvider', () => {
+    let vault: MockVaultAdapter;
+    let channel: MessageChannel;
+    let host: RpcEndpoint<HostApi, WorkerApi>;
+
+    beforeEach(async () => {
+        vault = new MockVaultAdapter();
+        vault.files.set(`${FOLDER}/${ORT_WASM_FILE}`, new Uint8Array([0, 97, 115, 109]));
+        extractor.mockClear();
+        pipeline.mockClear();
+
+        // The worker side runs in-process; the host only serves the vault it reads model files from
+        channel = new MessageChannel();
+        new DatabaseWorker(channel.port1);
+        host = new RpcEndpoint<HostApi, WorkerApi>(channel.port2, {
+            vault: {
+                exists: path => vault.exists(path),
+                readBinary: path => vault.readBinary(path),
+                writeBinary: (path, data) => vault.writeBinary(path, data),
+                rename: (path, newPath) => vault.rename(path, newPath),
+                remove: path => vault.remove(path),
+                read: path => vault.read(path),
+                append: (path, data) => vault.append(path, data)
+            },
+            embedding: {
+                embedText: vi.fn(),
+                embedTexts: vi.fn()
+            }
+        });
+        await host.call('worker', 'setLogLevel', [LogLevel.ERROR]);
+    });
+
+    afterEach(() => {
+        channel.port1.close();
+        channel.port2.close();
+    });
+
+    it('runs the model in the database worker, reading its files through the host', async () => {
+        installModel(vault);
+        const provider = new WorkerTransformersProvider(() => host.proxy('localModels'), FOLDER, MODEL);
+
+        await expect(provider.validate()).resolves.toBeUndefined();
+        expect(await provider.embed_many(['abc', 'abcde'])).toEqual([
+            VectorUtils.processVector([3, 1, -1, 0.5]),
+            VectorUtils.processVector([5, 1, -1, 0.5])
+        ]);
+        expect(await provider.embed_one('abcd')).toEqual(VectorUtils.processVector([4, 1, -1, 0.5]));
+        // Loaded once in the worker and reused by every provider for the same model
+        await new WorkerTransformersProvider(() => host.proxy('localModels'), FOLDER, MODEL).embed_one('again');
+        expect(pipeline).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports missing model files from the worker', async () => {
+        const provider = new WorkerTransformersProvider(() => host.proxy('localModels'), FOLDER, MODEL);
+
+        await expect(provider.validate()).rejects.toThrow(`missing config.json`);
+        expect(pipeline).not.toHaveBeenCalled();
+    });
+});
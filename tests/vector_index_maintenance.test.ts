@@ -0,0 +1,181 @@
+/**
+ * Tests for incremental LSH index maintenance as vectors are created, updated and deleted
+ * Uses a REAL in-memory sql.js database
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+import { SqlJsDatabaseAdapter, DatabaseService, VectorType } from '../src/database_service';
+import { VectorUtils } from '../src/embedding_service';
+import { LSHVectorIndex } from '../src/lsh_index';
+import { VectorIndexType } from '../src/vector_index';
+import { createMockPlugin } from './mocks/vault-adapter-mock';
+
+const mockLogger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    setLevel: vi.fn()
+};
+
+const DIMENSIONS = 16;
+const NUM_TABLES = 4;
+
+function randomVector(): Int8Array {
+    return VectorUtils.processVector(Array.from({ length: DIMENSIONS }, () => Math.random() - 0.5));
+}
+
+describe('Incremental vector index maintenance', () => {
+    let adapter: SqlJsDatabaseAdapter;
+    let databaseService: DatabaseService;
+    const lshIndex = () => adapter.getVectorIndex(VectorIndexType.LSH) as LSHVectorIndex;
+
+    async function insertNoteWithVector(index: number): Promise<{ noteId: string; vectorId: string }> {
+        const noteId = await databaseService.createNote({
+            path: `note-${index}.md`,
+            name: `note-${index}.md`,
+            base_name: `note-${index}`,
+            text: `Note ${index}`
+        });
+        const vectorId = await databaseService.createVector({ note_id: noteId, type: VectorType.NOTE, vector: randomVector() });
+        return { noteId, vectorId };
+    }
+
+    async function bucketCount(vectorId?: string): Promise<number> {
+        const row = vectorId
+            ? await adapter.get('SELECT COUNT(*) as count FROM lsh_buckets WHERE vector_id = ?', [vectorId])
+            : await adapter.get('SELECT COUNT(*) as count FROM lsh_buckets');
+        return (row?.count as number) || 0;
+    }
+
+    beforeEach(async () => {
+        adapter = new SqlJsDatabaseAdapter(createMockPlugin(), new VectorUtils(mockLogger as any), mockLogger as any);
+        await adapter.initialize();
+        databaseService = new DatabaseService(adapter, mockLogger as any);
+
+        for (let i = 0; i < 40; i++) {
+            await insertNoteWithVector(i);
+        }
+        await adapter.generateVectorIndex(DIMENSIONS, { numTables: NUM_TABLES });
+    });
+
+    afterEach(async () => {
+        vi.useRealTimers();
+        await adapter.close();
+    });
+
+    it('hashes new vectors into every table so they are searchable without a rebuild', async () => {
+        const { vectorId } = await insertNoteWithVector(100);
+
+        expect(await bucketCount(vectorId)).toBe(NUM_TABLES);
+
+        const vector = (await databaseService.getAllVectors()).find(v => v.id === vectorId)!;
+        const candidates = await adapter.getSimilarVectors(vector.vector, 5);
+        expect(candidates.map(candidate => candidate.id)).toContain(vectorId);
+    });
+
+    it('re-hashes updated vectors in place', async () => {
+        const { vectorId } = await insertNoteWithVector(100);
+        const updated = randomVector();
+
+        await databaseService.updateVector(vectorId, updated);
+
+        const config = (await lshIndex().getLSHConfig())!;
+        const tables = await lshIndex().getLSHTables(config.id.toString());
+        const rows = await adapter.query(
+            'SELECT table_index, bucket_hash FROM lsh_buckets WHERE vector_id = ? ORDER BY table_index',
+            [vectorId]
+        );
+        expect(rows.map(row => row.bucket_hash)).toEqual(
+            tables.map(table => new VectorUtils(mockLogger as any).computeHashVector(updated, table, DIMENSIONS).join(''))
+        );
+    });
+
+    it('removes bucket rows when a note\'s vectors are deleted', async () => {
+        const { noteId, vectorId } = await insertNoteWithVector(100);
+
+        await databaseService.deleteVectorsForNote(noteId);
+
+        expect(await bucketCount(vectorId)).toBe(0);
+        expect(await bucketCount()).toBe(40 * NUM_TABLES);
+    });
+
+    it('removes bucket rows of orphaned vectors during cleanup', async () => {
+        const { noteId, vectorId } = await insertNoteWithVector(100);
+        await adapter.execute('DELETE FROM notes WHERE id = ?', [noteId]);
+
+        await databaseService.cleanupOrphanedVectors();
+
+        expect(await bucketCount(vectorId)).toBe(0);
+    });
+
+    it('indexes vectors that were stored behind the index\'s back when reconciling', async () => {
+        await adapter.execute(
+            'INSERT INTO vectors (id, note_id, type, vector) VALUES (?, ?, ?, ?)',
+            ['untracked', 'note-x', 'note', randomVector() as unknown as Uint8Array]
+        );
+        expect(await bucketCount('untracked')).toBe(0);
+
+        await adapter.reconcileVectorIndex();
+
+        expect(await bucketCount('untracked')).toBe(NUM_TABLES);
+    });
+
+    it('re-projects in the background once the corpus outgrows the bits per table', async () => {
+        vi.useFakeTimers();
+        const before = (await lshIndex().getLSHConfig())!;
+        expect(before.num_hash_functions).toBe(VectorUtils.defaultBitsPerTable(40));
+
+        // 40 vectors were sized with 6 bits, which covers up to 64
+        for (let i = 40; i < 64; i++) {
+            await insertNoteWithVector(i);
+        }
+        await vi.advanceTimersByTimeAsync(10000);
+        expect((await lshIndex().getLSHConfig())!.id).toBe(before.id);
+
+        await insertNoteWithVector(64);
+        await vi.advanceTimersByTimeAsync(10000);
+
+        const after = (await lshIndex().getLSHConfig())!;
+        expect(after.id).not.toBe(before.id);
+        expect(after.num_hash_functions).toBe(7);
+        expect(after.num_tables).toBe(NUM_TABLES);
+        expect(await bucketCount()).toBe(65 * NUM_TABLES);
+    });
+
+    it('leaves indexes built with an explicit bit count alone', async () => {
+        vi.useFakeTimers();
+        await adapter.generateVectorIndex(DIMENSIONS, { numTables: NUM_TABLES, bitsPerTable: 3 });
+        const before = (await lshIndex().getLSHConfig())!;
+
+        for (let i = 40; i < 70; i++) {
+            await insertNoteWithVector(i);
+        }
+        await vi.advanceTimersByTimeAsync(10000);
+
+        expect((await lshIndex().getLSHConfig())!.id).toBe(before.id);
+        expect(await bucketCount()).toBe(70 * NUM_TABLES);
+    });
+
+    it('leaves an explicit bit count alone even when it matches the automatic one', async () => {
+        vi.useFakeTimers();
+        await adapter.generateVectorIndex(DIMENSIONS, { numTables: NUM_TABLES, bitsPerTable: VectorUtils.defaultBitsPerTable(40) });
+        const before = (await lshIndex().getLSHConfig())!;
+        expect(before.auto_sized).toBe(false);
+
+        for (let i = 40; i < 70; i++) {
+            await insertNoteWithVector(i);
+        }
+        await vi.advanceTimersByTimeAsync(10000);
+
+        expect((await lshIndex().getLSHConfig())!.id).toBe(before.id);
+    });
+});
@@ -0,0 +1,148 @@
+/**
+ * Recall@k benchmark for the multi-table LSH index against brute-force vectorSearch
+ * Uses a REAL in-memory sql.js database with synthetic clustered embeddings
+ * Run with: npm test
+ */
+
+import { vi, describe, it, expect, beforeAll } from 'vitest';
+import { readFileSync } from 'fs';
+
+// Load the real sql.js WASM binary instead of the stub used by other suites
+vi.mock('../node_modules/sql.js/dist/sql-wasm.wasm', () => ({
+    default: new Uint8Array(readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')))
+}));
+
+import { SqlJsDatabaseAdapter, DatabaseService } from '../src/database_service';
+import { VectorUtils, LSHIndexOptions } from '../src/embedding_service';
+import { SearchService } from '../src/search_service';
+import { LSHVectorIndex } from '../src/lsh_index';
+import { VectorIndexType } from '../src/vector_index';
+import { createMockPlugin } from './mocks/vault-adapter-mock';
+
+const mockLogger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    setLevel: vi.fn()
+};
+
+const DIMENSIONS = 64;
+const VECTOR_COUNT = 2000;
+const CLUSTER_COUNT = 50;
+const QUERY_COUNT = 20;
+const TOP_K = 10;
+
+// Deterministic PRNG (mulberry32) so the corpus is identical on every run
+function createRandom(seed: number): () => number {
+    return () => {
+        seed |= 0;
+        seed = seed + 0x6D2B79F5 | 0;
+        let t = Math.imul(seed ^ seed >>> 15, 1 | seed);
+        t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t;
+        return ((t ^ t >>> 14) >>> 0) / 4294967296;
+    };
+}
+
+function gaussian(random: () => number): number {
+    return Math.sqrt(-2 * Math.log(random() || 1e-12)) * Math.cos(2 * Math.PI * random());
+}
+
+function perturb(base: number[], noise: number, random: () => number): number[] {
+    return base.map(value => value + gaussian(random) * noise);
+}
+
+describe('LSH vector index recall', () => {
+    let adapter: SqlJsDatabaseAdapter;
+    let searchService: SearchService;
+    const lshIndex = () => adapter.getVectorIndex(VectorIndexType.LSH) as LSHVectorIndex;
+    let queries: Int8Array[];
+    const embeddingService = { embedText: vi.fn(), embedTexts: vi.fn() };
+
+    beforeAll(async () => {
+        adapter = new SqlJsDatabaseAdapter(createMockPlugin(), new VectorUtils(mockLogger as any), mockLogger as any);
+        await adapter.initialize();
+
+        const random = createRandom(42);
+        const centers = Array.from({ length: CLUSTER_COUNT }, () =>
+            Array.from({ length: DIMENSIONS }, () => gaussian(random))
+        );
+
+        // Bulk-load notes and vectors directly; saving after each insert would dominate the runtime
+        for (let i = 0; i < VECTOR_COUNT; i++) {
+            const vector = VectorUtils.processVector(perturb(centers[i % CLUSTER_COUNT], 0.6, random));
+            await adapter.execute(
+                'INSERT INTO notes (id, path, name, base_name, text) VALUES (?, ?, ?, ?, ?)',
+                [`note-${i}`, `note-${i}.md`, `note-${i}.md`, `note-${i}`, `Note ${i}`]
+            );
+            await adapter.execute(
+                'INSERT INTO vectors (id, note_id, type, vector) VALUES (?, ?, ?, ?)',
+                [`vector-${i}`, `note-${i}`, 'note', vector as unknown as Uint8Array]
+            );
+        }
+
+        queries = Array.from({ length: QUERY_COUNT }, (_, i) =>
+            VectorUtils.processVector(perturb(centers[(i * 7) % CLUSTER_COUNT], 0.6, random))
+        );
+
+        searchService = new SearchService(
+            new DatabaseService(adapter, mockLogger as any),
+            embeddingService as any,
+            mockLogger as any
+        );
+    }, 60000);
+
+    async function measureRecall(buildOptions: Partial<LSHIndexOptions>, searchOptions: Partial<LSHIndexOptions>): Promise<number> {
+        await adapter.generateVectorIndex(DIMENSIONS, buildOptions);
+
+        let found = 0;
+        for (const query of queries) {
+            embeddingService.embedText.mockResolvedValue(query);
+            const options = { topK: TOP_K, includeBlockVectors: false };
+
+            const exact = await searchService.vectorSearch('query', { ...options, useVectorIndex: false });
+            const approximate = await searchService.vectorSearch('query', {
+                ...options,
+                useVectorIndex: true,
+                indexOptions: searchOptions
+            });
+
+            const approximateIds = new Set(approximate.map(result => result.noteId));
+            found += exact.filter(result => approximateIds.has(result.noteId)).length;
+        }
+
+        return found / (queries.length * TOP_K);
+    }
+
+    it('reaches high recall@10 with the default multi-table, multi-probe configuration', async () => {
+        const recall = await measureRecall({}, {});
+
+        expect(recall).toBeGreaterThanOrEqual(0.8);
+    }, 60000);
+
+    it('recovers neighbours a single exact-bucket table misses', async () => {
+        const singleTableRecall = await measureRecall(
+            { numTables: 1 },
+            { probesPerTable: 1, candidateMultiplier: 1 }
+        );
+        const multiTableRecall = await measureRecall(
+            { numTables: 8 },
+            { probesPerTable: 8, candidateMultiplier: 10 }
+        );
+
+        expect(multiTableRecall).toBeGreaterThan(singleTableRecall);
+    }, 60000);
+
+    it('stores one hash function per table and bit, and one bucket row per table and vector', async () => {
+        await adapter.generateVectorIndex(DIMENSIONS, { numTables: 4, bitsPerTable: 6 });
+
+        const config = await lshIndex().getLSHConfig();
+        const hashFunctions = await adapter.get('SELECT COUNT(*) as count FROM lsh_hash_functions');
+        const buckets = await adapter.get('SELECT COUNT(*) as count FROM lsh_buckets');
+
+        expect(config?.num_tables).toBe(4);
+        expect(config?.num_hash_functions).toBe(6);
+        expect(hashFunctions?.count).toBe(4 * 6);
+        expect(buckets?.count).toBe(4 * VECTOR_COUNT);
+    }, 60000);
+});